@@ -0,0 +1,142 @@
+/**
+ * expect() matchers: deep equality, subsets, properties, numbers, regex, async, and the diff printed on failure.
+ *
+ * Run: npx cstesting example/assertions.test.js
+ */
+
+const path = require('path');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect, AssertionError } = cstesting;
+const { diffValues, formatValue } = require(path.join(__dirname, '..', 'dist', 'diff'));
+
+/** The AssertionError the assertion throws. */
+function failureOf(assertion) {
+  try {
+    assertion();
+  } catch (err) {
+    expect(err).toBeInstanceOf(AssertionError);
+    return err;
+  }
+  throw new Error('Expected the assertion to fail');
+}
+
+class Point {
+  constructor(x, y) {
+    this.x = x;
+    this.y = y;
+  }
+}
+
+describe('Deep equality', () => {
+  it('compares nested objects, arrays, Maps, Sets and Dates by value', () => {
+    expect({ a: [1, { b: 2 }], c: 'x' }).toEqual({ c: 'x', a: [1, { b: 2 }] });
+    expect(new Map([[{ id: 1 }, 'one']])).toEqual(new Map([[{ id: 1 }, 'one']]));
+    expect(new Set([1, [2]])).toEqual(new Set([[2], 1]));
+    expect(new Date(0)).toEqual(new Date(0));
+    expect(Buffer.from('ab')).toEqual(Buffer.from('ab'));
+    expect({ a: 1 }).not.toEqual({ a: 2 });
+    expect([1, 2]).not.toEqual([1, 2, 3]);
+  });
+
+  it('ignores undefined properties and classes in toEqual but not in toStrictEqual', () => {
+    expect({ a: 1, b: undefined }).toEqual({ a: 1 });
+    expect(new Point(1, 2)).toEqual({ x: 1, y: 2 });
+    expect({ a: 1, b: undefined }).not.toStrictEqual({ a: 1 });
+    expect(new Point(1, 2)).not.toStrictEqual({ x: 1, y: 2 });
+    expect([, 1]).not.toStrictEqual([undefined, 1]);
+    expect(new Point(1, 2)).toStrictEqual(new Point(1, 2));
+  });
+
+  it('handles circular references', () => {
+    const a = { name: 'a' };
+    a.self = a;
+    const b = { name: 'a' };
+    b.self = b;
+    expect(a).toEqual(b);
+  });
+
+  it('treats NaN as equal to itself and +0 as different from -0 in toBe', () => {
+    expect(NaN).toBe(NaN);
+    expect([NaN]).toEqual([NaN]);
+    expect(0).not.toBe(-0);
+  });
+});
+
+describe('Object, number, string and async matchers', () => {
+  it('toMatchObject checks a subset recursively', () => {
+    expect({ id: 1, user: { name: 'Ada', role: 'admin' }, tags: ['a'] }).toMatchObject({ user: { name: 'Ada' }, tags: ['a'] });
+    expect({ user: { name: 'Ada' } }).not.toMatchObject({ user: { name: 'Bob' } });
+    expect({ tags: ['a', 'b'] }).not.toMatchObject({ tags: ['a'] });
+  });
+
+  it('toHaveProperty follows dotted and bracket paths', () => {
+    const order = { items: [{ sku: 'X1', qty: 2 }] };
+    expect(order).toHaveProperty('items[0].sku', 'X1');
+    expect(order).toHaveProperty(['items', 0, 'qty'], 2);
+    expect(order).not.toHaveProperty('items[1]');
+  });
+
+  it('compares numbers and matches strings', () => {
+    expect(0.1 + 0.2).toBeCloseTo(0.3);
+    expect(5).toBeGreaterThan(4);
+    expect(5).toBeLessThanOrEqual(5);
+    expect('order #1234 placed').toMatch(/#\d+/);
+    expect('order #1234 placed').toMatch('placed');
+    expect([1, 2, 3]).toContain(2);
+    expect('abc').toHaveLength(3);
+  });
+
+  it('toThrow matches the thrown message, and .not.toThrow(message) only fails on that message', () => {
+    const boom = () => {
+      throw new Error('boom: out of stock');
+    };
+    expect(boom).toThrow();
+    expect(boom).toThrow('boom: out of stock');
+    expect(boom).toThrow(/out of stock/);
+    expect(() => {}).not.toThrow();
+    expect(() => {}).not.toThrow('boom');
+    expect(boom).not.toThrow('other error');
+    expect(boom).not.toThrow(/timeout/);
+    expect(failureOf(() => expect(boom).not.toThrow(/stock/)).message).toBe('Expected function not to throw /stock/, got: boom: out of stock');
+    expect(failureOf(() => expect(boom).not.toThrow()).message).toBe('Expected function not to throw');
+    expect(failureOf(() => expect(boom).toThrow('boom')).message).toBe('Expected throw message to match, got: boom: out of stock');
+    expect(failureOf(() => expect(() => {}).toThrow('boom')).message).toBe('Expected function to throw');
+  });
+
+  it('unwraps promises with resolves and rejects', async () => {
+    await expect(Promise.resolve({ ok: true })).resolves.toEqual({ ok: true });
+    await expect(Promise.reject(new Error('boom'))).rejects.toThrow('boom');
+    await expect(Promise.resolve(1)).resolves.not.toBe(2);
+  });
+});
+
+describe('Failure diffs', () => {
+  it('prints a line diff of the changed properties', () => {
+    const diff = diffValues({ name: 'Ada', role: 'admin' }, { name: 'Ada', role: 'user' }, false);
+    expect(diff.split('\n')).toEqual([
+      '- Expected',
+      '+ Actual',
+      '',
+      '  {',
+      '    name: "Ada",',
+      '-   role: "admin",',
+      '+   role: "user",',
+      '  }',
+    ]);
+  });
+
+  it('formats values with sorted keys and class names', () => {
+    expect(formatValue({ b: 1, a: [1] })).toBe(formatValue({ a: [1], b: 1 }));
+    expect(formatValue(new Point(1, 2))).toContain('Point');
+  });
+
+  it('keeps expected and actual on the error for the diff', () => {
+    const error = failureOf(() => expect({ a: 1, b: [1, 2] }).toEqual({ a: 1, b: [1, 3] }));
+    expect(error.message).toBe('Expected { a: 1, b: [ 1, 2 ] } to equal { a: 1, b: [ 1, 3 ] }');
+    expect(error.expected).toEqual({ a: 1, b: [1, 3] });
+    expect(error.actual).toEqual({ a: 1, b: [1, 2] });
+    expect(diffValues(error.expected, error.actual, false)).toContain('-     3,\n+     2,');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Config file parsing: options, test cases and the step syntax (no browser needed).
+ *
+ * Run: npx cstesting example/config-parser.test.js
+ */
+
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect, beforeAll, afterAll, parseConfigFile } = cstesting;
+
+describe('parseConfigFile', () => {
+  let dir;
+
+  /** Parse lines written to a temporary checkout.conf. */
+  function parse(...lines) {
+    const file = path.join(dir, 'checkout.conf');
+    fs.writeFileSync(file, lines.join('\n'));
+    return parseConfigFile(file);
+  }
+
+  /** The steps of a file with one test case. */
+  function steps(...lines) {
+    return parse(...lines).testCases[0].steps;
+  }
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cstesting-config-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads options and splits test cases at # lines', () => {
+    const config = parse(
+      'headed=true',
+      'retries=2',
+      'failOnConsoleError=true',
+      'waitForNetworkIdle=true',
+      'device=iPhone 13',
+      '# Add to cart',
+      'goto:https://shop.test/',
+      'click=#add',
+      '# Pay',
+      'click=#pay',
+    );
+    expect(config).toMatchObject({ name: 'checkout.conf', headless: false, retries: 2, failOnConsoleError: true, waitForNetworkIdle: true, device: 'iPhone 13' });
+    expect(config.testCases.map((t) => t.testCaseName)).toEqual(['Add to cart', 'Pay']);
+    expect(config.testCases[0].steps).toEqual([{ action: 'goto', url: 'https://shop.test/' }, { action: 'click', locator: '#add' }]);
+  });
+
+  it('splits upload at the last "=" so locators may contain one', () => {
+    expect(steps('upload=[name="f"]=a.txt')).toEqual([{ action: 'upload', locator: '[name="f"]', files: ['a.txt'] }]);
+    expect(steps('upload=#docs=a.pdf, b.pdf')).toEqual([{ action: 'upload', locator: '#docs', files: ['a.pdf', 'b.pdf'] }]);
+  });
+
+  it('parses expectDownload and key presses', () => {
+    expect(steps('expectDownload=report 2026.pdf', 'press=Control+Shift+a', 'press=Control++')).toEqual([
+      { action: 'expectDownload', filename: 'report 2026.pdf' },
+      { action: 'press', key: 'Control+Shift+a' },
+      { action: 'press', key: 'Control++' },
+    ]);
+  });
+
+  it('reads gesture arguments from the end so locators may contain spaces', () => {
+    expect(steps('swipe=.gallery .photo left 200', 'swipe=.list up', 'pinch=#map 0.5', 'longPress=.message item', 'longPress=.message 1200')).toEqual([
+      { action: 'swipe', locator: '.gallery .photo', direction: 'left', distance: 200 },
+      { action: 'swipe', locator: '.list', direction: 'up' },
+      { action: 'pinch', locator: '#map', scale: 0.5 },
+      { action: 'longPress', locator: '.message item' },
+      { action: 'longPress', locator: '.message', ms: 1200 },
+    ]);
+  });
+
+  it('parses typing, network waits, screenshots and drag and drop', () => {
+    expect(steps(
+      'name:[name="userName"]=value:mercury',
+      'waitForResponse=**/api/cart timeout=5000',
+      'assertScreenshot=cart element=#cart maxDiffPixels=10 threshold=0.2',
+      'dragAndDrop=#item=#basket',
+      'wait:2',
+    )).toEqual([
+      { action: 'type', label: 'name', locator: '[name="userName"]', value: 'mercury' },
+      { action: 'waitForResponse', url: '**/api/cart', timeout: 5000 },
+      { action: 'assertScreenshot', name: 'cart', element: '#cart', maxDiffPixels: 10, threshold: 0.2 },
+      { action: 'dragAndDrop', sourceLocator: '#item', locator: '#basket' },
+      { action: 'wait', ms: 2000 },
+    ]);
+  });
+});
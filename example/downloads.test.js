@@ -0,0 +1,90 @@
+/**
+ * Downloads in the browser's default context and in a context from newContext(), served by a local HTTP server.
+ *
+ * Run: npx cstesting example/downloads.test.js
+ * Requires: Chrome or Chromium installed.
+ */
+
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const http = require('http');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect, beforeAll, afterAll, afterEach } = cstesting;
+
+/** Page with a link to a text file served as an attachment. */
+function startServer() {
+  const server = http.createServer((req, res) => {
+    if (req.url === '/report.txt') {
+      res.writeHead(200, { 'Content-Type': 'text/plain', 'Content-Disposition': 'attachment; filename="report.txt"' });
+      res.end('quarterly numbers');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end('<a id="export" href="/report.txt">Export</a>');
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('Downloads', () => {
+  let server;
+  let baseUrl;
+  let browser;
+  let outDir;
+
+  beforeAll(async () => {
+    server = await startServer();
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cstesting-downloads-test-'));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    if (browser) await browser.close();
+    browser = undefined;
+  });
+
+  it('saves a download of the default context', async () => {
+    browser = await cstesting.createBrowser({ headless: true });
+    await browser.goto(baseUrl);
+    const download = browser.waitForDownload();
+    await browser.click('#export');
+    const file = await download;
+    expect(file.suggestedFilename).toBe('report.txt');
+    await file.saveAs(path.join(outDir, 'default.txt'));
+    expect(fs.readFileSync(path.join(outDir, 'default.txt'), 'utf8')).toBe('quarterly numbers');
+  });
+
+  it('tracks downloads of a page in newContext()', async () => {
+    browser = await cstesting.createBrowser({ headless: true });
+    const context = await browser.newContext();
+    try {
+      await context.goto(baseUrl);
+      const download = context.waitForDownload({ timeout: 10000 });
+      await context.click('#export');
+      const file = await download;
+      expect(file.suggestedFilename).toBe('report.txt');
+      expect(fs.readFileSync(await file.path(), 'utf8')).toBe('quarterly numbers');
+    } finally {
+      await context.close();
+    }
+  });
+
+  it('removes the temporary download directory on close', async () => {
+    browser = await cstesting.createBrowser({ headless: true });
+    await browser.goto(baseUrl);
+    const download = browser.waitForDownload();
+    await browser.click('#export');
+    const tempFile = await (await download).path();
+    expect(fs.existsSync(tempFile)).toBe(true);
+    await browser.close();
+    browser = undefined;
+    expect(fs.existsSync(path.dirname(tempFile))).toBe(false);
+  });
+});
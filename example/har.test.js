@@ -0,0 +1,79 @@
+/**
+ * HAR entries built from recorded requests (toHarEntry) and per-test HAR file names (no browser needed).
+ *
+ * Run: npx cstesting example/har.test.js
+ */
+
+const path = require('path');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect } = cstesting;
+const { toHarEntry, testHarPath } = require(path.join(__dirname, '..', 'dist', 'browser', 'har-recorder'));
+
+const timings = { blocked: 1, dns: -1, connect: -1, ssl: -1, send: 2, wait: 30, receive: 5 };
+
+function exchange(overrides = {}) {
+  return {
+    startedDateTime: new Date('2026-01-02T03:04:05.000Z'),
+    method: 'GET',
+    url: 'https://shop.test/api/items?page=2&sort=name',
+    requestHeaders: { Accept: 'application/json' },
+    response: { status: 200, statusText: 'OK', headers: { 'Content-Type': 'application/json', 'Set-Cookie': 'a=1\nb=2' }, mimeType: 'application/json' },
+    body: Buffer.from('{"items":[]}'),
+    transferSize: 120,
+    timings,
+    ...overrides,
+  };
+}
+
+describe('toHarEntry', () => {
+  it('maps request, response, query string and timings', () => {
+    const entry = toHarEntry(exchange());
+    expect(entry.startedDateTime).toBe('2026-01-02T03:04:05.000Z');
+    expect(entry.time).toBe(38);
+    expect(entry.request).toMatchObject({
+      method: 'GET',
+      url: 'https://shop.test/api/items?page=2&sort=name',
+      queryString: [{ name: 'page', value: '2' }, { name: 'sort', value: 'name' }],
+      bodySize: 0,
+    });
+    expect(entry.response).toMatchObject({ status: 200, statusText: 'OK', bodySize: 120 });
+    expect(entry.response.content).toEqual({ size: 12, mimeType: 'application/json', text: '{"items":[]}' });
+    expect(entry.timings).toEqual(timings);
+  });
+
+  it('splits headers CDP joined with newlines', () => {
+    const headers = toHarEntry(exchange()).response.headers.filter((h) => h.name === 'Set-Cookie');
+    expect(headers).toEqual([{ name: 'Set-Cookie', value: 'a=1' }, { name: 'Set-Cookie', value: 'b=2' }]);
+  });
+
+  it('stores binary bodies as base64 and leaves out bodies over maxBodySize', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    const binary = toHarEntry(exchange({ response: { status: 200, statusText: 'OK', headers: {}, mimeType: 'image/png' }, body: png }));
+    expect(binary.response.content).toMatchObject({ text: png.toString('base64'), encoding: 'base64' });
+    const large = toHarEntry(exchange(), 4);
+    expect(large.response.content.text).toBeUndefined();
+    expect(large.response.content.comment).toMatch(/not recorded \(maxBodySize 4\)/);
+  });
+
+  it('records the post data with its content type', () => {
+    const entry = toHarEntry(exchange({ method: 'POST', requestHeaders: { 'content-type': 'application/json' }, postData: '{"q":"ü"}' }));
+    expect(entry.request.postData).toEqual({ mimeType: 'application/json', text: '{"q":"ü"}' });
+    expect(entry.request.bodySize).toBe(10);
+  });
+
+  it('keeps failed requests without a response', () => {
+    const entry = toHarEntry(exchange({ response: undefined, body: undefined, errorText: 'net::ERR_CONNECTION_REFUSED' }));
+    expect(entry.response).toMatchObject({ status: 0, comment: 'net::ERR_CONNECTION_REFUSED' });
+  });
+});
+
+describe('Per-test HAR files', () => {
+  it('gives tests whose names differ only in punctuation different files', () => {
+    const a = testHarPath('cart.test.js > Cart > adds 1/2 item');
+    const b = testHarPath('cart.test.js > Cart > adds 1 2 item');
+    expect(a).not.toBe(b);
+    expect(path.basename(a)).toMatch(/^cart.test.js-Cart-adds-1-2-item-[0-9a-f]{8}\.har$/);
+  });
+});
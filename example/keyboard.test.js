@@ -0,0 +1,78 @@
+/**
+ * Keyboard key table and combinations, checked against the CDP key events they send (no browser needed).
+ *
+ * Run: npx cstesting example/keyboard.test.js
+ */
+
+const path = require('path');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect } = cstesting;
+const { createKeyboard } = require(path.join(__dirname, '..', 'dist', 'browser', 'keyboard'));
+
+/** Keyboard on a fake client that records every Input.dispatchKeyEvent. */
+function recordingKeyboard() {
+  const events = [];
+  const client = { Input: { dispatchKeyEvent: async (e) => { events.push(e); }, insertText: async (e) => { events.push({ type: 'insertText', ...e }); } } };
+  return { keyboard: createKeyboard(client), events };
+}
+
+describe('Keyboard', () => {
+  it('sends key, code, keyCode and text from the key table', async () => {
+    const { keyboard, events } = recordingKeyboard();
+    await keyboard.press('Enter');
+    expect(events[0]).toMatchObject({ type: 'keyDown', key: 'Enter', code: 'Enter', windowsVirtualKeyCode: 13, text: '\r' });
+    expect(events[1]).toMatchObject({ type: 'keyUp', key: 'Enter' });
+    await keyboard.press('ArrowDown');
+    expect(events[2]).toMatchObject({ type: 'rawKeyDown', key: 'ArrowDown', code: 'ArrowDown', windowsVirtualKeyCode: 40 });
+  });
+
+  it('presses modifiers in order and releases them in reverse', async () => {
+    const { keyboard, events } = recordingKeyboard();
+    await keyboard.press('Control+Shift+a');
+    expect(events.map((e) => `${e.type} ${e.key}`)).toEqual([
+      'rawKeyDown Control',
+      'rawKeyDown Shift',
+      'rawKeyDown A',
+      'keyUp A',
+      'keyUp Shift',
+      'keyUp Control',
+    ]);
+    expect(events[2].modifiers).toBe(2 | 8);
+    expect(events[2].text).toBeUndefined();
+  });
+
+  it('sends the unshifted letter for a shortcut without Shift', async () => {
+    const { keyboard, events } = recordingKeyboard();
+    await keyboard.press('Control+A');
+    expect(events[1]).toMatchObject({ type: 'rawKeyDown', key: 'a', code: 'KeyA', windowsVirtualKeyCode: 65, modifiers: 2 });
+    expect(events[2]).toMatchObject({ type: 'keyUp', key: 'a' });
+  });
+
+  it('types the shifted character with Shift held', async () => {
+    const { keyboard, events } = recordingKeyboard();
+    await keyboard.press('Shift+1');
+    expect(events[1]).toMatchObject({ type: 'keyDown', key: '!', code: 'Digit1', text: '!' });
+  });
+
+  it('reads a trailing "++" as the plus key', async () => {
+    const { keyboard, events } = recordingKeyboard();
+    await keyboard.press('Control++');
+    expect(events[1]).toMatchObject({ key: '+', code: 'Equal' });
+  });
+
+  it('rejects unknown keys and empty parts of a combination', async () => {
+    const { keyboard, events } = recordingKeyboard();
+    await expect(keyboard.press('Control+Foo')).rejects.toThrow(/^Unknown key: "Foo"/);
+    await expect(keyboard.press('Control++A')).rejects.toThrow(/^Invalid key combination/);
+    expect(events).toHaveLength(0);
+  });
+
+  it('inserts characters that have no key', async () => {
+    const { keyboard, events } = recordingKeyboard();
+    await keyboard.type('aé');
+    expect(events.map((e) => e.type)).toEqual(['keyDown', 'keyUp', 'insertText']);
+    expect(events[2].text).toBe('é');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Worker results: errors, assertion values, attempts and attachments sent from a --workers process to the parent,
+ * and a --workers run of two files (no browser needed).
+ *
+ * Run: npx cstesting example/parallel.test.js
+ */
+
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const { spawnSync } = require('child_process');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect, AssertionError } = cstesting;
+const { serializeError, deserializeError, serializeRunResult, deserializeRunResult, emptyResult } = require(path.join(__dirname, '..', 'dist', 'parallel'));
+
+const CLI = path.join(__dirname, '..', 'dist', 'cli.js');
+const PACKAGE = path.join(__dirname, '..');
+
+/** What the parent receives: workers use 'advanced' IPC serialization, i.e. structured cloning. */
+function overIpc(value) {
+  return structuredClone(value);
+}
+
+describe('Worker result serialization', () => {
+  it('keeps AssertionError values that structured cloning supports', () => {
+    const error = new AssertionError('Expected maps to be equal', new Map([['a', new Date(0)]]), new Set([1n]));
+    error.images = { expected: '/r/a.png', actual: '/r/b.png', diff: '/r/c.png' };
+    const copy = deserializeError(overIpc(serializeError(error)));
+    expect(copy).toBeInstanceOf(AssertionError);
+    expect(copy.message).toBe('Expected maps to be equal');
+    expect(copy.expected).toEqual(new Map([['a', new Date(0)]]));
+    expect(copy.actual).toEqual(new Set([1n]));
+    expect(copy.images).toEqual(error.images);
+    expect(copy.stack).toBe(error.stack);
+  });
+
+  it('sends values that cannot be cloned as their formatted text', () => {
+    const error = new AssertionError('Expected a callback', { onDone: () => {} }, undefined);
+    const copy = deserializeError(overIpc(serializeError(error)));
+    expect(typeof copy.expected).toBe('string');
+    expect(copy.expected).toContain('onDone');
+  });
+
+  it('keeps the name of other errors', () => {
+    const copy = deserializeError(overIpc(serializeError(new TypeError('x is not a function'))));
+    expect(copy).toBeInstanceOf(Error);
+    expect(copy.name).toBe('TypeError');
+    expect(copy.message).toBe('x is not a function');
+  });
+
+  it('round-trips errors, attempts and attachments of a run result', () => {
+    const attachment = { name: 'payload', contentType: 'application/json', path: '/r/attachments/a.json' };
+    const result = emptyResult();
+    result.failed = 1;
+    result.passed = 1;
+    result.flaky = 1;
+    result.errors.push({
+      suite: 'root > Cart',
+      test: 'pays',
+      error: new AssertionError('Expected 2 to be 3', 3, 2),
+      attachments: [attachment],
+      attempts: [{ error: new Error('first'), duration: 3, steps: ['Test case started'] }, { error: new AssertionError('Expected 2 to be 3', 3, 2), duration: 4, steps: ['Retry #1'] }],
+    });
+    result.passedTests.push({
+      suite: 'root > Cart',
+      test: 'adds',
+      duration: 5,
+      steps: [],
+      attachments: [attachment],
+      attempts: [{ error: new Error('flaky'), duration: 1, steps: [] }, { duration: 2, steps: [] }],
+    });
+
+    const copy = deserializeRunResult(overIpc(serializeRunResult(result)));
+    expect(copy).toMatchObject({ passed: 1, failed: 1, flaky: 1 });
+    const [failed] = copy.errors;
+    expect(failed.error).toBeInstanceOf(AssertionError);
+    expect(failed.error.expected).toBe(3);
+    expect(failed.attachments).toEqual([attachment]);
+    expect(failed.attempts.map((a) => a.error.message)).toEqual(['first', 'Expected 2 to be 3']);
+    expect(failed.attempts[1].error).toBeInstanceOf(AssertionError);
+    expect(copy.passedTests[0].attachments).toEqual([attachment]);
+    expect(copy.passedTests[0].attempts[0].error).toBeInstanceOf(Error);
+    expect(copy.passedTests[0].attempts[1].error).toBeUndefined();
+  });
+});
+
+describe('--workers', () => {
+  it('merges the results, errors and attachments of files run in workers', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cstesting-workers-test-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'a.test.js'), `
+const { it, expect, attach } = require(${JSON.stringify(PACKAGE)});
+it('attaches and fails', () => {
+  attach('payload', Buffer.from('{"ok":false}'), 'application/json');
+  expect(new Map([['qty', 1]])).toEqual(new Map([['qty', 2]]));
+});
+`);
+      fs.writeFileSync(path.join(dir, 'b.test.js'), `
+const { it } = require(${JSON.stringify(PACKAGE)});
+it('passes', () => {});
+`);
+      const result = spawnSync(process.execPath, [CLI, '.', '--workers', '2', '--reporter', 'json'], {
+        cwd: dir,
+        env: { ...process.env, CI: 'false' },
+        encoding: 'utf8',
+        timeout: 60000,
+      });
+      expect(result.status).toBe(1);
+      const json = JSON.parse(fs.readFileSync(path.join(dir, 'report', 'results.json'), 'utf8'));
+      expect(json).toMatchObject({ passed: 1, failed: 1, total: 2 });
+      const [failed] = json.errors;
+      expect(failed).toMatchObject({ file: 'a.test.js', test: 'attaches and fails' });
+      expect(failed.error.name).toBe('AssertionError');
+      expect(failed.attachments).toHaveLength(1);
+      expect(fs.readFileSync(failed.attachments[0].path, 'utf8')).toBe('{"ok":false}');
+      expect(json.passedTests[0]).toMatchObject({ file: 'b.test.js', test: 'passes' });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * PNG decoding/encoding and the pixel diff behind toHaveScreenshot (no browser needed).
+ *
+ * Run: npx cstesting example/png.test.js
+ */
+
+const path = require('path');
+const zlib = require('zlib');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect } = cstesting;
+const { decodePng, encodePng } = require(path.join(__dirname, '..', 'dist', 'png'));
+const { diffImages } = require(path.join(__dirname, '..', 'dist', 'image-snapshot'));
+const { crc32 } = require(path.join(__dirname, '..', 'dist', 'crc32'));
+
+function chunk(type, data) {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+/** PNG from unfiltered scanlines (each row gets filter byte 0). */
+function buildPng({ width, height, bitDepth, colorType, rows, palette }) {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = bitDepth;
+  ihdr[9] = colorType;
+  const raw = Buffer.concat(rows.map((row) => Buffer.from([0, ...row])));
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    ...(palette ? [chunk('PLTE', Buffer.from(palette))] : []),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+const pixel = (image, x, y) => Array.from(image.data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+
+function solid(width, height, rgba) {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { width, height, data };
+}
+
+describe('PNG', () => {
+  it('decodes what it encodes', () => {
+    const image = solid(3, 2, [10, 20, 30, 200]);
+    image.data.set([255, 0, 0, 255], 4 * 4);
+    const decoded = decodePng(encodePng(image));
+    expect(decoded.width).toBe(3);
+    expect(decoded.height).toBe(2);
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+  });
+
+  it('unpacks 1-bit grayscale rows', () => {
+    // 10 pixels: 1010000011 → two bytes per row, the last 6 bits are padding
+    const png = buildPng({ width: 10, height: 1, bitDepth: 1, colorType: 0, rows: [[0b10100000, 0b11000000]] });
+    const image = decodePng(png);
+    expect(pixel(image, 0, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(image, 1, 0)).toEqual([0, 0, 0, 255]);
+    expect(pixel(image, 2, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(image, 8, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(image, 9, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('unpacks 2-bit palette rows', () => {
+    const palette = [0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255];
+    const png = buildPng({ width: 3, height: 2, bitDepth: 2, colorType: 3, palette, rows: [[0b00011000], [0b10010000]] });
+    const image = decodePng(png);
+    expect(pixel(image, 0, 0)).toEqual([0, 0, 0, 255]);
+    expect(pixel(image, 1, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(image, 2, 0)).toEqual([0, 255, 0, 255]);
+    expect(pixel(image, 0, 1)).toEqual([0, 255, 0, 255]);
+    expect(pixel(image, 1, 1)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('scales 4-bit gray levels to 0-255', () => {
+    const png = buildPng({ width: 2, height: 1, bitDepth: 4, colorType: 0, rows: [[0x5f]] });
+    const image = decodePng(png);
+    expect(pixel(image, 0, 0)).toEqual([85, 85, 85, 255]);
+    expect(pixel(image, 1, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('names the bit depth it cannot read', () => {
+    const png = buildPng({ width: 1, height: 1, bitDepth: 4, colorType: 2, rows: [[0, 0]] });
+    expect(() => decodePng(png)).toThrow('Unsupported bit depth 4 for PNG color type 2');
+    expect(() => decodePng(Buffer.from('not a png'))).toThrow('Not a PNG image');
+  });
+});
+
+describe('Pixel diff', () => {
+  it('counts no pixels for identical images', () => {
+    const { diffPixels, diff } = diffImages(solid(4, 4, [0, 0, 255, 255]), solid(4, 4, [0, 0, 255, 255]));
+    expect(diffPixels).toBe(0);
+    expect(diff.width).toBe(4);
+  });
+
+  it('marks changed pixels in red and ignores changes under the threshold', () => {
+    const expected = solid(2, 2, [200, 200, 200, 255]);
+    const actual = solid(2, 2, [201, 200, 200, 255]);
+    actual.data.set([0, 0, 0, 255], 3 * 4);
+    const { diffPixels, diff } = diffImages(expected, actual);
+    expect(diffPixels).toBe(1);
+    expect(pixel(diff, 1, 1)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('counts pixels outside the smaller image as different', () => {
+    const { diffPixels, diff } = diffImages(solid(2, 2, [0, 0, 0, 255]), solid(3, 2, [0, 0, 0, 255]));
+    expect(diffPixels).toBe(2);
+    expect(diff.width).toBe(3);
+  });
+});
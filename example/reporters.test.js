@@ -0,0 +1,74 @@
+/**
+ * The JSON and JUnit reporters on results with assertion errors (no browser needed).
+ *
+ * Run: npx cstesting example/reporters.test.js
+ */
+
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect, writeReports } = cstesting;
+const { generateJsonReport, generateJUnitReport } = require(path.join(__dirname, '..', 'dist', 'reporters'));
+const { emptyResult } = require(path.join(__dirname, '..', 'dist', 'parallel'));
+
+/** The AssertionError the assertion throws. */
+function failureOf(assertion) {
+  try {
+    assertion();
+  } catch (err) {
+    return err;
+  }
+  throw new Error('Expected the assertion to fail');
+}
+
+/** A run with one failed test per error. */
+function resultWith(...errors) {
+  const result = emptyResult();
+  for (const [i, error] of errors.entries()) {
+    result.errors.push({ suite: 'Cart', test: `test ${i + 1}`, error, attempts: [{ status: 'failed', duration: 1, error }] });
+  }
+  result.failed = result.total = errors.length;
+  return result;
+}
+
+describe('JSON reporter', () => {
+  it('keeps plain expected and actual values as JSON', () => {
+    const error = failureOf(() => expect({ qty: 1 }).toEqual({ qty: 2 }));
+    const json = JSON.parse(generateJsonReport(resultWith(error)));
+    expect(json.errors[0].error).toMatchObject({ name: 'AssertionError', expected: { qty: 2 }, actual: { qty: 1 } });
+  });
+
+  it('writes BigInt and circular values as their formatted text', () => {
+    const bigint = failureOf(() => expect(1n).toBe(2n));
+    const self = { name: 'a' };
+    self.self = self;
+    const circular = failureOf(() => expect(self).toEqual({ name: 'b' }));
+    const json = JSON.parse(generateJsonReport(resultWith(bigint, circular)));
+    expect(json.errors[0].error).toMatchObject({ expected: '2n', actual: '1n' });
+    expect(json.errors[1].error.actual).toContain('[Circular]');
+    expect(json.errors[1].error.expected).toEqual({ name: 'b' });
+    expect(json.errors[0].attempts[0].error.expected).toBe('2n');
+  });
+
+  it('writes results.json to the report directory', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cstesting-reporters-test-'));
+    try {
+      const [file] = writeReports(resultWith(failureOf(() => expect(1n).toBe(2n))), ['json'], { reportDir: dir });
+      expect(file).toBe(path.join(dir, 'results.json'));
+      expect(JSON.parse(fs.readFileSync(file, 'utf8')).failed).toBe(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('JUnit reporter', () => {
+  it('writes a failure element per failed test', () => {
+    const xml = generateJUnitReport(resultWith(failureOf(() => expect(1n).toBe(2n))));
+    expect(xml).toContain('<testcase name="test 1" classname="Cart"');
+    expect(xml).toMatch(/<failure message="[^"]*" type="AssertionError">/);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Retries: attempt counting, the attempt history and the flaky tally, with per-test, describe-level and --retries
+ * settings. Runs the CLI on a test file in a temporary directory (no browser needed).
+ *
+ * Run: npx cstesting example/retries.test.js
+ */
+
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const { spawnSync } = require('child_process');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect, beforeAll, afterAll } = cstesting;
+
+const CLI = path.join(__dirname, '..', 'dist', 'cli.js');
+const PACKAGE = path.join(__dirname, '..');
+
+const TEST_FILE = `
+const { describe, it, expect } = require(${JSON.stringify(PACKAGE)});
+const runs = {};
+/** Fails the first n runs of the named test. */
+const failFirst = (name, n) => () => {
+  runs[name] = (runs[name] ?? 0) + 1;
+  if (runs[name] <= n) throw new Error(name + ' failed on run ' + runs[name]);
+};
+
+describe('Per test', () => {
+  it('passes on the third attempt', { retries: 2 }, failFirst('third', 2));
+  it('runs out of retries', { retries: 1 }, failFirst('always', 10));
+  it('passes first time', { retries: 3 }, failFirst('first', 0));
+  it('no retries without --retries', failFirst('none', 1));
+});
+
+describe('Suite retries', { retries: 1 }, () => {
+  it('passes on the second attempt', failFirst('suite', 1));
+  it('own retries win', { retries: 0 }, failFirst('own', 1));
+});
+`;
+
+/** Run the test file with extra CLI args; returns results.json. */
+function runFile(dir, ...args) {
+  const result = spawnSync(process.execPath, [CLI, 'retries.test.js', '--reporter', 'json', ...args], {
+    cwd: dir,
+    env: { ...process.env, CI: 'false' },
+    encoding: 'utf8',
+    timeout: 60000,
+  });
+  expect(result.status).toBe(1);
+  return JSON.parse(fs.readFileSync(path.join(dir, 'report', 'results.json'), 'utf8'));
+}
+
+describe('Retries', () => {
+  let dir;
+  let json;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cstesting-retries-test-'));
+    fs.writeFileSync(path.join(dir, 'retries.test.js'), TEST_FILE);
+    json = runFile(dir);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function entry(test) {
+    return [...json.passedTests, ...json.errors].find((e) => e.test === test);
+  }
+
+  it('retries until the test passes and keeps every attempt', () => {
+    const { attempts } = entry('passes on the third attempt');
+    expect(attempts.map((a) => a.error?.message)).toEqual(['third failed on run 1', 'third failed on run 2', undefined]);
+    expect(attempts.map((a) => a.steps[0])).toEqual(['Test case started', 'Retry #1', 'Retry #2']);
+  });
+
+  it('stops after the last retry and reports its error', () => {
+    const failed = json.errors.find((e) => e.test === 'runs out of retries');
+    expect(failed.attempts).toHaveLength(2);
+    expect(failed.error.message).toBe('always failed on run 2');
+  });
+
+  it('has no attempt history for a test that passes first time', () => {
+    expect(entry('passes first time').attempts).toBeUndefined();
+  });
+
+  it('applies describe-level retries unless the test sets its own', () => {
+    expect(entry('passes on the second attempt').attempts).toHaveLength(2);
+    expect(json.errors.some((e) => e.test === 'own retries win')).toBe(true);
+    expect(entry('own retries win').attempts).toBeUndefined();
+  });
+
+  it('counts tests that passed after a retry as flaky (and passed)', () => {
+    expect(json).toMatchObject({ passed: 3, failed: 3, flaky: 2, total: 6 });
+  });
+
+  it('uses --retries for tests without their own setting', () => {
+    const withRetries = runFile(dir, '--retries', '1');
+    expect(withRetries.passedTests.some((t) => t.test === 'no retries without --retries')).toBe(true);
+    expect(withRetries).toMatchObject({ passed: 4, failed: 2, flaky: 3 });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Snapshot files: written on the first run, read back on the next, and a malformed .snap file failing only
+ * the tests that use it. Runs the CLI on test files in a temporary directory (no browser needed).
+ *
+ * Run: npx cstesting example/snapshot.test.js
+ */
+
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const { spawnSync } = require('child_process');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect, beforeEach, afterEach } = cstesting;
+const { serializeSnapshot } = require(path.join(__dirname, '..', 'dist', 'snapshot'));
+
+const CLI = path.join(__dirname, '..', 'dist', 'cli.js');
+const PACKAGE = path.join(__dirname, '..');
+
+/** Run the CLI in dir (outside CI mode unless --ci is passed); returns its exit code and output. */
+function runCli(dir, ...args) {
+  const env = { ...process.env, CI: 'false' };
+  const result = spawnSync(process.execPath, [CLI, 'snap.test.js', ...args], { cwd: dir, env, encoding: 'utf8', timeout: 60000 });
+  return { status: result.status, output: result.stdout + result.stderr };
+}
+
+const TEST_FILE = `
+const { describe, it, expect } = require(${JSON.stringify(PACKAGE)});
+describe('user', () => {
+  it('object', () => {
+    expect({ name: 'Ada', tags: ['a', 'b'], nested: { ok: true } }).toMatchSnapshot();
+  });
+  it('text', () => {
+    expect('line 1\\nline \`2\` \${x}').toMatchSnapshot();
+  });
+  it('no snapshot', () => {
+    expect(1).toBe(1);
+  });
+});
+`;
+
+describe('Snapshot files', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cstesting-snapshot-test-'));
+    fs.writeFileSync(path.join(dir, 'snap.test.js'), TEST_FILE);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serializes strings as-is and other values like assertion diffs', () => {
+    expect(serializeSnapshot('plain <b>text</b>')).toBe('plain <b>text</b>');
+    expect(serializeSnapshot({ a: 1 })).toContain('a: 1');
+    expect(serializeSnapshot([1, 2])).toContain('1');
+  });
+
+  it('writes snapshots on the first run and matches them on the next', () => {
+    const first = runCli(dir);
+    expect(first.status).toBe(0);
+    const snapPath = path.join(dir, '__snapshots__', 'snap.test.js.snap');
+    const written = fs.readFileSync(snapPath, 'utf8');
+    expect(written).toContain('exports[`root > user > object 1`]');
+    expect(written).toContain('line \\`2\\` \\${x}');
+
+    const second = runCli(dir, '--ci');
+    expect(second.status).toBe(0);
+    expect(fs.readFileSync(snapPath, 'utf8')).toBe(written);
+  });
+
+  it('fails only the tests that use a malformed snapshot file, naming the file', () => {
+    const snapPath = path.join(dir, '__snapshots__', 'snap.test.js.snap');
+    fs.mkdirSync(path.dirname(snapPath));
+    fs.writeFileSync(snapPath, 'exports[`root > user > object 1`] = `\n{ broken\n');
+
+    const { status, output } = runCli(dir);
+    expect(status).toBe(1);
+    expect(output).toContain(`Could not read snapshot file ${snapPath}`);
+    expect(output).toMatch(/Passed: 1\s+Failed: 2/);
+    // The broken file is left for the user to fix
+    expect(fs.readFileSync(snapPath, 'utf8')).toBe('exports[`root > user > object 1`] = `\n{ broken\n');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Test and hook timeouts: the run default, describe-level and per-test { timeout }, and the message for a test
+ * body versus a hook. Runs the CLI on a test file in a temporary directory (no browser needed).
+ *
+ * Run: npx cstesting example/timeouts.test.js
+ */
+
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const { spawnSync } = require('child_process');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect, beforeAll, afterAll } = cstesting;
+
+const CLI = path.join(__dirname, '..', 'dist', 'cli.js');
+const PACKAGE = path.join(__dirname, '..');
+
+const TEST_FILE = `
+const { describe, it, beforeAll, beforeEach } = require(${JSON.stringify(PACKAGE)});
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+describe('Suite timeout', { timeout: 50 }, () => {
+  it('slow test', () => sleep(1000));
+  it('fast test', () => sleep(5));
+  it('own timeout wins', { timeout: 2000 }, () => sleep(200));
+});
+
+describe('Slow beforeEach', { timeout: 50 }, () => {
+  beforeEach(() => sleep(1000));
+  it('never reaches the body', () => {});
+});
+
+describe('Slow beforeAll', { timeout: 50 }, () => {
+  beforeAll(() => sleep(1000));
+  it('is not run', () => {});
+});
+
+describe('Run timeout', () => {
+  it('uses --timeout', () => sleep(1000));
+  it('no timeout', { timeout: 0 }, () => sleep(200));
+});
+`;
+
+describe('Timeouts', () => {
+  let dir;
+  let json;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cstesting-timeout-test-'));
+    fs.writeFileSync(path.join(dir, 'timeouts.test.js'), TEST_FILE);
+    const result = spawnSync(process.execPath, [CLI, 'timeouts.test.js', '--timeout', '100', '--reporter', 'json'], {
+      cwd: dir,
+      env: { ...process.env, CI: 'false' },
+      encoding: 'utf8',
+      timeout: 60000,
+    });
+    expect(result.status).toBe(1);
+    json = JSON.parse(fs.readFileSync(path.join(dir, 'report', 'results.json'), 'utf8'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Error message of the failed test (or hook) in the suite, or undefined when it passed. */
+  function failure(suite, test) {
+    return json.errors.find((e) => e.suite === `root > ${suite}` && e.test === test)?.error.message;
+  }
+
+  function passed(suite, test) {
+    return json.passedTests.some((t) => t.suite === `root > ${suite}` && t.test === test);
+  }
+
+  it('applies a describe-level timeout to its tests, unless the test sets its own', () => {
+    expect(failure('Suite timeout', 'slow test')).toBe('Test timed out after 50ms');
+    expect(passed('Suite timeout', 'fast test')).toBe(true);
+    expect(passed('Suite timeout', 'own timeout wins')).toBe(true);
+  });
+
+  it('names the hook when a hook times out', () => {
+    expect(failure('Slow beforeEach', 'never reaches the body')).toBe('"beforeEach" hook timed out after 50ms');
+    expect(failure('Slow beforeAll', '"beforeAll" hook')).toBe('"beforeAll" hook timed out after 50ms');
+    expect(passed('Slow beforeAll', 'is not run')).toBe(false);
+  });
+
+  it('uses the --timeout default elsewhere, and 0 turns the timeout off', () => {
+    expect(failure('Run timeout', 'uses --timeout')).toBe('Test timed out after 100ms');
+    expect(passed('Run timeout', 'no timeout')).toBe(true);
+  });
+
+  it('counts every timed-out test and hook as failed', () => {
+    expect(json.failed).toBe(4);
+    expect(json.passed).toBe(3);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Traces of test runs: browser actions recorded as trace steps, read back from the zip (no browser needed;
+ * a stub stands in for the browser).
+ *
+ * Run: npx cstesting example/trace.test.js
+ */
+
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const http = require('http');
+const { spawnSync } = require('child_process');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect, beforeAll, afterAll } = cstesting;
+const { startTestTrace, finishTestTrace, traceBrowserAction, readTrace } = require(path.join(__dirname, '..', 'dist', 'trace'));
+
+const { createTraceViewerServer } = require(path.join(__dirname, '..', 'dist', 'trace', 'viewer-server'));
+
+const CLI = path.join(__dirname, '..', 'dist', 'cli.js');
+const DIST = path.join(__dirname, '..', 'dist');
+
+/** GET a path from the local server; resolves with the status code. */
+function statusOf(port, urlPath) {
+  return new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port, path: urlPath }, (res) => {
+      res.resume();
+      resolve(res.statusCode);
+    }).on('error', reject);
+  });
+}
+
+/** Enough of BrowserApi for the tracer: events, screenshots, DOM snapshots and the URL. */
+function stubBrowser(url) {
+  const consoleListeners = [];
+  return {
+    log: (text) => consoleListeners.forEach((l) => l({ type: 'log', text })),
+    on: (event, listener) => {
+      consoleListeners.push(listener);
+      return () => consoleListeners.splice(consoleListeners.indexOf(listener), 1);
+    },
+    onRequest: () => () => {},
+    onResponse: () => () => {},
+    getScreenshot: async () => Buffer.from('png'),
+    evaluate: async () => `<!DOCTYPE html><html><body>${url}</body></html>`,
+    url: async () => url,
+  };
+}
+
+describe('Test traces', () => {
+  let dir;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cstesting-trace-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records each browser action with screenshots, DOM snapshot and console', async () => {
+    const browser = stubBrowser('https://shop.test/');
+    startTestTrace('Cart › adds an item');
+    expect(await traceBrowserAction(browser, 'Goto https://shop.test/', async () => 'loaded')).toBe('loaded');
+    await traceBrowserAction(browser, 'Click #add', async () => browser.log('added'));
+    await expect(traceBrowserAction(browser, 'Click #pay', async () => {
+      throw new Error('no #pay');
+    })).rejects.toThrow('no #pay');
+    const file = finishTestTrace().save(path.join(dir, 'cart.zip'));
+
+    const { trace, resources } = readTrace(file);
+    expect(trace.title).toBe('Cart › adds an item');
+    expect(trace.actions.map((a) => a.label)).toEqual(['Goto https://shop.test/', 'Click #add', 'Click #pay']);
+    expect(trace.actions[1]).toMatchObject({ url: 'https://shop.test/', before: 'resources/1-before.png', after: 'resources/1-after.png' });
+    expect(trace.actions[1].console.map((c) => c.text)).toEqual(['added']);
+    expect(trace.actions[2].error).toBe('no #pay');
+    expect(resources.get('resources/0-dom.html').toString()).toContain('https://shop.test/');
+  });
+
+  it('records actions run by an action as part of it', async () => {
+    const browser = stubBrowser('https://shop.test/');
+    startTestTrace('nested');
+    await traceBrowserAction(browser, 'Outer', () => traceBrowserAction(browser, 'Inner', async () => {}));
+    const { trace } = readTrace(finishTestTrace().save(path.join(dir, 'nested.zip')));
+    expect(trace.actions.map((a) => a.label)).toEqual(['Outer']);
+  });
+
+  it('follows the browser of the latest action', async () => {
+    const first = stubBrowser('https://a.test/');
+    const second = stubBrowser('https://b.test/');
+    startTestTrace('two browsers');
+    await traceBrowserAction(first, 'A', async () => {});
+    await traceBrowserAction(second, 'B', async () => {});
+    const { trace } = readTrace(finishTestTrace().save(path.join(dir, 'two.zip')));
+    expect(trace.actions.map((a) => a.url)).toEqual(['https://a.test/', 'https://b.test/']);
+  });
+
+  it('records nothing for untraced tests or tests without browser actions', async () => {
+    startTestTrace(undefined);
+    expect(await traceBrowserAction(stubBrowser('https://a.test/'), 'A', async () => 1)).toBe(1);
+    expect(finishTestTrace()).toBeNull();
+    startTestTrace('no actions');
+    expect(finishTestTrace()).toBeNull();
+  });
+
+  it('keeps the traces of failed tests with --trace retain-on-failure', () => {
+    const testFile = `
+const { describe, it } = require(${JSON.stringify(path.join(__dirname, '..'))});
+const { runBrowserStep } = require(${JSON.stringify(path.join(DIST, 'steps'))});
+const browser = (${stubBrowser.toString()})('https://shop.test/');
+describe('Cart', () => {
+  it('passes', () => runBrowserStep('Click #add', async () => {}, undefined, browser));
+  it('fails', () => runBrowserStep('Click #pay', async () => { throw new Error('no #pay'); }, undefined, browser));
+});
+`;
+    fs.writeFileSync(path.join(dir, 'cart.test.js'), testFile);
+    const result = spawnSync(process.execPath, [CLI, 'cart.test.js', '--trace', 'retain-on-failure', '--reporter', 'json'], {
+      cwd: dir,
+      env: { ...process.env, CI: 'false' },
+      encoding: 'utf8',
+      timeout: 60000,
+    });
+    expect(result.status).toBe(1);
+    const json = JSON.parse(fs.readFileSync(path.join(dir, 'report', 'results.json'), 'utf8'));
+    expect(json.passedTests[0].trace).toBeUndefined();
+    const [file] = json.errors[0].trace;
+    expect(path.basename(file)).toMatch(/^cart.test.js-root-Cart-fails-[0-9a-f]{8}\.zip$/);
+    expect(readTrace(file).trace.actions.map((a) => a.error)).toEqual(['no #pay']);
+    expect(result.stdout).toContain(`Trace: npx cstesting show-trace ${path.relative(dir, file)}`);
+  });
+
+  it('serves the viewer and answers malformed paths with 400', async () => {
+    startTestTrace('viewer');
+    await traceBrowserAction(stubBrowser('https://shop.test/'), 'Click #add', async () => {});
+    const file = finishTestTrace().save(path.join(dir, 'viewer.zip'));
+    const { server, port } = await createTraceViewerServer(file);
+    try {
+      expect(await statusOf(port, '/')).toBe(200);
+      expect(await statusOf(port, '/trace.json')).toBe(200);
+      expect(await statusOf(port, '/resources/0-after.png')).toBe(200);
+      expect(await statusOf(port, '/%E0')).toBe(400);
+      expect(await statusOf(port, '/missing')).toBe(404);
+    } finally {
+      server.close();
+    }
+  });
+});
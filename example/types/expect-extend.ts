@@ -0,0 +1,46 @@
+/**
+ * Type-level checks for expect.extend (compiled, never run).
+ * Run: npm run test:types
+ */
+
+import { expect } from 'cstesting';
+
+declare module 'cstesting' {
+  interface ExpectApi {
+    toBeValidOrderId(): void;
+    toBeWithin(min: number, max: number): void;
+  }
+}
+
+expect.extend({
+  toBeValidOrderId(received) {
+    const pass = typeof received === 'string' && /^ORD-\d{6}$/.test(received);
+    return { pass, message: () => `Expected ${this.format(received)} ${this.isNot ? 'not ' : ''}to be a valid order id` };
+  },
+  // Typed arguments are accepted
+  toBeWithin(received, min: number, max: number) {
+    const value = Number(received);
+    return { pass: value >= min && value <= max, message: `Expected ${value} to be within ${min}..${max}` };
+  },
+});
+
+// Augmented matchers show up on expect(x), .not, .resolves and .rejects
+expect('ORD-123456').toBeValidOrderId();
+expect('abc').not.toBeValidOrderId();
+expect(5).toBeWithin(1, 10);
+const resolved: Promise<void> = expect(Promise.resolve(5)).resolves.toBeWithin(1, 10);
+const rejected: Promise<void> = expect(Promise.reject(new Error('x'))).rejects.not.toBeValidOrderId();
+void resolved;
+void rejected;
+
+// @ts-expect-error — arguments are checked against the declaration
+expect(5).toBeWithin('1', 10);
+// @ts-expect-error — undeclared matchers are not on ExpectApi
+expect(5).toBeSomethingElse();
+
+expect.extend({
+  // @ts-expect-error — a matcher must return a MatcherResult
+  toBeBroken() {
+    return true;
+  },
+});
@@ -0,0 +1,52 @@
+/**
+ * The ZIP writer/reader and CRC-32 used for trace files (no browser needed).
+ *
+ * Run: npx cstesting example/zip.test.js
+ */
+
+const path = require('path');
+const crypto = require('crypto');
+const cstesting = (() => {
+  try { return require('cstesting'); } catch { return require(path.join(__dirname, '..')); }
+})();
+const { describe, it, expect } = cstesting;
+const { writeZip, readZip } = require(path.join(__dirname, '..', 'dist', 'zip'));
+const { crc32 } = require(path.join(__dirname, '..', 'dist', 'crc32'));
+
+describe('CRC-32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+    expect(crc32(Buffer.from('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+  });
+});
+
+describe('ZIP', () => {
+  it('reads back the entries it writes', () => {
+    const entries = [
+      { name: 'trace.json', data: Buffer.from(JSON.stringify({ steps: Array.from({ length: 50 }, (_, i) => ({ i })) })) },
+      { name: 'resources/screenshot-1.png', data: crypto.randomBytes(2048) },
+      { name: 'résumé/日本.txt', data: Buffer.from('unicode names') },
+      { name: 'empty.txt', data: Buffer.alloc(0) },
+    ];
+    const files = readZip(writeZip(entries));
+    expect(Array.from(files.keys())).toEqual(entries.map((e) => e.name));
+    for (const entry of entries) expect(files.get(entry.name).equals(entry.data)).toBe(true);
+  });
+
+  it('deflates text and stores data that would not get smaller', () => {
+    const text = Buffer.from('step '.repeat(1000));
+    const random = crypto.randomBytes(1000);
+    const zip = writeZip([{ name: 'a.txt', data: text }, { name: 'b.bin', data: random }]);
+    // Local header 30 bytes + name: compression method at offset 8, compressed size at 18
+    expect(zip.readUInt16LE(8)).toBe(8);
+    expect(zip.readUInt32LE(18)).toBeLessThan(text.length);
+    const second = 30 + 'a.txt'.length + zip.readUInt32LE(18);
+    expect(zip.readUInt16LE(second + 8)).toBe(0);
+    expect(zip.readUInt32LE(second + 14)).toBe(crc32(random));
+  });
+
+  it('rejects data that is not a zip file', () => {
+    expect(() => readZip(Buffer.alloc(100))).toThrow('Not a zip file');
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Files written for the report while tests run (HAR files, traces, failure screenshots, attachments):
+ * the report directory they go to and how they are named.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+
+let reportDir = 'report';
+
+/** Directory for reports and test artifacts (--report-dir, RunOptions.reportDir). Default: report/ */
+export function setReportDir(dir: string): void {
+  reportDir = dir;
+}
+
+/** Letters, digits, dot, dash and underscore only. */
+export function sanitizeFileName(name: string): string {
+  return name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * File name for an artifact of a test: <sanitized name>-<hash><suffix>. The short hash of the full name keeps
+ * tests apart whose names sanitize to the same text (e.g. "a/b" and "a b"), also across --workers processes.
+ */
+export function artifactFileName(name: string, suffix: string): string {
+  const hash = crypto.createHash('sha1').update(name).digest('hex').slice(0, 8);
+  return `${sanitizeFileName(name) || 'test'}-${hash}${suffix}`;
+}
+
+/** Absolute path of an artifact: <report dir>/<kind>/<file name>. */
+export function artifactPath(kind: 'har' | 'traces' | 'attachments', fileName: string): string {
+  return path.resolve(reportDir, kind, fileName);
+}
@@ -1,9 +1,20 @@
 /**
  * Simple assertion library (expect-style API).
- * Similar to Jest/Cypress expect — extend later with matchers.
+ * Similar to Jest/Cypress expect: structural equality, object/regex/number matchers, .not, .resolves / .rejects,
+ * custom matchers via expect.extend(), and auto-retrying matchers for locators and pages (see web-assertions.ts).
  */
 
+import { equals, matchesObject, parsePropertyPath, getProperty } from './equality';
+import { formatValueInline } from './diff';
+import { matchSnapshot, matchInlineSnapshot, matchImageSnapshot } from './snapshot';
+import type { ImageSnapshotOptions } from './image-snapshot';
+import type { ImageComparison } from './types';
+import { webMatchers, isLocator, isPageLike, setExpectTimeout, type WebMatchers } from './web-assertions';
+
 export class AssertionError extends Error {
+  /** Screenshot files for a failed image comparison (shown in the HTML report). */
+  images?: ImageComparison;
+
   constructor(
     message: string,
     public readonly expected?: unknown,
@@ -15,9 +26,13 @@ export class AssertionError extends Error {
   }
 }
 
-export interface ExpectApi {
+/** Synchronous matchers available on expect(value) and expect(value).not. */
+export interface Matchers {
   toBe(expected: unknown): void;
+  /** Deep structural equality (ignores undefined properties and class). */
   toEqual(expected: unknown): void;
+  /** Like toEqual, but undefined properties, array holes and class must match too. */
+  toStrictEqual(expected: unknown): void;
   toBeTruthy(): void;
   toBeFalsy(): void;
   toBeNull(): void;
@@ -25,10 +40,76 @@ export interface ExpectApi {
   toBeUndefined(): void;
   toThrow(expectedMessage?: string | RegExp): void;
   toBeGreaterThan(n: number): void;
+  toBeGreaterThanOrEqual(n: number): void;
   toBeLessThan(n: number): void;
+  toBeLessThanOrEqual(n: number): void;
+  /** |actual - expected| < 10^-numDigits / 2 (default numDigits = 2). */
+  toBeCloseTo(expected: number, numDigits?: number): void;
   toContain(item: unknown): void;
   toHaveLength(n: number): void;
+  /** String contains substring, or matches RegExp. */
+  toMatch(expected: string | RegExp): void;
+  /** Object has (at least) these properties, compared recursively. */
+  toMatchObject(expected: object): void;
+  /** Property exists at path ('a.b[0]' or ['a', 'b', 0]); optionally with this value (deep equality). */
+  toHaveProperty(path: string | (string | number)[], value?: unknown): void;
+  toBeInstanceOf(expected: Function): void;
+  /** Compare with the snapshot stored in __snapshots__/<test file>.snap (written on the first run). */
+  toMatchSnapshot(hint?: string): void;
+  /** Compare with the snapshot passed as argument; on the first run it is written into the test source. */
+  toMatchInlineSnapshot(snapshot?: string): void;
+  /** Compare a PNG (e.g. await browser.getScreenshot()) with the baseline in __snapshots__/<test file>-images/. */
+  toMatchImageSnapshot(options?: ImageSnapshotOptions): void;
+}
+
+/** Matchers on a promise (built-in and custom): each returns a promise that settles after the check. */
+export type AsyncMatchers = {
+  [K in Exclude<keyof ExpectApi, 'not' | 'resolves' | 'rejects'>]: ExpectApi[K] extends (...args: infer A) => unknown
+    ? (...args: A) => Promise<void>
+    : never;
+};
+
+/**
+ * Returned by a custom matcher. message describes the failure for the current direction (check this.isNot).
+ * expected/actual are optional and shown as a diff by the CLI.
+ */
+export interface MatcherResult {
+  pass: boolean;
+  message: string | (() => string);
+  expected?: unknown;
+  actual?: unknown;
+}
+
+/** `this` inside a custom matcher. */
+export interface MatcherContext {
+  /** True when called through .not */
+  isNot: boolean;
+  /** Deep structural equality (same as toEqual; strict = toStrictEqual). */
+  equals(a: unknown, b: unknown, strict?: boolean): boolean;
+  /** One-line representation of a value for messages. */
+  format(value: unknown): string;
+}
+
+/**
+ * A matcher registered with expect.extend(). A is the argument list after the received value;
+ * expect.extend() accepts matchers with any (typed) arguments.
+ */
+export type CustomMatcher<A extends unknown[] = unknown[]> = (
+  this: MatcherContext,
+  received: unknown,
+  ...args: A
+) => MatcherResult | Promise<MatcherResult>;
+
+/**
+ * Custom matchers are typed by merging into this interface:
+ *   declare module 'cstesting' { interface ExpectApi { toBeValidOrderId(): void } }
+ */
+export interface ExpectApi extends Matchers, WebMatchers {
   not: ExpectApi;
+  /** Unwrap a resolved promise: await expect(promise).resolves.toBe(1) */
+  resolves: AsyncMatchers & { not: AsyncMatchers };
+  /** Unwrap a rejected promise: await expect(promise).rejects.toThrow('boom') */
+  rejects: AsyncMatchers & { not: AsyncMatchers };
 }
 
 function assert(condition: boolean, message: string, actual?: unknown, expected?: unknown): void {
@@ -37,27 +118,100 @@ function assert(condition: boolean, message: string, actual?: unknown, expected?
   }
 }
 
-function expectApi(actual: unknown, negate: boolean = false): ExpectApi {
-  const wrap = (pass: boolean, failMessage: string, passMessage?: string) => {
+const fmt = (value: unknown) => formatValueInline(value);
+
+/** Registered by expect.extend(). */
+const customMatchers: Record<string, CustomMatcher> = {};
+
+function checkMatcherResult(result: MatcherResult, name: string, actual: unknown, negate: boolean): void {
+  if (!result || typeof result.pass !== 'boolean') {
+    throw new Error(`Custom matcher "${name}" must return { pass: boolean, message: string | () => string }`);
+  }
+  if (negate ? result.pass : !result.pass) {
+    const message = typeof result.message === 'function' ? result.message() : result.message;
+    throw new AssertionError(
+      message,
+      negate ? undefined : result.expected,
+      'actual' in result ? result.actual : actual
+    );
+  }
+}
+
+/** Add the web-first matchers (async, retrying) to the object built by expectApi. */
+function addWebMatchers(api: ExpectApi, actual: unknown, negate: boolean): void {
+  const target = api as unknown as Record<string, (...args: unknown[]) => Promise<void>>;
+  for (const [name, { subject, run }] of Object.entries(webMatchers)) {
+    target[name] = async (...args: unknown[]) => {
+      const ok = subject === 'locator' ? isLocator(actual) : isPageLike(actual);
+      if (!ok) {
+        const wanted = subject === 'locator' ? 'a locator' : 'the browser or a tab';
+        throw new AssertionError(`.${name}() expects ${wanted}, got ${fmt(actual)}`, undefined, actual);
+      }
+      checkMatcherResult(await run(actual, negate, ...args), name, actual, negate);
+    };
+  }
+}
+
+/** Add custom matchers to the object built by expectApi (works with .not, .resolves and .rejects). */
+function addCustomMatchers(api: ExpectApi, actual: unknown, negate: boolean): void {
+  const context: MatcherContext = { isNot: negate, equals, format: fmt };
+  const target = api as unknown as Record<string, (...args: unknown[]) => void | Promise<void>>;
+  for (const [name, matcher] of Object.entries(customMatchers)) {
+    target[name] = (...args: unknown[]) => {
+      const result = matcher.call(context, actual, ...args);
+      if (result && typeof (result as Promise<MatcherResult>).then === 'function') {
+        return (result as Promise<MatcherResult>).then((r) => checkMatcherResult(r, name, actual, negate));
+      }
+      checkMatcherResult(result as MatcherResult, name, actual, negate);
+    };
+  }
+}
+
+/**
+ * @param thrown - actual is a thrown/rejected value (from .rejects), so toThrow checks it directly.
+ */
+function expectApi(actual: unknown, negate: boolean = false, thrown: boolean = false): ExpectApi {
+  /** Expected is attached (for the diff) only when a positive assertion fails. */
+  const wrap = (pass: boolean, failMessage: string, passMessage?: string, expected?: unknown) => {
     const ok = negate ? !pass : pass;
     const msg = ok ? (negate ? failMessage : passMessage || failMessage) : (negate ? passMessage || failMessage : failMessage);
-    assert(ok, msg, actual);
+    assert(ok, msg, actual, negate ? undefined : expected);
+  };
+
+  const compareNumber = (n: number, pass: (val: number) => boolean, relation: string) => {
+    const val = Number(actual);
+    wrap(
+      !Number.isNaN(val) && pass(val),
+      `Expected ${actual} to be ${relation} ${n}`,
+      `Expected ${actual} not to be ${relation} ${n}`,
+      n
+    );
   };
 
-  const api: ExpectApi = {
+  // Web matchers and custom matchers are attached below
+  const api = {
     toBe(expected) {
       wrap(
         Object.is(actual, expected),
         `Expected ${String(actual)} to be ${String(expected)}`,
-        `Expected not to be ${String(expected)}`
+        `Expected not to be ${String(expected)}`,
+        expected
       );
     },
     toEqual(expected) {
-      const pass = JSON.stringify(actual) === JSON.stringify(expected);
       wrap(
-        pass,
-        `Expected ${JSON.stringify(actual)} to equal ${JSON.stringify(expected)}`,
-        `Expected not to equal ${JSON.stringify(expected)}`
+        equals(actual, expected),
+        `Expected ${fmt(actual)} to equal ${fmt(expected)}`,
+        `Expected not to equal ${fmt(expected)}`,
+        expected
+      );
+    },
+    toStrictEqual(expected) {
+      wrap(
+        equals(actual, expected, true),
+        `Expected ${fmt(actual)} to strictly equal ${fmt(expected)}`,
+        `Expected not to strictly equal ${fmt(expected)}`,
+        expected
       );
     },
     toBeTruthy() {
@@ -76,33 +230,59 @@ function expectApi(actual: unknown, negate: boolean = false): ExpectApi {
       wrap(actual === undefined, `Expected value to be undefined`, `Expected value to be defined`);
     },
     toThrow(expectedMessage?: string | RegExp) {
-      if (typeof actual !== 'function') {
-        throw new AssertionError('Expected value to be a function', undefined, actual);
-      }
       let threw = false;
-      let thrown: unknown;
-      try {
-        (actual as () => void)();
-      } catch (e) {
+      let thrownValue: unknown;
+      if (thrown) {
         threw = true;
-        thrown = e;
+        thrownValue = actual;
+      } else {
+        if (typeof actual !== 'function') {
+          throw new AssertionError('Expected value to be a function', undefined, actual);
+        }
+        try {
+          (actual as () => void)();
+        } catch (e) {
+          threw = true;
+          thrownValue = e;
+        }
+      }
+      if (expectedMessage === undefined || !threw) {
+        wrap(threw, 'Expected function to throw', 'Expected function not to throw');
+        return;
       }
-      wrap(threw, 'Expected function to throw', 'Expected function not to throw');
-      if (expectedMessage !== undefined && threw) {
-        const msg = thrown instanceof Error ? thrown.message : String(thrown);
-        const match = typeof expectedMessage === 'string'
-          ? msg === expectedMessage
-          : expectedMessage.test(msg);
-        assert(match, `Expected throw message to match, got: ${msg}`, msg, expectedMessage);
+      const msg = thrownValue instanceof Error ? thrownValue.message : String(thrownValue);
+      const match = typeof expectedMessage === 'string'
+        ? msg === expectedMessage
+        : expectedMessage.test(msg);
+      // .not.toThrow(message) passes when the function throws with a different message
+      if (negate) {
+        const shown = typeof expectedMessage === 'string' ? JSON.stringify(expectedMessage) : String(expectedMessage);
+        assert(!match, `Expected function not to throw ${shown}, got: ${msg}`, msg);
+        return;
       }
+      assert(match, `Expected throw message to match, got: ${msg}`, msg, expectedMessage);
     },
     toBeGreaterThan(n: number) {
-      const val = Number(actual);
-      wrap(!Number.isNaN(val) && val > n, `Expected ${actual} to be greater than ${n}`, `Expected ${actual} not to be greater than ${n}`);
+      compareNumber(n, (val) => val > n, 'greater than');
+    },
+    toBeGreaterThanOrEqual(n: number) {
+      compareNumber(n, (val) => val >= n, 'greater than or equal to');
     },
     toBeLessThan(n: number) {
+      compareNumber(n, (val) => val < n, 'less than');
+    },
+    toBeLessThanOrEqual(n: number) {
+      compareNumber(n, (val) => val <= n, 'less than or equal to');
+    },
+    toBeCloseTo(expected: number, numDigits = 2) {
       const val = Number(actual);
-      wrap(!Number.isNaN(val) && val < n, `Expected ${actual} to be less than ${n}`, `Expected ${actual} not to be less than ${n}`);
+      const pass = val === expected || Math.abs(expected - val) < Math.pow(10, -numDigits) / 2;
+      wrap(
+        pass,
+        `Expected ${actual} to be close to ${expected} (${numDigits} digits)`,
+        `Expected ${actual} not to be close to ${expected} (${numDigits} digits)`,
+        expected
+      );
     },
     toContain(item: unknown) {
       const isArray = Array.isArray(actual);
@@ -114,8 +294,8 @@ function expectApi(actual: unknown, negate: boolean = false): ExpectApi {
           : false;
       wrap(
         has,
-        `Expected ${JSON.stringify(actual)} to contain ${JSON.stringify(item)}`,
-        `Expected ${JSON.stringify(actual)} not to contain ${JSON.stringify(item)}`
+        `Expected ${fmt(actual)} to contain ${fmt(item)}`,
+        `Expected ${fmt(actual)} not to contain ${fmt(item)}`
       );
     },
     toHaveLength(n: number) {
@@ -126,17 +306,147 @@ function expectApi(actual: unknown, negate: boolean = false): ExpectApi {
         `Expected length not to be ${n}`
       );
     },
+    toMatch(expected: string | RegExp) {
+      if (typeof actual !== 'string') {
+        throw new AssertionError(`Expected a string to match, got ${fmt(actual)}`, expected, actual);
+      }
+      const pass = typeof expected === 'string' ? actual.includes(expected) : new RegExp(expected.source, expected.flags.replace('g', '')).test(actual);
+      wrap(pass, `Expected ${fmt(actual)} to match ${String(expected)}`, `Expected ${fmt(actual)} not to match ${String(expected)}`, expected);
+    },
+    toMatchObject(expected: object) {
+      wrap(
+        matchesObject(actual, expected),
+        `Expected ${fmt(actual)} to match object ${fmt(expected)}`,
+        `Expected ${fmt(actual)} not to match object ${fmt(expected)}`,
+        expected
+      );
+    },
+    toHaveProperty(path: string | (string | number)[], ...value: unknown[]) {
+      const keys = parsePropertyPath(path);
+      const label = Array.isArray(path) ? keys.join('.') : path;
+      const prop = getProperty(actual, keys);
+      if (value.length === 0) {
+        wrap(prop.found, `Expected ${fmt(actual)} to have property "${label}"`, `Expected ${fmt(actual)} not to have property "${label}"`);
+        return;
+      }
+      const ok = negate ? !(prop.found && equals(prop.value, value[0])) : prop.found && equals(prop.value, value[0]);
+      const message = negate
+        ? `Expected property "${label}" not to equal ${fmt(value[0])}`
+        : prop.found
+          ? `Expected property "${label}" to equal ${fmt(value[0])}, got ${fmt(prop.value)}`
+          : `Expected ${fmt(actual)} to have property "${label}"`;
+      assert(ok, message, prop.value, negate ? undefined : value[0]);
+    },
+    toBeInstanceOf(expected) {
+      const name = expected.name || 'anonymous class';
+      const actualName = actual !== null && actual !== undefined ? (Object.getPrototypeOf(actual)?.constructor?.name ?? 'Object') : String(actual);
+      wrap(
+        actual instanceof expected,
+        `Expected ${actualName} to be an instance of ${name}`,
+        `Expected value not to be an instance of ${name}`
+      );
+    },
+    toMatchSnapshot(hint?: string) {
+      if (negate) throw new Error('.not.toMatchSnapshot() is not supported');
+      checkMatcherResult(matchSnapshot(actual, hint), 'toMatchSnapshot', actual, false);
+    },
+    toMatchInlineSnapshot(snapshot?: string) {
+      if (negate) throw new Error('.not.toMatchInlineSnapshot() is not supported');
+      checkMatcherResult(matchInlineSnapshot(actual, snapshot), 'toMatchInlineSnapshot', actual, false);
+    },
+    toMatchImageSnapshot(options?: ImageSnapshotOptions) {
+      if (negate) throw new Error('.not.toMatchImageSnapshot() is not supported');
+      const result = matchImageSnapshot(actual as Buffer, options);
+      if (!result.pass) {
+        const err = new AssertionError(result.message as string);
+        err.images = result.images;
+        throw err;
+      }
+    },
     get not() {
-      return expectApi(actual, true);
+      return expectApi(actual, !negate, thrown);
     },
-  };
+    get resolves() {
+      return asyncMatchers(actual, 'resolves');
+    },
+    get rejects() {
+      return asyncMatchers(actual, 'rejects');
+    },
+  } as ExpectApi;
 
+  addWebMatchers(api, actual, negate);
+  addCustomMatchers(api, actual, negate);
   return api;
 }
 
+const NON_MATCHER_KEYS = ['not', 'resolves', 'rejects'];
+
+/** Build .resolves / .rejects: wait for the promise, then run the matcher on its value or rejection reason. */
+function asyncMatchers(promise: unknown, mode: 'resolves' | 'rejects'): AsyncMatchers & { not: AsyncMatchers } {
+  const build = (negate: boolean): AsyncMatchers => {
+    const matchers = {} as Record<string, (...args: unknown[]) => Promise<void>>;
+    const names = Object.keys(expectApi(undefined)).filter((k) => !NON_MATCHER_KEYS.includes(k));
+    for (const name of names) {
+      matchers[name] = async (...args: unknown[]) => {
+        if (!promise || typeof (promise as { then?: unknown }).then !== 'function') {
+          throw new AssertionError(`Expected a promise for .${mode}, got ${fmt(promise)}`, undefined, promise);
+        }
+        let value: unknown;
+        let rejected = false;
+        try {
+          value = await promise;
+        } catch (err) {
+          value = err;
+          rejected = true;
+        }
+        if (mode === 'resolves' && rejected) {
+          throw new AssertionError(`Expected promise to resolve, but it rejected with ${fmt(value)}`, undefined, value);
+        }
+        if (mode === 'rejects' && !rejected) {
+          throw new AssertionError(`Expected promise to reject, but it resolved with ${fmt(value)}`, undefined, value);
+        }
+        const api = expectApi(value, negate, mode === 'rejects') as unknown as Record<string, (...a: unknown[]) => void | Promise<void>>;
+        await api[name](...args);
+      };
+    }
+    return matchers as unknown as AsyncMatchers;
+  };
+  const positive = build(false) as AsyncMatchers & { not: AsyncMatchers };
+  positive.not = build(true);
+  return positive;
+}
+
 /**
  * Expect API — use in tests: expect(value).toBe(3), expect(fn).toThrow(), etc.
  */
 export function expect(actual: unknown): ExpectApi {
   return expectApi(actual);
 }
+
+/**
+ * Register custom matchers: expect.extend({ toBeValidOrderId(received) { return { pass, message } } }).
+ * A matcher returns (or resolves to) a MatcherResult; .not inverts pass.
+ */
+expect.extend = function extend(matchers: Record<string, CustomMatcher<never[]>>): void {
+  for (const [name, matcher] of Object.entries(matchers)) {
+    if (typeof matcher !== 'function') {
+      throw new Error(`expect.extend: matcher "${name}" must be a function`);
+    }
+    if (NON_MATCHER_KEYS.includes(name)) {
+      throw new Error(`expect.extend: "${name}" is reserved and cannot be used as a matcher name`);
+    }
+    customMatchers[name] = matcher as CustomMatcher;
+  }
+};
+
+/**
+ * Set defaults for expect(): timeout is how long web-first matchers (toHaveText, toBeVisible, ...) keep retrying.
+ */
+expect.configure = function configure(options: { timeout?: number }): void {
+  if (options.timeout !== undefined) {
+    if (!Number.isFinite(options.timeout) || options.timeout < 0) {
+      throw new Error(`expect.configure: timeout must be a non-negative number, got ${options.timeout}`);
+    }
+    setExpectTimeout(options.timeout);
+  }
+};
@@ -0,0 +1,80 @@
+/**
+ * Test attachments (attach() in runner.ts): files saved under <report dir>/attachments/ and listed on the test's report entry.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Attachment } from './types';
+import { artifactFileName, artifactPath, sanitizeFileName } from './artifacts';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.xml': 'application/xml',
+  '.json': 'application/json',
+  '.har': 'application/json',
+  '.zip': 'application/zip',
+  '.pdf': 'application/pdf',
+};
+
+/** Content type of a file by extension (application/octet-stream when unknown). */
+export function contentTypeFor(file: string): string {
+  return CONTENT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/** File extension for a content type ('' when unknown). */
+function extensionFor(contentType: string): string {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  const ext = Object.keys(CONTENT_TYPES).find((e) => CONTENT_TYPES[e] === type);
+  return ext ?? (type.startsWith('text/') ? '.txt' : '');
+}
+
+/** True when the attachment can be shown as text in the report (text/*, JSON, XML). */
+export function isTextContentType(contentType: string): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return type.startsWith('text/') || type === 'application/json' || type === 'application/xml' || type.endsWith('+json') || type.endsWith('+xml');
+}
+
+/**
+ * Save an attachment under <report dir>/attachments/<test>-<hash>-<name><ext>.
+ * @param testName - full name of the test (file, suite and test) for the file name
+ * @param body - content, or the path of a file to copy
+ * @param contentType - defaults to the type of the file's extension (application/octet-stream for a Buffer)
+ * @param taken - file names already used by the test; a repeated name gets a -2, -3, ... suffix
+ */
+export function saveAttachment(
+  testName: string,
+  name: string,
+  body: Buffer | string,
+  contentType: string | undefined,
+  taken: Set<string>
+): Attachment {
+  let data: Buffer;
+  if (typeof body === 'string') {
+    if (!fs.existsSync(body) || !fs.statSync(body).isFile()) {
+      throw new Error(`attach("${name}"): file not found: ${body}`);
+    }
+    data = fs.readFileSync(body);
+  } else {
+    data = body;
+  }
+  const type = contentType ?? (typeof body === 'string' ? contentTypeFor(body) : 'application/octet-stream');
+  const ext = typeof body === 'string' && path.extname(body) ? path.extname(body) : extensionFor(type);
+  const base = artifactFileName(testName, `-${sanitizeFileName(name) || 'attachment'}`);
+  let fileName = `${base}${ext}`;
+  for (let n = 2; taken.has(fileName); n++) fileName = `${base}-${n}${ext}`;
+  taken.add(fileName);
+
+  const file = artifactPath('attachments', fileName);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, data);
+  return { name, contentType: type, path: file };
+}
@@ -4,9 +4,16 @@
  */
 
 import * as fs from 'fs';
+import { createNetworkMonitor, type NetworkMonitor } from './network';
+import { createKeyboard, type PageKeyboard, type TypeOptions } from './keyboard';
+import { clickPoint, clickWithOptions, createMouse, type ClickOptions, type Mouse } from './mouse';
+import { dispatchLongPress, dispatchPinch, dispatchSwipe, dispatchTap, type LongPressOptions, type SwipeDirection } from './touch';
+import { resolveInputFiles, type InputFiles, type ResolvedInputFiles } from './input-files';
+import { createDownloads, type Download, type DownloadScope, type WaitForDownloadOptions } from './downloads';
 
 interface EvalResult {
-  result?: { type: string; value?: unknown };
+  /** With returnByValue: false, objects come back as a remote objectId (subtype 'node' for DOM nodes). */
+  result?: { type: string; subtype?: string; value?: unknown; objectId?: string; description?: string };
 }
 
 /** Params for Page.javascriptDialogOpening (alert, confirm, prompt, beforeunload). */
@@ -29,6 +36,113 @@ export type DialogHandler = (
 /** String (substring or glob) or RegExp for URL matching in waitForURL. */
 export type URLPattern = string | RegExp;
 
+/** Whether the URL matches: a string matches as substring (or as a glob when it contains **), a RegExp via test(). */
+export function matchesURL(url: string, urlOrPattern: URLPattern): boolean {
+  if (typeof urlOrPattern === 'string') {
+    if (urlOrPattern.includes('**')) {
+      const regex = new RegExp(urlOrPattern.replace(/\*\*/g, '.*'));
+      return regex.test(url);
+    }
+    return url.includes(urlOrPattern);
+  }
+  return urlOrPattern.test(url);
+}
+
+/** Params for Fetch.requestPaused (request stage). */
+export interface FetchRequestPausedParams {
+  requestId: string;
+  request: { url: string; method: string; headers: Record<string, string>; postData?: string };
+  resourceType: string;
+}
+
+/** Params for Network.requestWillBeSent. */
+export interface NetworkRequestWillBeSentParams {
+  requestId: string;
+  request: { url: string; method: string; headers: Record<string, string>; postData?: string };
+  type?: string;
+  /** Monotonic time in seconds. */
+  timestamp?: number;
+  /** Wall-clock time in seconds since the epoch. */
+  wallTime?: number;
+  /** Set when this request follows a redirect (same requestId as the previous hop). */
+  redirectResponse?: NetworkResponseData;
+}
+
+/** Response part of Network.responseReceived (and of redirects). */
+export interface NetworkResponseData {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  mimeType?: string;
+  protocol?: string;
+  remoteIPAddress?: string;
+  encodedDataLength?: number;
+  /** Phases in ms relative to requestTime (seconds, monotonic); -1 when a phase did not happen. */
+  timing?: {
+    requestTime: number;
+    dnsStart: number;
+    dnsEnd: number;
+    connectStart: number;
+    connectEnd: number;
+    sslStart: number;
+    sslEnd: number;
+    sendStart: number;
+    sendEnd: number;
+    receiveHeadersEnd: number;
+  };
+}
+
+/** Params for Network.responseReceived. */
+export interface NetworkResponseReceivedParams {
+  requestId: string;
+  timestamp?: number;
+  response: NetworkResponseData;
+}
+
+/** A console.* call in the page (onConsole). */
+export interface ConsoleMessage {
+  /** 'log', 'info', 'warning' (console.warn), 'error', 'debug', ... */
+  type: string;
+  /** Arguments joined with spaces; objects as their short description. */
+  text: string;
+  /** Where console.* was called, when known. */
+  location?: { url: string; lineNumber: number; columnNumber: number };
+}
+
+/** Params for Runtime.consoleAPICalled. */
+export interface RuntimeConsoleAPICalledParams {
+  type: string;
+  args: Array<{ type: string; value?: unknown; description?: string; unserializableValue?: string }>;
+  stackTrace?: { callFrames: Array<{ url: string; lineNumber: number; columnNumber: number }> };
+}
+
+/** Params for Runtime.exceptionThrown (an uncaught exception or unhandled rejection in the page). */
+export interface RuntimeExceptionThrownParams {
+  timestamp: number;
+  exceptionDetails: {
+    text: string;
+    lineNumber: number;
+    columnNumber: number;
+    url?: string;
+    exception?: { type: string; className?: string; description?: string; value?: unknown };
+  };
+}
+
+/** Payloads of the page events for browser.on(event, listener). */
+export interface PageEventMap {
+  /** console.* call in the page. */
+  console: ConsoleMessage;
+  /** Uncaught exception or unhandled promise rejection in the page. */
+  pageerror: Error;
+}
+
+/** Header entry as used by the Fetch domain. */
+export interface FetchHeaderEntry {
+  name: string;
+  value: string;
+}
+
 /** Clip region for Page.captureScreenshot (CSS pixels). scale defaults to 1; CDP requires it when clip is set. */
 export interface ScreenshotClip {
   x: number;
@@ -38,12 +152,25 @@ export interface ScreenshotClip {
   scale?: number;
 }
 
+/** Cookie for Network.setCookies (expires in seconds since the epoch; omitted for a session cookie). */
+export interface CookieParam {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
 export type CDPClient = {
   Page: {
     enable(): Promise<void>;
     navigate(params: { url: string }): Promise<unknown>;
     loadEventFired(): Promise<unknown>;
     on(event: 'javascriptDialogOpening', callback: (params: DialogOpeningParams) => void): void;
+    on(event: 'frameNavigated', callback: (params: { frame: { url: string; securityOrigin?: string } }) => void): () => void;
     handleJavaScriptDialog(params: { accept: boolean; promptText?: string }): Promise<void>;
     getLayoutMetrics(): Promise<{ contentSize?: { width: number; height: number } }>;
     captureScreenshot(params?: {
@@ -53,31 +180,148 @@ export type CDPClient = {
       captureBeyondViewport?: boolean;
     }): Promise<{ data: string }>;
   };
-  Runtime: { evaluate(params: { expression: string; returnByValue?: boolean }): Promise<EvalResult> };
-  Input: { dispatchMouseEvent(params: { type: string; x: number; y: number; button?: string; clickCount?: number }): Promise<void>; dispatchKeyEvent(params: { type: string; text?: string; key?: string }): Promise<void> };
+  Runtime: {
+    enable(): Promise<void>;
+    evaluate(params: { expression: string; returnByValue?: boolean }): Promise<EvalResult>;
+    on(event: 'consoleAPICalled', callback: (params: RuntimeConsoleAPICalledParams) => void): () => void;
+    on(event: 'exceptionThrown', callback: (params: RuntimeExceptionThrownParams) => void): () => void;
+  };
+  Network: {
+    enable(): Promise<void>;
+    getResponseBody(params: { requestId: string }): Promise<{ body: string; base64Encoded: boolean }>;
+    setCookies(params: { cookies: CookieParam[] }): Promise<void>;
+    getAllCookies(): Promise<{ cookies: Array<Required<Omit<CookieParam, 'sameSite'>> & { session: boolean; sameSite?: CookieParam['sameSite'] }> }>;
+    on(event: 'requestWillBeSent', callback: (params: NetworkRequestWillBeSentParams) => void): () => void;
+    on(event: 'responseReceived', callback: (params: NetworkResponseReceivedParams) => void): () => void;
+    on(event: 'loadingFinished', callback: (params: { requestId: string; timestamp?: number; encodedDataLength?: number }) => void): () => void;
+    on(event: 'loadingFailed', callback: (params: { requestId: string; timestamp?: number; errorText: string }) => void): () => void;
+  };
+  Fetch: {
+    enable(params?: { patterns?: Array<{ urlPattern?: string; requestStage?: 'Request' | 'Response' }> }): Promise<void>;
+    disable(): Promise<void>;
+    /** Returns a function that removes the listener. */
+    on(event: 'requestPaused', callback: (params: FetchRequestPausedParams) => void): () => void;
+    fulfillRequest(params: { requestId: string; responseCode: number; responseHeaders?: FetchHeaderEntry[]; body?: string }): Promise<void>;
+    failRequest(params: { requestId: string; errorReason: string }): Promise<void>;
+    continueRequest(params: { requestId: string; url?: string; method?: string; postData?: string; headers?: FetchHeaderEntry[] }): Promise<void>;
+  };
+  DOMStorage: {
+    enable(): Promise<void>;
+    getDOMStorageItems(params: { storageId: { securityOrigin: string; isLocalStorage: boolean } }): Promise<{ entries: string[][] }>;
+  };
+  Emulation: {
+    setDeviceMetricsOverride(params: { width: number; height: number; deviceScaleFactor: number; mobile: boolean }): Promise<void>;
+    setTouchEmulationEnabled(params: { enabled: boolean; maxTouchPoints?: number }): Promise<void>;
+    setLocaleOverride(params: { locale?: string }): Promise<void>;
+    setUserAgentOverride(params: { userAgent: string; acceptLanguage?: string }): Promise<void>;
+    setTimezoneOverride(params: { timezoneId: string }): Promise<void>;
+    setGeolocationOverride(params: { latitude: number; longitude: number; accuracy: number }): Promise<void>;
+    setEmulatedMedia(params: { features: Array<{ name: string; value: string }> }): Promise<void>;
+  };
+  Browser: {
+    grantPermissions(params: { permissions: string[]; browserContextId?: string }): Promise<void>;
+    setDownloadBehavior(params: {
+      behavior: 'deny' | 'allow' | 'allowAndName' | 'default';
+      downloadPath?: string;
+      eventsEnabled?: boolean;
+      browserContextId?: string;
+    }): Promise<void>;
+    on(event: 'downloadWillBegin', callback: (params: { guid: string; url: string; suggestedFilename: string }) => void): () => void;
+    on(
+      event: 'downloadProgress',
+      callback: (params: { guid: string; totalBytes: number; receivedBytes: number; state: 'inProgress' | 'completed' | 'canceled' }) => void
+    ): () => void;
+  };
+  DOM: {
+    setFileInputFiles(params: { files: string[]; objectId: string }): Promise<void>;
+  };
+  Input: {
+    dispatchMouseEvent(params: {
+      type: 'mousePressed' | 'mouseReleased' | 'mouseMoved' | 'mouseWheel';
+      x: number;
+      y: number;
+      button?: 'none' | 'left' | 'middle' | 'right';
+      buttons?: number;
+      clickCount?: number;
+      modifiers?: number;
+      deltaX?: number;
+      deltaY?: number;
+    }): Promise<void>;
+    dispatchKeyEvent(params: {
+      type: 'keyDown' | 'keyUp' | 'rawKeyDown' | 'char';
+      modifiers?: number;
+      key?: string;
+      code?: string;
+      windowsVirtualKeyCode?: number;
+      text?: string;
+      unmodifiedText?: string;
+      location?: number;
+      autoRepeat?: boolean;
+    }): Promise<void>;
+    insertText(params: { text: string }): Promise<void>;
+    dispatchTouchEvent(params: { type: 'touchStart' | 'touchMove' | 'touchEnd' | 'touchCancel'; touchPoints: Array<{ x: number; y: number; id?: number }> }): Promise<void>;
+  };
   close(): Promise<void>;
 };
 
+export interface DragAndDropOptions {
+  /** Mouse moves between source and target (default 1: one jump). Sortable lists often need several, e.g. 10. */
+  steps?: number;
+}
+
 /** Option for select(): choose by visible text, by 0-based index, or by option value. */
 export type SelectOption = { label: string } | { index: number } | { value: string };
 
 /** Single option or array of options (array = multi-select: replace selection with the given set). */
 export type SelectOptionOrOptions = SelectOption | SelectOption[];
 
-export interface PageApi {
+/** Page actions plus network capture (onRequest, waitForResponse, etc.; see network.ts). */
+export interface PageApi extends NetworkMonitor {
+  /** Call listener for every console message of the page. Returns a function that removes it. */
+  onConsole(listener: (message: ConsoleMessage) => void): () => void;
+  /** Call listener for every uncaught exception of the page. Returns a function that removes it. */
+  onPageError(listener: (error: Error) => void): () => void;
+  /** Keys, combinations and text for the focused element (see keyboard.ts). */
+  keyboard: PageKeyboard;
+  /** Pointer moves, buttons and wheel at page coordinates (see mouse.ts). */
+  mouse: Mouse;
   goto(url: string): Promise<void>;
-  click(selector: string, index?: LocatorIndex): Promise<void>;
+  /** Click the element (options: position, modifiers, button, clickCount, delay). */
+  click(selector: string, index?: LocatorIndex, options?: ClickOptions): Promise<void>;
   doubleClick(selector: string, index?: LocatorIndex): Promise<void>;
   rightClick(selector: string, index?: LocatorIndex): Promise<void>;
   hover(selector: string, index?: LocatorIndex): Promise<void>;
-  dragAndDrop(sourceSelector: string, targetSelector: string, sourceIndex?: LocatorIndex, targetIndex?: LocatorIndex): Promise<void>;
-  type(selector: string, text: string, index?: LocatorIndex): Promise<void>;
+  /** Drag from the source's center to the target's center; options.steps: intermediate mouse moves (default 1). */
+  dragAndDrop(
+    sourceSelector: string,
+    targetSelector: string,
+    sourceIndex?: LocatorIndex,
+    targetIndex?: LocatorIndex,
+    options?: DragAndDropOptions
+  ): Promise<void>;
+  /** Scroll the element to the center of the viewport, also when it is already visible (strict, like click). */
+  scrollIntoView(selector: string, index?: LocatorIndex): Promise<void>;
+  /** Touch the element's center and lift (touchstart, touchend). */
+  tap(selector: string, index?: LocatorIndex): Promise<void>;
+  /** Touch the element's center and move the finger distance CSS pixels (default 100) in direction. */
+  swipe(selector: string, direction: SwipeDirection, distance?: number, index?: LocatorIndex): Promise<void>;
+  /** Two-finger pinch on the element's center: scale > 1 zooms in (fingers apart), < 1 zooms out. */
+  pinch(selector: string, scale: number, index?: LocatorIndex): Promise<void>;
+  /** Touch the element's center and hold (default 800 ms). */
+  longPress(selector: string, options?: LongPressOptions, index?: LocatorIndex): Promise<void>;
+  /** Click the element and type text key by key (options.delay: ms between keys). */
+  type(selector: string, text: string, index?: LocatorIndex, options?: TypeOptions): Promise<void>;
   /** Select option(s) in a <select>. Single option or array for multi-select (replaces current selection). */
   select(selector: string, option: SelectOptionOrOptions, index?: LocatorIndex): Promise<void>;
   /** Check a checkbox or radio button (set checked = true). */
   check(selector: string, index?: LocatorIndex): Promise<void>;
   /** Uncheck a checkbox (set checked = false). For radio, use check(selector) on another radio in the group. */
   uncheck(selector: string, index?: LocatorIndex): Promise<void>;
+  /** Set the files of an <input type="file"> (paths, or { name, mimeType, buffer }); [] clears it. Fires input and change. */
+  setInputFiles(selector: string, files: InputFiles, index?: LocatorIndex): Promise<void>;
+  /** Wait for the next download of this page (start waiting before the click). Throws after timeout ms (default 30000). */
+  waitForDownload(options?: WaitForDownloadOptions): Promise<Download>;
+  /** Press a key or a combination such as 'Control+A' (keyboard.press). */
   pressKey(key: string): Promise<void>;
   waitForLoad(): Promise<void>;
   /** Wait until selector matches at least one element (CSS, XPath, id=, name=). Throws after timeout ms. */
@@ -91,6 +335,8 @@ export interface PageApi {
   getTextContent(selector: string, index?: LocatorIndex): Promise<string>;
   /** Get attribute value of the matched element (same strict/index rules as click). Returns '' if attribute is missing. */
   getAttribute(selector: string, attributeName: string, index?: LocatorIndex): Promise<string>;
+  /** Number of elements matching the selector; with an index (first/last/nth) 1 if that element exists, else 0. Never throws for no match. */
+  count(selector: string, index?: LocatorIndex): Promise<number>;
   /** Whether the matched element is visible (not hidden by display/visibility/opacity, has non-zero size). */
   isVisible(selector: string, index?: LocatorIndex): Promise<boolean>;
   /** Whether the matched element is disabled (e.g. input, button). */
@@ -425,6 +671,21 @@ function buildIsSelectedExpression(selector: string, locatorIndex: LocatorIndex
   return buildElementStateExpression(selector, locatorIndex, useXPath, docVar, stateCheck);
 }
 
+/** Code that returns how many elements the locator matches (0 or 1 when an index is set). */
+function buildCountInner(selector: string, locatorIndex: LocatorIndex | undefined, useXPath: boolean, docVar: string): string {
+  const sel = JSON.stringify(selector);
+  const countExpr = useXPath
+    ? `${docVar}.evaluate(${sel}, ${docVar}, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null).snapshotLength`
+    : `${docVar}.querySelectorAll(${sel}).length`;
+  if (locatorIndex === undefined || locatorIndex === null) return `return ${countExpr};`;
+  const idx = typeof locatorIndex === 'number' ? locatorIndex : 0;
+  return `var n = ${countExpr}; return n > ${idx} ? 1 : 0;`;
+}
+
+function buildCountExpression(selector: string, locatorIndex: LocatorIndex | undefined, useXPath: boolean): string {
+  return `(function(){ ${buildCountInner(selector, locatorIndex, useXPath, 'document')} })()`;
+}
+
 /** Inner code for element state (var el = find(); if error return; stateCheck). Used so frame can wrap with var doc = getDoc(); */
 function buildElementStateInner(selector: string, locatorIndex: LocatorIndex | undefined, useXPath: boolean, docVar: string, stateCheck: string): string {
   const sel = JSON.stringify(selector);
@@ -530,6 +791,13 @@ export function buildFrameWaitForSelectorExpression(chain: string[], selector: s
   return `(function(){ var doc = ${getDoc}; return { found: ${checkInDoc}(doc) }; })()`;
 }
 
+/** Build expression that returns the number of matches inside the frame (0 while the frame is not ready). */
+export function buildFrameCountExpression(chain: string[], selector: string, index?: LocatorIndex): string {
+  const getDoc = buildFrameChainGetDocOrNullExpression(chain);
+  const inner = buildCountInner(resolveSelector(selector), index, isXPath(selector), 'doc');
+  return `(function(){ var doc = ${getDoc}; if (!doc) return 0; ${inner} })()`;
+}
+
 /** Build expression that runs in main page and evals userExpr in the frame (same-origin). Chain = iframe selectors from root to this frame. */
 export function buildFrameEvalExpression(iframeSelectorOrChain: string | string[], userExpr: string): string {
   const chain = Array.isArray(iframeSelectorOrChain) ? iframeSelectorOrChain : [iframeSelectorOrChain];
@@ -578,7 +846,7 @@ export function buildFrameElementCenterExpression(
     var doc = ${getDoc};
     var rect = ${findInDoc}(doc);
     if (rect.error) return rect;
-    return { x: rect.x + rect.w / 2, y: rect.y + rect.h / 2 };
+    return { x: rect.x + rect.w / 2, y: rect.y + rect.h / 2, width: rect.w, height: rect.h };
   })()`;
 }
 
@@ -915,6 +1183,87 @@ export function buildFrameCheckUncheckExpression(
   return `(function(){ var doc = ${getDoc}; ${inner} })()`;
 }
 
+/**
+ * Inner block for setInputFiles: returns the <input type="file"> element, or a JSON string { error } when it is not found
+ * or not a file input. With payloads, sets them as the input's files (DataTransfer) and fires input and change.
+ */
+function buildSetInputFilesInnerBlock(
+  selector: string,
+  locatorIndex: LocatorIndex | undefined,
+  files: ResolvedInputFiles,
+  useXPath: boolean,
+  docVar: string
+): string {
+  const sel = JSON.stringify(selector);
+  const idxExpr =
+    locatorIndex === undefined || locatorIndex === null
+      ? null
+      : locatorIndex === 'first'
+        ? 0
+        : locatorIndex === 'last'
+          ? 'list.length - 1'
+          : typeof locatorIndex === 'number'
+            ? locatorIndex
+            : null;
+  const findCss =
+    idxExpr === null
+      ? `(function(){ var list = ${docVar}.querySelectorAll(${sel}); if (list.length === 0) return { error: 'not-found', count: 0, selector: ${sel} }; if (list.length > 1) return { error: 'strict', count: list.length, selector: ${sel} }; return list[0]; })()`
+      : `(function(){ var list = ${docVar}.querySelectorAll(${sel}); if (list.length === 0) return { error: 'not-found', count: 0, selector: ${sel} }; var idx = ${idxExpr}; if (idx < 0 || idx >= list.length) return { error: 'out-of-range', count: list.length, index: idx, selector: ${sel} }; return list[idx]; })()`;
+  const findXpath =
+    idxExpr === null
+      ? `(function(){ var result = ${docVar}.evaluate(${sel}, ${docVar}, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null); if (result.snapshotLength === 0) return { error: 'not-found', count: 0, selector: ${sel} }; if (result.snapshotLength > 1) return { error: 'strict', count: result.snapshotLength, selector: ${sel} }; return result.snapshotItem(0); })()`
+      : `(function(){ var result = ${docVar}.evaluate(${sel}, ${docVar}, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null); var len = result.snapshotLength; if (len === 0) return { error: 'not-found', count: 0, selector: ${sel} }; var idx = ${idxExpr}; if (idx < 0 || idx >= len) return { error: 'out-of-range', count: len, index: idx, selector: ${sel} }; return result.snapshotItem(idx); })()`;
+  const getEl = useXPath ? findXpath : findCss;
+  const count = 'paths' in files ? files.paths.length : files.payloads.length;
+  const setPayloads =
+    'payloads' in files
+      ? `var win = el.ownerDocument.defaultView;
+    var dt = new win.DataTransfer();
+    ${JSON.stringify(files.payloads)}.forEach(function(f){
+      var bin = atob(f.base64);
+      var bytes = new Uint8Array(bin.length);
+      for (var i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+      dt.items.add(new win.File([bytes], f.name, { type: f.mimeType }));
+    });
+    el.files = dt.files;
+    el.dispatchEvent(new Event('input', { bubbles: true }));
+    el.dispatchEvent(new Event('change', { bubbles: true }));`
+      : '';
+  return `var el = ${getEl};
+    if (el && el.error) return JSON.stringify(el);
+    if (!el || el.tagName !== 'INPUT' || (el.type || '').toLowerCase() !== 'file') return JSON.stringify({ error: 'not-file-input', selector: ${sel} });
+    if (${count} > 1 && !el.multiple) return JSON.stringify({ error: 'not-multiple', selector: ${sel} });
+    ${setPayloads}
+    return el;`;
+}
+
+/** Build expression for setInputFiles inside a frame (see buildSetInputFilesInnerBlock). */
+export function buildFrameSetInputFilesExpression(
+  iframeSelectorOrChain: string | string[],
+  elementSelector: string,
+  files: ResolvedInputFiles,
+  index?: LocatorIndex
+): string {
+  const chain = Array.isArray(iframeSelectorOrChain) ? iframeSelectorOrChain : [iframeSelectorOrChain];
+  const getDoc = buildFrameChainGetDocExpression(chain);
+  const inner = buildSetInputFilesInnerBlock(resolveSelector(elementSelector), index === 0 ? 'first' : index, files, isXPath(elementSelector), 'doc');
+  return `(function(){ var doc = ${getDoc}; ${inner} })()`;
+}
+
+/** Run a setInputFiles expression; paths are then set on the element with DOM.setFileInputFiles. */
+export async function applyInputFiles(client: CDPClient, expression: string, files: ResolvedInputFiles, selector: string): Promise<void> {
+  const { result } = await client.Runtime.evaluate({ expression, returnByValue: false });
+  if (result?.subtype === 'error') throw new Error(`setInputFiles failed: ${result.description ?? 'could not resolve'} \`${selector}\``);
+  if (result?.type === 'string') {
+    const err = JSON.parse(String(result.value)) as { error: string; count?: number; selector?: string; index?: number };
+    if (err.error === 'not-file-input') throw new Error(`setInputFiles failed: element is not an <input type="file">: \`${selector}\``);
+    if (err.error === 'not-multiple') throw new Error(`setInputFiles failed: input does not accept multiple files: \`${selector}\``);
+    throwLocatorError({ error: err.error, count: err.count ?? 0, selector: err.selector ?? selector, index: err.index }, selector);
+  }
+  if (result?.subtype !== 'node' || !result.objectId) throw new Error(`setInputFiles failed: could not resolve \`${selector}\``);
+  if ('paths' in files) await client.DOM.setFileInputFiles({ files: files.paths, objectId: result.objectId });
+}
+
 export function throwLocatorError(
   res: { error: string; count: number; selector: string; index?: number },
   locatorInput: string
@@ -960,8 +1309,59 @@ export function setupDialogHandler(
   });
 }
 
-export function createPage(client: CDPClient): PageApi {
-  async function getElementCenter(selector: string, index?: LocatorIndex): Promise<{ x: number; y: number }> {
+function toConsoleMessage(params: RuntimeConsoleAPICalledParams): ConsoleMessage {
+  const text = params.args
+    .map((a) => {
+      if (a.type === 'string') return String(a.value);
+      if (a.unserializableValue !== undefined) return a.unserializableValue;
+      if (a.value !== undefined && a.type !== 'object') return String(a.value);
+      return a.description ?? a.type;
+    })
+    .join(' ');
+  const frame = params.stackTrace?.callFrames[0];
+  return { type: params.type, text, location: frame ? { url: frame.url, lineNumber: frame.lineNumber, columnNumber: frame.columnNumber } : undefined };
+}
+
+/** Error for an uncaught exception: name and message from the thrown value, stack from its description. */
+function toPageError(params: RuntimeExceptionThrownParams): Error {
+  const details = params.exceptionDetails;
+  const thrown = details.exception;
+  const description = thrown?.description;
+  if (thrown?.type === 'object' && description) {
+    // description is the error's stack: "TypeError: x is undefined\n    at ..."
+    const firstLine = description.split('\n')[0];
+    const name = thrown.className ?? 'Error';
+    const error = new Error(firstLine.startsWith(name + ': ') ? firstLine.slice(name.length + 2) : firstLine);
+    error.name = name;
+    error.stack = description;
+    return error;
+  }
+  // A thrown primitive (throw 'oops'): text is "Uncaught", the value is in exception
+  const value = thrown?.value !== undefined ? String(thrown.value) : description;
+  const error = new Error(value ?? details.text);
+  error.stack = `${error.name}: ${error.message}\n    at ${details.url ?? '<anonymous>'}:${details.lineNumber + 1}:${details.columnNumber + 1}`;
+  return error;
+}
+
+/** Page API on a connected client. downloadScope: the directory shared with the session's other tabs (see downloads.ts). */
+export function createPage(client: CDPClient, downloadScope?: DownloadScope): PageApi {
+  const network = createNetworkMonitor(client);
+  const consoleListeners = new Set<(message: ConsoleMessage) => void>();
+  const pageErrorListeners = new Set<(error: Error) => void>();
+  client.Runtime.on('consoleAPICalled', (params) => {
+    const message = toConsoleMessage(params);
+    for (const listener of Array.from(consoleListeners)) listener(message);
+  });
+  client.Runtime.on('exceptionThrown', (params) => {
+    const error = toPageError(params);
+    for (const listener of Array.from(pageErrorListeners)) listener(error);
+  });
+  client.Runtime.enable().catch(() => {
+    // Console capture stays empty when the target has no Runtime domain
+  });
+
+  /** Box of the element after scrolling it into view (strict unless an index is given). */
+  async function getElementBox(selector: string, index?: LocatorIndex): Promise<{ x: number; y: number; width: number; height: number }> {
     const resolved = resolveSelector(selector);
     const useXPath = isXPath(selector);
     const expr =
@@ -999,53 +1399,96 @@ export function createPage(client: CDPClient): PageApi {
         })();
     const res2 = await client.Runtime.evaluate({ expression: getRectAgain, returnByValue: true });
     const rect = res2?.result?.type === 'object' && 'value' in res2.result ? res2.result.value : value;
-    return getCenter(rect as { x: number; y: number; width: number; height: number });
+    return rect as { x: number; y: number; width: number; height: number };
+  }
+
+  async function getElementCenter(selector: string, index?: LocatorIndex): Promise<{ x: number; y: number }> {
+    return getCenter(await getElementBox(selector, index));
   }
 
+  const keyboard = createKeyboard(client);
+  const mouse = createMouse(client, keyboard);
+  const downloads = createDownloads(client, downloadScope);
+
   return {
+    ...network,
+    keyboard,
+    mouse,
+    onConsole(listener) {
+      consoleListeners.add(listener);
+      return () => {
+        consoleListeners.delete(listener);
+      };
+    },
+    onPageError(listener) {
+      pageErrorListeners.add(listener);
+      return () => {
+        pageErrorListeners.delete(listener);
+      };
+    },
+
     async goto(url: string): Promise<void> {
       await client.Page.enable();
       await client.Page.navigate({ url });
       await client.Page.loadEventFired();
     },
 
-    async click(selector: string, index?: LocatorIndex): Promise<void> {
-      const { x, y } = await getElementCenter(selector, index);
-      await client.Input.dispatchMouseEvent({ type: 'mousePressed', x, y, button: 'left', clickCount: 1 });
-      await client.Input.dispatchMouseEvent({ type: 'mouseReleased', x, y, button: 'left', clickCount: 1 });
+    async click(selector: string, index?: LocatorIndex, options?: ClickOptions): Promise<void> {
+      const box = await getElementBox(selector, index);
+      await clickWithOptions(mouse, keyboard, clickPoint(box, options?.position), options);
     },
 
     async doubleClick(selector: string, index?: LocatorIndex): Promise<void> {
       const { x, y } = await getElementCenter(selector, index);
-      await client.Input.dispatchMouseEvent({ type: 'mousePressed', x, y, button: 'left', clickCount: 2 });
-      await client.Input.dispatchMouseEvent({ type: 'mouseReleased', x, y, button: 'left', clickCount: 2 });
+      await mouse.click(x, y, { clickCount: 2 });
     },
 
     async rightClick(selector: string, index?: LocatorIndex): Promise<void> {
       const { x, y } = await getElementCenter(selector, index);
-      await client.Input.dispatchMouseEvent({ type: 'mousePressed', x, y, button: 'right', clickCount: 1 });
-      await client.Input.dispatchMouseEvent({ type: 'mouseReleased', x, y, button: 'right', clickCount: 1 });
+      await mouse.click(x, y, { button: 'right' });
     },
 
     async hover(selector: string, index?: LocatorIndex): Promise<void> {
       const { x, y } = await getElementCenter(selector, index);
-      await client.Input.dispatchMouseEvent({ type: 'mouseMoved', x, y });
+      await mouse.move(x, y);
     },
 
     async dragAndDrop(
       sourceSelector: string,
       targetSelector: string,
       sourceIndex?: LocatorIndex,
-      targetIndex?: LocatorIndex
+      targetIndex?: LocatorIndex,
+      options: DragAndDropOptions = {}
     ): Promise<void> {
       const from = await getElementCenter(sourceSelector, sourceIndex);
       const to = await getElementCenter(targetSelector, targetIndex);
-      await client.Input.dispatchMouseEvent({ type: 'mousePressed', x: from.x, y: from.y, button: 'left', clickCount: 1 });
-      await client.Input.dispatchMouseEvent({ type: 'mouseMoved', x: to.x, y: to.y });
-      await client.Input.dispatchMouseEvent({ type: 'mouseReleased', x: to.x, y: to.y, button: 'left', clickCount: 1 });
+      await mouse.move(from.x, from.y);
+      await mouse.down();
+      await mouse.move(to.x, to.y, { steps: options.steps });
+      await mouse.up();
+    },
+
+    async scrollIntoView(selector: string, index?: LocatorIndex): Promise<void> {
+      await getElementBox(selector, index);
     },
 
-    async type(selector: string, text: string, index?: LocatorIndex): Promise<void> {
+    async tap(selector: string, index?: LocatorIndex): Promise<void> {
+      await dispatchTap(client, await getElementCenter(selector, index));
+    },
+
+    async swipe(selector: string, direction: SwipeDirection, distance = 100, index?: LocatorIndex): Promise<void> {
+      await dispatchSwipe(client, await getElementCenter(selector, index), direction, distance);
+    },
+
+    async pinch(selector: string, scale: number, index?: LocatorIndex): Promise<void> {
+      await dispatchPinch(client, await getElementCenter(selector, index), scale);
+    },
+
+    async longPress(selector: string, options?: LongPressOptions, index?: LocatorIndex): Promise<void> {
+      await dispatchLongPress(client, await getElementCenter(selector, index), options);
+    },
+
+    async type(selector: string, text: string, index?: LocatorIndex, options?: TypeOptions): Promise<void> {
       const resolved = resolveSelector(selector);
       const useXPath = isXPath(selector);
       const expr =
@@ -1068,10 +1511,7 @@ export function createPage(client: CDPClient): PageApi {
       const { x, y } = getCenter(rect);
       await client.Input.dispatchMouseEvent({ type: 'mousePressed', x, y, button: 'left', clickCount: 1 });
       await client.Input.dispatchMouseEvent({ type: 'mouseReleased', x, y, button: 'left', clickCount: 1 });
-      for (const char of text) {
-        await client.Input.dispatchKeyEvent({ type: 'keyDown', text: char });
-        await client.Input.dispatchKeyEvent({ type: 'keyUp', text: char });
-      }
+      await keyboard.type(text, options);
     },
 
     async select(selector: string, option: SelectOptionOrOptions, index?: LocatorIndex): Promise<void> {
@@ -1154,9 +1594,16 @@ export function createPage(client: CDPClient): PageApi {
       }
     },
 
+    async setInputFiles(selector: string, files: InputFiles, index?: LocatorIndex): Promise<void> {
+      const resolved = resolveInputFiles(files);
+      const inner = buildSetInputFilesInnerBlock(resolveSelector(selector), index === 0 ? 'first' : index, resolved, isXPath(selector), 'document');
+      await applyInputFiles(client, `(function(){ ${inner} })()`, resolved, selector);
+    },
+
+    waitForDownload: downloads.waitForDownload,
+
     async pressKey(key: string): Promise<void> {
-      await client.Input.dispatchKeyEvent({ type: 'keyDown', key });
-      await client.Input.dispatchKeyEvent({ type: 'keyUp', key });
+      await keyboard.press(key);
     },
 
     async waitForLoad(): Promise<void> {
@@ -1191,20 +1638,10 @@ export function createPage(client: CDPClient): PageApi {
     async waitForURL(urlOrPattern: URLPattern, options: { timeout?: number } = {}): Promise<void> {
       const timeoutMs = options.timeout ?? 30000;
       const pollMs = 200;
-      const match = (currentUrl: string): boolean => {
-        if (typeof urlOrPattern === 'string') {
-          if (urlOrPattern.includes('**')) {
-            const regex = new RegExp(urlOrPattern.replace(/\*\*/g, '.*'));
-            return regex.test(currentUrl);
-          }
-          return currentUrl.includes(urlOrPattern);
-        }
-        return urlOrPattern.test(currentUrl);
-      };
       const deadline = Date.now() + timeoutMs;
       while (Date.now() < deadline) {
         const currentUrl = await this.url();
-        if (match(currentUrl)) return;
+        if (matchesURL(currentUrl, urlOrPattern)) return;
         await new Promise((r) => setTimeout(r, pollMs));
       }
       const currentUrl = await this.url();
@@ -1274,6 +1711,12 @@ export function createPage(client: CDPClient): PageApi {
       return attr != null ? String(attr) : '';
     },
 
+    async count(selector: string, index?: LocatorIndex): Promise<number> {
+      const expr = buildCountExpression(resolveSelector(selector), index, isXPath(selector));
+      const { result } = await client.Runtime.evaluate({ expression: expr, returnByValue: true });
+      return typeof result?.value === 'number' ? result.value : 0;
+    },
+
     async isVisible(selector: string, index?: LocatorIndex): Promise<boolean> {
       const resolved = resolveSelector(selector);
       const useXPath = isXPath(selector);
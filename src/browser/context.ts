@@ -0,0 +1,91 @@
+/**
+ * Browser contexts (browser.newContext): pages with their own cookies, storage and tabs in the same browser process,
+ * made with CDP Target.createBrowserContext. Creating one takes a few round trips, so a test can use a fresh context.
+ */
+
+import CDP from 'chrome-remote-interface';
+import type { CDPClient } from './cdp-page';
+import { applyEmulation, type EmulationOptions } from './emulation';
+import type { StorageState } from './storage-state';
+
+/** Emulation options (viewport, locale, device, ...; see emulation.ts) and the storage to start with. */
+export interface BrowserContextOptions extends EmulationOptions {
+  /** Cookies and localStorage to start with: a StorageState object or the path of its JSON file. */
+  storageState?: string | StorageState;
+}
+
+interface TargetInfo {
+  targetId: string;
+  type: string;
+  url: string;
+  title: string;
+  browserContextId?: string;
+}
+
+/** Connection to the browser target (not a page), for the Target domain. */
+type BrowserClient = {
+  Target: {
+    createBrowserContext(params?: { disposeOnDetach?: boolean }): Promise<{ browserContextId: string }>;
+    disposeBrowserContext(params: { browserContextId: string }): Promise<void>;
+    createTarget(params: { url: string; browserContextId?: string }): Promise<{ targetId: string }>;
+    getTargets(): Promise<{ targetInfos: TargetInfo[] }>;
+  };
+  Browser: {
+    grantPermissions(params: { permissions: string[]; browserContextId?: string }): Promise<void>;
+  };
+  close(): Promise<void>;
+};
+
+/** An open context: its first page, and what a browser session needs to reach its tabs. */
+export interface BrowserContextSession {
+  /** CDP id of the context (Browser.setDownloadBehavior and grantPermissions apply per context). */
+  browserContextId: string;
+  /** Target id of the page created with the context. */
+  pageTargetId: string;
+  /** Connect to a page target of the context. */
+  connect(targetId: string): Promise<CDPClient>;
+  /** Page targets of the context. */
+  listTabs(): Promise<Array<{ id: string; url: string; title: string }>>;
+  /** Apply the context's emulation options to a newly connected page. */
+  prepare(client: CDPClient): Promise<void>;
+  /** Close the context's pages and drop its cookies and storage. */
+  dispose(): Promise<void>;
+}
+
+/** Create a browser context in the browser debugged at host:port (browserWsUrl is its /json/version webSocketDebuggerUrl). */
+export async function openBrowserContext(
+  port: number,
+  host: string,
+  browserWsUrl: string,
+  options: BrowserContextOptions
+): Promise<BrowserContextSession> {
+  const browserClient = (await CDP({ port, host, target: browserWsUrl, local: true })) as unknown as BrowserClient;
+  let browserContextId: string;
+  let pageTargetId: string;
+  try {
+    // disposeOnDetach: the context goes away with this connection, even if close() is never called
+    ({ browserContextId } = await browserClient.Target.createBrowserContext({ disposeOnDetach: true }));
+    ({ targetId: pageTargetId } = await browserClient.Target.createTarget({ url: 'about:blank', browserContextId }));
+    if (options.geolocation) await browserClient.Browser.grantPermissions({ permissions: ['geolocation'], browserContextId });
+  } catch (err) {
+    await browserClient.close().catch(() => {});
+    throw err;
+  }
+  return {
+    browserContextId,
+    pageTargetId,
+    connect: async (targetId: string) =>
+      (await CDP({ port, host, target: `ws://${host}:${port}/devtools/page/${targetId}` })) as unknown as CDPClient,
+    listTabs: async () => {
+      const { targetInfos } = await browserClient.Target.getTargets();
+      return targetInfos
+        .filter((t) => t.type === 'page' && t.browserContextId === browserContextId)
+        .map((t) => ({ id: t.targetId, url: t.url, title: t.title }));
+    },
+    prepare: (client: CDPClient) => applyEmulation(client, options),
+    dispose: async () => {
+      await browserClient.Target.disposeBrowserContext({ browserContextId }).catch(() => {});
+      await browserClient.close();
+    },
+  };
+}
@@ -1,18 +1,30 @@
 /** Minimal types for CSTesting Firefox (BiDi) support. Optional dependency; see CSTesting docs. */
 declare module 'playwright' {
   export interface Locator {
-    click(options?: { button?: 'left' | 'right' }): Promise<void>;
+    click(options?: {
+      button?: 'left' | 'right' | 'middle';
+      clickCount?: number;
+      delay?: number;
+      modifiers?: Array<'Alt' | 'Control' | 'Meta' | 'Shift'>;
+      position?: { x: number; y: number };
+    }): Promise<void>;
     dblclick(): Promise<void>;
     fill(value: string): Promise<void>;
     hover(): Promise<void>;
+    tap(): Promise<void>;
     dragTo(target: Locator): Promise<void>;
+    scrollIntoViewIfNeeded(): Promise<void>;
+    boundingBox(): Promise<{ x: number; y: number; width: number; height: number } | null>;
     selectOption(value: string | { value?: string; label?: string }): Promise<void>;
     check(): Promise<void>;
     uncheck(): Promise<void>;
+    setInputFiles(files: string | string[] | FilePayload | FilePayload[]): Promise<void>;
     press(key: string): Promise<void>;
+    pressSequentially(text: string, options?: { delay?: number }): Promise<void>;
     textContent(): Promise<string | null>;
     getAttribute(name: string): Promise<string | null>;
     isVisible(): Promise<boolean>;
+    count(): Promise<number>;
     evaluate<T>(fn: (el: Element) => T): Promise<T>;
     screenshot(options?: { path?: string; type?: 'png' | 'jpeg' }): Promise<Buffer>;
     first(): Locator;
@@ -20,6 +32,17 @@ declare module 'playwright' {
     nth(index: number): Locator;
     waitFor(options?: { timeout?: number }): Promise<void>;
   }
+  export interface FilePayload {
+    name: string;
+    mimeType?: string;
+    buffer: Buffer;
+  }
+  export interface Download {
+    suggestedFilename(): string;
+    url(): string;
+    path(): Promise<string>;
+    saveAs(path: string): Promise<void>;
+  }
   export interface FrameLocator {
     locator(selector: string): Locator;
     frameLocator(selector: string): FrameLocator;
@@ -28,16 +51,17 @@ declare module 'playwright' {
     addInitScript(params: { content: string }): Promise<void>;
     exposeBinding(name: string, callback: (source: unknown, payload: string) => void | Promise<void>): Promise<void>;
     goto(url: string): Promise<unknown>;
-    click(selector: string, options?: { button?: string }): Promise<void>;
+    click(selector: string, options?: Parameters<Locator['click']>[0]): Promise<void>;
     dblclick(selector: string): Promise<void>;
     hover(selector: string): Promise<void>;
+    tap(selector: string): Promise<void>;
     fill(selector: string, value: string): Promise<void>;
     selectOption(selector: string, value: string | { value?: string; label?: string }): Promise<void>;
     check(selector: string): Promise<void>;
     uncheck(selector: string): Promise<void>;
     locator(selector: string): Locator;
     frameLocator(selector: string): FrameLocator;
-    waitForLoadState(state?: string): Promise<void>;
+    waitForLoadState(state?: string, options?: { timeout?: number }): Promise<void>;
     waitForSelector(selector: string, options?: { timeout?: number }): Promise<unknown>;
     waitForURL(urlOrRegex: string | RegExp, options?: { timeout?: number }): Promise<void>;
     waitForTimeout(ms: number): Promise<void>;
@@ -46,17 +70,100 @@ declare module 'playwright' {
     content(): Promise<string>;
     evaluate<T>(expression: string | ((arg: unknown) => T)): Promise<T>;
     screenshot(options?: { path?: string; fullPage?: boolean; type?: string; quality?: number; selector?: string }): Promise<Buffer>;
-    keyboard: { press(key: string): Promise<void> };
+    keyboard: {
+      down(key: string): Promise<void>;
+      up(key: string): Promise<void>;
+      press(key: string, options?: { delay?: number }): Promise<void>;
+      insertText(text: string): Promise<void>;
+      type(text: string, options?: { delay?: number }): Promise<void>;
+    };
+    mouse: {
+      move(x: number, y: number, options?: { steps?: number }): Promise<void>;
+      down(options?: { button?: 'left' | 'right' | 'middle'; clickCount?: number }): Promise<void>;
+      up(options?: { button?: 'left' | 'right' | 'middle'; clickCount?: number }): Promise<void>;
+      click(x: number, y: number, options?: { button?: 'left' | 'right' | 'middle'; clickCount?: number; delay?: number }): Promise<void>;
+      wheel(deltaX: number, deltaY: number): Promise<void>;
+    };
     dragAndDrop(source: string, target: string): Promise<void>;
+    setInputFiles(selector: string, files: string | string[] | FilePayload | FilePayload[]): Promise<void>;
+    waitForEvent(event: 'download', options?: { timeout?: number }): Promise<Download>;
     on(event: 'dialog', handler: (dialog: { type(): string; message(): string; accept(text?: string): Promise<void>; dismiss(): Promise<void> }) => void): void;
     title(): Promise<string>;
   }
+  export interface Request {
+    url(): string;
+    method(): string;
+    headers(): Record<string, string>;
+    postData(): string | null;
+    resourceType(): string;
+    response(): Promise<Response | null>;
+    failure(): { errorText: string } | null;
+    /** Times in ms relative to startTime (epoch ms); -1 when not available. */
+    timing(): {
+      startTime: number;
+      domainLookupStart: number;
+      domainLookupEnd: number;
+      connectStart: number;
+      secureConnectionStart: number;
+      connectEnd: number;
+      requestStart: number;
+      responseStart: number;
+      responseEnd: number;
+    };
+  }
+  export interface Route {
+    request(): Request;
+    fulfill(options: { status?: number; headers?: Record<string, string>; body?: string | Buffer }): Promise<void>;
+    abort(errorCode?: string): Promise<void>;
+    continue(options?: { url?: string; method?: string; postData?: string | Buffer; headers?: Record<string, string> }): Promise<void>;
+  }
+  export interface Response {
+    url(): string;
+    status(): number;
+    statusText(): string;
+    headers(): Record<string, string>;
+    request(): Request;
+    body(): Promise<Buffer>;
+  }
+  export interface ConsoleMessage {
+    type(): string;
+    text(): string;
+    location(): { url: string; lineNumber: number; columnNumber: number };
+  }
+  /** Uncaught exception in one of the context's pages. */
+  export interface WebError {
+    error(): Error;
+  }
+  export type RouteUrlMatcher = string | RegExp | ((url: URL) => boolean);
   export interface BrowserContext {
     newPage(): Promise<Page>;
     pages(): Page[];
+    route(url: RouteUrlMatcher, handler: (route: Route) => Promise<void>): Promise<void>;
+    unroute(url: RouteUrlMatcher, handler?: (route: Route) => Promise<void>): Promise<void>;
+    on(event: 'request', handler: (request: Request) => void): void;
+    on(event: 'response', handler: (response: Response) => void): void;
+    on(event: 'requestfinished' | 'requestfailed', handler: (request: Request) => void): void;
+    on(event: 'console', handler: (message: ConsoleMessage) => void): void;
+    on(event: 'weberror', handler: (webError: WebError) => void): void;
+    /** Cookies and localStorage per origin; written as JSON when path is given. */
+    storageState(options?: { path?: string }): Promise<{ cookies: unknown[]; origins: unknown[] }>;
+    close(): Promise<void>;
+  }
+  export interface NewContextOptions {
+    viewport?: { width: number; height: number };
+    deviceScaleFactor?: number;
+    isMobile?: boolean;
+    hasTouch?: boolean;
+    userAgent?: string;
+    locale?: string;
+    timezoneId?: string;
+    geolocation?: { latitude: number; longitude: number; accuracy?: number };
+    permissions?: string[];
+    colorScheme?: 'light' | 'dark' | 'no-preference';
+    storageState?: string | { cookies: unknown[]; origins: unknown[] };
   }
   export interface Browser {
-    newContext(): Promise<BrowserContext>;
+    newContext(options?: NewContextOptions): Promise<BrowserContext>;
     close(): Promise<void>;
     on(event: 'disconnect', callback: () => void): void;
   }
@@ -0,0 +1,58 @@
+/**
+ * Built-in device descriptors for emulation: createBrowser({ ...devices['iPhone 13'] }) or device=iPhone 13 in a config file.
+ */
+
+import type { ViewportSize } from './emulation';
+
+export interface DeviceDescriptor {
+  userAgent: string;
+  viewport: ViewportSize;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+const IOS_15 = 'Mozilla/5.0 (iPhone; CPU iPhone OS 15_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/15.0 Mobile/15E148 Safari/604.1';
+const IOS_16 = 'Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1';
+const IOS_17 = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const IPAD = 'Mozilla/5.0 (iPad; CPU OS 16_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1';
+const android = (model: string, version: number) =>
+  `Mozilla/5.0 (Linux; Android ${version}; ${model}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36`;
+
+function mobileDevice(userAgent: string, width: number, height: number, deviceScaleFactor: number): DeviceDescriptor {
+  return { userAgent, viewport: { width, height }, deviceScaleFactor, isMobile: true, hasTouch: true };
+}
+
+/** Device descriptors by name (viewport is the browser's visible area, without its toolbars). */
+export const devices: Record<string, DeviceDescriptor> = {
+  'iPhone SE': mobileDevice(IOS_15, 375, 548, 2),
+  'iPhone 12': mobileDevice(IOS_15, 390, 664, 3),
+  'iPhone 12 Pro Max': mobileDevice(IOS_15, 428, 746, 3),
+  'iPhone 13': mobileDevice(IOS_15, 390, 664, 3),
+  'iPhone 13 Mini': mobileDevice(IOS_15, 375, 629, 3),
+  'iPhone 13 Pro Max': mobileDevice(IOS_15, 428, 746, 3),
+  'iPhone 14': mobileDevice(IOS_16, 390, 664, 3),
+  'iPhone 14 Pro Max': mobileDevice(IOS_16, 430, 740, 3),
+  'iPhone 15': mobileDevice(IOS_17, 393, 659, 3),
+  'iPhone 15 Pro Max': mobileDevice(IOS_17, 430, 739, 3),
+  'iPad Mini': mobileDevice(IPAD, 768, 1024, 2),
+  'iPad Pro 11': mobileDevice(IPAD, 834, 1194, 2),
+  'Pixel 5': mobileDevice(android('Pixel 5', 11), 393, 727, 2.75),
+  'Pixel 7': mobileDevice(android('Pixel 7', 14), 412, 839, 2.625),
+  'Galaxy S9+': mobileDevice(android('SM-G965U', 8), 320, 658, 4.5),
+  'Galaxy S23': mobileDevice(android('SM-S911B', 14), 360, 780, 3),
+  'Desktop Chrome': {
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    viewport: { width: 1280, height: 720 },
+    deviceScaleFactor: 1,
+    isMobile: false,
+    hasTouch: false,
+  },
+};
+
+/** Descriptor for a device name (case-insensitive). Throws with the known names when there is none. */
+export function getDevice(name: string): DeviceDescriptor {
+  const key = Object.keys(devices).find((d) => d.toLowerCase() === name.trim().toLowerCase());
+  if (!key) throw new Error(`Unknown device "${name}". Known devices: ${Object.keys(devices).join(', ')}`);
+  return devices[key];
+}
@@ -0,0 +1,133 @@
+/**
+ * Downloads with CDP Browser.setDownloadBehavior: once a page waits for a download, files are saved under their
+ * download guid in a temporary directory and Browser.downloadWillBegin / downloadProgress report them.
+ * saveAs() copies the finished file to where the test wants it. The directory is removed when the browser
+ * (or context) closes, and at process exit for browsers that were never closed.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { CDPClient } from './cdp-page';
+
+export interface Download {
+  /** File name the page suggested (from Content-Disposition, the download attribute or the URL). */
+  suggestedFilename: string;
+  /** URL the file was downloaded from. */
+  url: string;
+  /** Wait until the download has finished; returns the path of the downloaded (temporary) file. */
+  path(): Promise<string>;
+  /** Wait until the download has finished and copy the file to filePath (missing directories are created). */
+  saveAs(filePath: string): Promise<void>;
+}
+
+export interface WaitForDownloadOptions {
+  /** Max ms to wait for the download to start (default 30000). */
+  timeout?: number;
+}
+
+/**
+ * Where the pages of a browser session save downloads. The download behavior applies to a whole browser context
+ * (the default one when browserContextId is not set), so all pages of a session share the directory.
+ */
+export interface DownloadScope {
+  browserContextId?: string;
+  /** Temporary directory, created by the first waitForDownload(). */
+  dir?: string;
+}
+
+/** Directories not removed yet, deleted at process exit. */
+const openDirs = new Set<string>();
+
+function removeDir(dir: string): void {
+  fs.rmSync(dir, { recursive: true, force: true });
+  openDirs.delete(dir);
+}
+
+process.once('exit', () => openDirs.forEach(removeDir));
+
+function getDownloadDir(scope: DownloadScope): string {
+  if (!scope.dir) {
+    scope.dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cstesting-downloads-'));
+    openDirs.add(scope.dir);
+  }
+  return scope.dir;
+}
+
+/** Remove the scope's temporary directory (called when its browser or context closes). */
+export function disposeDownloadScope(scope: DownloadScope): void {
+  if (scope.dir) removeDir(scope.dir);
+  scope.dir = undefined;
+}
+
+/** Download tracking for a page's client (see PageApi.waitForDownload). */
+export function createDownloads(client: CDPClient, scope: DownloadScope = {}): { waitForDownload(options?: WaitForDownloadOptions): Promise<Download> } {
+  let enabled: Promise<void> | null = null;
+  const waiters = new Set<(download: Download) => void>();
+  const finishers = new Map<string, { resolve: (file: string) => void; reject: (err: Error) => void }>();
+
+  function enable(): Promise<void> {
+    if (enabled) return enabled;
+    const dir = getDownloadDir(scope);
+    client.Browser.on('downloadWillBegin', ({ guid, url, suggestedFilename }) => {
+      const finished = new Promise<string>((resolve, reject) => finishers.set(guid, { resolve, reject }));
+      // A download nobody saves may be canceled: only path() and saveAs() report that
+      finished.catch(() => {});
+      const download: Download = {
+        suggestedFilename,
+        url,
+        path: () => finished,
+        saveAs: async (filePath: string) => {
+          const file = await finished;
+          fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+          fs.copyFileSync(file, filePath);
+        },
+      };
+      Array.from(waiters).forEach((w) => w(download));
+    });
+    client.Browser.on('downloadProgress', ({ guid, state }) => {
+      const finisher = finishers.get(guid);
+      if (!finisher || state === 'inProgress') return;
+      finishers.delete(guid);
+      if (state === 'completed') finisher.resolve(path.join(dir, guid));
+      else finisher.reject(new Error('Download was canceled'));
+    });
+    enabled = client.Browser.setDownloadBehavior({
+      behavior: 'allowAndName',
+      downloadPath: dir,
+      eventsEnabled: true,
+      browserContextId: scope.browserContextId,
+    });
+    return enabled;
+  }
+
+  async function waitForDownload(options: WaitForDownloadOptions = {}): Promise<Download> {
+    const timeoutMs = options.timeout ?? 30000;
+    let stop = () => {};
+    // Listen before enabling, so a download started by a click in the same Promise.all is not missed
+    const started = new Promise<Download>((resolve, reject) => {
+      const onDownload = (download: Download) => {
+        stop();
+        resolve(download);
+      };
+      const timer = setTimeout(() => {
+        stop();
+        reject(new Error(`waitForDownload: no download started within ${timeoutMs}ms`));
+      }, timeoutMs);
+      stop = () => {
+        clearTimeout(timer);
+        waiters.delete(onDownload);
+      };
+      waiters.add(onDownload);
+    });
+    try {
+      await enable();
+    } catch (err) {
+      stop();
+      throw err;
+    }
+    return started;
+  }
+
+  return { waitForDownload };
+}
@@ -0,0 +1,68 @@
+/**
+ * Device emulation (viewport, mobile, touch, user agent, locale, timezone, geolocation, color scheme) through the
+ * CDP Emulation domain. Applied to every page a browser or context connects to: the first page, new tabs and switchToTab.
+ * The geolocation permission belongs to the browser context and is granted by its owner (index.ts, context.ts).
+ */
+
+import type { CDPClient } from './cdp-page';
+
+/** Size of the page's viewport in CSS pixels. */
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export interface EmulationOptions {
+  /** Emulated viewport (e.g. { width: 1280, height: 720 }). Default: the browser window size. */
+  viewport?: ViewportSize;
+  /** Device pixels per CSS pixel (e.g. 3 for a phone). Default: the screen's. */
+  deviceScaleFactor?: number;
+  /** Mobile mode: meta viewport is honored, overlay scrollbars. Default false. */
+  isMobile?: boolean;
+  /** Touch events and navigator.maxTouchPoints. Default false. */
+  hasTouch?: boolean;
+  /** User agent string for navigator.userAgent and the User-Agent header. */
+  userAgent?: string;
+  /** Locale for navigator.language, Intl and the Accept-Language header (e.g. 'de-DE'). */
+  locale?: string;
+  /** Time zone for Date and Intl (IANA id, e.g. 'Europe/Berlin'). */
+  timezoneId?: string;
+  /** Position returned by navigator.geolocation (the permission is granted). accuracy in meters, default 0. */
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  /** Value of the prefers-color-scheme media feature. */
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+}
+
+/** Apply the emulation options to a newly connected page. Does nothing when none are set. */
+export async function applyEmulation(client: CDPClient, options: EmulationOptions): Promise<void> {
+  const { viewport, deviceScaleFactor, isMobile, hasTouch, locale, timezoneId, geolocation, colorScheme } = options;
+  if (viewport || deviceScaleFactor !== undefined || isMobile) {
+    // 0 keeps the window's size and scale
+    await client.Emulation.setDeviceMetricsOverride({
+      width: viewport?.width ?? 0,
+      height: viewport?.height ?? 0,
+      deviceScaleFactor: deviceScaleFactor ?? 0,
+      mobile: isMobile ?? false,
+    });
+  }
+  if (hasTouch) await client.Emulation.setTouchEmulationEnabled({ enabled: true, maxTouchPoints: 5 });
+  if (options.userAgent || locale) {
+    // The override needs a user agent: keep the browser's own when only the locale changes
+    const userAgent = options.userAgent ?? (await client.Runtime.evaluate({ expression: 'navigator.userAgent', returnByValue: true })).result?.value;
+    await client.Emulation.setUserAgentOverride({ userAgent: String(userAgent ?? ''), ...(locale ? { acceptLanguage: locale } : {}) });
+  }
+  if (locale) await client.Emulation.setLocaleOverride({ locale });
+  if (timezoneId) {
+    await client.Emulation.setTimezoneOverride({ timezoneId }).catch((err: unknown) => {
+      throw new Error(`Invalid timezoneId "${timezoneId}": ${err instanceof Error ? err.message : String(err)}`);
+    });
+  }
+  if (geolocation) {
+    await client.Emulation.setGeolocationOverride({
+      latitude: geolocation.latitude,
+      longitude: geolocation.longitude,
+      accuracy: geolocation.accuracy ?? 0,
+    });
+  }
+  if (colorScheme) await client.Emulation.setEmulatedMedia({ features: [{ name: 'prefers-color-scheme', value: colorScheme }] });
+}
@@ -0,0 +1,58 @@
+/**
+ * Screenshots taken when a test fails: the active page of every open browser for it() tests,
+ * the config run's browser for a failed step. Saved under <report dir>/attachments/ and shown in the report.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BrowserApi } from './index';
+import { artifactFileName, artifactPath } from '../artifacts';
+
+/** Browsers open in this process, in launch order. */
+const openBrowsers = new Set<BrowserApi>();
+
+/** Track a new browser until its close() is called. Returns the same browser. */
+export function trackOpenBrowser(browser: BrowserApi): BrowserApi {
+  openBrowsers.add(browser);
+  const close = browser.close;
+  browser.close = async () => {
+    openBrowsers.delete(browser);
+    await close();
+  };
+  return browser;
+}
+
+/** Close every browser still open in this process (e.g. when a worker is stopped). Errors are ignored. */
+export async function closeOpenBrowsers(): Promise<void> {
+  await Promise.all([...openBrowsers].map((browser) => browser.close().catch(() => {})));
+}
+
+/** Screenshot file of a failed test: <report dir>/attachments/<name>-<hash>-failure.png (see artifacts.ts). */
+export function failureScreenshotPath(testName: string): string {
+  return artifactPath('attachments', artifactFileName(testName, '-failure.png'));
+}
+
+/** Save a screenshot of the browser's active page or tab. Returns the absolute path, or undefined when the page cannot be captured. */
+export async function saveFailureScreenshot(browser: BrowserApi, file: string): Promise<string | undefined> {
+  try {
+    const data = await browser.getScreenshot();
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    fs.writeFileSync(file, data);
+    return path.resolve(file);
+  } catch {
+    // Browser crashed or disconnected: no evidence to add
+    return undefined;
+  }
+}
+
+/** Screenshot every open browser for a failed test (numbered when there are several). */
+export async function captureFailureScreenshots(testName: string): Promise<string[]> {
+  const browsers = [...openBrowsers];
+  const files: string[] = [];
+  for (let i = 0; i < browsers.length; i++) {
+    const file = failureScreenshotPath(browsers.length > 1 ? `${testName} ${i + 1}` : testName);
+    const saved = await saveFailureScreenshot(browsers[i], file);
+    if (saved) files.push(saved);
+  }
+  return files;
+}
@@ -3,8 +3,54 @@
  * Requires optional dependency; see CSTesting docs.
  */
 
-import type { BrowserApi, LocatorApi, FrameHandle, TabInfo, SelectOptionOrOptions } from './index';
-import type { Locator, Page, FrameLocator } from 'playwright';
+import { pageEventSubscriber, type BrowserApi, type StepReporter, type LocatorApi, type FrameHandle, type TabInfo, type SelectOptionOrOptions, type TypeOptions } from './index';
+import type { BrowserContext, NewContextOptions, Locator, Page, FrameLocator, Route as PlaywrightRoute, Request as PlaywrightRequest } from 'playwright';
+import type { Download } from './downloads';
+import type { InputFiles } from './input-files';
+import { matchesURL, type DragAndDropOptions, type LocatorIndex, type URLPattern } from './cdp-page';
+import type { ClickOptions, MouseClickOptions, MouseOptions } from './mouse';
+import { createNetworkResponse, handleRoute, harRouteHandler, samePattern, waitForIdle, waitForNetworkEvent, type RouteHandler } from './network';
+import type { NetworkRequest, NetworkResponse } from './network';
+import type { ConsoleMessage } from './cdp-page';
+import { createHarRecorder, noteHarFile, registerSessionRecorder, writeHar, type HarRecorder, type RecordHarOptions } from './har-recorder';
+import { trackOpenBrowser } from './failure-screenshot';
+import type { StorageState } from './storage-state';
+import type { BrowserContextOptions } from './context';
+import { trackPageLog } from './page-log';
+import { reportBrowserStep, runBrowserStep } from '../steps';
+
+function toNetworkRequest(req: PlaywrightRequest): NetworkRequest {
+  return { url: req.url(), method: req.method(), headers: req.headers(), postData: req.postData() ?? undefined, resourceType: req.resourceType() };
+}
+
+/** Feed a finished or failed Playwright request to the HAR recorders (Playwright timings are ms from startTime). */
+async function recordPlaywrightRequest(req: PlaywrightRequest, recorders: HarRecorder[]): Promise<void> {
+  const res = await req.response().catch(() => null);
+  const body = res ? await res.body().catch(() => undefined) : undefined;
+  const t = req.timing();
+  const phase = (start: number, end: number) => (start >= 0 && end >= 0 ? end - start : -1);
+  const connectEnd = t.secureConnectionStart >= 0 ? t.secureConnectionStart : t.connectEnd;
+  const exchange = {
+    startedDateTime: new Date(t.startTime),
+    method: req.method(),
+    url: req.url(),
+    requestHeaders: req.headers(),
+    postData: req.postData() ?? undefined,
+    response: res ? { status: res.status(), statusText: res.statusText(), headers: res.headers() } : undefined,
+    body,
+    timings: {
+      blocked: [t.domainLookupStart, t.connectStart, t.requestStart].find((v) => v >= 0) ?? -1,
+      dns: phase(t.domainLookupStart, t.domainLookupEnd),
+      connect: phase(t.connectStart, connectEnd),
+      ssl: phase(t.secureConnectionStart, t.connectEnd),
+      send: 0,
+      wait: phase(t.requestStart, t.responseStart),
+      receive: phase(t.responseStart, t.responseEnd),
+    },
+    errorText: req.failure()?.errorText,
+  };
+  for (const recorder of recorders) recorder.add(exchange);
+}
 
 function getSelectOption(value: SelectOptionOrOptions): string | { value?: string; label?: string } {
   if (typeof value === 'string') return value;
@@ -13,24 +59,65 @@ function getSelectOption(value: SelectOptionOrOptions): string | { value?: strin
   return value as { value?: string; label?: string };
 }
 
-function makeLocatorApi(loc: Locator, page: Page): LocatorApi {
+/** Playwright has no swipe, pinch or long press (only tap): these reject with a clear message. */
+function unsupportedGesture(name: string): Promise<never> {
+  return Promise.reject(new Error(`${name}() is not supported with browser: firefox (use tap(), or browser: chrome for touch gestures)`));
+}
+
+/** Drag with the mouse in options.steps moves (Playwright's dragTo moves in one step). */
+async function dragWithSteps(source: Locator, target: Locator, page: Page, options: DragAndDropOptions = {}): Promise<void> {
+  if (!options.steps) return source.dragTo(target);
+  await source.scrollIntoViewIfNeeded();
+  const from = await source.boundingBox();
+  const to = await target.boundingBox();
+  if (!from || !to) throw new Error('dragAndDrop: source or target element is not visible');
+  await page.mouse.move(from.x + from.width / 2, from.y + from.height / 2);
+  await page.mouse.down();
+  await page.mouse.move(to.x + to.width / 2, to.y + to.height / 2, { steps: options.steps });
+  await page.mouse.up();
+}
+
+/** Runs a browser action as a timed step of the running test (see steps.ts). */
+type StepRunner = <T>(message: string, action: () => Promise<T>) => Promise<T>;
+
+function makeLocatorApi(loc: Locator, page: Page, selector: string, step: StepRunner): LocatorApi {
   return {
-    click: () => loc.click(),
-    doubleClick: () => loc.dblclick(),
-    rightClick: () => loc.click({ button: 'right' }),
-    hover: () => loc.hover(),
-    dragTo: (targetSelector: string) => loc.dragTo(page.locator(targetSelector)),
-    type: (text: string) => loc.fill(text),
-    select: (option: SelectOptionOrOptions) => {
-      const o = getSelectOption(option);
-      return typeof o === 'string' ? loc.selectOption(o) : loc.selectOption(o);
-    },
-    check: () => loc.check(),
-    uncheck: () => loc.uncheck(),
+    click: (options?: ClickOptions) => step(`Click ${selector}`, () => loc.click(options)),
+    doubleClick: () => step(`Double click ${selector}`, () => loc.dblclick()),
+    rightClick: () => step(`Right click ${selector}`, () => loc.click({ button: 'right' })),
+    hover: () => step(`Hover ${selector}`, () => loc.hover()),
+    dragTo: (targetSelector: string, options?: DragAndDropOptions) =>
+      step(`Drag ${selector} to ${targetSelector}`, () => dragWithSteps(loc, page.locator(targetSelector), page, options)),
+    // Centered like the CDP backend (Playwright's scrollIntoViewIfNeeded leaves visible elements where they are)
+    scrollIntoView: () => step(`Scroll ${selector} into view`, () => loc.evaluate((el) => el.scrollIntoView({ block: 'center', inline: 'center' }))),
+    tap: () => step(`Tap ${selector}`, () => loc.tap()),
+    swipe: () => unsupportedGesture('swipe'),
+    pinch: () => unsupportedGesture('pinch'),
+    longPress: () => unsupportedGesture('longPress'),
+    // With a delay the text is typed key by key; otherwise filled at once
+    type: (text: string, options?: TypeOptions) =>
+      step(`Type in ${selector}`, () => (options?.delay ? loc.pressSequentially(text, { delay: options.delay }) : loc.fill(text))),
+    select: (option: SelectOptionOrOptions) =>
+      step(`Select in ${selector}`, () => {
+        const o = getSelectOption(option);
+        return typeof o === 'string' ? loc.selectOption(o) : loc.selectOption(o);
+      }),
+    check: () => step(`Check ${selector}`, () => loc.check()),
+    uncheck: () => step(`Uncheck ${selector}`, () => loc.uncheck()),
+    setInputFiles: (files: InputFiles) => step(`Set input files of ${selector}`, () => loc.setInputFiles(files)),
     pressKey: (key: string) => loc.press(key),
-    textContent: () => loc.textContent().then((s: string | null) => s ?? ''),
-    getAttribute: (name: string) => loc.getAttribute(name).then((s: string | null) => s ?? ''),
+    textContent: () => step(`Get textContent ${selector}`, () => loc.textContent().then((s: string | null) => s ?? '')),
+    getAttribute: (name: string) => step(`Get attribute ${name} of ${selector}`, () =>
+      name === 'value'
+        ? loc.evaluate((el: Element) => {
+          // Same as the CDP backend: the current value of form controls, not the HTML attribute
+          const e = el as HTMLInputElement;
+          const isControl = e.tagName === 'INPUT' || e.tagName === 'TEXTAREA' || e.tagName === 'SELECT';
+          return (isControl ? e.value : e.getAttribute('value')) ?? '';
+        })
+        : loc.getAttribute(name).then((s: string | null) => s ?? '')),
     isVisible: () => loc.isVisible(),
+    count: () => loc.count(),
     isDisabled: () => loc.evaluate((el: Element) => (el as HTMLInputElement).disabled),
     isEditable: () =>
       loc.evaluate((el: Element) => {
@@ -44,35 +131,53 @@ function makeLocatorApi(loc: Locator, page: Page): LocatorApi {
         return e.checked ?? false;
       }),
     screenshot: (opts) => loc.screenshot({ path: opts?.path, type: opts?.format ?? 'png' }).then((b: Buffer) => b),
-    first: () => makeLocatorApi(loc.first(), page),
-    last: () => makeLocatorApi(loc.last(), page),
-    nth: (index: number) => makeLocatorApi(loc.nth(index), page),
+    first: () => makeLocatorApi(loc.first(), page, selector, step),
+    last: () => makeLocatorApi(loc.last(), page, selector, step),
+    nth: (index: number) => makeLocatorApi(loc.nth(index), page, selector, step),
   };
 }
 
-function makeFrameHandle(frameLoc: FrameLocator, page: Page): FrameHandle {
+/** Frame handle; its actions are reported like the page's, with " (in frame)" appended. */
+function makeFrameHandle(frameLoc: FrameLocator, page: Page, pageStep: StepRunner, onStep: StepReporter): FrameHandle {
+  const step: StepRunner = (message, action) => pageStep(message + ' (in frame)', action);
   return {
-    frame: (iframeSelector: string) => makeFrameHandle(frameLoc.frameLocator(iframeSelector), page),
-    waitForSelector: (selector: string, options?) => frameLoc.locator(selector).waitFor({ timeout: options?.timeout ?? 30000 }).then(() => {}),
+    frame: (iframeSelector: string) => {
+      onStep(`Switch to frame ${iframeSelector}`);
+      return makeFrameHandle(frameLoc.frameLocator(iframeSelector), page, pageStep, onStep);
+    },
+    waitForSelector: (selector: string, options?) =>
+      step(`Wait for selector ${selector}`, () => frameLoc.locator(selector).waitFor({ timeout: options?.timeout ?? 30000 }).then(() => {})),
     evaluate: <T>(expression: string) => page.evaluate(expression) as Promise<T>,
     content: () => page.content(),
-    click: (selector: string) => frameLoc.locator(selector).click(),
-    doubleClick: (selector: string) => frameLoc.locator(selector).dblclick(),
-    rightClick: (selector: string) => frameLoc.locator(selector).click({ button: 'right' }),
-    hover: (selector: string) => frameLoc.locator(selector).hover(),
-    dragAndDrop: (src, tgt) => frameLoc.locator(src).dragTo(frameLoc.locator(tgt)),
-    type: (selector: string, text: string) => frameLoc.locator(selector).fill(text),
-    select: (selector: string, option: SelectOptionOrOptions) => {
-      const o = getSelectOption(option);
-      const loc = frameLoc.locator(selector);
-      return typeof o === 'string' ? loc.selectOption(o) : loc.selectOption(o);
-    },
-    check: (selector: string) => frameLoc.locator(selector).check(),
-    uncheck: (selector: string) => frameLoc.locator(selector).uncheck(),
-    locator: (selector: string) => makeLocatorApi(frameLoc.locator(selector), page),
-    getByAttribute: (attr: string, value: string) => makeLocatorApi(frameLoc.locator(`[${attr}="${value}"]`), page),
-    getTextContent: (selector: string) => frameLoc.locator(selector).textContent().then((s: string | null) => s ?? ''),
-    getAttribute: (selector: string, attrName: string) => frameLoc.locator(selector).getAttribute(attrName).then((s: string | null) => s ?? ''),
+    click: (selector: string, _index?: LocatorIndex, options?: ClickOptions) => step(`Click ${selector}`, () => frameLoc.locator(selector).click(options)),
+    doubleClick: (selector: string) => step(`Double click ${selector}`, () => frameLoc.locator(selector).dblclick()),
+    rightClick: (selector: string) => step(`Right click ${selector}`, () => frameLoc.locator(selector).click({ button: 'right' })),
+    hover: (selector: string) => step(`Hover ${selector}`, () => frameLoc.locator(selector).hover()),
+    dragAndDrop: (src, tgt, _srcIndex, _tgtIndex, options?: DragAndDropOptions) =>
+      step(`Drag ${src} to ${tgt}`, () => dragWithSteps(frameLoc.locator(src), frameLoc.locator(tgt), page, options)),
+    tap: (selector: string) => step(`Tap ${selector}`, () => frameLoc.locator(selector).tap()),
+    swipe: () => unsupportedGesture('swipe'),
+    pinch: () => unsupportedGesture('pinch'),
+    longPress: () => unsupportedGesture('longPress'),
+    type: (selector: string, text: string, _index?: LocatorIndex, options?: TypeOptions) =>
+      step(`Type in ${selector}`, () => {
+        const loc = frameLoc.locator(selector);
+        return options?.delay ? loc.pressSequentially(text, { delay: options.delay }) : loc.fill(text);
+      }),
+    select: (selector: string, option: SelectOptionOrOptions) =>
+      step(`Select ${selector}`, () => {
+        const o = getSelectOption(option);
+        const loc = frameLoc.locator(selector);
+        return typeof o === 'string' ? loc.selectOption(o) : loc.selectOption(o);
+      }),
+    check: (selector: string) => step(`Check ${selector}`, () => frameLoc.locator(selector).check()),
+    uncheck: (selector: string) => step(`Uncheck ${selector}`, () => frameLoc.locator(selector).uncheck()),
+    setInputFiles: (selector: string, files: InputFiles) => step(`Set input files of ${selector}`, () => frameLoc.locator(selector).setInputFiles(files)),
+    locator: (selector: string) => makeLocatorApi(frameLoc.locator(selector), page, selector, step),
+    getByAttribute: (attr: string, value: string) => makeLocatorApi(frameLoc.locator(`[${attr}="${value}"]`), page, `[${attr}="${value}"]`, step),
+    getTextContent: (selector: string) => step(`Get textContent ${selector}`, () => frameLoc.locator(selector).textContent().then((s: string | null) => s ?? '')),
+    getAttribute: (selector: string, attrName: string) =>
+      step(`Get attribute ${attrName} of ${selector}`, () => frameLoc.locator(selector).getAttribute(attrName).then((s: string | null) => s ?? '')),
     isVisible: (selector: string) => frameLoc.locator(selector).isVisible(),
     isDisabled: (selector: string) => frameLoc.locator(selector).evaluate((el: Element) => (el as HTMLInputElement).disabled),
     isEditable: (selector: string) =>
@@ -84,11 +189,32 @@ function makeFrameHandle(frameLoc: FrameLocator, page: Page): FrameHandle {
   };
 }
 
+/** Playwright's newContext options for ours: same names; geolocation also needs the permission. */
+function playwrightContextOptions(options: BrowserContextOptions): NewContextOptions {
+  const { viewport, deviceScaleFactor, isMobile, hasTouch, userAgent, locale, timezoneId, geolocation, colorScheme, storageState } = options;
+  return {
+    viewport,
+    deviceScaleFactor,
+    isMobile,
+    hasTouch,
+    userAgent,
+    locale,
+    timezoneId,
+    geolocation,
+    permissions: geolocation ? ['geolocation'] : undefined,
+    colorScheme,
+    storageState,
+  };
+}
+
 /**
  * Create a browser using Firefox (WebDriver BiDi). Requires optional dependency; see CSTesting docs.
  */
-export async function createBrowserWithFirefoxBiDi(options: {
+export async function createBrowserWithFirefoxBiDi(options: BrowserContextOptions & {
   headless?: boolean;
+  recordHar?: RecordHarOptions;
+  failOnConsoleError?: boolean;
+  onStep?: StepReporter;
 }): Promise<BrowserApi> {
   let pkg: { firefox: { launch: (opts?: { headless?: boolean }) => Promise<import('playwright').Browser> } };
   try {
@@ -99,7 +225,30 @@ export async function createBrowserWithFirefoxBiDi(options: {
     );
   }
   const browser = await pkg.firefox.launch({ headless: options.headless ?? true });
-  const context = await browser.newContext();
+  const context = await browser.newContext(playwrightContextOptions(options));
+  return createFirefoxSession(browser, context, options, () => browser.close());
+}
+
+/** Browser API on a Playwright context; newContext() opens sibling contexts, closeSession ends this one. */
+async function createFirefoxSession(
+  browser: import('playwright').Browser,
+  context: BrowserContext,
+  options: { recordHar?: RecordHarOptions; failOnConsoleError?: boolean; onStep?: StepReporter },
+  closeSession: () => Promise<void>
+): Promise<BrowserApi> {
+  const sessionHar = registerSessionRecorder();
+  const harRecorders = [sessionHar.recorder];
+  if (options.recordHar) harRecorders.push(createHarRecorder({ maxBodySize: options.recordHar.maxBodySize }));
+  const pendingHar = new Set<Promise<void>>();
+  const onRequestDone = (req: PlaywrightRequest) => {
+    const recorders = harRecorders.filter((r) => r.recording());
+    if (recorders.length === 0) return;
+    const done = recordPlaywrightRequest(req, recorders).catch(() => {});
+    pendingHar.add(done);
+    done.finally(() => pendingHar.delete(done));
+  };
+  context.on('requestfinished', onRequestDone);
+  context.on('requestfailed', onRequestDone);
   let pages = await context.pages();
   let currentPageIndex = 0;
   if (pages.length === 0) {
@@ -120,32 +269,140 @@ export async function createBrowserWithFirefoxBiDi(options: {
     } else await dialog.dismiss();
   });
 
+  /** Routes added with route(), with the wrappers registered on the Playwright context (needed for unroute). */
+  const routes: Array<{ url: URLPattern; handler: RouteHandler; matcher: (url: URL) => boolean; wrapped: (route: PlaywrightRoute) => Promise<void> }> = [];
+  async function addRoute(url: URLPattern, handler: RouteHandler): Promise<void> {
+    const matcher = (u: URL) => matchesURL(u.href, url);
+    const wrapped = (pwRoute: PlaywrightRoute) => {
+      return handleRoute(
+        handler,
+        toNetworkRequest(pwRoute.request()),
+        {
+          fulfill: (response) => pwRoute.fulfill(response),
+          abort: (errorCode) => pwRoute.abort(errorCode),
+          continue: (overrides) => pwRoute.continue(overrides),
+        }
+      );
+    };
+    routes.push({ url, handler, matcher, wrapped });
+    await context.route(matcher, wrapped);
+  }
+
+  const requestListeners = new Set<(request: NetworkRequest) => void>();
+  const responseListeners = new Set<(response: NetworkResponse) => void>();
+  /** In-flight requests for waitForNetworkIdle (Playwright's 'networkidle' load state only covers the first load). */
+  const inflight = new Set<PlaywrightRequest>();
+  let lastActivity = Date.now();
+  const settleRequest = (req: PlaywrightRequest) => {
+    if (inflight.delete(req)) lastActivity = Date.now();
+  };
+  context.on('requestfinished', settleRequest);
+  context.on('requestfailed', settleRequest);
+  context.on('request', (req) => {
+    inflight.add(req);
+    lastActivity = Date.now();
+    const request = toNetworkRequest(req);
+    for (const l of Array.from(requestListeners)) l(request);
+  });
+  context.on('response', (res) => {
+    const response = createNetworkResponse(
+      toNetworkRequest(res.request()),
+      { url: res.url(), status: res.status(), statusText: res.statusText(), headers: res.headers() },
+      () => res.body()
+    );
+    for (const l of Array.from(responseListeners)) l(response);
+  });
+  const consoleListeners = new Set<(message: ConsoleMessage) => void>();
+  context.on('console', (msg) => {
+    const message: ConsoleMessage = { type: msg.type(), text: msg.text(), location: msg.location() };
+    for (const l of Array.from(consoleListeners)) l(message);
+  });
+  const pageErrorListeners = new Set<(error: Error) => void>();
+  context.on('weberror', (webError) => {
+    const error = webError.error();
+    for (const l of Array.from(pageErrorListeners)) l(error);
+  });
+  const onRequest = (listener: (request: NetworkRequest) => void) => {
+    requestListeners.add(listener);
+    return () => {
+      requestListeners.delete(listener);
+    };
+  };
+  const onResponse = (listener: (response: NetworkResponse) => void) => {
+    responseListeners.add(listener);
+    return () => {
+      responseListeners.delete(listener);
+    };
+  };
+
+  // Actions are added to the running test's step tree (timed while they run) and trace, and passed to options.onStep, as with CDP
+  const onStep: StepReporter = (message) => reportBrowserStep(message, options.onStep);
+  const step: StepRunner = (message, action) => runBrowserStep(message, action, options.onStep, api);
+
   const api: BrowserApi = {
-    goto: (url: string) => currentPage.goto(url).then(() => undefined),
-    click: (selector: string) => currentPage.click(selector),
-    doubleClick: (selector: string) => currentPage.dblclick(selector),
-    rightClick: (selector: string) => currentPage.click(selector, { button: 'right' }),
-    hover: (selector: string) => currentPage.hover(selector),
-    dragAndDrop: (src, tgt) => currentPage.dragAndDrop(src, tgt),
-    type: (selector: string, text: string) => currentPage.fill(selector, text),
-    select: (selector: string, option: SelectOptionOrOptions) => {
-      const o = getSelectOption(option);
-      return typeof o === 'string' ? currentPage.selectOption(selector, o) : currentPage.selectOption(selector, o);
-    },
-    check: (selector: string) => currentPage.check(selector),
-    uncheck: (selector: string) => currentPage.uncheck(selector),
+    goto: (url: string) => step(`Goto ${url}`, () => currentPage.goto(url).then(() => undefined)),
+    click: (selector: string, options?: ClickOptions) => step(`Click ${selector}`, () => currentPage.click(selector, options)),
+    doubleClick: (selector: string) => step(`Double click ${selector}`, () => currentPage.dblclick(selector)),
+    rightClick: (selector: string) => step(`Right click ${selector}`, () => currentPage.click(selector, { button: 'right' })),
+    hover: (selector: string) => step(`Hover ${selector}`, () => currentPage.hover(selector)),
+    dragAndDrop: (src, tgt, options?: DragAndDropOptions) =>
+      step(`Drag ${src} to ${tgt}`, () => dragWithSteps(currentPage.locator(src), currentPage.locator(tgt), currentPage, options)),
+    tap: (selector: string) => step(`Tap ${selector}`, () => currentPage.tap(selector)),
+    swipe: () => unsupportedGesture('swipe'),
+    pinch: () => unsupportedGesture('pinch'),
+    longPress: () => unsupportedGesture('longPress'),
+    type: (selector: string, text: string, options?: TypeOptions) =>
+      step(`Type in ${selector}`, () =>
+        options?.delay ? currentPage.locator(selector).pressSequentially(text, { delay: options.delay }) : currentPage.fill(selector, text)
+      ),
+    select: (selector: string, option: SelectOptionOrOptions) =>
+      step(`Select ${selector}`, () => {
+        const o = getSelectOption(option);
+        return typeof o === 'string' ? currentPage.selectOption(selector, o) : currentPage.selectOption(selector, o);
+      }),
+    check: (selector: string) => step(`Check ${selector}`, () => currentPage.check(selector)),
+    uncheck: (selector: string) => step(`Uncheck ${selector}`, () => currentPage.uncheck(selector)),
+    setInputFiles: (selector: string, files: InputFiles) => step(`Set input files of ${selector}`, () => currentPage.setInputFiles(selector, files)),
+    waitForDownload: (options?: { timeout?: number }): Promise<Download> =>
+      step('Wait for download', async () => {
+        const download = await currentPage.waitForEvent('download', { timeout: options?.timeout ?? 30000 });
+        return { suggestedFilename: download.suggestedFilename(), url: download.url(), path: () => download.path(), saveAs: (p: string) => download.saveAs(p) };
+      }),
     pressKey: (key: string) => currentPage.keyboard.press(key),
-    locator: (selector: string) => makeLocatorApi(currentPage.locator(selector), currentPage),
-    getByAttribute: (attr: string, value: string) => makeLocatorApi(currentPage.locator(`[${attr}="${value}"]`), currentPage),
-    frame: (iframeSelector: string) => makeFrameHandle(currentPage.frameLocator(iframeSelector), currentPage),
-    waitForLoad: () => currentPage.waitForLoadState('load'),
-    waitForSelector: (selector: string, opts?) => currentPage.waitForSelector(selector, { timeout: opts?.timeout ?? 30000 }).then(() => {}),
-    waitForURL: async (urlOrPattern, opts?) => {
-      const timeout = opts?.timeout ?? 10000;
-      await currentPage.waitForURL(typeof urlOrPattern === 'string' ? urlOrPattern : new RegExp(String(urlOrPattern)), { timeout });
+    keyboard: {
+      down: (key: string) => currentPage.keyboard.down(key),
+      up: (key: string) => currentPage.keyboard.up(key),
+      press: (key: string, options?: { delay?: number }) => step(`Press ${key}`, () => currentPage.keyboard.press(key, options)),
+      insertText: (text: string) => step('Insert text', () => currentPage.keyboard.insertText(text)),
+      type: (text: string, options?: TypeOptions) => step('Type text', () => currentPage.keyboard.type(text, options)),
+    },
+    mouse: {
+      move: (x: number, y: number, options?: { steps?: number }) => currentPage.mouse.move(x, y, options),
+      down: (options?: MouseOptions) => currentPage.mouse.down(options),
+      up: (options?: MouseOptions) => currentPage.mouse.up(options),
+      click: (x: number, y: number, options?: MouseClickOptions) => step(`Mouse click at ${x}, ${y}`, () => currentPage.mouse.click(x, y, options)),
+      wheel: (deltaX: number, deltaY: number) => step(`Mouse wheel ${deltaX}, ${deltaY}`, () => currentPage.mouse.wheel(deltaX, deltaY)),
+    },
+    locator: (selector: string) => makeLocatorApi(currentPage.locator(selector), currentPage, selector, step),
+    getByAttribute: (attr: string, value: string) =>
+      makeLocatorApi(currentPage.locator(`[${attr}="${value}"]`), currentPage, `[${attr}="${value}"]`, step),
+    frame: (iframeSelector: string) => {
+      onStep(`Switch to frame ${iframeSelector}`);
+      return makeFrameHandle(currentPage.frameLocator(iframeSelector), currentPage, step, onStep);
     },
+    waitForLoad: () => currentPage.waitForLoadState('load'),
+    waitForSelector: (selector: string, opts?) =>
+      step(`Wait for selector ${selector}`, () => currentPage.waitForSelector(selector, { timeout: opts?.timeout ?? 30000 }).then(() => {})),
+    waitForURL: (urlOrPattern, opts?) =>
+      step(`Wait for URL ${typeof urlOrPattern === 'string' ? urlOrPattern : urlOrPattern.source}`, async () => {
+        const timeout = opts?.timeout ?? 10000;
+        await currentPage.waitForURL(typeof urlOrPattern === 'string' ? urlOrPattern : new RegExp(String(urlOrPattern)), { timeout });
+      }),
     url: () => Promise.resolve(currentPage.url()),
-    sleep: (ms) => currentPage.waitForTimeout(typeof ms === 'object' ? ms.timeout : ms),
+    sleep: (ms) => {
+      const timeout = typeof ms === 'object' ? ms.timeout : ms;
+      return step(`Sleep ${timeout}ms`, () => currentPage.waitForTimeout(timeout));
+    },
     isVisible: (selector: string) => currentPage.isVisible(selector),
     isDisabled: (selector: string) => currentPage.locator(selector).evaluate((el: Element) => (el as HTMLInputElement).disabled),
     isEditable: (selector: string) =>
@@ -202,7 +459,55 @@ export async function createBrowserWithFirefoxBiDi(options: {
       currentPage = newPage;
       return {} as import('./index').TabHandle;
     },
-    close: async () => { await browser.close(); },
+    on: pageEventSubscriber(
+      (listener) => {
+        consoleListeners.add(listener);
+        return () => consoleListeners.delete(listener);
+      },
+      (listener) => {
+        pageErrorListeners.add(listener);
+        return () => pageErrorListeners.delete(listener);
+      }
+    ),
+    onRequest,
+    onResponse,
+    waitForRequest: (matcher, opts?) =>
+      step(`Wait for request ${typeof matcher === 'function' ? '(predicate)' : typeof matcher === 'string' ? matcher : matcher.source}`, () =>
+        waitForNetworkEvent(onRequest, matcher, opts?.timeout ?? 30000, 'waitForRequest')
+      ),
+    waitForResponse: (matcher, opts?) =>
+      step(`Wait for response ${typeof matcher === 'function' ? '(predicate)' : typeof matcher === 'string' ? matcher : matcher.source}`, () =>
+        waitForNetworkEvent(onResponse, matcher, opts?.timeout ?? 30000, 'waitForResponse')
+      ),
+    waitForNetworkIdle: (opts?) => waitForIdle(() => inflight.size, () => lastActivity, opts),
+    route: addRoute,
+    unroute: async (url, handler?) => {
+      for (let i = routes.length - 1; i >= 0; i--) {
+        const r = routes[i];
+        if (!samePattern(r.url, url) || (handler && r.handler !== handler)) continue;
+        routes.splice(i, 1);
+        await context.unroute(r.matcher, r.wrapped);
+      }
+    },
+    routeFromHAR: (harPath, opts?) => step(`Route from HAR ${harPath}`, () => addRoute(opts?.url ?? /.*/, harRouteHandler(harPath, opts?.notFound))),
+    newContext: async (contextOptions = {}) => {
+      const newContext = await browser.newContext(playwrightContextOptions(contextOptions));
+      const session = await createFirefoxSession(browser, newContext, { failOnConsoleError: options.failOnConsoleError, onStep: options.onStep }, () => newContext.close());
+      trackPageLog(session, options.failOnConsoleError);
+      return trackOpenBrowser(session);
+    },
+    // Playwright's storage state has no sessionStorage
+    storageState: (stateOptions?) => context.storageState(stateOptions) as Promise<StorageState>,
+    close: async () => {
+      // Bodies are read from the still open context
+      await Promise.all(Array.from(pendingHar));
+      if (options.recordHar) {
+        writeHar(options.recordHar.path, await harRecorders[1].entries());
+        noteHarFile(options.recordHar.path);
+      }
+      sessionHar.unregister();
+      await closeSession();
+    },
   };
   return api;
 }
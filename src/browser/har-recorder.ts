@@ -0,0 +1,370 @@
+/**
+ * HAR recording: every request and response of a browser session (headers, timings, bodies up to a size cap)
+ * written as HAR 1.2.
+ * - createBrowser({ recordHar: { path } }) records the whole session and writes the file on close.
+ * - The test runner records per test (describe/it option { har: true } or --har): startHarCapture before the test,
+ *   finishHarCapture after it; every open browser contributes its traffic to the test's file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CDPClient, NetworkRequestWillBeSentParams, NetworkResponseData } from './cdp-page';
+import type { Har, HarEntry, HarHeader, HarResponse } from './har';
+import { artifactFileName, artifactPath } from '../artifacts';
+
+export interface RecordHarOptions {
+  /** File to write (e.g. 'session.har'). */
+  path: string;
+  /** Response bodies larger than this many bytes are left out (size is still recorded). Default 1 MB. */
+  maxBodySize?: number;
+}
+
+/** Page timings of one entry in ms; -1 when a phase did not happen. */
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/** Data for one finished (or failed) request, independent of the browser backend. */
+export interface RecordedExchange {
+  startedDateTime: Date;
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  /** Missing when the request failed or was still pending. */
+  response?: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    httpVersion?: string;
+    mimeType?: string;
+    redirectURL?: string;
+  };
+  body?: Buffer;
+  /** Bytes received over the network (-1 if unknown). */
+  transferSize?: number;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  /** Why there is no response (e.g. net::ERR_CONNECTION_REFUSED). */
+  errorText?: string;
+}
+
+const VERSION: string = (() => {
+  try {
+    return (require('../../package.json') as { version: string }).version;
+  } catch {
+    return '0.0.0';
+  }
+})();
+
+function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+  // CDP joins repeated headers with newlines
+  return Object.entries(headers).flatMap(([name, value]) =>
+    String(value).split('\n').map((v) => ({ name, value: v }))
+  );
+}
+
+function headerValue(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers[key];
+}
+
+/** Text bodies are stored as is, anything else as base64. */
+function isTextMime(mimeType: string): boolean {
+  return /^text\/|[/+](json|xml|javascript|ecmascript|x-www-form-urlencoded)\b|^image\/svg/i.test(mimeType);
+}
+
+export function toHarEntry(exchange: RecordedExchange, maxBodySize = DEFAULT_MAX_BODY_SIZE): HarEntry {
+  const { response, body, timings } = exchange;
+  const url = new URL(exchange.url);
+  const mimeType = response?.mimeType ?? headerValue(response?.headers ?? {}, 'content-type') ?? 'x-unknown';
+  const content: HarResponse['content'] = { size: body?.length ?? 0, mimeType };
+  if (body && body.length > maxBodySize) {
+    content.comment = `Body of ${body.length} bytes not recorded (maxBodySize ${maxBodySize})`;
+  } else if (body && body.length > 0) {
+    if (isTextMime(mimeType)) content.text = body.toString('utf8');
+    else {
+      content.text = body.toString('base64');
+      content.encoding = 'base64';
+    }
+  }
+  const requestContentType = headerValue(exchange.requestHeaders, 'content-type');
+  return {
+    startedDateTime: exchange.startedDateTime.toISOString(),
+    // ssl is part of connect
+    time: [timings.blocked, timings.dns, timings.connect, timings.send, timings.wait, timings.receive].reduce(
+      (sum, t) => sum + Math.max(0, t),
+      0
+    ),
+    request: {
+      method: exchange.method,
+      url: exchange.url,
+      httpVersion: response?.httpVersion ?? 'HTTP/1.1',
+      headers: toHarHeaders(exchange.requestHeaders),
+      queryString: Array.from(url.searchParams.entries()).map(([name, value]) => ({ name, value })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: exchange.postData !== undefined ? Buffer.byteLength(exchange.postData) : 0,
+      ...(exchange.postData !== undefined
+        ? { postData: { mimeType: requestContentType ?? 'application/octet-stream', text: exchange.postData } }
+        : {}),
+    },
+    response: {
+      status: response?.status ?? 0,
+      statusText: response?.statusText ?? '',
+      httpVersion: response?.httpVersion ?? 'HTTP/1.1',
+      headers: toHarHeaders(response?.headers ?? {}),
+      cookies: [],
+      content,
+      redirectURL: response?.redirectURL ?? (response && headerValue(response.headers, 'location')) ?? '',
+      headersSize: -1,
+      bodySize: exchange.transferSize ?? -1,
+      ...(exchange.errorText ? { comment: exchange.errorText } : {}),
+    },
+    cache: {},
+    timings,
+    ...(exchange.serverIPAddress ? { serverIPAddress: exchange.serverIPAddress } : {}),
+  };
+}
+
+/** HAR timings from CDP response timing; without it the whole wait is counted as waiting for the server. */
+function cdpTimings(
+  startTs: number,
+  responseTs: number | undefined,
+  endTs: number,
+  timing: NetworkResponseData['timing']
+): HarTimings {
+  const ms = (seconds: number) => Math.max(0, Math.round(seconds * 1000 * 1000) / 1000);
+  if (!timing) {
+    const headersAt = responseTs ?? endTs;
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: ms(headersAt - startTs), receive: ms(endTs - headersAt) };
+  }
+  const phase = (start: number, end: number) => (start >= 0 && end >= 0 ? end - start : -1);
+  const firstStart = [timing.dnsStart, timing.connectStart, timing.sendStart].find((t) => t >= 0) ?? 0;
+  return {
+    blocked: firstStart,
+    dns: phase(timing.dnsStart, timing.dnsEnd),
+    connect: phase(timing.connectStart, timing.connectEnd),
+    ssl: phase(timing.sslStart, timing.sslEnd),
+    send: Math.max(0, timing.sendEnd - timing.sendStart),
+    wait: Math.max(0, timing.receiveHeadersEnd - timing.sendEnd),
+    receive: Math.max(0, ms(endTs - timing.requestTime) - timing.receiveHeadersEnd),
+  };
+}
+
+function toResponse(r: NetworkResponseData): RecordedExchange['response'] {
+  const protocol = r.protocol?.toLowerCase();
+  const httpVersion = protocol === 'h2' ? 'HTTP/2.0' : protocol === 'h3' ? 'HTTP/3.0' : protocol ? protocol.toUpperCase() : undefined;
+  return { status: r.status, statusText: r.statusText, headers: r.headers, httpVersion, mimeType: r.mimeType };
+}
+
+export interface HarRecorder {
+  /** Record the traffic of a CDP client (current page or tab handle). */
+  attach(client: CDPClient): void;
+  detach(client: CDPClient): void;
+  /** False while a session recorder waits for a captured test; other backends (Firefox) check it before add(). */
+  recording(): boolean;
+  /** Add a request recorded by another backend (Firefox). */
+  add(exchange: RecordedExchange): void;
+  /** Recorded entries so far; waits for bodies still being read. Requests still in flight are included with what arrived so far. */
+  entries(): Promise<HarEntry[]>;
+  /** Forget everything recorded so far. */
+  clear(): void;
+  /** Stop recording (the browser closed). */
+  dispose(): void;
+}
+
+/**
+ * @param shouldRecord - checked for every request; lets a session-wide recorder stay idle between captured tests
+ */
+export function createHarRecorder(options: { maxBodySize?: number; shouldRecord?: () => boolean } = {}): HarRecorder {
+  const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+  const shouldRecord = options.shouldRecord ?? (() => true);
+  const recorded: HarEntry[] = [];
+  const pendingBodies = new Set<Promise<void>>();
+  type InFlight = { request: NetworkRequestWillBeSentParams; response?: NetworkResponseData; responseTs?: number };
+  /** Per client: requests without loadingFinished/loadingFailed yet, by requestId. */
+  const clients = new Map<CDPClient, { inflight: Map<string, InFlight>; unsubscribe: Array<() => void> }>();
+  let generation = 0;
+
+  function complete(entry: InFlight, endTs: number, extra: Partial<RecordedExchange>): RecordedExchange {
+    const { request, response } = entry;
+    const startTs = request.timestamp ?? endTs;
+    return {
+      startedDateTime: new Date((request.wallTime ?? Date.now() / 1000) * 1000),
+      method: request.request.method,
+      url: request.request.url,
+      requestHeaders: request.request.headers,
+      postData: request.request.postData,
+      response: response ? toResponse(response) : undefined,
+      timings: cdpTimings(startTs, entry.responseTs, endTs, response?.timing),
+      serverIPAddress: response?.remoteIPAddress,
+      ...extra,
+    };
+  }
+
+  const api: HarRecorder = {
+    attach(client) {
+      if (clients.has(client)) return;
+      const inflight = new Map<string, InFlight>();
+      const unsubscribe = [
+        client.Network.on('requestWillBeSent', (params) => {
+          const previous = inflight.get(params.requestId);
+          if (previous && params.redirectResponse) {
+            // The redirect ends the previous hop of this request id
+            const exchange = complete({ ...previous, response: params.redirectResponse }, params.timestamp ?? 0, {
+              transferSize: params.redirectResponse.encodedDataLength,
+            });
+            exchange.response!.redirectURL = params.request.url;
+            api.add(exchange);
+          }
+          inflight.delete(params.requestId);
+          if (shouldRecord()) inflight.set(params.requestId, { request: params });
+        }),
+        client.Network.on('responseReceived', (params) => {
+          const entry = inflight.get(params.requestId);
+          if (entry) {
+            entry.response = params.response;
+            entry.responseTs = params.timestamp;
+          }
+        }),
+        client.Network.on('loadingFinished', (params) => {
+          const entry = inflight.get(params.requestId);
+          if (!entry) return;
+          inflight.delete(params.requestId);
+          const startedIn = generation;
+          const read = client.Network.getResponseBody({ requestId: params.requestId })
+            .then(({ body, base64Encoded }) => Buffer.from(body, base64Encoded ? 'base64' : 'utf8'))
+            // Redirects, 204s and evicted resources have no body
+            .catch(() => undefined)
+            .then((body) => {
+              if (startedIn !== generation) return;
+              api.add(complete(entry, params.timestamp ?? 0, { body, transferSize: params.encodedDataLength }));
+            });
+          pendingBodies.add(read);
+          read.finally(() => pendingBodies.delete(read));
+        }),
+        client.Network.on('loadingFailed', (params) => {
+          const entry = inflight.get(params.requestId);
+          if (!entry) return;
+          inflight.delete(params.requestId);
+          api.add(complete(entry, params.timestamp ?? 0, { errorText: params.errorText }));
+        }),
+      ];
+      clients.set(client, { inflight, unsubscribe });
+    },
+    detach(client) {
+      const state = clients.get(client);
+      if (!state) return;
+      state.unsubscribe.forEach((off) => off());
+      clients.delete(client);
+    },
+    recording: shouldRecord,
+    add(exchange) {
+      recorded.push(toHarEntry(exchange, maxBodySize));
+    },
+    async entries() {
+      await Promise.all(Array.from(pendingBodies));
+      const pending: HarEntry[] = [];
+      for (const { inflight } of clients.values()) {
+        for (const entry of inflight.values()) {
+          const exchange = complete(entry, entry.responseTs ?? entry.request.timestamp ?? 0, {
+            errorText: 'Still loading when the HAR was saved',
+          });
+          pending.push(toHarEntry(exchange, maxBodySize));
+        }
+      }
+      return [...recorded, ...pending].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+    },
+    clear() {
+      generation++;
+      recorded.length = 0;
+      for (const { inflight } of clients.values()) inflight.clear();
+    },
+    dispose() {
+      for (const client of Array.from(clients.keys())) api.detach(client);
+    },
+  };
+  return api;
+}
+
+export function writeHar(file: string, entries: HarEntry[]): void {
+  const har: Har = {
+    log: {
+      version: '1.2',
+      creator: { name: 'CSTesting', version: VERSION },
+      entries,
+    },
+  };
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(har, null, 2), 'utf8');
+}
+
+// --- Per-test capture (used by the runner) ---
+
+/** Browsers open in this process, each with a recorder that records only while a test is captured. */
+const sessionRecorders = new Set<HarRecorder>();
+/** Recorders of browsers closed during the current capture: their traffic still belongs to the test. */
+const closedDuringCapture = new Set<HarRecorder>();
+let capture: { path: string } | null = null;
+/** HAR files written while the current test ran (recordHar paths), for the report. */
+let writtenFiles: string[] = [];
+
+/** Recorder for a new browser; records while a test is captured. Call the returned function when the browser closes. */
+export function registerSessionRecorder(): { recorder: HarRecorder; unregister: () => void } {
+  const recorder = createHarRecorder({ shouldRecord: () => capture !== null });
+  sessionRecorders.add(recorder);
+  return {
+    recorder,
+    unregister: () => {
+      sessionRecorders.delete(recorder);
+      if (capture) closedDuringCapture.add(recorder);
+      else recorder.dispose();
+    },
+  };
+}
+
+/** HAR file of a captured test: <report dir>/har/<name>-<hash>.har (see artifacts.ts). */
+export function testHarPath(testName: string): string {
+  return artifactPath('har', artifactFileName(testName, '.har'));
+}
+
+/** Note a HAR file written during the current test (linked in the report). */
+export function noteHarFile(file: string): void {
+  writtenFiles.push(path.resolve(file));
+}
+
+/** Start a test: record the traffic of every open browser (and browsers launched by the test) for harPath, if set. */
+export function startHarCapture(harPath: string | undefined): void {
+  writtenFiles = [];
+  capture = harPath ? { path: harPath } : null;
+  for (const recorder of sessionRecorders) recorder.clear();
+}
+
+/** End a test: write the captured HAR. Returns the HAR files of this test (captured or written by recordHar). */
+export async function finishHarCapture(): Promise<string[]> {
+  const current = capture;
+  capture = null;
+  const files = writtenFiles;
+  writtenFiles = [];
+  // No browser was open during the test: nothing to write
+  if (current && sessionRecorders.size + closedDuringCapture.size > 0) {
+    const recorders = [...sessionRecorders, ...closedDuringCapture];
+    const entries = (await Promise.all(recorders.map((r) => r.entries()))).flat();
+    entries.sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+    writeHar(current.path, entries);
+    files.unshift(path.resolve(current.path));
+  }
+  for (const recorder of sessionRecorders) recorder.clear();
+  for (const recorder of closedDuringCapture) recorder.dispose();
+  closedDuringCapture.clear();
+  return files;
+}
@@ -0,0 +1,95 @@
+/**
+ * HAR 1.2 (HTTP Archive) types and reading, used by routeFromHAR to answer requests from a recorded session
+ * (har-recorder.ts writes them).
+ * Only the fields CSTesting reads or writes are typed.
+ */
+
+import * as fs from 'fs';
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  headers: HarHeader[];
+  queryString: Array<{ name: string; value: string }>;
+  cookies: unknown[];
+  headersSize: number;
+  bodySize: number;
+  postData?: { mimeType: string; text?: string };
+}
+
+export interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  /** 'base64' for binary bodies. */
+  encoding?: string;
+  comment?: string;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  headers: HarHeader[];
+  cookies: unknown[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  /** Why the request has no (complete) response, when recorded by CSTesting. */
+  comment?: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, unknown>;
+  timings: { blocked?: number; dns?: number; connect?: number; ssl?: number; send: number; wait: number; receive: number };
+  serverIPAddress?: string;
+  pageref?: string;
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages?: Array<{ startedDateTime: string; id: string; title: string; pageTimings: Record<string, number> }>;
+    entries: HarEntry[];
+  };
+}
+
+export function readHar(file: string): Har {
+  let har: Har;
+  try {
+    har = JSON.parse(fs.readFileSync(file, 'utf8')) as Har;
+  } catch (err) {
+    throw new Error(`Could not read HAR file ${file}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!har || !har.log || !Array.isArray(har.log.entries)) {
+    throw new Error(`Invalid HAR file ${file}: missing log.entries`);
+  }
+  return har;
+}
+
+/**
+ * Recorded entry for a request: same method and URL; when several match, the one with the same
+ * request body wins, otherwise the first.
+ */
+export function findHarEntry(har: Har, method: string, url: string, postData?: string): HarEntry | undefined {
+  const candidates = har.log.entries.filter(
+    (e) => e.request.method.toUpperCase() === method.toUpperCase() && e.request.url === url
+  );
+  if (candidates.length > 1 && postData !== undefined) {
+    const sameBody = candidates.find((e) => e.request.postData?.text === postData);
+    if (sameBody) return sameBody;
+  }
+  return candidates[0];
+}
@@ -58,8 +58,8 @@ export function fetchBrowserWebSocketUrl(
     tryFetch();
   });
 }
-import { createPage, type PageApi } from './cdp-page';
-import type { CDPClient, DialogHandler } from './cdp-page';
+import { applyInputFiles, buildFrameSetInputFilesExpression, createPage, type PageApi } from './cdp-page';
+import type { CDPClient, ConsoleMessage, DialogHandler, PageEventMap } from './cdp-page';
 import {
   setupDialogHandler,
   buildFrameEvalExpression,
@@ -74,9 +74,24 @@ import {
   buildFrameIsDisabledExpression,
   buildFrameIsEditableExpression,
   buildFrameIsSelectedExpression,
+  buildFrameCountExpression,
   throwLocatorError,
 } from './cdp-page';
-import type { LocatorIndex, SelectOption, SelectOptionOrOptions, URLPattern } from './cdp-page';
+import type { DragAndDropOptions, LocatorIndex, SelectOption, SelectOptionOrOptions, URLPattern } from './cdp-page';
+import { createRouter, waitForNetworkEvent, type RouteHandler, type RouteFromHAROptions } from './network';
+import type { NetworkMonitor, NetworkRequest, NetworkResponse } from './network';
+import { createHarRecorder, noteHarFile, registerSessionRecorder, writeHar, type RecordHarOptions } from './har-recorder';
+import { trackOpenBrowser } from './failure-screenshot';
+import { trackPageLog } from './page-log';
+import { openBrowserContext, type BrowserContextOptions } from './context';
+import { applyEmulation, type EmulationOptions } from './emulation';
+import type { Keyboard, TypeOptions } from './keyboard';
+import { resolveInputFiles, type InputFiles } from './input-files';
+import { disposeDownloadScope, type Download, type DownloadScope, type WaitForDownloadOptions } from './downloads';
+import { clickPoint, clickWithOptions, type ClickOptions, type Mouse, type MouseClickOptions, type MouseOptions } from './mouse';
+import { dispatchLongPress, dispatchPinch, dispatchSwipe, dispatchTap, type LongPressOptions, type SwipeDirection } from './touch';
+import { applyStorageState, captureStorageState, loadStorageState, trackOrigins, type StorageState } from './storage-state';
+import { reportBrowserStep, runBrowserStep } from '../steps';
 
 /** Info for one browser tab (page target). */
 export interface TabInfo {
@@ -97,18 +112,31 @@ export interface FrameHandle {
   waitForSelector(selector: string, options?: { timeout?: number }): Promise<void>;
   evaluate<T>(expression: string): Promise<T>;
   content(): Promise<string>;
-  click(selector: string, index?: LocatorIndex): Promise<void>;
+  click(selector: string, index?: LocatorIndex, options?: ClickOptions): Promise<void>;
   doubleClick(selector: string, index?: LocatorIndex): Promise<void>;
   rightClick(selector: string, index?: LocatorIndex): Promise<void>;
   hover(selector: string, index?: LocatorIndex): Promise<void>;
-  dragAndDrop(sourceSelector: string, targetSelector: string, sourceIndex?: LocatorIndex, targetIndex?: LocatorIndex): Promise<void>;
-  type(selector: string, text: string, index?: LocatorIndex): Promise<void>;
+  dragAndDrop(
+    sourceSelector: string,
+    targetSelector: string,
+    sourceIndex?: LocatorIndex,
+    targetIndex?: LocatorIndex,
+    options?: DragAndDropOptions
+  ): Promise<void>;
+  /** Touch gestures on an element in the frame (see BrowserApi.tap). */
+  tap(selector: string, index?: LocatorIndex): Promise<void>;
+  swipe(selector: string, direction: SwipeDirection, distance?: number, index?: LocatorIndex): Promise<void>;
+  pinch(selector: string, scale: number, index?: LocatorIndex): Promise<void>;
+  longPress(selector: string, options?: LongPressOptions, index?: LocatorIndex): Promise<void>;
+  type(selector: string, text: string, index?: LocatorIndex, options?: TypeOptions): Promise<void>;
   /** Select option(s) in a <select>. Single option or array for multi-select (replaces current selection). */
   select(selector: string, option: SelectOptionOrOptions, index?: LocatorIndex): Promise<void>;
   /** Check a checkbox or radio button. */
   check(selector: string, index?: LocatorIndex): Promise<void>;
   /** Uncheck a checkbox. */
   uncheck(selector: string, index?: LocatorIndex): Promise<void>;
+  /** Set the files of an <input type="file"> in the frame (see BrowserApi.setInputFiles). */
+  setInputFiles(selector: string, files: InputFiles, index?: LocatorIndex): Promise<void>;
   locator(selector: string): LocatorApi;
   getByAttribute(attribute: string, attributeValue: string): LocatorApi;
   getTextContent(selector: string, index?: LocatorIndex): Promise<string>;
@@ -122,24 +150,36 @@ export interface FrameHandle {
 
 /**
  * Playwright-style handle for a specific tab. Use it without switching the main browser.
- * Same API as browser (goto, click, type, locator, evaluate, etc.); .close() only closes this tab's connection.
+ * Same API as browser (goto, click, type, locator, evaluate, network capture, etc.); .close() only closes this tab's connection.
  */
-export interface TabHandle {
+export interface TabHandle extends NetworkMonitor {
   id: string;
   url: string;
   title: string;
   goto(url: string): Promise<void>;
-  click(selector: string): Promise<void>;
+  click(selector: string, options?: ClickOptions): Promise<void>;
   doubleClick(selector: string): Promise<void>;
   rightClick(selector: string): Promise<void>;
   hover(selector: string): Promise<void>;
-  dragAndDrop(sourceSelector: string, targetSelector: string): Promise<void>;
-  type(selector: string, text: string): Promise<void>;
+  dragAndDrop(sourceSelector: string, targetSelector: string, options?: DragAndDropOptions): Promise<void>;
+  /** Touch gestures in this tab (see BrowserApi.tap). */
+  tap(selector: string): Promise<void>;
+  swipe(selector: string, direction: SwipeDirection, distance?: number): Promise<void>;
+  pinch(selector: string, scale: number): Promise<void>;
+  longPress(selector: string, options?: LongPressOptions): Promise<void>;
+  type(selector: string, text: string, options?: TypeOptions): Promise<void>;
   /** Select option(s) in a <select>. Single option or array for multi-select. */
   select(selector: string, option: SelectOptionOrOptions): Promise<void>;
   check(selector: string): Promise<void>;
   uncheck(selector: string): Promise<void>;
+  setInputFiles(selector: string, files: InputFiles): Promise<void>;
+  /** Wait for the next download of this tab (see BrowserApi.waitForDownload). */
+  waitForDownload(options?: WaitForDownloadOptions): Promise<Download>;
   pressKey(key: string): Promise<void>;
+  /** This tab's keyboard (see BrowserApi.keyboard). */
+  keyboard: Keyboard;
+  /** This tab's mouse (see BrowserApi.mouse). */
+  mouse: Mouse;
   locator(selector: string): LocatorApi;
   getByAttribute(attribute: string, attributeValue: string): LocatorApi;
   waitForLoad(): Promise<void>;
@@ -163,6 +203,8 @@ export interface TabHandle {
     format?: 'png' | 'jpeg';
     quality?: number;
   }): Promise<Buffer>;
+  /** Listen to 'console' (console.* calls) or 'pageerror' (uncaught exceptions) of this tab. Returns a function that removes it. */
+  on<K extends keyof PageEventMap>(event: K, listener: (payload: PageEventMap[K]) => void): () => void;
   /** Close only this tab's connection (does not close the browser). */
   close(): Promise<void>;
 }
@@ -198,19 +240,33 @@ function fetchTabsList(port: number, host: string): Promise<TabInfo[]> {
 
 /** Locator: chain actions. Use .first(), .last(), .nth(n) when selector matches multiple elements. */
 export interface LocatorApi {
-  click(): Promise<void>;
+  /** Click this element: options.position (from its top-left corner), modifiers (e.g. ['Shift']), button, clickCount. */
+  click(options?: ClickOptions): Promise<void>;
   doubleClick(): Promise<void>;
   rightClick(): Promise<void>;
   hover(): Promise<void>;
-  /** Drag this element to the element matching targetSelector. */
-  dragTo(targetSelector: string): Promise<void>;
-  type(text: string): Promise<void>;
+  /** Drag this element to the element matching targetSelector (options.steps: intermediate mouse moves). */
+  dragTo(targetSelector: string, options?: DragAndDropOptions): Promise<void>;
+  /** Scroll this element to the center of the viewport, as click does before clicking (also when it is already visible). */
+  scrollIntoView(): Promise<void>;
+  /** Touch this element and lift. */
+  tap(): Promise<void>;
+  /** Touch this element and move the finger distance CSS pixels (default 100) up, down, left or right. Not with browser: 'firefox'. */
+  swipe(direction: SwipeDirection, distance?: number): Promise<void>;
+  /** Two-finger pinch on this element: scale > 1 zooms in, < 1 zooms out. Not with browser: 'firefox'. */
+  pinch(scale: number): Promise<void>;
+  /** Touch this element and hold (default 800 ms). Not with browser: 'firefox'. */
+  longPress(options?: LongPressOptions): Promise<void>;
+  /** Click this element and type text key by key (options.delay: ms between keys). */
+  type(text: string, options?: TypeOptions): Promise<void>;
   /** Select option(s) in this <select>. Single option or array for multi-select. */
   select(option: SelectOptionOrOptions): Promise<void>;
   /** Check this checkbox or radio button. */
   check(): Promise<void>;
   /** Uncheck this checkbox. */
   uncheck(): Promise<void>;
+  /** Set the files of this <input type="file">: paths or { name, mimeType, buffer } objects; [] clears it. */
+  setInputFiles(files: InputFiles): Promise<void>;
   pressKey(key: string): Promise<void>;
   /** Get the text content of the matched element (same strict/index rules as click/type). */
   textContent(): Promise<string>;
@@ -218,6 +274,8 @@ export interface LocatorApi {
   getAttribute(attributeName: string): Promise<string>;
   /** Whether the element is visible (not hidden by CSS). */
   isVisible(): Promise<boolean>;
+  /** Number of matching elements (0 or 1 after .first()/.last()/.nth()). Does not throw when nothing matches. */
+  count(): Promise<number>;
   /** Whether the element is disabled. */
   isDisabled(): Promise<boolean>;
   /** Whether the element is editable (input/textarea not disabled and not readonly). */
@@ -234,21 +292,63 @@ export interface LocatorApi {
   nth(index: number): LocatorApi;
 }
 
-export interface BrowserApi {
+/**
+ * Network capture (from NetworkMonitor), for the current tab and after switchToTab:
+ * - onRequest(listener) / onResponse(listener) — called for every request / response; return a function that removes the listener.
+ * - waitForRequest(pattern) / waitForResponse(pattern) — first request / response whose URL matches (substring, glob with **,
+ *   RegExp, or a predicate). Start waiting before the action: Promise.all([browser.waitForResponse('/api/login'), browser.click('#submit')]).
+ * - waitForNetworkIdle({ idleTime, timeout }) — no request in flight for idleTime ms.
+ */
+export interface BrowserApi extends NetworkMonitor {
   goto(url: string): Promise<void>;
-  click(selector: string): Promise<void>;
+  /** Click the element (center, or options.position from its top-left corner); options.modifiers are held during the click. */
+  click(selector: string, options?: ClickOptions): Promise<void>;
   doubleClick(selector: string): Promise<void>;
   rightClick(selector: string): Promise<void>;
   hover(selector: string): Promise<void>;
-  dragAndDrop(sourceSelector: string, targetSelector: string): Promise<void>;
-  type(selector: string, text: string): Promise<void>;
+  /** Drag source onto target with the mouse. options.steps: intermediate moves (default 1), for sortable lists that track the pointer. */
+  dragAndDrop(sourceSelector: string, targetSelector: string, options?: DragAndDropOptions): Promise<void>;
+  /** Touch the element and lift (Input.dispatchTouchEvent; use with hasTouch or a mobile device). */
+  tap(selector: string): Promise<void>;
+  /**
+   * Touch the element and move the finger distance CSS pixels (default 100) up, down, left or right.
+   * swipe, pinch and longPress need the CDP touch events: with browser: 'firefox' they reject (only tap works there).
+   */
+  swipe(selector: string, direction: SwipeDirection, distance?: number): Promise<void>;
+  /** Two-finger pinch centered on the element: scale > 1 zooms in, < 1 zooms out. Not with browser: 'firefox'. */
+  pinch(selector: string, scale: number): Promise<void>;
+  /** Touch the element and hold (default 800 ms, options.duration). Not with browser: 'firefox'. */
+  longPress(selector: string, options?: LongPressOptions): Promise<void>;
+  /** Click the element and type text key by key: keys in the key table send key events, other characters are inserted. options.delay: ms between keys. */
+  type(selector: string, text: string, options?: TypeOptions): Promise<void>;
   /** Select option(s) in a <select>. Single option or array for multi-select (replaces current selection). */
   select(selector: string, option: SelectOptionOrOptions): Promise<void>;
   /** Check a checkbox or radio button. */
   check(selector: string): Promise<void>;
   /** Uncheck a checkbox. */
   uncheck(selector: string): Promise<void>;
+  /**
+   * Set the files of an <input type="file">, as if the user picked them: one or more paths (relative to the working directory),
+   * or in-memory files { name, mimeType, buffer }. An empty array clears the selection. Fires input and change.
+   */
+  setInputFiles(selector: string, files: InputFiles): Promise<void>;
+  /**
+   * Wait for the next download of the current tab and return it: suggestedFilename, url, path() and saveAs(path).
+   * Start waiting before the action: const [download] = await Promise.all([browser.waitForDownload(), browser.click('#export')]).
+   */
+  waitForDownload(options?: WaitForDownloadOptions): Promise<Download>;
+  /** Press a key or a combination ('Enter', 'Control+A', 'Shift+Tab'); same as keyboard.press. */
   pressKey(key: string): Promise<void>;
+  /**
+   * Keyboard of the current tab: down(key) / up(key) hold and release keys (modifiers apply to the keys in between),
+   * press('Control+Shift+K') presses a combination, insertText(text) inserts text without key events, type(text, { delay }).
+   */
+  keyboard: Keyboard;
+  /**
+   * Mouse of the current tab, at CSS pixel coordinates from the viewport's top-left: move(x, y, { steps }), down(), up(),
+   * click(x, y, { button, clickCount }), wheel(deltaX, deltaY). Keys held with keyboard.down() are sent as modifiers.
+   */
+  mouse: Mouse;
   /** Get a locator for a selector — then use .click(), .type(text), .pressKey(key) on it. */
   locator(selector: string): LocatorApi;
   /** Get a locator by attribute and value — same strict mode (fails if 0 or 2+ elements). */
@@ -303,6 +403,31 @@ export interface BrowserApi {
    * Use with Promise.all like Playwright: const [newTab] = await Promise.all([browser.waitForNewTab(), browser.click(...)]).
    */
   waitForNewTab(options?: { timeout?: number }): Promise<TabHandle>;
+  /**
+   * Intercept requests whose URL matches (substring, glob with **, or RegExp) in this page and its tabs.
+   * The handler can route.fulfill({ status, headers, body | json }), route.abort(), or route.continue({ headers });
+   * all three accept { delay } in ms. The most recently added matching route handles the request.
+   */
+  route(urlOrPattern: URLPattern, handler: RouteHandler): Promise<void>;
+  /** Remove routes added with this pattern (only the given handler, if passed). */
+  unroute(urlOrPattern: URLPattern, handler?: RouteHandler): Promise<void>;
+  /** Answer matching requests from a recorded HAR file (same method and URL); others are aborted unless notFound: 'fallback'. */
+  routeFromHAR(harPath: string, options?: RouteFromHAROptions): Promise<void>;
+  /**
+   * Listen to page events of the current tab: 'console' (console.* calls, as ConsoleMessage) or 'pageerror'
+   * (uncaught exceptions and unhandled rejections, as Error). Returns a function that removes the listener.
+   */
+  on<K extends keyof PageEventMap>(event: K, listener: (payload: PageEventMap[K]) => void): () => void;
+  /**
+   * Open a new context in the same browser: its own cookies, storage and tabs, starting with one blank tab.
+   * Optional viewport, locale and storageState (object or JSON file path). close() disposes the context only.
+   */
+  newContext(options?: BrowserContextOptions): Promise<BrowserApi>;
+  /**
+   * Cookies, plus localStorage and sessionStorage of the origins the browser (or context) opened, e.g. after logging in.
+   * With path, also writes them as JSON for createBrowser({ storageState: path }) or newContext({ storageState: path }).
+   */
+  storageState(options?: { path?: string }): Promise<StorageState>;
   close(): Promise<void>;
 }
 
@@ -311,16 +436,35 @@ export interface WaitForNewTabOptions {
   timeout?: number;
 }
 
-/** Callback invoked for each browser action so tests can record steps for the report (e.g. onStep: (msg) => step(msg)). */
+/** Callback invoked for each browser action (they are added to the test's step tree either way; e.g. onStep: (msg) => console.log(msg)). */
 export type StepReporter = (message: string) => void;
 
-export interface CreateBrowserOptions extends LaunchOptions {
+/** Launch options, device emulation (viewport, isMobile, locale, ...; spread a descriptor: { ...devices['Pixel 7'] }) and session options. */
+export interface CreateBrowserOptions extends LaunchOptions, EmulationOptions {
   /** Connect to existing browser on port instead of launching. */
   port?: number;
   /** Browser to launch: 'chrome' | 'edge' | 'opera' | 'firefox'. Default: 'chrome'. Ignored if port is set. */
   browser?: BrowserType;
-  /** Called for each action (goto, click, frame, waitForSelector, etc.) so you can pass step() to record in the report. */
+  /** Called for each action (goto, click, frame, waitForSelector, etc.). Actions during a test are recorded as its steps without it. */
   onStep?: StepReporter;
+  /** Record all requests and responses (current page and tabs) to a HAR file, written on close(). */
+  recordHar?: RecordHarOptions;
+  /** Fail the running test when the page throws an uncaught exception (console.error is only logged). Default false. */
+  failOnConsoleError?: boolean;
+  /** Cookies and storage to restore before the first goto: a file saved with browser.storageState({ path }) or the object. */
+  storageState?: string | StorageState;
+}
+
+/** on(event, listener) from the console and page error subscriptions. */
+export function pageEventSubscriber(
+  onConsole: (listener: (message: ConsoleMessage) => void) => () => void,
+  onPageError: (listener: (error: Error) => void) => () => void
+): BrowserApi['on'] {
+  return (event, listener) => {
+    if (event === 'console') return onConsole(listener as (message: ConsoleMessage) => void);
+    if (event === 'pageerror') return onPageError(listener as (error: Error) => void);
+    throw new Error(`Unknown page event: ${String(event)} (expected 'console' or 'pageerror')`);
+  };
 }
 
 /**
@@ -332,10 +476,16 @@ export interface CreateBrowserOptions extends LaunchOptions {
  *   await browser.close();
  */
 export async function createBrowser(options: CreateBrowserOptions = {}): Promise<BrowserApi> {
+  const browser = await launchBrowserApi(options);
+  trackPageLog(browser, options.failOnConsoleError);
+  return trackOpenBrowser(browser);
+}
+
+async function launchBrowserApi(options: CreateBrowserOptions): Promise<BrowserApi> {
   if (options.browser === 'firefox' && (options.port == null || options.port === 0)) {
     try {
       const { createBrowserWithFirefoxBiDi } = await import('./firefox-bidi');
-      return createBrowserWithFirefoxBiDi({ headless: options.headless });
+      return createBrowserWithFirefoxBiDi(options);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       if (msg.includes('Playwright') || msg.includes('playwright')) throw err;
@@ -345,6 +495,8 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
     }
   }
 
+  // Read the storage state before launching, so a missing or invalid file does not leave a browser running
+  const storageState = options.storageState ? loadStorageState(options.storageState) : undefined;
   let launched: LaunchedChrome | null = null;
   let port = options.port;
 
@@ -371,61 +523,138 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
     const wsUrl = await fetchBrowserWebSocketUrl(debugPort, host);
     cdpOpts = { port: debugPort, host, target: wsUrl, local: true };
   }
-  let client = (await CDP(cdpOpts)) as unknown as CDPClient;
+  const client = (await CDP(cdpOpts)) as unknown as CDPClient;
+  if (options.geolocation) await client.Browser.grantPermissions({ permissions: ['geolocation'] });
+  return createSession(client, { ...options, storageState }, {
+    // CRI runtime accepts target as string (tab id); types only declare function
+    connect: async (targetId) => (await CDP({ port: debugPort, host, target: targetId } as Record<string, unknown>)) as unknown as CDPClient,
+    listTabs: () => fetchTabsList(debugPort, host),
+    prepare: (pageClient) => applyEmulation(pageClient, options),
+    newContext: (contextOptions) => createContextBrowser(debugPort, host, options, contextOptions),
+    dispose: async () => {
+      if (launched) {
+        const k = launched.kill();
+        if (k && typeof (k as Promise<unknown>).then === 'function') await (k as Promise<void>);
+      }
+    },
+  });
+}
+
+/** Open a context (see context.ts) in the browser at host:port, as a browser API with the parent browser's onStep and failOnConsoleError. */
+async function createContextBrowser(
+  port: number,
+  host: string,
+  options: CreateBrowserOptions,
+  contextOptions: BrowserContextOptions = {}
+): Promise<BrowserApi> {
+  const storageState = contextOptions.storageState ? loadStorageState(contextOptions.storageState) : undefined;
+  const context = await openBrowserContext(port, host, await fetchBrowserWebSocketUrl(port, host), contextOptions);
+  let browser: BrowserApi;
+  try {
+    const client = await context.connect(context.pageTargetId);
+    const sessionOptions = { onStep: options.onStep, failOnConsoleError: options.failOnConsoleError, storageState };
+    browser = await createSession(client, sessionOptions, {
+      ...context,
+      newContext: (nextOptions) => createContextBrowser(port, host, options, nextOptions),
+    });
+  } catch (err) {
+    await context.dispose().catch(() => {});
+    throw err;
+  }
+  trackPageLog(browser, options.failOnConsoleError);
+  return trackOpenBrowser(browser);
+}
+
+/** Where a browser session finds its tabs: the browser's default context, or a context made with newContext(). */
+interface SessionTargets {
+  /** Context of the session's pages; unset for the browser's default context. */
+  browserContextId?: string;
+  /** Connect to a page target by id. */
+  connect(targetId: string): Promise<CDPClient>;
+  listTabs(): Promise<TabInfo[]>;
+  /** Called for every page client the session connects (context viewport and locale). */
+  prepare(client: CDPClient): Promise<void>;
+  newContext(options?: BrowserContextOptions): Promise<BrowserApi>;
+  /** Called by close() after the session's clients are closed. */
+  dispose(): Promise<void>;
+}
+
+/** Browser API on a connected page client; tabs and switchToTab go through targets. */
+async function createSession(firstClient: CDPClient, options: CreateBrowserOptions, targets: SessionTargets): Promise<BrowserApi> {
+  let client = firstClient;
   await client.Page.enable();
+  await targets.prepare(client);
+  // Origins whose localStorage and sessionStorage storageState() reads
+  const origins = new Set<string>();
+  trackOrigins(client, origins);
+  if (options.storageState) {
+    // Before the router and HAR recorders attach: the pages opened to seed storage are not part of the session
+    const state = loadStorageState(options.storageState);
+    await applyStorageState(client, state);
+    state.origins.forEach((o) => origins.add(o.origin));
+  }
+  const router = createRouter();
+  await router.attach(client);
+  // The session recorder serves per-test capture (runner option har / --har); recordHar records the whole session
+  const sessionHar = registerSessionRecorder();
+  const harRecorders = [sessionHar.recorder];
+  if (options.recordHar) harRecorders.push(createHarRecorder({ maxBodySize: options.recordHar.maxBodySize }));
+  harRecorders.forEach((r) => r.attach(client));
   let dialogHandler: DialogHandler | null = null;
   setupDialogHandler(client, () => dialogHandler);
-  let page = createPage(client);
-  const onStep = options.onStep;
+  // Browser-level network and console listeners stay registered when switchToTab replaces the page
+  const requestListeners = new Set<(request: NetworkRequest) => void>();
+  const responseListeners = new Set<(response: NetworkResponse) => void>();
+  const consoleListeners = new Set<(message: ConsoleMessage) => void>();
+  const pageErrorListeners = new Set<(error: Error) => void>();
+  function forwardEvents(p: PageApi): PageApi {
+    p.onRequest((request) => Array.from(requestListeners).forEach((l) => l(request)));
+    p.onResponse((response) => Array.from(responseListeners).forEach((l) => l(response)));
+    p.onConsole((message) => Array.from(consoleListeners).forEach((l) => l(message)));
+    p.onPageError((error) => Array.from(pageErrorListeners).forEach((l) => l(error)));
+    return p;
+  }
+  // Downloads of all the session's tabs go to one directory, removed on close()
+  const downloadScope: DownloadScope = { browserContextId: targets.browserContextId };
+  let page = forwardEvents(createPage(client, downloadScope));
+  // Actions are added to the running test's step tree (timed while they run) and trace, and passed to options.onStep
+  const onStep: StepReporter = (message) => reportBrowserStep(message, options.onStep);
+  const step = <T>(message: string, action: () => T | Promise<T>) => runBrowserStep(message, action, options.onStep, api);
+  const onRequest = (listener: (request: NetworkRequest) => void) => {
+    requestListeners.add(listener);
+    return () => {
+      requestListeners.delete(listener);
+    };
+  };
+  const onResponse = (listener: (response: NetworkResponse) => void) => {
+    responseListeners.add(listener);
+    return () => {
+      responseListeners.delete(listener);
+    };
+  };
 
   function createLocator(selector: string, index?: LocatorIndex): LocatorApi {
     return {
-      click: async () => {
-        onStep?.(`Click ${selector}`);
-        return page.click(selector, index);
-      },
-      doubleClick: async () => {
-        onStep?.(`Double click ${selector}`);
-        return page.doubleClick(selector, index);
-      },
-      rightClick: async () => {
-        onStep?.(`Right click ${selector}`);
-        return page.rightClick(selector, index);
-      },
-      hover: async () => {
-        onStep?.(`Hover ${selector}`);
-        return page.hover(selector, index);
-      },
-      dragTo: async (targetSelector: string) => {
-        onStep?.(`Drag ${selector} to ${targetSelector}`);
-        return page.dragAndDrop(selector, targetSelector, index);
-      },
-      type: async (text: string) => {
-        onStep?.(`Type in ${selector}`);
-        return page.type(selector, text, index);
-      },
-      select: async (option: SelectOptionOrOptions) => {
-        onStep?.(`Select in ${selector}`);
-        return page.select(selector, option, index);
-      },
-      check: async () => {
-        onStep?.(`Check ${selector}`);
-        return page.check(selector, index);
-      },
-      uncheck: async () => {
-        onStep?.(`Uncheck ${selector}`);
-        return page.uncheck(selector, index);
-      },
+      click: (clickOptions?: ClickOptions) => step(`Click ${selector}`, () => page.click(selector, index, clickOptions)),
+      doubleClick: () => step(`Double click ${selector}`, () => page.doubleClick(selector, index)),
+      rightClick: () => step(`Right click ${selector}`, () => page.rightClick(selector, index)),
+      hover: () => step(`Hover ${selector}`, () => page.hover(selector, index)),
+      dragTo: (targetSelector: string, dragOptions?: DragAndDropOptions) => step(`Drag ${selector} to ${targetSelector}`, () => page.dragAndDrop(selector, targetSelector, index, undefined, dragOptions)),
+      scrollIntoView: () => step(`Scroll ${selector} into view`, () => page.scrollIntoView(selector, index)),
+      tap: () => step(`Tap ${selector}`, () => page.tap(selector, index)),
+      swipe: (direction: SwipeDirection, distance?: number) => step(`Swipe ${direction} on ${selector}`, () => page.swipe(selector, direction, distance, index)),
+      pinch: (scale: number) => step(`Pinch ${selector} (scale ${scale})`, () => page.pinch(selector, scale, index)),
+      longPress: (options?: LongPressOptions) => step(`Long press ${selector}`, () => page.longPress(selector, options, index)),
+      type: (text: string, options?: TypeOptions) => step(`Type in ${selector}`, () => page.type(selector, text, index, options)),
+      select: (option: SelectOptionOrOptions) => step(`Select in ${selector}`, () => page.select(selector, option, index)),
+      check: () => step(`Check ${selector}`, () => page.check(selector, index)),
+      uncheck: () => step(`Uncheck ${selector}`, () => page.uncheck(selector, index)),
+      setInputFiles: (files: InputFiles) => step(`Set input files of ${selector}`, () => page.setInputFiles(selector, files, index)),
       pressKey: (key: string) => page.pressKey(key),
-      textContent: async () => {
-        onStep?.(`Get textContent ${selector}`);
-        return page.getTextContent(selector, index);
-      },
-      getAttribute: async (attributeName: string) => {
-        onStep?.(`Get attribute ${attributeName} of ${selector}`);
-        return page.getAttribute(selector, attributeName, index);
-      },
+      textContent: () => step(`Get textContent ${selector}`, () => page.getTextContent(selector, index)),
+      getAttribute: (attributeName: string) => step(`Get attribute ${attributeName} of ${selector}`, () => page.getAttribute(selector, attributeName, index)),
       isVisible: () => page.isVisible(selector, index),
+      count: () => page.count(selector, index),
       isDisabled: () => page.isDisabled(selector, index),
       isEditable: () => page.isEditable(selector, index),
       isSelected: () => page.isSelected(selector, index),
@@ -444,25 +673,37 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
   }
 
   async function createTabHandle(tabInfo: TabInfo): Promise<TabHandle> {
-    const tabClient = (await CDP({ port: debugPort, host, target: tabInfo.id } as Record<string, unknown>)) as unknown as CDPClient;
+    const tabClient = await targets.connect(tabInfo.id);
     await tabClient.Page.enable();
+    await targets.prepare(tabClient);
+    trackOrigins(tabClient, origins);
+    await router.attach(tabClient);
+    harRecorders.forEach((r) => r.attach(tabClient));
     setupDialogHandler(tabClient, () => dialogHandler);
-    const tabPage = createPage(tabClient);
+    const tabPage = createPage(tabClient, downloadScope);
     function tabCreateLocator(selector: string, index?: LocatorIndex): LocatorApi {
       return {
-        click: () => tabPage.click(selector, index),
+        click: (options?: ClickOptions) => tabPage.click(selector, index, options),
         doubleClick: () => tabPage.doubleClick(selector, index),
         rightClick: () => tabPage.rightClick(selector, index),
         hover: () => tabPage.hover(selector, index),
-        dragTo: (targetSelector: string) => tabPage.dragAndDrop(selector, targetSelector, index),
-        type: (text: string) => tabPage.type(selector, text, index),
+        dragTo: (targetSelector: string, options?: DragAndDropOptions) =>
+          tabPage.dragAndDrop(selector, targetSelector, index, undefined, options),
+        scrollIntoView: () => tabPage.scrollIntoView(selector, index),
+        tap: () => tabPage.tap(selector, index),
+        swipe: (direction: SwipeDirection, distance?: number) => tabPage.swipe(selector, direction, distance, index),
+        pinch: (scale: number) => tabPage.pinch(selector, scale, index),
+        longPress: (options?: LongPressOptions) => tabPage.longPress(selector, options, index),
+        type: (text: string, options?: TypeOptions) => tabPage.type(selector, text, index, options),
         select: (option: SelectOptionOrOptions) => tabPage.select(selector, option, index),
         check: () => tabPage.check(selector, index),
         uncheck: () => tabPage.uncheck(selector, index),
+        setInputFiles: (files: InputFiles) => tabPage.setInputFiles(selector, files, index),
         pressKey: (key: string) => tabPage.pressKey(key),
         textContent: () => tabPage.getTextContent(selector, index),
         getAttribute: (attributeName: string) => tabPage.getAttribute(selector, attributeName, index),
         isVisible: () => tabPage.isVisible(selector, index),
+        count: () => tabPage.count(selector, index),
         isDisabled: () => tabPage.isDisabled(selector, index),
         isEditable: () => tabPage.isEditable(selector, index),
         isSelected: () => tabPage.isSelected(selector, index),
@@ -482,16 +723,25 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
       url: tabInfo.url,
       title: tabInfo.title,
       goto: (url: string) => tabPage.goto(url),
-      click: (selector: string) => tabPage.click(selector),
+      click: (selector: string, options?: ClickOptions) => tabPage.click(selector, undefined, options),
       doubleClick: (selector: string) => tabPage.doubleClick(selector),
       rightClick: (selector: string) => tabPage.rightClick(selector),
       hover: (selector: string) => tabPage.hover(selector),
-      dragAndDrop: (source: string, target: string) => tabPage.dragAndDrop(source, target),
-      type: (selector: string, text: string) => tabPage.type(selector, text),
+      dragAndDrop: (source: string, target: string, options?: DragAndDropOptions) =>
+        tabPage.dragAndDrop(source, target, undefined, undefined, options),
+      tap: (selector: string) => tabPage.tap(selector),
+      swipe: (selector: string, direction: SwipeDirection, distance?: number) => tabPage.swipe(selector, direction, distance),
+      pinch: (selector: string, scale: number) => tabPage.pinch(selector, scale),
+      longPress: (selector: string, options?: LongPressOptions) => tabPage.longPress(selector, options),
+      type: (selector: string, text: string, options?: TypeOptions) => tabPage.type(selector, text, undefined, options),
       select: (selector: string, option: SelectOptionOrOptions) => tabPage.select(selector, option),
       check: (selector: string) => tabPage.check(selector),
       uncheck: (selector: string) => tabPage.uncheck(selector),
+      setInputFiles: (selector: string, files: InputFiles) => tabPage.setInputFiles(selector, files),
+      waitForDownload: (options?: WaitForDownloadOptions) => tabPage.waitForDownload(options),
       pressKey: (key: string) => tabPage.pressKey(key),
+      keyboard: tabPage.keyboard,
+      mouse: tabPage.mouse,
       locator: (selector: string) => tabCreateLocator(selector),
       getByAttribute: tabGetByAttribute,
       waitForLoad: () => tabPage.waitForLoad(),
@@ -510,18 +760,28 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
       isSelected: (sel: string) => tabPage.isSelected(sel),
       getScreenshot: (options?: { path?: string; fullPage?: boolean; selector?: string; format?: 'png' | 'jpeg'; quality?: number }) =>
         tabPage.getScreenshot(options),
-      close: () => tabClient.close(),
+      on: pageEventSubscriber(tabPage.onConsole, tabPage.onPageError),
+      onRequest: tabPage.onRequest,
+      onResponse: tabPage.onResponse,
+      waitForRequest: tabPage.waitForRequest,
+      waitForResponse: tabPage.waitForResponse,
+      waitForNetworkIdle: tabPage.waitForNetworkIdle,
+      close: () => {
+        router.detach(tabClient);
+        harRecorders.forEach((r) => r.detach(tabClient));
+        return tabClient.close();
+      },
     };
   }
 
   async function waitForNewTab(options: { timeout?: number } = {}): Promise<TabHandle> {
     const timeoutMs = options.timeout ?? 10000;
     const pollMs = 200;
-    const initialTabs = await fetchTabsList(debugPort, host);
+    const initialTabs = await targets.listTabs();
     const initialIds = new Set(initialTabs.map((t) => t.id));
     const deadline = Date.now() + timeoutMs;
     while (Date.now() < deadline) {
-      const tabs = await fetchTabsList(debugPort, host);
+      const tabs = await targets.listTabs();
       const newTabInfo = tabs.find((t) => !initialIds.has(t.id));
       if (newTabInfo) return createTabHandle(newTabInfo);
       await new Promise((r) => setTimeout(r, pollMs));
@@ -531,7 +791,7 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
 
   function createFrameHandle(iframeSelectorOrChain: string | string[]): FrameHandle {
     const chain: string[] = Array.isArray(iframeSelectorOrChain) ? [...iframeSelectorOrChain] : [iframeSelectorOrChain];
-    const frameStep = (msg: string) => onStep?.(msg + ' (in frame)');
+    const frameStep = <T>(msg: string, action: () => Promise<T>) => step(msg + ' (in frame)', action);
     async function frameEvaluate<T>(expression: string): Promise<T> {
       const expr = buildFrameEvalExpression(chain, expression);
       return page.evaluate<T>(expr);
@@ -540,105 +800,149 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
       const expr = buildFrameContentExpression(chain);
       return page.evaluate<string>(expr);
     }
-    async function getFrameElementCenter(selector: string, index?: LocatorIndex): Promise<{ x: number; y: number }> {
+    /** Box of the element in the frame, after scrolling it into view. */
+    async function getFrameElementBox(selector: string, index?: LocatorIndex): Promise<{ x: number; y: number; width: number; height: number }> {
       const expr = buildFrameElementCenterExpression(chain, selector, index);
-      const value = await page.evaluate<{ x?: number; y?: number; error?: string; count?: number; index?: number }>(expr);
+      const value = await page.evaluate<{ x?: number; y?: number; width?: number; height?: number; error?: string; count?: number; index?: number }>(expr);
       if (!value || typeof value !== 'object') throw new Error(`Frame locator failed for \`${selector}\``);
       if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
       if (value.error) throwLocatorError(value as { error: string; count: number; selector: string; index?: number }, selector);
-      return { x: value.x ?? 0, y: value.y ?? 0 };
+      const width = value.width ?? 0;
+      const height = value.height ?? 0;
+      return { x: (value.x ?? 0) - width / 2, y: (value.y ?? 0) - height / 2, width, height };
+    }
+    async function getFrameElementCenter(selector: string, index?: LocatorIndex): Promise<{ x: number; y: number }> {
+      return clickPoint(await getFrameElementBox(selector, index));
     }
-    async function frameClick(selector: string, index?: LocatorIndex): Promise<void> {
-      frameStep(`Click ${selector}`);
-      const { x, y } = await getFrameElementCenter(selector, index);
-      await new Promise((r) => setTimeout(r, 100));
-      await client.Input.dispatchMouseEvent({ type: 'mousePressed', x, y, button: 'left', clickCount: 1 });
-      await client.Input.dispatchMouseEvent({ type: 'mouseReleased', x, y, button: 'left', clickCount: 1 });
+    async function frameClick(selector: string, index?: LocatorIndex, options?: ClickOptions): Promise<void> {
+      return frameStep(`Click ${selector}`, async () => {
+        const box = await getFrameElementBox(selector, index);
+        await new Promise((r) => setTimeout(r, 100));
+        await clickWithOptions(page.mouse, page.keyboard, clickPoint(box, options?.position), options);
+      });
     }
     async function frameDoubleClick(selector: string, index?: LocatorIndex): Promise<void> {
-      frameStep(`Double click ${selector}`);
-      const { x, y } = await getFrameElementCenter(selector, index);
-      await new Promise((r) => setTimeout(r, 100));
-      await client.Input.dispatchMouseEvent({ type: 'mousePressed', x, y, button: 'left', clickCount: 2 });
-      await client.Input.dispatchMouseEvent({ type: 'mouseReleased', x, y, button: 'left', clickCount: 2 });
+      return frameStep(`Double click ${selector}`, async () => {
+        const { x, y } = await getFrameElementCenter(selector, index);
+        await new Promise((r) => setTimeout(r, 100));
+        await page.mouse.click(x, y, { clickCount: 2 });
+      });
     }
     async function frameRightClick(selector: string, index?: LocatorIndex): Promise<void> {
-      frameStep(`Right click ${selector}`);
-      const { x, y } = await getFrameElementCenter(selector, index);
-      await new Promise((r) => setTimeout(r, 100));
-      await client.Input.dispatchMouseEvent({ type: 'mousePressed', x, y, button: 'right', clickCount: 1 });
-      await client.Input.dispatchMouseEvent({ type: 'mouseReleased', x, y, button: 'right', clickCount: 1 });
+      return frameStep(`Right click ${selector}`, async () => {
+        const { x, y } = await getFrameElementCenter(selector, index);
+        await new Promise((r) => setTimeout(r, 100));
+        await page.mouse.click(x, y, { button: 'right' });
+      });
     }
     async function frameHover(selector: string, index?: LocatorIndex): Promise<void> {
-      frameStep(`Hover ${selector}`);
-      const { x, y } = await getFrameElementCenter(selector, index);
-      await client.Input.dispatchMouseEvent({ type: 'mouseMoved', x, y });
+      return frameStep(`Hover ${selector}`, async () => {
+        const { x, y } = await getFrameElementCenter(selector, index);
+        await page.mouse.move(x, y);
+      });
     }
     async function frameDragAndDrop(
       sourceSelector: string,
       targetSelector: string,
       sourceIndex?: LocatorIndex,
-      targetIndex?: LocatorIndex
+      targetIndex?: LocatorIndex,
+      options: DragAndDropOptions = {}
     ): Promise<void> {
-      frameStep(`Drag ${sourceSelector} to ${targetSelector}`);
-      const from = await getFrameElementCenter(sourceSelector, sourceIndex);
-      const to = await getFrameElementCenter(targetSelector, targetIndex);
-      await client.Input.dispatchMouseEvent({ type: 'mousePressed', x: from.x, y: from.y, button: 'left', clickCount: 1 });
-      await client.Input.dispatchMouseEvent({ type: 'mouseMoved', x: to.x, y: to.y });
-      await client.Input.dispatchMouseEvent({ type: 'mouseReleased', x: to.x, y: to.y, button: 'left', clickCount: 1 });
-    }
-    async function frameType(selector: string, text: string, index?: LocatorIndex): Promise<void> {
-      frameStep(`Type in ${selector}`);
-      await frameClick(selector, index);
-      for (const char of text) {
-        await client.Input.dispatchKeyEvent({ type: 'keyDown', text: char });
-        await client.Input.dispatchKeyEvent({ type: 'keyUp', text: char });
-      }
+      return frameStep(`Drag ${sourceSelector} to ${targetSelector}`, async () => {
+        const from = await getFrameElementCenter(sourceSelector, sourceIndex);
+        const to = await getFrameElementCenter(targetSelector, targetIndex);
+        await page.mouse.move(from.x, from.y);
+        await page.mouse.down();
+        await page.mouse.move(to.x, to.y, { steps: options.steps });
+        await page.mouse.up();
+      });
+    }
+    async function frameScrollIntoView(selector: string, index?: LocatorIndex): Promise<void> {
+      return frameStep(`Scroll ${selector} into view`, async () => {
+        await getFrameElementBox(selector, index);
+      });
+    }
+    async function frameTap(selector: string, index?: LocatorIndex): Promise<void> {
+      return frameStep(`Tap ${selector}`, async () => {
+        await dispatchTap(client, await getFrameElementCenter(selector, index));
+      });
+    }
+    async function frameSwipe(selector: string, direction: SwipeDirection, distance = 100, index?: LocatorIndex): Promise<void> {
+      return frameStep(`Swipe ${direction} on ${selector}`, async () => {
+        await dispatchSwipe(client, await getFrameElementCenter(selector, index), direction, distance);
+      });
+    }
+    async function framePinch(selector: string, scale: number, index?: LocatorIndex): Promise<void> {
+      return frameStep(`Pinch ${selector} (scale ${scale})`, async () => {
+        await dispatchPinch(client, await getFrameElementCenter(selector, index), scale);
+      });
+    }
+    async function frameLongPress(selector: string, options?: LongPressOptions, index?: LocatorIndex): Promise<void> {
+      return frameStep(`Long press ${selector}`, async () => {
+        await dispatchLongPress(client, await getFrameElementCenter(selector, index), options);
+      });
+    }
+    async function frameType(selector: string, text: string, index?: LocatorIndex, options?: TypeOptions): Promise<void> {
+      return frameStep(`Type in ${selector}`, async () => {
+        await frameClick(selector, index);
+        await page.keyboard.type(text, options);
+      });
     }
     async function frameGetTextContent(selector: string, index?: LocatorIndex): Promise<string> {
-      frameStep(`Get textContent ${selector}`);
-      const expr = buildFrameTextContentExpression(chain, selector, index);
-      const value = await page.evaluate<{ textContent?: string; error?: string; count?: number; index?: number }>(expr);
-      if (!value || typeof value !== 'object') return '';
-      if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
-      if (value.error) throwLocatorError(value as { error: string; count: number; selector: string; index?: number }, selector);
-      return value.textContent != null ? String(value.textContent) : '';
+      return frameStep(`Get textContent ${selector}`, async () => {
+        const expr = buildFrameTextContentExpression(chain, selector, index);
+        const value = await page.evaluate<{ textContent?: string; error?: string; count?: number; index?: number }>(expr);
+        if (!value || typeof value !== 'object') return '';
+        if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
+        if (value.error) throwLocatorError(value as { error: string; count: number; selector: string; index?: number }, selector);
+        return value.textContent != null ? String(value.textContent) : '';
+      });
     }
     async function frameGetAttribute(selector: string, attributeName: string, index?: LocatorIndex): Promise<string> {
-      frameStep(`Get attribute ${attributeName} of ${selector}`);
-      const expr = buildFrameGetAttributeExpression(chain, selector, attributeName, index);
-      const value = await page.evaluate<{ attributeValue?: string; error?: string; count?: number; index?: number }>(expr);
-      if (!value || typeof value !== 'object') return '';
-      if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
-      if (value.error) throwLocatorError(value as { error: string; count: number; selector: string; index?: number }, selector);
-      return value.attributeValue != null ? String(value.attributeValue) : '';
+      return frameStep(`Get attribute ${attributeName} of ${selector}`, async () => {
+        const expr = buildFrameGetAttributeExpression(chain, selector, attributeName, index);
+        const value = await page.evaluate<{ attributeValue?: string; error?: string; count?: number; index?: number }>(expr);
+        if (!value || typeof value !== 'object') return '';
+        if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
+        if (value.error) throwLocatorError(value as { error: string; count: number; selector: string; index?: number }, selector);
+        return value.attributeValue != null ? String(value.attributeValue) : '';
+      });
     }
     async function frameSelect(selector: string, option: SelectOptionOrOptions, index?: LocatorIndex): Promise<void> {
-      frameStep(`Select ${selector}`);
-      const expr = buildFrameSelectOptionExpression(chain, selector, option, index);
-      const value = await page.evaluate<{ ok?: boolean; error?: string; count?: number; selector?: string; index?: number }>(expr);
-      if (!value || typeof value !== 'object') throw new Error(`Select failed: could not resolve \`${selector}\``);
-      if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
-      if (value.error === 'not-select') throw new Error(`Select failed: element is not a <select>: \`${selector}\``);
-      if (value.error) throwLocatorError({ error: value.error, count: value.count ?? 0, selector: value.selector ?? selector, index: value.index }, selector);
+      return frameStep(`Select ${selector}`, async () => {
+        const expr = buildFrameSelectOptionExpression(chain, selector, option, index);
+        const value = await page.evaluate<{ ok?: boolean; error?: string; count?: number; selector?: string; index?: number }>(expr);
+        if (!value || typeof value !== 'object') throw new Error(`Select failed: could not resolve \`${selector}\``);
+        if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
+        if (value.error === 'not-select') throw new Error(`Select failed: element is not a <select>: \`${selector}\``);
+        if (value.error) throwLocatorError({ error: value.error, count: value.count ?? 0, selector: value.selector ?? selector, index: value.index }, selector);
+      });
     }
     async function frameCheck(selector: string, index?: LocatorIndex): Promise<void> {
-      frameStep(`Check ${selector}`);
-      const expr = buildFrameCheckUncheckExpression(chain, selector, true, index);
-      const value = await page.evaluate<{ ok?: boolean; error?: string; count?: number; selector?: string; index?: number }>(expr);
-      if (!value || typeof value !== 'object') throw new Error(`Check failed: could not resolve \`${selector}\``);
-      if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
-      if (value.error === 'not-checkable') throw new Error(`Check failed: element is not a checkbox or radio: \`${selector}\``);
-      if (value.error) throwLocatorError({ error: value.error, count: value.count ?? 0, selector: value.selector ?? selector, index: value.index }, selector);
+      return frameStep(`Check ${selector}`, async () => {
+        const expr = buildFrameCheckUncheckExpression(chain, selector, true, index);
+        const value = await page.evaluate<{ ok?: boolean; error?: string; count?: number; selector?: string; index?: number }>(expr);
+        if (!value || typeof value !== 'object') throw new Error(`Check failed: could not resolve \`${selector}\``);
+        if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
+        if (value.error === 'not-checkable') throw new Error(`Check failed: element is not a checkbox or radio: \`${selector}\``);
+        if (value.error) throwLocatorError({ error: value.error, count: value.count ?? 0, selector: value.selector ?? selector, index: value.index }, selector);
+      });
     }
     async function frameUncheck(selector: string, index?: LocatorIndex): Promise<void> {
-      frameStep(`Uncheck ${selector}`);
-      const expr = buildFrameCheckUncheckExpression(chain, selector, false, index);
-      const value = await page.evaluate<{ ok?: boolean; error?: string; count?: number; selector?: string; index?: number }>(expr);
-      if (!value || typeof value !== 'object') throw new Error(`Uncheck failed: could not resolve \`${selector}\``);
-      if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
-      if (value.error === 'not-checkable') throw new Error(`Uncheck failed: element is not a checkbox or radio: \`${selector}\``);
-      if (value.error) throwLocatorError({ error: value.error, count: value.count ?? 0, selector: value.selector ?? selector, index: value.index }, selector);
+      return frameStep(`Uncheck ${selector}`, async () => {
+        const expr = buildFrameCheckUncheckExpression(chain, selector, false, index);
+        const value = await page.evaluate<{ ok?: boolean; error?: string; count?: number; selector?: string; index?: number }>(expr);
+        if (!value || typeof value !== 'object') throw new Error(`Uncheck failed: could not resolve \`${selector}\``);
+        if (value.error === 'frame-not-found') throw new Error('Frame not found or cross-origin');
+        if (value.error === 'not-checkable') throw new Error(`Uncheck failed: element is not a checkbox or radio: \`${selector}\``);
+        if (value.error) throwLocatorError({ error: value.error, count: value.count ?? 0, selector: value.selector ?? selector, index: value.index }, selector);
+      });
+    }
+    async function frameSetInputFiles(selector: string, files: InputFiles, index?: LocatorIndex): Promise<void> {
+      return frameStep(`Set input files of ${selector}`, async () => {
+        const resolved = resolveInputFiles(files);
+        await applyInputFiles(client, buildFrameSetInputFilesExpression(chain, selector, resolved, index), resolved, selector);
+      });
     }
     async function frameIsVisible(selector: string, index?: LocatorIndex): Promise<boolean> {
       const expr = buildFrameIsVisibleExpression(chain, selector, index);
@@ -648,6 +952,10 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
       if (value.error) throwLocatorError({ error: value.error, count: value.count ?? 0, selector: value.selector ?? selector, index: value.index }, selector);
       return value.value === true;
     }
+    async function frameCount(selector: string, index?: LocatorIndex): Promise<number> {
+      const value = await page.evaluate<number>(buildFrameCountExpression(chain, selector, index));
+      return typeof value === 'number' ? value : 0;
+    }
     async function frameIsDisabled(selector: string, index?: LocatorIndex): Promise<boolean> {
       const expr = buildFrameIsDisabledExpression(chain, selector, index);
       const value = await page.evaluate<{ value?: boolean; error?: string; count?: number; selector?: string; index?: number }>(expr);
@@ -674,19 +982,27 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
     }
     function frameCreateLocator(selector: string, index?: LocatorIndex): LocatorApi {
       return {
-        click: () => frameClick(selector, index),
+        click: (options?: ClickOptions) => frameClick(selector, index, options),
         doubleClick: () => frameDoubleClick(selector, index),
         rightClick: () => frameRightClick(selector, index),
         hover: () => frameHover(selector, index),
-        dragTo: (targetSelector: string) => frameDragAndDrop(selector, targetSelector, index),
-        type: (text: string) => frameType(selector, text, index),
+        dragTo: (targetSelector: string, options?: DragAndDropOptions) =>
+          frameDragAndDrop(selector, targetSelector, index, undefined, options),
+        scrollIntoView: () => frameScrollIntoView(selector, index),
+        tap: () => frameTap(selector, index),
+        swipe: (direction: SwipeDirection, distance?: number) => frameSwipe(selector, direction, distance, index),
+        pinch: (scale: number) => framePinch(selector, scale, index),
+        longPress: (options?: LongPressOptions) => frameLongPress(selector, options, index),
+        type: (text: string, options?: TypeOptions) => frameType(selector, text, index, options),
         select: (option: SelectOptionOrOptions) => frameSelect(selector, option, index),
         check: () => frameCheck(selector, index),
         uncheck: () => frameUncheck(selector, index),
+        setInputFiles: (files: InputFiles) => frameSetInputFiles(selector, files, index),
         pressKey: (key: string) => page.pressKey(key),
         textContent: () => frameGetTextContent(selector, index),
         getAttribute: (attributeName: string) => frameGetAttribute(selector, attributeName, index),
         isVisible: () => frameIsVisible(selector, index),
+        count: () => frameCount(selector, index),
         isDisabled: () => frameIsDisabled(selector, index),
         isEditable: () => frameIsEditable(selector, index),
         isSelected: () => frameIsSelected(selector, index),
@@ -703,19 +1019,20 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
       return frameCreateLocator(`[${attribute}="${escaped}"]`);
     }
     async function frameWaitForSelector(selector: string, options: { timeout?: number } = {}): Promise<void> {
-      frameStep(`Wait for selector ${selector}`);
-      const timeoutMs = options.timeout ?? 30000;
-      const pollMs = 200;
-      const expr = buildFrameWaitForSelectorExpression(chain, selector);
-      const deadline = Date.now() + timeoutMs;
-      while (Date.now() < deadline) {
-        const value = await page.evaluate<{ found?: boolean }>(expr);
-        if (value && value.found) return;
-        await new Promise((r) => setTimeout(r, pollMs));
-      }
-      throw new Error(
-        `waitForSelector: in frame, selector \`${selector}\` did not match within ${timeoutMs}ms (frame may still be loading)`
-      );
+      return frameStep(`Wait for selector ${selector}`, async () => {
+        const timeoutMs = options.timeout ?? 30000;
+        const pollMs = 200;
+        const expr = buildFrameWaitForSelectorExpression(chain, selector);
+        const deadline = Date.now() + timeoutMs;
+        while (Date.now() < deadline) {
+          const value = await page.evaluate<{ found?: boolean }>(expr);
+          if (value && value.found) return;
+          await new Promise((r) => setTimeout(r, pollMs));
+        }
+        throw new Error(
+          `waitForSelector: in frame, selector \`${selector}\` did not match within ${timeoutMs}ms (frame may still be loading)`
+        );
+      });
     }
 
     return {
@@ -731,10 +1048,15 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
       rightClick: frameRightClick,
       hover: frameHover,
       dragAndDrop: frameDragAndDrop,
+      tap: frameTap,
+      swipe: frameSwipe,
+      pinch: framePinch,
+      longPress: frameLongPress,
       type: frameType,
       select: frameSelect,
       check: frameCheck,
       uncheck: frameUncheck,
+      setInputFiles: frameSetInputFiles,
       locator: (selector: string) => frameCreateLocator(selector),
       getByAttribute: frameGetByAttribute,
       getTextContent: frameGetTextContent,
@@ -747,64 +1069,45 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
   }
 
   async function switchToTab(indexOrId: number | string): Promise<void> {
-    const tabs = await fetchTabsList(debugPort, host);
+    const tabs = await targets.listTabs();
     if (tabs.length === 0) throw new Error('No tabs found');
     const tab =
       typeof indexOrId === 'number'
         ? tabs[indexOrId]
         : tabs.find((t) => t.id === indexOrId);
     if (!tab) throw new Error(typeof indexOrId === 'number' ? `Tab index ${indexOrId} out of range (0..${tabs.length - 1})` : `Tab id "${indexOrId}" not found`);
+    router.detach(client);
+    harRecorders.forEach((r) => r.detach(client));
     await client.close().catch(() => {});
-    // CRI runtime accepts target as string (tab id); types only declare function
-    client = (await CDP({ port: debugPort, host, target: tab.id } as Record<string, unknown>)) as unknown as CDPClient;
+    client = await targets.connect(tab.id);
     await client.Page.enable();
+    await targets.prepare(client);
+    trackOrigins(client, origins);
+    await router.attach(client);
+    harRecorders.forEach((r) => r.attach(client));
     setupDialogHandler(client, () => dialogHandler);
-    page = createPage(client);
+    page = forwardEvents(createPage(client, downloadScope));
     // Brief delay so the new tab context is active before next command
     await new Promise((r) => setTimeout(r, 100));
   }
 
-  return {
-    goto: async (url: string) => {
-      onStep?.(`Goto ${url}`);
-      return page.goto(url);
-    },
-    click: async (selector: string) => {
-      onStep?.(`Click ${selector}`);
-      return page.click(selector);
-    },
-    doubleClick: async (selector: string) => {
-      onStep?.(`Double click ${selector}`);
-      return page.doubleClick(selector);
-    },
-    rightClick: async (selector: string) => {
-      onStep?.(`Right click ${selector}`);
-      return page.rightClick(selector);
-    },
-    hover: async (selector: string) => {
-      onStep?.(`Hover ${selector}`);
-      return page.hover(selector);
-    },
-    dragAndDrop: async (source: string, target: string) => {
-      onStep?.(`Drag ${source} to ${target}`);
-      return page.dragAndDrop(source, target);
-    },
-    type: async (selector: string, text: string) => {
-      onStep?.(`Type in ${selector}`);
-      return page.type(selector, text);
-    },
-    select: async (selector: string, option: SelectOptionOrOptions) => {
-      onStep?.(`Select ${selector}`);
-      return page.select(selector, option);
-    },
-    check: async (selector: string) => {
-      onStep?.(`Check ${selector}`);
-      return page.check(selector);
-    },
-    uncheck: async (selector: string) => {
-      onStep?.(`Uncheck ${selector}`);
-      return page.uncheck(selector);
-    },
+  const api: BrowserApi = {
+    goto: (url: string) => step(`Goto ${url}`, () => page.goto(url)),
+    click: (selector: string, clickOptions?: ClickOptions) => step(`Click ${selector}`, () => page.click(selector, undefined, clickOptions)),
+    doubleClick: (selector: string) => step(`Double click ${selector}`, () => page.doubleClick(selector)),
+    rightClick: (selector: string) => step(`Right click ${selector}`, () => page.rightClick(selector)),
+    hover: (selector: string) => step(`Hover ${selector}`, () => page.hover(selector)),
+    dragAndDrop: (source: string, target: string, dragOptions?: DragAndDropOptions) => step(`Drag ${source} to ${target}`, () => page.dragAndDrop(source, target, undefined, undefined, dragOptions)),
+    tap: (selector: string) => step(`Tap ${selector}`, () => page.tap(selector)),
+    swipe: (selector: string, direction: SwipeDirection, distance?: number) => step(`Swipe ${direction} on ${selector}`, () => page.swipe(selector, direction, distance)),
+    pinch: (selector: string, scale: number) => step(`Pinch ${selector} (scale ${scale})`, () => page.pinch(selector, scale)),
+    longPress: (selector: string, options?: LongPressOptions) => step(`Long press ${selector}`, () => page.longPress(selector, options)),
+    type: (selector: string, text: string, options?: TypeOptions) => step(`Type in ${selector}`, () => page.type(selector, text, undefined, options)),
+    select: (selector: string, option: SelectOptionOrOptions) => step(`Select ${selector}`, () => page.select(selector, option)),
+    check: (selector: string) => step(`Check ${selector}`, () => page.check(selector)),
+    uncheck: (selector: string) => step(`Uncheck ${selector}`, () => page.uncheck(selector)),
+    setInputFiles: (selector: string, files: InputFiles) => step(`Set input files of ${selector}`, () => page.setInputFiles(selector, files)),
+    waitForDownload: (waitOptions?: WaitForDownloadOptions) => step('Wait for download', () => page.waitForDownload(waitOptions)),
     isVisible: (selector: string) => page.isVisible(selector),
     isDisabled: (selector: string) => page.isDisabled(selector),
     isEditable: (selector: string) => page.isEditable(selector),
@@ -812,6 +1115,22 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
     getScreenshot: (options?: { path?: string; fullPage?: boolean; selector?: string; format?: 'png' | 'jpeg'; quality?: number }) =>
       page.getScreenshot(options),
     pressKey: (key: string) => page.pressKey(key),
+    // Follows switchToTab: each call goes to the current page's keyboard
+    keyboard: {
+      down: (key: string) => page.keyboard.down(key),
+      up: (key: string) => page.keyboard.up(key),
+      press: (key: string, pressOptions?: { delay?: number }) => step(`Press ${key}`, () => page.keyboard.press(key, pressOptions)),
+      insertText: (text: string) => step('Insert text', () => page.keyboard.insertText(text)),
+      type: (text: string, typeOptions?: TypeOptions) => step('Type text', () => page.keyboard.type(text, typeOptions)),
+    },
+    // Follows switchToTab like keyboard
+    mouse: {
+      move: (x: number, y: number, moveOptions?: { steps?: number }) => page.mouse.move(x, y, moveOptions),
+      down: (mouseOptions?: MouseOptions) => page.mouse.down(mouseOptions),
+      up: (mouseOptions?: MouseOptions) => page.mouse.up(mouseOptions),
+      click: (x: number, y: number, clickOptions?: MouseClickOptions) => step(`Mouse click at ${x}, ${y}`, () => page.mouse.click(x, y, clickOptions)),
+      wheel: (deltaX: number, deltaY: number) => step(`Mouse wheel ${deltaX}, ${deltaY}`, () => page.mouse.wheel(deltaX, deltaY)),
+    },
     locator: (selector: string) => createLocator(selector),
     getByAttribute: (attribute: string, attributeValue: string) => getByAttribute(attribute, attributeValue),
     frame: (iframeSelector: string) => {
@@ -819,39 +1138,69 @@ export async function createBrowser(options: CreateBrowserOptions = {}): Promise
       return createFrameHandle(iframeSelector);
     },
     waitForLoad: () => page.waitForLoad(),
-    waitForSelector: async (selector: string, options?: { timeout?: number }) => {
-      onStep?.(`Wait for selector ${selector}`);
-      return page.waitForSelector(selector, options);
-    },
-    waitForURL: async (urlOrPattern: URLPattern, options?: { timeout?: number }) => {
-      onStep?.(`Wait for URL ${typeof urlOrPattern === 'string' ? urlOrPattern : urlOrPattern.source}`);
-      return page.waitForURL(urlOrPattern, options);
-    },
+    waitForSelector: (selector: string, options?: { timeout?: number }) => step(`Wait for selector ${selector}`, () => page.waitForSelector(selector, options)),
+    waitForURL: (urlOrPattern: URLPattern, options?: { timeout?: number }) => step(`Wait for URL ${typeof urlOrPattern === 'string' ? urlOrPattern : urlOrPattern.source}`, () => page.waitForURL(urlOrPattern, options)),
     url: () => page.url(),
     sleep: async (msOrOptions: number | { timeout: number }) => {
       const ms = typeof msOrOptions === 'number' ? msOrOptions : msOrOptions.timeout;
-      onStep?.(`Sleep ${ms}ms`);
-      return new Promise((r) => setTimeout(r, ms));
+      return step(`Sleep ${ms}ms`, () => new Promise((r) => setTimeout(r, ms)));
     },
     content: () => page.content(),
     evaluate: <T>(expression: string) => page.evaluate<T>(expression),
     setDialogHandler: (handler: DialogHandler | null) => {
       dialogHandler = handler;
     },
-    getTabs: () => fetchTabsList(debugPort, host),
+    getTabs: () => targets.listTabs(),
     switchToTab,
     waitForNewTab,
+    onRequest,
+    onResponse,
+    waitForRequest: (matcher, options) => step(`Wait for request ${typeof matcher === 'function' ? '(predicate)' : typeof matcher === 'string' ? matcher : matcher.source}`, () => waitForNetworkEvent(onRequest, matcher, options?.timeout ?? 30000, 'waitForRequest')),
+    waitForResponse: (matcher, options) => step(`Wait for response ${typeof matcher === 'function' ? '(predicate)' : typeof matcher === 'string' ? matcher : matcher.source}`, () => waitForNetworkEvent(onResponse, matcher, options?.timeout ?? 30000, 'waitForResponse')),
+    waitForNetworkIdle: (options?: { idleTime?: number; timeout?: number }) => page.waitForNetworkIdle(options),
+    route: (urlOrPattern: URLPattern, handler: RouteHandler) => router.route(urlOrPattern, handler),
+    on: pageEventSubscriber(
+      (listener) => {
+        consoleListeners.add(listener);
+        return () => consoleListeners.delete(listener);
+      },
+      (listener) => {
+        pageErrorListeners.add(listener);
+        return () => pageErrorListeners.delete(listener);
+      }
+    ),
+    unroute: (urlOrPattern: URLPattern, handler?: RouteHandler) => router.unroute(urlOrPattern, handler),
+    routeFromHAR: (harPath: string, options?: RouteFromHAROptions) => step(`Route from HAR ${harPath}`, () => router.routeFromHAR(harPath, options)),
+    newContext: (contextOptions?: BrowserContextOptions) => targets.newContext(contextOptions),
+    storageState: (stateOptions?: { path?: string }) => captureStorageState(client, origins, stateOptions?.path),
     async close() {
-      await client.close();
-      if (launched) {
-        const k = launched.kill();
-        if (k && typeof (k as Promise<unknown>).then === 'function') await (k as Promise<void>);
+      // Read pending response bodies while the connection is still open
+      const entries = await Promise.all(harRecorders.map((r) => r.entries()));
+      if (options.recordHar) {
+        writeHar(options.recordHar.path, entries[1]);
+        noteHarFile(options.recordHar.path);
       }
+      sessionHar.unregister();
+      await client.close();
+      await targets.dispose();
+      disposeDownloadScope(downloadScope);
     },
   };
+  return api;
 }
 
 export { launchChrome, launchBrowser } from './launch';
 export { resolveSelector } from './cdp-page';
-export type { PageApi, DialogHandler, DialogHandlerResult, DialogOpeningParams, SelectOption, SelectOptionOrOptions, URLPattern } from './cdp-page';
+export type { PageApi, ConsoleMessage, PageEventMap, DialogHandler, DialogHandlerResult, DialogOpeningParams, SelectOption, SelectOptionOrOptions, URLPattern, DragAndDropOptions } from './cdp-page';
 export type { LaunchOptions, LaunchedChrome, BrowserType } from './launch';
+export type { RecordHarOptions } from './har-recorder';
+export type { BrowserContextOptions } from './context';
+export type { EmulationOptions, ViewportSize } from './emulation';
+export type { SwipeDirection, LongPressOptions } from './touch';
+export type { Keyboard, KeyboardModifier, TypeOptions } from './keyboard';
+export type { Mouse, MouseButton, MouseOptions, MouseClickOptions, ClickOptions } from './mouse';
+export type { FilePayload, InputFiles } from './input-files';
+export type { Download, WaitForDownloadOptions } from './downloads';
+export { devices, getDevice, type DeviceDescriptor } from './devices';
+export type { StorageState, StorageStateCookie } from './storage-state';
+export type { NetworkRequest, NetworkResponse, NetworkMatcher, Route, RouteHandler, RouteRequest, FulfillOptions, ContinueOptions, AbortErrorCode, RouteFromHAROptions } from './network';
@@ -0,0 +1,40 @@
+/**
+ * Files for setInputFiles: paths on disk are set with CDP DOM.setFileInputFiles (the browser reads them);
+ * in-memory files ({ name, mimeType, buffer }) are sent to the page and set through a DataTransfer.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** A file that exists only in memory, e.g. generated by the test. */
+export interface FilePayload {
+  name: string;
+  /** Default '' (like a file with an unknown extension). */
+  mimeType?: string;
+  buffer: Buffer;
+}
+
+/** One or more file paths, or in-memory files. An empty array clears the selection. */
+export type InputFiles = string | string[] | FilePayload | FilePayload[];
+
+/** Files for the page: absolute paths, or payloads with base64 contents. */
+export type ResolvedInputFiles =
+  | { paths: string[] }
+  | { payloads: Array<{ name: string; mimeType: string; base64: string }> };
+
+/** Check the paths exist (relative to the working directory) or encode the payloads. */
+export function resolveInputFiles(files: InputFiles): ResolvedInputFiles {
+  const list = (Array.isArray(files) ? files : [files]) as Array<string | FilePayload>;
+  if (list.every((f) => typeof f === 'string')) {
+    const paths = (list as string[]).map((f) => path.resolve(f));
+    const missing = paths.find((p) => !fs.existsSync(p));
+    if (missing) throw new Error(`setInputFiles: file not found: ${missing}`);
+    return { paths };
+  }
+  if (list.some((f) => typeof f === 'string')) {
+    throw new Error('setInputFiles: pass either file paths or { name, mimeType, buffer } objects, not both');
+  }
+  return {
+    payloads: (list as FilePayload[]).map((f) => ({ name: f.name, mimeType: f.mimeType ?? '', base64: f.buffer.toString('base64') })),
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Keyboard input with CDP Input.dispatchKeyEvent: a US-layout key definition table (key, code, keyCode, text),
+ * modifier state and combinations like 'Control+Shift+K'. Each page has its own keyboard (PageApi.keyboard),
+ * so modifiers held with down() apply to that page's later keys until up().
+ */
+
+import type { CDPClient } from './cdp-page';
+
+/** A key as the page sees it in KeyboardEvent (key, code, keyCode) and the text it types, if any. */
+interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  text?: string;
+  /** key typed with Shift held (e.g. 'A' for 'a', '!' for '1'). */
+  shiftKey?: string;
+  /** Lowercase letter of an uppercase one ('a' for 'A'): what a shortcut without Shift sends ('Control+A'). */
+  unshiftedKey?: string;
+  /** KeyboardEvent.location: 1 for the left modifier keys. */
+  location?: number;
+}
+
+export interface TypeOptions {
+  /** Milliseconds to wait between keystrokes. Default 0. */
+  delay?: number;
+}
+
+export interface Keyboard {
+  /** Press a key and keep it down. A modifier (Shift, Control, Alt, Meta) applies to later keys until up(). */
+  down(key: string): Promise<void>;
+  /** Release a key pressed with down(). */
+  up(key: string): Promise<void>;
+  /**
+   * Press and release a key or a combination: 'Enter', 'ArrowDown', 'Control+A', 'Shift+Tab', 'Control+Shift+K'.
+   * Modifiers are pressed in order and released in reverse. delay: ms between down and up.
+   */
+  press(key: string, options?: { delay?: number }): Promise<void>;
+  /** Insert text into the focused element as an IME would: an input event, no key events. */
+  insertText(text: string): Promise<void>;
+  /** Type text key by key into the focused element (characters without a key, e.g. 'é' or emoji, are inserted). */
+  type(text: string, options?: TypeOptions): Promise<void>;
+}
+
+export type KeyboardModifier = 'Alt' | 'Control' | 'Meta' | 'Shift';
+
+/** A page's keyboard, with the modifier state its mouse sends along (see mouse.ts). */
+export interface PageKeyboard extends Keyboard {
+  /** Input.dispatchKeyEvent modifiers bit field of the modifier keys held down. */
+  modifiers(): number;
+}
+
+/** Input.dispatchKeyEvent modifiers bit field. */
+const MODIFIER_BITS: Record<KeyboardModifier, number> = { Alt: 1, Control: 2, Meta: 4, Shift: 8 };
+
+const keyDefinitions: Record<string, KeyDefinition> = {};
+
+function define(def: KeyDefinition, ...aliases: string[]): void {
+  keyDefinitions[def.key] = def;
+  for (const alias of aliases) keyDefinitions[alias] = def;
+}
+
+define({ key: 'Enter', code: 'Enter', keyCode: 13, text: '\r' }, '\n', '\r');
+define({ key: 'Tab', code: 'Tab', keyCode: 9 }, '\t');
+define({ key: ' ', code: 'Space', keyCode: 32, text: ' ' }, 'Space');
+define({ key: 'Backspace', code: 'Backspace', keyCode: 8 });
+define({ key: 'Delete', code: 'Delete', keyCode: 46 });
+define({ key: 'Escape', code: 'Escape', keyCode: 27 }, 'Esc');
+define({ key: 'Insert', code: 'Insert', keyCode: 45 });
+define({ key: 'Home', code: 'Home', keyCode: 36 });
+define({ key: 'End', code: 'End', keyCode: 35 });
+define({ key: 'PageUp', code: 'PageUp', keyCode: 33 });
+define({ key: 'PageDown', code: 'PageDown', keyCode: 34 });
+define({ key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37 });
+define({ key: 'ArrowUp', code: 'ArrowUp', keyCode: 38 });
+define({ key: 'ArrowRight', code: 'ArrowRight', keyCode: 39 });
+define({ key: 'ArrowDown', code: 'ArrowDown', keyCode: 40 });
+define({ key: 'CapsLock', code: 'CapsLock', keyCode: 20 });
+define({ key: 'ContextMenu', code: 'ContextMenu', keyCode: 93 });
+define({ key: 'Shift', code: 'ShiftLeft', keyCode: 16, location: 1 });
+define({ key: 'Control', code: 'ControlLeft', keyCode: 17, location: 1 }, 'Ctrl');
+define({ key: 'Alt', code: 'AltLeft', keyCode: 18, location: 1 });
+define({ key: 'Meta', code: 'MetaLeft', keyCode: 91, location: 1 }, 'Cmd', 'Command');
+for (let n = 1; n <= 12; n++) define({ key: `F${n}`, code: `F${n}`, keyCode: 111 + n });
+for (const c of 'abcdefghijklmnopqrstuvwxyz') {
+  const upper = c.toUpperCase();
+  define({ key: c, code: `Key${upper}`, keyCode: upper.charCodeAt(0), text: c, shiftKey: upper });
+  define({ key: upper, code: `Key${upper}`, keyCode: upper.charCodeAt(0), text: upper, unshiftedKey: c });
+}
+const SHIFTED_DIGITS = ')!@#$%^&*(';
+for (let d = 0; d <= 9; d++) {
+  define({ key: String(d), code: `Digit${d}`, keyCode: 48 + d, text: String(d), shiftKey: SHIFTED_DIGITS[d] });
+  define({ key: SHIFTED_DIGITS[d], code: `Digit${d}`, keyCode: 48 + d, text: SHIFTED_DIGITS[d] });
+}
+const PUNCTUATION: Array<[code: string, keyCode: number, key: string, shiftKey: string]> = [
+  ['Minus', 189, '-', '_'],
+  ['Equal', 187, '=', '+'],
+  ['BracketLeft', 219, '[', '{'],
+  ['BracketRight', 221, ']', '}'],
+  ['Backslash', 220, '\\', '|'],
+  ['Semicolon', 186, ';', ':'],
+  ['Quote', 222, "'", '"'],
+  ['Backquote', 192, '`', '~'],
+  ['Comma', 188, ',', '<'],
+  ['Period', 190, '.', '>'],
+  ['Slash', 191, '/', '?'],
+];
+for (const [code, keyCode, key, shiftKey] of PUNCTUATION) {
+  define({ key, code, keyCode, text: key, shiftKey });
+  define({ key: shiftKey, code, keyCode, text: shiftKey });
+}
+
+/** Definition of a key name or character. A single character missing from the table types itself. */
+function getKeyDefinition(key: string): KeyDefinition {
+  const def = keyDefinitions[key];
+  if (def) return def;
+  if ([...key].length === 1) return { key, code: '', keyCode: 0, text: key };
+  throw new Error(`Unknown key: "${key}". Use a key name (Enter, Tab, ArrowDown, Control, F5, ...) or a single character`);
+}
+
+/** 'Control+Shift+K' → ['Control', 'Shift', 'K']; a trailing '+' is the plus key ('Control++'). */
+function splitCombination(combination: string): string[] {
+  if (combination === '+') return ['+'];
+  if (combination.endsWith('++')) return [...combination.slice(0, -2).split('+'), '+'];
+  const keys = combination.split('+');
+  if (keys.some((k) => k === '')) throw new Error(`Invalid key combination: "${combination}"`);
+  return keys;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Keyboard for a page's client (see PageApi.keyboard). */
+export function createKeyboard(client: CDPClient): PageKeyboard {
+  let modifiers = 0;
+  const pressed = new Set<string>();
+
+  /** Definition as the page sees it with the current modifiers: 'a' is 'A' with Shift, 'A' is 'a' in a shortcut without Shift. */
+  function resolve(key: string): KeyDefinition {
+    const def = getKeyDefinition(key);
+    if (modifiers & MODIFIER_BITS.Shift) return def.shiftKey ? keyDefinitions[def.shiftKey] : def;
+    if (def.unshiftedKey && isShortcut()) return keyDefinitions[def.unshiftedKey];
+    return def;
+  }
+
+  // Control, Alt and Meta make shortcuts: the key types no text (Shift only changes the character)
+  function isShortcut(): boolean {
+    return (modifiers & (MODIFIER_BITS.Control | MODIFIER_BITS.Alt | MODIFIER_BITS.Meta)) !== 0;
+  }
+
+  async function down(key: string): Promise<void> {
+    const def = resolve(key);
+    if (def.key in MODIFIER_BITS) modifiers |= MODIFIER_BITS[def.key as KeyboardModifier];
+    const autoRepeat = pressed.has(def.code || def.key);
+    pressed.add(def.code || def.key);
+    const shortcut = isShortcut();
+    const text = shortcut ? undefined : def.text;
+    await client.Input.dispatchKeyEvent({
+      type: text ? 'keyDown' : 'rawKeyDown',
+      modifiers,
+      key: def.key,
+      code: def.code,
+      windowsVirtualKeyCode: def.keyCode,
+      text,
+      unmodifiedText: text,
+      location: def.location ?? 0,
+      autoRepeat,
+    });
+  }
+
+  async function up(key: string): Promise<void> {
+    const def = resolve(key);
+    if (def.key in MODIFIER_BITS) modifiers &= ~MODIFIER_BITS[def.key as KeyboardModifier];
+    pressed.delete(def.code || def.key);
+    await client.Input.dispatchKeyEvent({
+      type: 'keyUp',
+      modifiers,
+      key: def.key,
+      code: def.code,
+      windowsVirtualKeyCode: def.keyCode,
+      location: def.location ?? 0,
+    });
+  }
+
+  async function press(combination: string, options: { delay?: number } = {}): Promise<void> {
+    const keys = splitCombination(combination);
+    keys.forEach(getKeyDefinition);
+    for (const key of keys) await down(key);
+    if (options.delay) await sleep(options.delay);
+    for (const key of [...keys].reverse()) await up(key);
+  }
+
+  async function insertText(text: string): Promise<void> {
+    await client.Input.insertText({ text });
+  }
+
+  async function type(text: string, options: TypeOptions = {}): Promise<void> {
+    for (const char of text) {
+      if (keyDefinitions[char]) await press(char);
+      else await insertText(char);
+      if (options.delay) await sleep(options.delay);
+    }
+  }
+
+  return { down, up, press, insertText, type, modifiers: () => modifiers };
+}
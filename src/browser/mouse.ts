@@ -0,0 +1,128 @@
+/**
+ * Mouse input with CDP Input.dispatchMouseEvent: the pointer position and pressed button of a page, moves in steps,
+ * clicks and wheel scrolling. Each page has its own mouse (PageApi.mouse); keys held on the page's keyboard
+ * (Shift, Control, ...) are sent as modifiers with every mouse event.
+ */
+
+import type { CDPClient } from './cdp-page';
+import type { KeyboardModifier, PageKeyboard } from './keyboard';
+
+export type MouseButton = 'left' | 'right' | 'middle';
+
+export interface MouseOptions {
+  /** Default 'left'. */
+  button?: MouseButton;
+  /** Default 1. */
+  clickCount?: number;
+}
+
+export interface MouseClickOptions extends MouseOptions {
+  /** Milliseconds between mouse down and mouse up. Default 0. */
+  delay?: number;
+}
+
+/** Options for clicking an element (browser.click, locator.click). */
+export interface ClickOptions extends MouseClickOptions {
+  /** Point to click, relative to the element's top-left corner. Default: the element's center. */
+  position?: { x: number; y: number };
+  /** Keys held down during the click (e.g. ['Shift'] to extend a selection, ['Control'] to open in a new tab). */
+  modifiers?: KeyboardModifier[];
+}
+
+export interface Mouse {
+  /** Move the pointer to x, y (CSS pixels from the viewport's top-left). steps: intermediate moves (default 1). */
+  move(x: number, y: number, options?: { steps?: number }): Promise<void>;
+  /** Press a button at the current position. */
+  down(options?: MouseOptions): Promise<void>;
+  /** Release a button at the current position. */
+  up(options?: MouseOptions): Promise<void>;
+  /** Move to x, y and click (clickCount 2 for a double click). */
+  click(x: number, y: number, options?: MouseClickOptions): Promise<void>;
+  /** Scroll with the wheel at the current position, deltaX / deltaY in CSS pixels (positive: right / down). */
+  wheel(deltaX: number, deltaY: number): Promise<void>;
+}
+
+/** Input.dispatchMouseEvent buttons bit field. */
+const BUTTON_BITS: Record<MouseButton, number> = { left: 1, right: 2, middle: 4 };
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Mouse for a page's client (see PageApi.mouse). */
+export function createMouse(client: CDPClient, keyboard: PageKeyboard): Mouse {
+  let x = 0;
+  let y = 0;
+  let buttons = 0;
+  let button: MouseButton | 'none' = 'none';
+
+  async function move(toX: number, toY: number, options: { steps?: number } = {}): Promise<void> {
+    const steps = Math.max(1, Math.floor(options.steps ?? 1));
+    const fromX = x;
+    const fromY = y;
+    for (let i = 1; i <= steps; i++) {
+      x = fromX + ((toX - fromX) * i) / steps;
+      y = fromY + ((toY - fromY) * i) / steps;
+      await client.Input.dispatchMouseEvent({ type: 'mouseMoved', x, y, button, buttons, modifiers: keyboard.modifiers() });
+    }
+  }
+
+  async function down(options: MouseOptions = {}): Promise<void> {
+    button = options.button ?? 'left';
+    buttons |= BUTTON_BITS[button];
+    await client.Input.dispatchMouseEvent({
+      type: 'mousePressed',
+      x,
+      y,
+      button,
+      buttons,
+      clickCount: options.clickCount ?? 1,
+      modifiers: keyboard.modifiers(),
+    });
+  }
+
+  async function up(options: MouseOptions = {}): Promise<void> {
+    const released = options.button ?? 'left';
+    buttons &= ~BUTTON_BITS[released];
+    button = 'none';
+    await client.Input.dispatchMouseEvent({
+      type: 'mouseReleased',
+      x,
+      y,
+      button: released,
+      buttons,
+      clickCount: options.clickCount ?? 1,
+      modifiers: keyboard.modifiers(),
+    });
+  }
+
+  async function click(toX: number, toY: number, options: MouseClickOptions = {}): Promise<void> {
+    await move(toX, toY);
+    // One press and release per click, with a rising clickCount, like a real double click
+    for (let clickCount = 1; clickCount <= (options.clickCount ?? 1); clickCount++) {
+      await down({ button: options.button, clickCount });
+      if (options.delay) await sleep(options.delay);
+      await up({ button: options.button, clickCount });
+    }
+  }
+
+  async function wheel(deltaX: number, deltaY: number): Promise<void> {
+    await client.Input.dispatchMouseEvent({ type: 'mouseWheel', x, y, deltaX, deltaY, modifiers: keyboard.modifiers() });
+  }
+
+  return { move, down, up, click, wheel };
+}
+
+/** Point to click in an element's box: options.position from its top-left corner, or its center. */
+export function clickPoint(box: { x: number; y: number; width: number; height: number }, position?: { x: number; y: number }): { x: number; y: number } {
+  return position ? { x: box.x + position.x, y: box.y + position.y } : { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+/** Click at a point with the element click options: modifiers are held on the keyboard around the click. */
+export async function clickWithOptions(mouse: Mouse, keyboard: PageKeyboard, point: { x: number; y: number }, options: ClickOptions = {}): Promise<void> {
+  const modifiers = options.modifiers ?? [];
+  for (const modifier of modifiers) await keyboard.down(modifier);
+  try {
+    await mouse.click(point.x, point.y, { button: options.button, clickCount: options.clickCount, delay: options.delay });
+  } finally {
+    for (const modifier of [...modifiers].reverse()) await keyboard.up(modifier);
+  }
+}
@@ -0,0 +1,493 @@
+/**
+ * Network features of the CDP backend:
+ * - request interception (browser.route): mock, abort, modify or delay requests via the Fetch domain. The router keeps
+ *   the routes and applies them to every attached CDP client (current page and tab handles).
+ * - traffic capture (onRequest / onResponse / waitForRequest / waitForResponse / waitForNetworkIdle) via the Network domain.
+ */
+
+import type {
+  CDPClient,
+  FetchHeaderEntry,
+  FetchRequestPausedParams,
+  NetworkRequestWillBeSentParams,
+  NetworkResponseReceivedParams,
+  URLPattern,
+} from './cdp-page';
+import { matchesURL } from './cdp-page';
+import { findHarEntry, readHar } from './har';
+
+/** A request as the page sent it (route handlers, onRequest, waitForRequest). */
+export interface NetworkRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  postData?: string;
+  /** e.g. 'Document', 'XHR', 'Fetch', 'Script', 'Image' (CDP naming). */
+  resourceType: string;
+}
+
+/** The intercepted request. */
+export type RouteRequest = NetworkRequest;
+
+/** A response received by the page (onResponse, waitForResponse). The body is read on demand. */
+export interface NetworkResponse {
+  url: string;
+  /** Method of the request. */
+  method: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  request: NetworkRequest;
+  /** Raw body; waits until the response has finished loading. */
+  body(): Promise<Buffer>;
+  text(): Promise<string>;
+  /** Body parsed as JSON. */
+  json<T = unknown>(): Promise<T>;
+}
+
+/** URL pattern (as in waitForURL) or a predicate. */
+export type NetworkMatcher<T> = URLPattern | ((value: T) => boolean);
+
+export interface FulfillOptions {
+  /** Default 200. */
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+  /** Serialized as the body; sets content-type: application/json. */
+  json?: unknown;
+  contentType?: string;
+  /** Wait this many ms before answering. */
+  delay?: number;
+}
+
+export interface ContinueOptions {
+  /** Merged into the original request headers. */
+  headers?: Record<string, string>;
+  url?: string;
+  method?: string;
+  postData?: string | Buffer;
+  /** Wait this many ms before sending the request on. */
+  delay?: number;
+}
+
+export type AbortErrorCode =
+  | 'aborted' | 'accessdenied' | 'addressunreachable' | 'blockedbyclient' | 'blockedbyresponse'
+  | 'connectionaborted' | 'connectionclosed' | 'connectionfailed' | 'connectionrefused' | 'connectionreset'
+  | 'internetdisconnected' | 'namenotresolved' | 'timedout' | 'failed';
+
+/** Passed to a route handler; call exactly one of fulfill, abort or continue. */
+export interface Route {
+  request: RouteRequest;
+  /** Answer with a mocked response; the request never reaches the server. */
+  fulfill(options?: FulfillOptions): Promise<void>;
+  /** Fail the request (default error 'failed'). */
+  abort(errorCode?: AbortErrorCode, options?: { delay?: number }): Promise<void>;
+  /** Send the request to the server, optionally with changed headers, URL, method or body. */
+  continue(options?: ContinueOptions): Promise<void>;
+}
+
+/** If the handler returns without handling the route, the request continues unchanged. */
+export type RouteHandler = (route: Route) => void | Promise<void>;
+
+export interface RouteFromHAROptions {
+  /** Only answer requests matching this pattern from the HAR (default: all). */
+  url?: URLPattern;
+  /** Requests not found in the HAR: 'abort' (default) or 'fallback' (send to the network). */
+  notFound?: 'abort' | 'fallback';
+}
+
+const CDP_ERROR_REASONS: Record<AbortErrorCode, string> = {
+  aborted: 'Aborted',
+  accessdenied: 'AccessDenied',
+  addressunreachable: 'AddressUnreachable',
+  blockedbyclient: 'BlockedByClient',
+  blockedbyresponse: 'BlockedByResponse',
+  connectionaborted: 'ConnectionAborted',
+  connectionclosed: 'ConnectionClosed',
+  connectionfailed: 'ConnectionFailed',
+  connectionrefused: 'ConnectionRefused',
+  connectionreset: 'ConnectionReset',
+  internetdisconnected: 'InternetDisconnected',
+  namenotresolved: 'NameNotResolved',
+  timedout: 'TimedOut',
+  failed: 'Failed',
+};
+
+/** Same pattern as given to route(): equal string, or RegExp with the same source and flags. */
+export function samePattern(a: URLPattern, b: URLPattern): boolean {
+  if (typeof a === 'string' || typeof b === 'string') return a === b;
+  return a.source === b.source && a.flags === b.flags;
+}
+
+function delay(ms: number | undefined): Promise<void> {
+  return ms && ms > 0 ? new Promise((r) => setTimeout(r, ms)) : Promise.resolve();
+}
+
+/** Headers and body for a mocked response (json sets the content type unless given). */
+function fulfillResponse(options: FulfillOptions): { status: number; headers: Record<string, string>; body: Buffer } {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(options.headers ?? {})) headers[name.toLowerCase()] = value;
+  let body: Buffer;
+  if (options.json !== undefined) {
+    body = Buffer.from(JSON.stringify(options.json));
+    if (!options.contentType && !headers['content-type']) headers['content-type'] = 'application/json';
+  } else {
+    body = typeof options.body === 'string' ? Buffer.from(options.body) : options.body ?? Buffer.alloc(0);
+  }
+  if (options.contentType) headers['content-type'] = options.contentType;
+  return { status: options.status ?? 200, headers, body };
+}
+
+function toHeaderEntries(headers: Record<string, string>): FetchHeaderEntry[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+/** Route handler that answers from a HAR file (see routeFromHAR). */
+export function harRouteHandler(file: string, notFound: 'abort' | 'fallback' = 'abort'): RouteHandler {
+  const har = readHar(file);
+  return (route) => {
+    const { method, url, postData } = route.request;
+    const entry = findHarEntry(har, method, url, postData);
+    if (!entry) return notFound === 'fallback' ? route.continue() : route.abort();
+    const { response } = entry;
+    const headers: Record<string, string> = {};
+    for (const { name, value } of response.headers) {
+      const lower = name.toLowerCase();
+      // The stored body is already decoded and may differ in length from the original transfer
+      if (lower === 'content-encoding' || lower === 'content-length' || lower === 'transfer-encoding') continue;
+      headers[lower] = headers[lower] !== undefined && lower === 'set-cookie' ? `${headers[lower]}\n${value}` : value;
+    }
+    const text = response.content.text ?? '';
+    return route.fulfill({
+      status: response.status,
+      headers,
+      body: response.content.encoding === 'base64' ? Buffer.from(text, 'base64') : text,
+    });
+  };
+}
+
+/** What a backend does for route.fulfill / abort / continue (after delays and option handling). */
+export interface RouteActions {
+  fulfill(response: { status: number; headers: Record<string, string>; body: Buffer }): Promise<void>;
+  abort(errorCode: AbortErrorCode): Promise<void>;
+  /** headers, when set, are the full header set (original merged with overrides). */
+  continue(overrides: { url?: string; method?: string; postData?: Buffer; headers?: Record<string, string> }): Promise<void>;
+}
+
+/**
+ * Run a route handler for one request. Each route can be handled once; if the handler returns without
+ * handling it (or throws), the request continues unchanged.
+ */
+export async function handleRoute(handler: RouteHandler, request: RouteRequest, actions: RouteActions): Promise<void> {
+  let handled = false;
+  const once = (): void => {
+    if (handled) throw new Error(`Route is already handled: ${request.url}`);
+    handled = true;
+  };
+  const route: Route = {
+    request,
+    async fulfill(options: FulfillOptions = {}) {
+      once();
+      const response = fulfillResponse(options);
+      await delay(options.delay);
+      await actions.fulfill(response);
+    },
+    async abort(errorCode: AbortErrorCode = 'failed', options?: { delay?: number }) {
+      if (!CDP_ERROR_REASONS[errorCode]) throw new Error(`route.abort: unknown error code "${errorCode}"`);
+      once();
+      await delay(options?.delay);
+      await actions.abort(errorCode);
+    },
+    async continue(options: ContinueOptions = {}) {
+      once();
+      await delay(options.delay);
+      await actions.continue({
+        url: options.url,
+        method: options.method,
+        postData: options.postData === undefined ? undefined : Buffer.from(options.postData),
+        headers: options.headers ? { ...request.headers, ...options.headers } : undefined,
+      });
+    },
+  };
+  try {
+    await handler(route);
+  } catch (err) {
+    console.error(`route handler for ${request.url} failed: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!handled) await actions.continue({}).catch(() => {});
+}
+
+interface RouteEntry {
+  url: URLPattern;
+  handler: RouteHandler;
+}
+
+export interface Router {
+  route(url: URLPattern, handler: RouteHandler): Promise<void>;
+  /** Remove routes for this pattern (only the given handler, if passed). */
+  unroute(url: URLPattern, handler?: RouteHandler): Promise<void>;
+  routeFromHAR(file: string, options?: RouteFromHAROptions): Promise<void>;
+  /** Apply the routes to a CDP client (main page after connect or switchToTab, or a tab handle). */
+  attach(client: CDPClient): Promise<void>;
+  /** Stop routing for a client that is being closed. */
+  detach(client: CDPClient): void;
+}
+
+export function createRouter(): Router {
+  const routes: RouteEntry[] = [];
+  /** Attached clients and the function that removes their requestPaused listener. */
+  const clients = new Map<CDPClient, () => void>();
+  let fetchEnabled = false;
+
+  async function handlePaused(client: CDPClient, params: FetchRequestPausedParams): Promise<void> {
+    const { requestId, request } = params;
+    // Most recently added route wins, as in Playwright
+    const entry = [...routes].reverse().find((r) => matchesURL(request.url, r.url));
+    if (!entry) {
+      await client.Fetch.continueRequest({ requestId }).catch(() => {});
+      return;
+    }
+    await handleRoute(
+      entry.handler,
+      { url: request.url, method: request.method, headers: { ...request.headers }, postData: request.postData, resourceType: params.resourceType },
+      {
+        fulfill: ({ status, headers, body }) =>
+          client.Fetch.fulfillRequest({ requestId, responseCode: status, responseHeaders: toHeaderEntries(headers), body: body.toString('base64') }),
+        abort: (errorCode) => client.Fetch.failRequest({ requestId, errorReason: CDP_ERROR_REASONS[errorCode] }),
+        continue: (overrides) =>
+          client.Fetch.continueRequest({
+            requestId,
+            url: overrides.url,
+            method: overrides.method,
+            postData: overrides.postData?.toString('base64'),
+            headers: overrides.headers ? toHeaderEntries(overrides.headers) : undefined,
+          }),
+      }
+    );
+  }
+
+  /** Enable or disable interception on all clients so requests are only paused while routes exist. */
+  async function sync(): Promise<void> {
+    const want = routes.length > 0;
+    if (want === fetchEnabled) return;
+    fetchEnabled = want;
+    await Promise.all(
+      Array.from(clients.keys()).map((c) => (want ? c.Fetch.enable({ patterns: [{ urlPattern: '*' }] }) : c.Fetch.disable()))
+    );
+  }
+
+  return {
+    async route(url, handler) {
+      routes.push({ url, handler });
+      await sync();
+    },
+    async unroute(url, handler) {
+      for (let i = routes.length - 1; i >= 0; i--) {
+        if (samePattern(routes[i].url, url) && (!handler || routes[i].handler === handler)) routes.splice(i, 1);
+      }
+      await sync();
+    },
+    async routeFromHAR(file, options = {}) {
+      routes.push({ url: options.url ?? /.*/, handler: harRouteHandler(file, options.notFound) });
+      await sync();
+    },
+    async attach(client) {
+      if (clients.has(client)) return;
+      const off = client.Fetch.on('requestPaused', (params) => {
+        void handlePaused(client, params);
+      });
+      clients.set(client, off);
+      if (fetchEnabled) await client.Fetch.enable({ patterns: [{ urlPattern: '*' }] });
+    },
+    detach(client) {
+      clients.get(client)?.();
+      clients.delete(client);
+    },
+  };
+}
+
+/** Resolve with the first value the subscription delivers that matches, or reject after timeout ms. */
+export function waitForNetworkEvent<T extends { url: string }>(
+  subscribe: (listener: (value: T) => void) => () => void,
+  matcher: NetworkMatcher<T>,
+  timeout: number,
+  what: string
+): Promise<T> {
+  const matches = typeof matcher === 'function' ? matcher : (value: T) => matchesURL(value.url, matcher);
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      off();
+      const label = typeof matcher === 'function' ? 'predicate' : typeof matcher === 'string' ? matcher : matcher.source;
+      reject(new Error(`${what}: no match for \`${label}\` within ${timeout}ms`));
+    }, timeout);
+    const off = subscribe((value) => {
+      let ok: boolean;
+      try {
+        ok = matches(value);
+      } catch (err) {
+        clearTimeout(timer);
+        off();
+        reject(err);
+        return;
+      }
+      if (!ok) return;
+      clearTimeout(timer);
+      off();
+      resolve(value);
+    });
+  });
+}
+
+/** Build a NetworkResponse from header data and a function that reads the body. */
+export function createNetworkResponse(
+  request: NetworkRequest,
+  response: { url: string; status: number; statusText: string; headers: Record<string, string> },
+  readBody: () => Promise<Buffer>
+): NetworkResponse {
+  let body: Promise<Buffer> | undefined;
+  const getBody = () => (body ??= readBody());
+  return {
+    url: response.url,
+    method: request.method,
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+    request,
+    body: getBody,
+    text: async () => (await getBody()).toString('utf8'),
+    json: async <T>() => {
+      const text = (await getBody()).toString('utf8');
+      try {
+        return JSON.parse(text) as T;
+      } catch {
+        throw new Error(`Response body of ${response.url} is not JSON: ${text.slice(0, 100)}`);
+      }
+    },
+  };
+}
+
+export interface NetworkMonitor {
+  /** Call listener for every request the page sends; returns a function that removes it. */
+  onRequest(listener: (request: NetworkRequest) => void): () => void;
+  onResponse(listener: (response: NetworkResponse) => void): () => void;
+  waitForRequest(matcher: NetworkMatcher<NetworkRequest>, options?: { timeout?: number }): Promise<NetworkRequest>;
+  waitForResponse(matcher: NetworkMatcher<NetworkResponse>, options?: { timeout?: number }): Promise<NetworkResponse>;
+  /** Resolve once no request has been in flight for idleTime ms (default 500) since the call. Throws after timeout ms. */
+  waitForNetworkIdle(options?: { idleTime?: number; timeout?: number }): Promise<void>;
+}
+
+/**
+ * Resolve once no request has been in flight for idleTime ms since the call (shared by the CDP and Firefox backends).
+ * @param pending - number of requests in flight now
+ * @param lastActivity - when a request last started or finished (ms since epoch)
+ */
+export async function waitForIdle(
+  pending: () => number,
+  lastActivity: () => number,
+  options: { idleTime?: number; timeout?: number } = {}
+): Promise<void> {
+  const idleTime = options.idleTime ?? 500;
+  const timeout = options.timeout ?? 30000;
+  const start = Date.now();
+  const deadline = start + timeout;
+  for (;;) {
+    const now = Date.now();
+    // Quiet for idleTime since the call too, so a request the last action is about to send is not missed
+    if (pending() === 0 && now - Math.max(lastActivity(), start) >= idleTime) return;
+    if (now >= deadline) {
+      throw new Error(`waitForNetworkIdle: ${pending()} request(s) still pending after ${timeout}ms`);
+    }
+    await new Promise((r) => setTimeout(r, Math.min(50, deadline - now)));
+  }
+}
+
+/** Track requests and responses of one CDP client (enables the Network domain). */
+export function createNetworkMonitor(client: CDPClient): NetworkMonitor {
+  const requestListeners = new Set<(request: NetworkRequest) => void>();
+  const responseListeners = new Set<(response: NetworkResponse) => void>();
+  /** In-flight requests: settled when loading finishes or fails, so bodies are read only when complete. */
+  const inflight = new Map<string, { request: NetworkRequest; done: Promise<void>; settle: (error?: Error) => void }>();
+  let lastActivity = Date.now();
+
+  const emit = <T>(listeners: Set<(value: T) => void>, value: T) => {
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(value);
+      } catch (err) {
+        console.error(`network listener failed: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  };
+
+  function finish(requestId: string, error?: Error): void {
+    const entry = inflight.get(requestId);
+    if (!entry) return;
+    inflight.delete(requestId);
+    lastActivity = Date.now();
+    entry.settle(error);
+  }
+
+  client.Network.on('requestWillBeSent', (params: NetworkRequestWillBeSentParams) => {
+    // A redirect reuses the request id: the previous hop is complete
+    if (params.redirectResponse) finish(params.requestId);
+    const request: NetworkRequest = {
+      url: params.request.url,
+      method: params.request.method,
+      headers: { ...params.request.headers },
+      postData: params.request.postData,
+      resourceType: params.type ?? 'Other',
+    };
+    let settle!: (error?: Error) => void;
+    const done = new Promise<void>((resolve, reject) => {
+      settle = (error) => (error ? reject(error) : resolve());
+    });
+    done.catch(() => {});
+    inflight.set(params.requestId, { request, done, settle });
+    lastActivity = Date.now();
+    emit(requestListeners, request);
+  });
+
+  client.Network.on('responseReceived', (params: NetworkResponseReceivedParams) => {
+    const entry = inflight.get(params.requestId);
+    if (!entry) return;
+    const { requestId } = params;
+    const { done } = entry;
+    const response = createNetworkResponse(entry.request, params.response, async () => {
+      await done;
+      const { body, base64Encoded } = await client.Network.getResponseBody({ requestId });
+      return Buffer.from(body, base64Encoded ? 'base64' : 'utf8');
+    });
+    emit(responseListeners, response);
+  });
+
+  client.Network.on('loadingFinished', (params: { requestId: string }) => finish(params.requestId));
+  client.Network.on('loadingFailed', (params: { requestId: string; errorText: string }) =>
+    finish(params.requestId, new Error(`Request failed: ${params.errorText}`))
+  );
+  client.Network.enable().catch(() => {
+    // Not every CDP target supports the Network domain; capture then stays empty
+  });
+
+  const onRequest = (listener: (request: NetworkRequest) => void) => {
+    requestListeners.add(listener);
+    return () => {
+      requestListeners.delete(listener);
+    };
+  };
+  const onResponse = (listener: (response: NetworkResponse) => void) => {
+    responseListeners.add(listener);
+    return () => {
+      responseListeners.delete(listener);
+    };
+  };
+
+  return {
+    onRequest,
+    onResponse,
+    waitForRequest: (matcher, options = {}) =>
+      waitForNetworkEvent(onRequest, matcher, options.timeout ?? 30000, 'waitForRequest'),
+    waitForResponse: (matcher, options = {}) =>
+      waitForNetworkEvent(onResponse, matcher, options.timeout ?? 30000, 'waitForResponse'),
+    waitForNetworkIdle: (options) => waitForIdle(() => inflight.size, () => lastActivity, options),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Console messages and uncaught page errors of every browser, collected per test (runner and config runs)
+ * and attached to the test as its page log. With failOnConsoleError, uncaught page errors also fail the test
+ * (console.error calls are only logged: apps often log handled errors).
+ */
+
+import type { BrowserApi } from './index';
+
+/** The running test's log lines and the errors that fail it; null outside a test. */
+let capture: { lines: string[]; failures: string[] } | null = null;
+
+function time(): string {
+  return new Date().toISOString().slice(11, 23);
+}
+
+/** Collect the browser's console and page errors into the running test's log. */
+export function trackPageLog(browser: BrowserApi, failOnConsoleError = false): void {
+  browser.on('console', (message) => {
+    if (!capture) return;
+    const loc = message.location;
+    const where = loc?.url ? ` (${loc.url}:${loc.lineNumber + 1}:${loc.columnNumber + 1})` : '';
+    capture.lines.push(`${time()} [${message.type}] ${message.text}${where}`);
+  });
+  browser.on('pageerror', (error) => {
+    if (!capture) return;
+    capture.lines.push(`${time()} [pageerror] ${error.stack ?? `${error.name}: ${error.message}`}`);
+    if (failOnConsoleError) capture.failures.push(`${error.name}: ${error.message}`);
+  });
+}
+
+/** Start collecting for a test attempt. */
+export function startPageLogCapture(): void {
+  capture = { lines: [], failures: [] };
+}
+
+/**
+ * Error for the uncaught page errors logged so far by browsers with failOnConsoleError, or null.
+ * Clears them, so each error fails the test once.
+ */
+export function takePageLogFailure(): Error | null {
+  if (!capture || capture.failures.length === 0) return null;
+  const failures = capture.failures;
+  capture.failures = [];
+  const shown = failures.slice(0, 5).map((f) => `  ${f}`);
+  if (failures.length > 5) shown.push(`  ... and ${failures.length - 5} more`);
+  return new Error(`The page threw ${failures.length} uncaught error${failures.length === 1 ? '' : 's'} (failOnConsoleError):\n${shown.join('\n')}`);
+}
+
+/** Stop collecting. Returns the log lines of the attempt. */
+export function finishPageLogCapture(): string[] {
+  const lines = capture?.lines ?? [];
+  capture = null;
+  return lines;
+}
@@ -0,0 +1,144 @@
+/**
+ * Storage state: cookies and localStorage of a browser, in the same JSON format as Playwright's storageState
+ * (plus sessionStorage per origin), so a logged-in state can be saved once (browser.storageState({ path }))
+ * and loaded into new browsers and contexts (createBrowser({ storageState }), browser.newContext({ storageState })).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CDPClient, CookieParam } from './cdp-page';
+
+/** A cookie in storage state (expires in seconds since the epoch, -1 for a session cookie). */
+export interface StorageStateCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+}
+
+/** Cookies of the browser and localStorage (and sessionStorage, when saved from a CDP browser) entries per origin (e.g. 'https://example.com'). */
+export interface StorageState {
+  cookies: StorageStateCookie[];
+  origins: Array<{
+    origin: string;
+    localStorage: Array<{ name: string; value: string }>;
+    sessionStorage?: Array<{ name: string; value: string }>;
+  }>;
+}
+
+/** Storage state object, or the path of a JSON file holding one. */
+export function loadStorageState(state: string | StorageState): StorageState {
+  if (typeof state !== 'string') return { cookies: state.cookies ?? [], origins: state.origins ?? [] };
+  if (!fs.existsSync(state)) throw new Error(`storageState: file not found: ${state}`);
+  let parsed: Partial<StorageState>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(state, 'utf-8')) as Partial<StorageState>;
+  } catch (err) {
+    throw new Error(`storageState: ${state} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return { cookies: parsed.cookies ?? [], origins: parsed.origins ?? [] };
+}
+
+function toCookieParam(cookie: StorageStateCookie): CookieParam {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    ...(cookie.expires > 0 ? { expires: cookie.expires } : {}),
+    httpOnly: cookie.httpOnly,
+    secure: cookie.secure,
+    sameSite: cookie.sameSite,
+  };
+}
+
+/** Remember the origin of every page and frame the client navigates to, so storageState() knows where to read storage. */
+export function trackOrigins(client: CDPClient, origins: Set<string>): void {
+  client.Page.on('frameNavigated', ({ frame }) => {
+    const origin = frame.securityOrigin ?? (/^https?:/.test(frame.url) ? new URL(frame.url).origin : undefined);
+    if (origin && /^https?:\/\//.test(origin)) origins.add(origin);
+  });
+}
+
+function toEntries(items: string[][]): Array<{ name: string; value: string }> {
+  return items.map(([name, value]) => ({ name, value }));
+}
+
+/**
+ * Read the cookies of the browser (or context) and the localStorage and sessionStorage of the given origins
+ * (sessionStorage belongs to the page: it is read from the client's tab). Writes the JSON to path when given.
+ */
+export async function captureStorageState(client: CDPClient, origins: Iterable<string>, filePath?: string): Promise<StorageState> {
+  const { cookies } = await client.Network.getAllCookies();
+  const state: StorageState = {
+    cookies: cookies.map((c) => ({
+      name: c.name,
+      value: c.value,
+      domain: c.domain,
+      path: c.path,
+      expires: c.session ? -1 : c.expires,
+      httpOnly: c.httpOnly,
+      secure: c.secure,
+      sameSite: c.sameSite ?? 'Lax',
+    })),
+    origins: [],
+  };
+  await client.DOMStorage.enable();
+  for (const origin of origins) {
+    // An origin whose storage cannot be read (e.g. never opened in this context) is left out
+    const read = (isLocalStorage: boolean) =>
+      client.DOMStorage.getDOMStorageItems({ storageId: { securityOrigin: origin, isLocalStorage } })
+        .then((r) => toEntries(r.entries))
+        .catch(() => []);
+    const localStorage = await read(true);
+    const sessionStorage = await read(false);
+    if (localStorage.length === 0 && sessionStorage.length === 0) continue;
+    state.origins.push({ origin, localStorage, ...(sessionStorage.length > 0 ? { sessionStorage } : {}) });
+  }
+  if (filePath) writeStorageState(filePath, state);
+  return state;
+}
+
+/** Write a storage state as JSON (creates the directory). */
+export function writeStorageState(filePath: string, state: StorageState): void {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(state, null, 2) + '\n');
+}
+
+/**
+ * Set the cookies, localStorage and sessionStorage of a storage state through a page that is not used yet
+ * (before the router is attached: each origin is opened with an empty page served by Fetch, without network access).
+ */
+export async function applyStorageState(client: CDPClient, state: StorageState): Promise<void> {
+  if (state.cookies.length > 0) await client.Network.setCookies({ cookies: state.cookies.map(toCookieParam) });
+  const origins = state.origins.filter((o) => o.localStorage.length > 0 || (o.sessionStorage?.length ?? 0) > 0);
+  if (origins.length === 0) return;
+  await client.Fetch.enable({ patterns: origins.map((o) => ({ urlPattern: `${o.origin}/*` })) });
+  const unsubscribe = client.Fetch.on('requestPaused', (params) => {
+    const body = Buffer.from('<!DOCTYPE html><html></html>').toString('base64');
+    client.Fetch.fulfillRequest({
+      requestId: params.requestId,
+      responseCode: 200,
+      responseHeaders: [{ name: 'Content-Type', value: 'text/html' }],
+      body,
+    }).catch(() => {});
+  });
+  try {
+    for (const { origin, localStorage, sessionStorage = [] } of origins) {
+      await Promise.all([client.Page.loadEventFired(), client.Page.navigate({ url: `${origin}/` })]);
+      const local = JSON.stringify(localStorage.map((e) => [e.name, e.value]));
+      const session = JSON.stringify(sessionStorage.map((e) => [e.name, e.value]));
+      await client.Runtime.evaluate({
+        expression: `for (const [k, v] of ${local}) localStorage.setItem(k, v); for (const [k, v] of ${session}) sessionStorage.setItem(k, v)`,
+      });
+    }
+  } finally {
+    unsubscribe();
+    await client.Fetch.disable();
+  }
+  await Promise.all([client.Page.loadEventFired(), client.Page.navigate({ url: 'about:blank' })]);
+}
@@ -0,0 +1,63 @@
+/**
+ * Touch gestures (tap, swipe, pinch, long press) with CDP Input.dispatchTouchEvent, at page coordinates
+ * found by the caller (element centers of the page, a tab or a frame). Pages see them as touch events,
+ * so use them with hasTouch (or a device from devices) for sites that listen to touchstart / touchmove.
+ */
+
+import type { CDPClient } from './cdp-page';
+
+export type SwipeDirection = 'up' | 'down' | 'left' | 'right';
+
+export interface LongPressOptions {
+  /** How long the finger stays down, in ms. Default 800. */
+  duration?: number;
+}
+
+type Point = { x: number; y: number };
+
+/** Moves per gesture, so pages that track touchmove see a path instead of a jump. */
+const MOVE_STEPS = 10;
+const MOVE_INTERVAL_MS = 16;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export async function dispatchTap(client: CDPClient, at: Point): Promise<void> {
+  await client.Input.dispatchTouchEvent({ type: 'touchStart', touchPoints: [at] });
+  await client.Input.dispatchTouchEvent({ type: 'touchEnd', touchPoints: [] });
+}
+
+/** Swipe from `from` by distance CSS pixels in direction (a finger moving up scrolls the page down). */
+export async function dispatchSwipe(client: CDPClient, from: Point, direction: SwipeDirection, distance: number): Promise<void> {
+  const dx = direction === 'left' ? -distance : direction === 'right' ? distance : 0;
+  const dy = direction === 'up' ? -distance : direction === 'down' ? distance : 0;
+  await client.Input.dispatchTouchEvent({ type: 'touchStart', touchPoints: [from] });
+  for (let i = 1; i <= MOVE_STEPS; i++) {
+    await sleep(MOVE_INTERVAL_MS);
+    const t = i / MOVE_STEPS;
+    await client.Input.dispatchTouchEvent({ type: 'touchMove', touchPoints: [{ x: from.x + dx * t, y: from.y + dy * t }] });
+  }
+  await client.Input.dispatchTouchEvent({ type: 'touchEnd', touchPoints: [] });
+}
+
+/** Two fingers around center moving apart (scale > 1, zoom in) or together (scale < 1, zoom out). */
+export async function dispatchPinch(client: CDPClient, center: Point, scale: number): Promise<void> {
+  if (!(scale > 0)) throw new Error(`pinch: scale must be a positive number (got ${scale})`);
+  const startGap = 50;
+  const endGap = startGap * scale;
+  const fingers = (gap: number) => [
+    { x: center.x - gap, y: center.y, id: 0 },
+    { x: center.x + gap, y: center.y, id: 1 },
+  ];
+  await client.Input.dispatchTouchEvent({ type: 'touchStart', touchPoints: fingers(startGap) });
+  for (let i = 1; i <= MOVE_STEPS; i++) {
+    await sleep(MOVE_INTERVAL_MS);
+    await client.Input.dispatchTouchEvent({ type: 'touchMove', touchPoints: fingers(startGap + ((endGap - startGap) * i) / MOVE_STEPS) });
+  }
+  await client.Input.dispatchTouchEvent({ type: 'touchEnd', touchPoints: [] });
+}
+
+export async function dispatchLongPress(client: CDPClient, at: Point, options: LongPressOptions = {}): Promise<void> {
+  await client.Input.dispatchTouchEvent({ type: 'touchStart', touchPoints: [at] });
+  await sleep(options.duration ?? 800);
+  await client.Input.dispatchTouchEvent({ type: 'touchEnd', touchPoints: [] });
+}
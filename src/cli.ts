@@ -1,16 +1,22 @@
 #!/usr/bin/env node
 // CSTesting CLI — discover and run test files.
 // Usage: npx cstesting [pattern]  or  npx cst init
-// Examples: cstesting  |  cstesting "**/*.test.js"  |  cstesting tests/  |  cstesting init
+// Examples: cstesting  |  cstesting "**/*.test.js"  |  cstesting tests/  |  cstesting init  |  cstesting tests/ --workers 4 --timeout 10000  |  cstesting tests/ --reporter html,junit  |  cstesting tests/ --watch  |  cstesting tests/ --update-snapshots  |  cstesting tests/ --har  |  cstesting login.conf --trace retain-on-failure  |  cstesting show-trace report/traces/x.zip
 
 import * as path from 'path';
 import * as fs from 'fs';
 import { run, resetRunner } from './runner';
 import { AssertionError } from './assertions';
-import { writeReport } from './report';
+import { formatExpectedActual } from './diff';
+import { writeReports, validateReporters } from './reporters';
 import { runConfigFile } from './config-runner';
-import type { RunResult } from './types';
+import type { RunResult, SnapshotSummary } from './types';
 import { startRecording, stopRecording, exportRecorded } from './recorder';
+import { loadTestFile } from './test-loader';
+import { runFilesInWorkers, emptyResult, mergeResult } from './parallel';
+import { startWatch } from './watch';
+import { TRACE_MODES, type TraceMode } from './trace';
+import { createTraceViewerServer } from './trace/viewer-server';
 
 const defaultPattern = '**/*.test.js';
 const TEST_EXTENSIONS = ['.test.js', '.spec.js', '.test.ts', '.spec.ts'];
@@ -100,24 +106,29 @@ function findTestFiles(pattern: string, cwd: string): string[] {
   return [];
 }
 
-function loadTestFile(filePath: string): void {
-  const resolved = path.resolve(filePath);
-  if (filePath.endsWith('.ts')) {
-    try {
-      require('ts-node/register');
-    } catch {
-      console.error(
-        'TypeScript test file found but ts-node is not installed. Install it: npm install -D ts-node\n  Or compile .ts to .js and run the .js files.'
-      );
-      process.exit(1);
-    }
+/** Test files for a CLI pattern: glob, directory, or single file. */
+function resolveTestFiles(pattern: string, cwd: string): string[] {
+  const resolved = path.resolve(cwd, pattern);
+  if (pattern.includes('*') || pattern.endsWith('.js') || pattern.endsWith('.ts')) {
+    return findTestFiles(pattern, cwd);
+  } else if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
+    return findTestFiles(pattern, cwd);
+  } else if (fs.existsSync(resolved) && fs.statSync(resolved).isFile()) {
+    return [resolved];
   }
-  require(resolved);
+  return findTestFiles(pattern, cwd);
 }
 
 function formatError(err: Error): string {
   if (err instanceof AssertionError) {
-    return `${err.message}${err.actual !== undefined ? `\n  Actual: ${String(err.actual)}` : ''}${err.expected !== undefined ? `\n  Expected: ${String(err.expected)}` : ''}`;
+    const images = err.images;
+    const details = images
+      ? [['Expected', images.expected], ['Actual', images.actual], ['Diff', images.diff]]
+        .filter(([, file]) => file)
+        .map(([label, file]) => `${label}: ${path.relative(process.cwd(), file!)}`)
+        .join('\n')
+      : formatExpectedActual(err.expected, err.actual);
+    return details ? `${err.message}\n${details.split('\n').map((l) => (l ? `  ${l}` : l)).join('\n')}` : err.message;
   }
   return err.stack || err.message;
 }
@@ -137,7 +148,8 @@ function resolveConfigPath(configPath: string): string | null {
 /** Run a config file (e.g. login.conf) and write report. */
 async function runConfig(
   configPath: string,
-  options?: { headless?: boolean; browser?: 'chrome' | 'edge' | 'opera' | 'firefox' }
+  options?: { headless?: boolean; browser?: 'chrome' | 'edge' | 'opera' | 'firefox'; retries?: number; updateSnapshots?: boolean; ci?: boolean; har?: boolean; trace?: TraceMode; screenshotOnFailure?: boolean; reportDir?: string },
+  reporters: string[] = ['html']
 ): Promise<void> {
   const cwd = process.cwd();
   const resolved = resolveConfigPath(configPath);
@@ -150,18 +162,26 @@ async function runConfig(
   const result = await runConfigFile(resolved, options);
   if (result.errors.length > 0) {
     console.error('\nFailed test(s):');
-    for (const { suite, test, error } of result.errors) {
+    for (const { suite, test, error, trace, screenshots } of result.errors) {
       console.error(`  ✗ ${suite} > ${test}`);
-      console.error(`    ${error.message}`);
-      if (error.stack) {
-        console.error(error.stack.split('\n').slice(1, 4).map((l) => `    ${l.trim()}`).join('\n'));
+      if (error instanceof AssertionError && error.images) {
+        console.error(formatError(error).split('\n').map((l) => `    ${l}`).join('\n'));
+      } else {
+        console.error(`    ${error.message}`);
+        if (error.stack) {
+          console.error(error.stack.split('\n').slice(1, 4).map((l) => `    ${l.trim()}`).join('\n'));
+        }
       }
+      for (const file of screenshots ?? []) console.error(`    Screenshot: ${path.relative(cwd, file)}`);
+      for (const file of trace ?? []) console.error(`    Trace: npx cstesting show-trace ${path.relative(cwd, file)}`);
     }
   }
   console.log('\n' + '─'.repeat(50));
-  console.log(`  Passed: ${result.passed}  Failed: ${result.failed}  Total: ${result.total}  (${result.duration}ms)`);
-  const reportPath = writeReport(result, { cwd, reportDir: 'report', filename: 'report.html' });
-  console.log(`  Report: ${reportPath}`);
+  console.log(`  Passed: ${result.passed}  Failed: ${result.failed}${result.flaky ? `  Flaky: ${result.flaky}` : ''}  Total: ${result.total}  (${result.duration}ms)`);
+  if (result.snapshots) printSnapshotSummary(result.snapshots);
+  for (const reportPath of writeReports(result, reporters, { cwd, reportDir: options?.reportDir })) {
+    console.log(`  Report: ${reportPath}`);
+  }
   if (result.failed > 0) process.exit(1);
 }
 
@@ -181,7 +201,9 @@ function parseTagArgs(): { tags: string[]; pattern: string | undefined } {
   const argv = process.argv.slice(2);
   for (let i = 0; i < argv.length; i++) {
     const a = argv[i];
-    if (a === FLAG_TAG || a === FLAG_TAGS || a === FLAG_T) {
+    if (a === '--report-dir') {
+      i++;
+    } else if (a === FLAG_TAG || a === FLAG_TAGS || a === FLAG_T) {
       if (i + 1 < argv.length) {
         tags.push(...argv[++i].split(',').map((s) => s.trim()).filter(Boolean));
       }
@@ -196,10 +218,132 @@ function parseTagArgs(): { tags: string[]; pattern: string | undefined } {
   return { tags, pattern };
 }
 
+/** Parse a numeric flag given as "--flag N" or "--flag=N". Returns undefined when absent; exits on invalid values. */
+function parseNumberArg(argv: string[], flag: string, min: number): number | undefined {
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === flag && i + 1 < argv.length) value = argv[i + 1];
+    else if (argv[i].startsWith(flag + '=')) value = argv[i].slice(flag.length + 1);
+  }
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    console.error(`Invalid ${flag} value: ${value} (expected a whole number >= ${min})`);
+    process.exit(1);
+  }
+  return n;
+}
+
+/** Parse --report-dir <dir> (or --report-dir=<dir>): where reports, HAR files, traces and attachments go. Default report. */
+function parseReportDirArg(argv: string[]): string {
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--report-dir' && i + 1 < argv.length) value = argv[i + 1];
+    else if (argv[i].startsWith('--report-dir=')) value = argv[i].slice(13);
+  }
+  return value || 'report';
+}
+
+/** Parse --reporter html,junit,json (or --reporter=...). Defaults to html; exits on unknown names. */
+function parseReporterArg(argv: string[]): string[] {
+  const names: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--reporter' && i + 1 < argv.length) names.push(...argv[++i].split(','));
+    else if (argv[i].startsWith('--reporter=')) names.push(...argv[i].slice(11).split(','));
+  }
+  const reporters = Array.from(new Set(names.map((n) => n.trim().toLowerCase()).filter(Boolean)));
+  if (reporters.length === 0) return ['html'];
+  try {
+    validateReporters(reporters);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+  return reporters;
+}
+
+/** Parse --trace on|retain-on-failure|off (or --trace=...). Defaults to off; exits on unknown modes. */
+function parseTraceArg(argv: string[]): TraceMode {
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--trace' && i + 1 < argv.length) value = argv[i + 1];
+    else if (argv[i].startsWith('--trace=')) value = argv[i].slice(8);
+  }
+  if (value === undefined) return 'off';
+  if (!TRACE_MODES.includes(value as TraceMode)) {
+    console.error(`Invalid --trace value: ${value} (expected ${TRACE_MODES.join(', ')})`);
+    process.exit(1);
+  }
+  return value as TraceMode;
+}
+
+/** Serve the trace viewer for a zip until Ctrl+C. */
+async function showTrace(file: string | undefined): Promise<void> {
+  if (!file) {
+    console.error('Usage: cstesting show-trace <trace.zip>');
+    process.exit(1);
+  }
+  const resolved = path.resolve(file);
+  if (!fs.existsSync(resolved)) {
+    console.error(`Trace not found: ${file}`);
+    process.exit(1);
+  }
+  try {
+    const { port } = await createTraceViewerServer(resolved);
+    console.log(`Trace viewer: http://127.0.0.1:${port}/`);
+    console.log('Press Ctrl+C to stop.');
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
+
+/** Snapshot counts and the list of obsolete snapshots. */
+function printSnapshotSummary(s: SnapshotSummary): void {
+  const parts: string[] = [];
+  if (s.matched) parts.push(`${s.matched} passed`);
+  if (s.unmatched) parts.push(`${s.unmatched} failed`);
+  if (s.added) parts.push(`${s.added} written`);
+  if (s.updated) parts.push(`${s.updated} updated`);
+  if (s.unwritten) parts.push(`${s.unwritten} not written (--ci)`);
+  if (s.removed) parts.push(`${s.removed} removed`);
+  if (s.obsolete.length) parts.push(`${s.obsolete.length} obsolete`);
+  if (parts.length === 0) return;
+  console.log(`  Snapshots: ${parts.join(', ')}`);
+  for (const { file, key } of s.obsolete) console.log(`    obsolete: ${file} › ${key}`);
+  if (s.obsolete.length) console.log('    Run with --update-snapshots to remove obsolete snapshots.');
+}
+
+/** Print the totals line and write the selected reports. */
+function printSummary(result: RunResult, reporters: string[], cwd: string, reportDir: string): void {
+  console.log('\n' + '─'.repeat(50));
+  console.log(`  Passed: ${result.passed}  Failed: ${result.failed}${result.flaky ? `  Flaky: ${result.flaky}` : ''}  Skipped: ${result.skipped}  Total: ${result.total}  (${result.duration}ms)`);
+  if (result.snapshots) printSnapshotSummary(result.snapshots);
+  for (const reportPath of writeReports(result, reporters, { cwd, reportDir })) {
+    console.log(`  Report: ${reportPath}`);
+  }
+}
+
+/** Print a file header, its failures and (for worker runs) the output the file produced. */
+function printFileResult(rel: string, result: RunResult, output?: string): void {
+  console.log(`\n ${rel}`);
+  if (output) process.stdout.write(output.endsWith('\n') ? output : output + '\n');
+  for (const { suite, test, error, trace } of result.errors) {
+    console.log(`  ✗ ${suite} > ${test}`);
+    console.log(formatError(error).split('\n').map((l) => `    ${l}`).join('\n'));
+    for (const file of trace ?? []) console.log(`    Trace: npx cstesting show-trace ${path.relative(process.cwd(), file)}`);
+  }
+}
+
 /** First non-flag argument that looks like a pattern (path or test file). */
 function firstPatternArg(): string | undefined {
   const argv = process.argv.slice(2);
-  for (const a of argv) {
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--report-dir') {
+      i++;
+      continue;
+    }
     if (a === FLAG_TAG || a === FLAG_TAGS || a === FLAG_T || a.startsWith('--tag=') || a.startsWith('-t=')) continue;
     if (a.startsWith('-') && a !== '-') continue;
     if (looksLikePattern(a)) return a;
@@ -219,7 +363,9 @@ async function main(): Promise<void> {
     const outIdx = argv.indexOf('--output');
     const formatIdx = argv.indexOf('--format');
     const browserIdx = argv.indexOf('--browser');
+    const deviceIdx = argv.indexOf('--device');
     let output = outIdx !== -1 && argv[outIdx + 1] ? argv[outIdx + 1] : undefined;
+    const device = deviceIdx !== -1 && argv[deviceIdx + 1] ? argv[deviceIdx + 1] : undefined;
     let format: 'conf' | 'js' | 'ts' | 'java' = 'conf';
     let browser: 'chrome' | 'edge' | 'opera' | 'firefox' = 'chrome';
     if (formatIdx !== -1 && argv[formatIdx + 1]) {
@@ -236,10 +382,11 @@ async function main(): Promise<void> {
       else if (output.endsWith('.java')) format = 'java';
     }
     const recordArgv = argv.filter(
-      (a) => a !== 'record' && a !== '--output' && a !== '--format' && a !== '--browser' &&
+      (a) => a !== 'record' && a !== '--output' && a !== '--format' && a !== '--browser' && a !== '--device' &&
         (outIdx === -1 || a !== argv[outIdx + 1]) &&
         (formatIdx === -1 || a !== argv[formatIdx + 1]) &&
-        (browserIdx === -1 || a !== argv[browserIdx + 1])
+        (browserIdx === -1 || a !== argv[browserIdx + 1]) &&
+        (deviceIdx === -1 || a !== argv[deviceIdx + 1])
     );
     const urlArg = recordArgv.find((a) => !a.startsWith('-') && (a.startsWith('http') || a.startsWith('file') || a.startsWith('https')));
     const initialUrl = urlArg || undefined;
@@ -267,6 +414,7 @@ async function main(): Promise<void> {
       await startRecording(initialUrl, {
         onBrowserClose: () => doStopAndExit(0),
         browser,
+        device,
       });
     } catch (err) {
       console.error('Recording failed:', err instanceof Error ? err.message : err);
@@ -277,13 +425,30 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (argv[0] === 'show-trace') {
+    await showTrace(argv[1]);
+    return;
+  }
+
   const cwd = process.cwd();
+  const reporters = parseReporterArg(argv);
+  const updateSnapshots = argv.includes('--update-snapshots') || argv.includes('-u');
+  // CI mode (--ci or the CI environment variable): new snapshots are not written and fail the test
+  const ci = argv.includes('--ci') || (!!process.env.CI && process.env.CI !== 'false' && process.env.CI !== '0');
+  // Record a HAR file of each test's browser traffic (report/har/, linked from the report)
+  const har = argv.includes('--har');
+  // Trace config steps and the browser actions of tests (report/traces/, open with cstesting show-trace)
+  const trace = parseTraceArg(argv);
+  // Failed tests get a screenshot of the open browser (report/attachments/) unless turned off
+  const screenshotOnFailure = !argv.includes('--no-screenshot-on-failure');
+  // Reports and the files they link to (HAR, traces, screenshots, attachments)
+  const reportDir = parseReportDirArg(argv);
 
   if (argv.includes('run')) {
     const runIdx = argv.indexOf('run');
     const configPath = argv[runIdx + 1];
     if (!configPath) {
-      console.error('Usage: cstesting run <config.conf> [--headed] [--browser chrome|edge|opera|firefox]');
+      console.error('Usage: cstesting run <config.conf> [--headed] [--browser chrome|edge|opera|firefox] [--retries N] [--update-snapshots] [--har] [--trace on|retain-on-failure] [--no-screenshot-on-failure] [--reporter html,junit,json] [--report-dir <dir>]');
       process.exit(1);
     }
     const headed = argv.includes('--headed');
@@ -294,7 +459,7 @@ async function main(): Promise<void> {
       if (b === 'edge' || b === 'opera' || b === 'firefox') browser = b;
       else if (b === 'chrome') browser = 'chrome';
     }
-    await runConfig(configPath, { headless: !headed, browser });
+    await runConfig(configPath, { headless: !headed, browser, retries: parseNumberArg(argv, '--retries', 0), updateSnapshots, ci, har, trace, screenshotOnFailure, reportDir }, reporters);
     return;
   }
 
@@ -315,24 +480,14 @@ async function main(): Promise<void> {
           if (b === 'edge' || b === 'opera' || b === 'firefox') browser = b;
           else if (b === 'chrome') browser = 'chrome';
         }
-        await runConfig(arg, { headless: !headed, browser });
+        await runConfig(arg, { headless: !headed, browser, retries: parseNumberArg(argv, '--retries', 0), updateSnapshots, ci, har, trace, screenshotOnFailure, reportDir }, reporters);
         return;
       }
     }
   }
 
   const pattern = arg || defaultPattern;
-  const resolved = path.resolve(cwd, pattern);
-  let testFiles: string[];
-  if (pattern.includes('*') || pattern.endsWith('.js') || pattern.endsWith('.ts')) {
-    testFiles = findTestFiles(pattern, cwd);
-  } else if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
-    testFiles = findTestFiles(pattern, cwd);
-  } else if (fs.existsSync(resolved) && fs.statSync(resolved).isFile()) {
-    testFiles = [resolved];
-  } else {
-    testFiles = findTestFiles(pattern, cwd);
-  }
+  const testFiles = resolveTestFiles(pattern, cwd);
 
   if (testFiles.length === 0) {
     console.log('No test files found. Create files matching *.test.js, *.test.ts, *.spec.js, or *.spec.ts — or run: cstesting path/to/test.js');
@@ -344,52 +499,58 @@ async function main(): Promise<void> {
     console.log(`Running tests with tags: ${tags.join(', ')}\n`);
   }
 
-  const totalResult: RunResult = {
-    passed: 0,
-    failed: 0,
-    skipped: 0,
-    total: 0,
-    duration: 0,
-    errors: [],
-    passedTests: [],
-    skippedTests: [],
-  };
+  const totalResult = emptyResult();
+
+  const workers = Math.min(parseNumberArg(argv, '--workers', 1) ?? 1, testFiles.length);
+  const timeout = parseNumberArg(argv, '--timeout', 0);
+  const retries = parseNumberArg(argv, '--retries', 0);
+
+  if (argv.includes('--watch')) {
+    if (workers > 1) console.log('Watch mode runs files one at a time in this process; --workers is ignored.\n');
+    startWatch({
+      cwd,
+      findFiles: () => resolveTestFiles(pattern, cwd),
+      tags,
+      runOptions: { timeout, retries, updateSnapshots, ci, har, screenshotOnFailure, trace, reportDir },
+      onFileResult: (rel, result) => printFileResult(rel, result),
+      onRunEnd: (result) => printSummary(result, reporters, cwd, reportDir),
+    });
+    return;
+  }
 
-  for (const file of testFiles) {
-    resetRunner();
+  if (workers > 1) {
+    // Each file runs in its own process; output is buffered per file and printed when the file finishes.
+    console.log(`Running ${testFiles.length} test files with ${workers} workers\n`);
+    const start = Date.now();
     try {
-      loadTestFile(file);
+      const outcomes = await runFilesInWorkers(
+        testFiles.map((file) => ({ file, rel: path.relative(cwd, file), tags, timeout, retries, updateSnapshots, ci, har, screenshotOnFailure, trace, reportDir })),
+        workers,
+        (outcome) => printFileResult(outcome.rel, outcome.result, outcome.output)
+      );
+      for (const outcome of outcomes) mergeResult(totalResult, outcome.result);
     } catch (err) {
-      console.error(`Failed to load ${file}:`, err);
+      console.error(err instanceof Error ? err.message : err);
       process.exit(1);
     }
-    const rel = path.relative(cwd, file);
-    const result = await run(
-      tags.length > 0 ? { tags, file: rel } : { file: rel }
-    );
-    totalResult.passed += result.passed;
-    totalResult.failed += result.failed;
-    totalResult.skipped += result.skipped;
-    totalResult.total += result.total;
-    totalResult.duration += result.duration;
-    totalResult.errors.push(...result.errors);
-    totalResult.passedTests.push(...result.passedTests);
-    totalResult.skippedTests.push(...result.skippedTests);
-
-    console.log(`\n ${rel}`);
-    if (result.errors.length > 0) {
-      for (const { suite, test, error } of result.errors) {
-        console.log(`  ✗ ${suite} > ${test}`);
-        console.log(formatError(error).split('\n').map((l) => `    ${l}`).join('\n'));
+    totalResult.duration = Date.now() - start;
+  } else {
+    for (const file of testFiles) {
+      resetRunner();
+      try {
+        loadTestFile(file);
+      } catch (err) {
+        console.error(`Failed to load ${file}:`, err);
+        process.exit(1);
       }
+      const rel = path.relative(cwd, file);
+      const result = await run({ tags: tags.length > 0 ? tags : undefined, file: rel, timeout, retries, updateSnapshots, ci, har, screenshotOnFailure, trace, reportDir });
+      mergeResult(totalResult, result);
+      printFileResult(rel, result);
     }
   }
 
-  console.log('\n' + '─'.repeat(50));
-  console.log(`  Passed: ${totalResult.passed}  Failed: ${totalResult.failed}  Skipped: ${totalResult.skipped}  Total: ${totalResult.total}  (${totalResult.duration}ms)`);
-
-  const reportPath = writeReport(totalResult, { cwd, reportDir: 'report', filename: 'report.html' });
-  console.log(`  Report: ${reportPath}`);
+  printSummary(totalResult, reporters, cwd, reportDir);
 
   if (totalResult.failed > 0) process.exit(1);
 }
@@ -3,14 +3,33 @@
  */
 import * as fs from 'fs';
 import * as path from 'path';
+import type { SwipeDirection } from './browser';
 
 /**
  * Format (one step per line):
  *   # Test case name   - starts a new test case; all following steps belong to it until the next #
  *   headless=false   or   headed=true   - open browser in headed mode (visible window)
+ *   retries=<n>                   - re-run a failing test case up to n times
+ *   screenshotOnFailure=false     - no screenshot when a step fails (default true; report/attachments/)
+ *   failOnConsoleError=true       - fail the step when the page throws an uncaught exception
+ *   waitForNetworkIdle=true       - after goto and click, also wait (at most 2 s) until no request is in flight
+ *   loadState=<path>              - start the browser with the cookies and storage saved by saveState
+ *   device=<name>                 - emulate a device from the built-in table (e.g. device=iPhone 13)
  *   goto:<url>                    - navigate to URL (optional, use at start)
  *   <label>:<locator>=value:<text> - type text into element (e.g. name:#user=value:john)
  *   click=<locator>               - click element (e.g. click=button[type="submit"])
+ *   tap=<locator>                 - touch element (use with device= or a touch device)
+ *   swipe=<locator> <up|down|left|right> [distance] - swipe on element, distance in CSS pixels (default 100)
+ *   pinch=<locator> <scale>       - two-finger pinch on element (scale > 1 zooms in, < 1 zooms out)
+ *   longPress=<locator> [ms]      - touch element and hold (default 800 ms)
+ *   press=<key>                   - press a key or combination in the focused element (e.g. press=Enter, press=Control+A)
+ *   upload=<locator>=<file>[,<file>...] - set the files of an <input type="file"> (paths relative to the working directory)
+ *   expectDownload=<filename>     - the next step must start a download with this file name (e.g. before click=#export)
+ *   assertScreenshot=<name> [element=<locator>] [fullPage] [maxDiffPixels=<n>] [threshold=<0-1>]
+ *                                 - compare a screenshot with the baseline __snapshots__/<config file>-images/<name>.png
+ *   waitForResponse=<url pattern> [timeout=<ms>] - wait for a response whose URL contains the pattern (or matches a ** glob)
+ *   waitForRequest=<url pattern> [timeout=<ms>]  - same, for a request the page sends
+ *   saveState=<path>              - save cookies, localStorage and sessionStorage as JSON (e.g. after logging in)
  *
  * Example (one test case "Login Page - Mercury Tours" with 4 steps):
  *   # Login Page - Mercury Tours
@@ -25,10 +44,20 @@ export type ConfigStep =
   | { action: 'type'; label: string; locator: string; value: string }
   | { action: 'click'; locator: string }
   | { action: 'wait'; ms: number }
+  | { action: 'waitForRequest' | 'waitForResponse'; url: string; timeout?: number }
   | { action: 'screenshot'; path: string; fullPage?: boolean; element?: string }
+  | { action: 'saveState'; path: string }
+  | { action: 'assertScreenshot'; name: string; fullPage?: boolean; element?: string; maxDiffPixels?: number; threshold?: number }
   | { action: 'doubleClick'; locator: string }
   | { action: 'rightClick'; locator: string }
   | { action: 'hover'; locator: string }
+  | { action: 'tap'; locator: string }
+  | { action: 'swipe'; locator: string; direction: SwipeDirection; distance?: number }
+  | { action: 'pinch'; locator: string; scale: number }
+  | { action: 'longPress'; locator: string; ms?: number }
+  | { action: 'press'; key: string }
+  | { action: 'upload'; locator: string; files: string[] }
+  | { action: 'expectDownload'; filename: string }
   | { action: 'dragAndDrop'; sourceLocator: string; locator: string }  // locator = drop target
   | { action: 'switchTab'; index: number }
   | { action: 'frame'; selector: string }  // 'main' = back to main; 'sel1,sel2' = nested frames
@@ -51,6 +80,18 @@ export interface ParsedConfig {
   name: string;
   /** If false, browser runs in headed mode (visible window). Default true (headless). */
   headless: boolean;
+  /** Re-run a failing test case up to this many times (retries=N). Default 0. */
+  retries: number;
+  /** Screenshot the page when a step fails (screenshotOnFailure=false turns it off). Default true. */
+  screenshotOnFailure: boolean;
+  /** Fail a step when the page throws an uncaught exception (failOnConsoleError=true). Default false. */
+  failOnConsoleError: boolean;
+  /** After goto and click, also wait (briefly) for network idle (waitForNetworkIdle=true). Default false. */
+  waitForNetworkIdle: boolean;
+  /** Storage state file to start the browser with (loadState=<path>). */
+  loadState?: string;
+  /** Device to emulate, a name from the devices table (device=<name>). */
+  device?: string;
   /** When using sections (# lines), each item is one test case. Otherwise one item with all steps. */
   testCases: ConfigTestCase[];
 }
@@ -64,6 +105,18 @@ function parseLine(line: string): ConfigStep | null {
   if (/^headless=(true|false)$/i.test(trimmed) || /^headed=(true|false)$/i.test(trimmed)) {
     return null;
   }
+  // retries=N (option, not a step)
+  if (/^retries=\d+$/i.test(trimmed)) {
+    return null;
+  }
+  // screenshotOnFailure=true|false, failOnConsoleError=true|false, waitForNetworkIdle=true|false, loadState=<path>, device=<name> (options, not steps)
+  if (/^(screenshotOnFailure|failOnConsoleError|waitForNetworkIdle)=(true|false)$/i.test(trimmed) || /^(loadState|device)=/i.test(trimmed)) {
+    return null;
+  }
+
+  // saveState=<path>
+  const saveStateMatch = trimmed.match(/^saveState=(.+)$/i);
+  if (saveStateMatch) return { action: 'saveState', path: saveStateMatch[1].trim() };
 
   // click=<locator>
   const clickMatch = trimmed.match(/^click=(.+)$/);
@@ -79,6 +132,40 @@ function parseLine(line: string): ConfigStep | null {
   const hoverMatch = trimmed.match(/^hover=(.+)$/);
   if (hoverMatch) return { action: 'hover', locator: hoverMatch[1].trim() };
 
+  // press=<key or combination>
+  const pressMatch = trimmed.match(/^press=(.+)$/);
+  if (pressMatch) return { action: 'press', key: pressMatch[1].trim() };
+
+  // tap=<locator>, swipe=<locator> <direction> [distance], pinch=<locator> <scale>, longPress=<locator> [ms]
+  // (the arguments are read from the end, so locators may contain spaces)
+  const tapMatch = trimmed.match(/^tap=(.+)$/);
+  if (tapMatch) return { action: 'tap', locator: tapMatch[1].trim() };
+  const swipeMatch = trimmed.match(/^swipe=(.+?)\s+(up|down|left|right)(?:\s+(\d+))?$/i);
+  if (swipeMatch) {
+    const step: ConfigStep = { action: 'swipe', locator: swipeMatch[1].trim(), direction: swipeMatch[2].toLowerCase() as SwipeDirection };
+    if (swipeMatch[3]) step.distance = parseInt(swipeMatch[3], 10);
+    return step;
+  }
+  const pinchMatch = trimmed.match(/^pinch=(.+?)\s+(\d*\.?\d+)$/);
+  if (pinchMatch) return { action: 'pinch', locator: pinchMatch[1].trim(), scale: parseFloat(pinchMatch[2]) };
+  const longPressMatch = trimmed.match(/^longPress=(.+?)(?:\s+(\d+))?$/);
+  if (longPressMatch) {
+    const step: ConfigStep = { action: 'longPress', locator: longPressMatch[1].trim() };
+    if (longPressMatch[2]) step.ms = parseInt(longPressMatch[2], 10);
+    return step;
+  }
+
+  // upload=locator=file1,file2 — split at the last '=' since locators may contain one ([name="file"])
+  const uploadMatch = trimmed.match(/^upload=(.+)=([^=]+)$/);
+  if (uploadMatch) {
+    const files = uploadMatch[2].split(',').map((f) => f.trim()).filter(Boolean);
+    if (files.length > 0) return { action: 'upload', locator: uploadMatch[1].trim(), files };
+  }
+
+  // expectDownload=<suggested file name>
+  const expectDownloadMatch = trimmed.match(/^expectDownload=(.+)$/);
+  if (expectDownloadMatch) return { action: 'expectDownload', filename: expectDownloadMatch[1].trim() };
+
   // dragAndDrop=source=target
   const dragMatch = trimmed.match(/^dragAndDrop=(.+)$/);
   if (dragMatch) {
@@ -105,6 +192,14 @@ function parseLine(line: string): ConfigStep | null {
     return { action: 'wait', ms };
   }
 
+  // waitForResponse=<url pattern> [timeout=ms], waitForRequest=<url pattern> [timeout=ms]
+  const networkWaitMatch = trimmed.match(/^(waitForRequest|waitForResponse)=(\S+)(?:\s+timeout=(\d+))?$/i);
+  if (networkWaitMatch) {
+    const action = networkWaitMatch[1].toLowerCase() === 'waitforrequest' ? 'waitForRequest' : 'waitForResponse';
+    const timeout = networkWaitMatch[3] ? parseInt(networkWaitMatch[3], 10) : undefined;
+    return { action, url: networkWaitMatch[2], timeout };
+  }
+
   // screenshot=path [fullPage] [element=locator] — getScreenshot= is an alias
   const screenshotMatch = trimmed.match(/^(?:screenshot|getScreenshot)=(.+)$/i);
   if (screenshotMatch) {
@@ -122,6 +217,21 @@ function parseLine(line: string): ConfigStep | null {
     return { action: 'screenshot', path, fullPage: fullPage || undefined, element };
   }
 
+  // assertScreenshot=name [element=locator] [fullPage] [maxDiffPixels=N] [threshold=0.2]
+  const assertScreenshotMatch = trimmed.match(/^assertScreenshot=(.+)$/i);
+  if (assertScreenshotMatch) {
+    const parts = assertScreenshotMatch[1].trim().split(/\s+/);
+    const step: ConfigStep & { action: 'assertScreenshot' } = { action: 'assertScreenshot', name: parts[0] };
+    for (let i = 1; i < parts.length; i++) {
+      const lower = parts[i].toLowerCase();
+      if (lower === 'fullpage') step.fullPage = true;
+      else if (lower.startsWith('element=')) step.element = parts[i].slice(8).trim();
+      else if (lower.startsWith('maxdiffpixels=')) step.maxDiffPixels = parseInt(parts[i].slice(14), 10);
+      else if (lower.startsWith('threshold=')) step.threshold = parseFloat(parts[i].slice(10));
+    }
+    return step;
+  }
+
   // switchTab=0 (0-based index)
   const switchTabMatch = trimmed.match(/^switchTab=(\d+)$/);
   if (switchTabMatch) {
@@ -272,6 +382,24 @@ function parseHeadlessOption(line: string): boolean | undefined {
   return undefined;
 }
 
+/** Parse retries=N from a line. Returns undefined if line is not a retries option. */
+function parseRetriesOption(line: string): number | undefined {
+  const match = line.trim().match(/^retries=(\d+)$/i);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/** Parse <name>=true|false (e.g. screenshotOnFailure=false) from a line. Returns undefined if line is not that option. */
+function parseBooleanOption(line: string, name: string): boolean | undefined {
+  const match = line.trim().match(new RegExp(`^${name}=(true|false)$`, 'i'));
+  return match ? match[1].toLowerCase() === 'true' : undefined;
+}
+
+/** Parse <name>=<value> (e.g. loadState=auth.json) from a line. Returns undefined if line is not that option. */
+function parseStringOption(line: string, name: string): string | undefined {
+  const match = line.trim().match(new RegExp(`^${name}=(.+)$`, 'i'));
+  return match ? match[1].trim() : undefined;
+}
+
 /**
  * Read config file and return parsed test cases and options.
  * Lines starting with # start a new test case (name = rest of line). All following steps belong to it until the next #.
@@ -282,6 +410,12 @@ export function parseConfigFile(filePath: string): ParsedConfig {
   const name = path.basename(filePath);
   const testCases: ConfigTestCase[] = [];
   let headless = true;
+  let retries = 0;
+  let screenshotOnFailure = true;
+  let failOnConsoleError = false;
+  let waitForNetworkIdle = false;
+  let loadState: string | undefined;
+  let device: string | undefined;
   let currentName = name;
   let currentSteps: ConfigStep[] = [];
   const lines = content.split(/\r?\n/);
@@ -305,10 +439,40 @@ export function parseConfigFile(filePath: string): ParsedConfig {
       headless = headlessOpt;
       continue;
     }
+    const retriesOpt = parseRetriesOption(line);
+    if (retriesOpt !== undefined) {
+      retries = retriesOpt;
+      continue;
+    }
+    const screenshotOpt = parseBooleanOption(line, 'screenshotOnFailure');
+    if (screenshotOpt !== undefined) {
+      screenshotOnFailure = screenshotOpt;
+      continue;
+    }
+    const failOnConsoleErrorOpt = parseBooleanOption(line, 'failOnConsoleError');
+    if (failOnConsoleErrorOpt !== undefined) {
+      failOnConsoleError = failOnConsoleErrorOpt;
+      continue;
+    }
+    const networkIdleOpt = parseBooleanOption(line, 'waitForNetworkIdle');
+    if (networkIdleOpt !== undefined) {
+      waitForNetworkIdle = networkIdleOpt;
+      continue;
+    }
+    const loadStateOpt = parseStringOption(line, 'loadState');
+    if (loadStateOpt !== undefined) {
+      loadState = loadStateOpt;
+      continue;
+    }
+    const deviceOpt = parseStringOption(line, 'device');
+    if (deviceOpt !== undefined) {
+      device = deviceOpt;
+      continue;
+    }
     const step = parseLine(line);
     if (step) currentSteps.push(step);
   }
   pushCurrent();
 
-  return { name, headless, testCases };
+  return { name, headless, retries, screenshotOnFailure, failOnConsoleError, waitForNetworkIdle, loadState, device, testCases };
 }
@@ -2,11 +2,22 @@
  * Run a config file: parse steps, execute in browser, return RunResult for report.
  */
 
-import type { RunResult } from './types';
+import * as path from 'path';
+import type { Attachment, RunResult, TestAttempt } from './types';
 import type { ParsedConfig, ConfigStep } from './config-parser';
 import { parseConfigFile } from './config-parser';
-import { createBrowser, resolveSelector, type BrowserType } from './browser';
-import type { BrowserApi, FrameHandle } from './browser';
+import { createBrowser, getDevice, resolveSelector, type BrowserType } from './browser';
+import type { BrowserApi, Download, FrameHandle, NetworkRequest, NetworkResponse } from './browser';
+import { matchesURL } from './browser/cdp-page';
+import { AssertionError } from './assertions';
+import { compareWithBaseline, imageFileName } from './image-snapshot';
+import { emptySnapshotSummary, imageSnapshotDirFor } from './snapshot';
+import { finishHarCapture, startHarCapture, testHarPath } from './browser/har-recorder';
+import { createTracer, tracePathFor, type TraceMode } from './trace';
+import { failureScreenshotPath, saveFailureScreenshot } from './browser/failure-screenshot';
+import { finishPageLogCapture, startPageLogCapture, takePageLogFailure } from './browser/page-log';
+import { saveAttachment } from './attachments';
+import { setReportDir } from './artifacts';
 
 function stepLabel(step: ConfigStep): string {
   switch (step.action) {
@@ -18,6 +29,13 @@ function stepLabel(step: ConfigStep): string {
       return `click ${step.locator}`;
     case 'wait':
       return `wait ${step.ms}ms`;
+    case 'waitForRequest':
+    case 'waitForResponse':
+      return `${step.action} ${step.url}`;
+    case 'assertScreenshot':
+      return `assertScreenshot ${step.name}${step.fullPage ? ' fullPage' : ''}${step.element ? ' element=' + step.element : ''}`;
+    case 'saveState':
+      return `saveState ${step.path}`;
     case 'screenshot':
       return `getScreenshot ${step.path}${step.fullPage ? ' fullPage' : ''}${step.element ? ' element=' + step.element : ''}`;
     case 'doubleClick':
@@ -26,6 +44,20 @@ function stepLabel(step: ConfigStep): string {
       return `rightClick ${step.locator}`;
     case 'hover':
       return `hover ${step.locator}`;
+    case 'tap':
+      return `tap ${step.locator}`;
+    case 'swipe':
+      return `swipe ${step.direction} on ${step.locator}${step.distance !== undefined ? ` (${step.distance}px)` : ''}`;
+    case 'pinch':
+      return `pinch ${step.locator} scale ${step.scale}`;
+    case 'longPress':
+      return `longPress ${step.locator}${step.ms !== undefined ? ` ${step.ms}ms` : ''}`;
+    case 'press':
+      return `press ${step.key}`;
+    case 'upload':
+      return `upload ${step.files.join(', ')} to ${step.locator}`;
+    case 'expectDownload':
+      return `expectDownload ${step.filename}`;
     case 'dragAndDrop':
       return `dragAndDrop ${(step as { sourceLocator: string }).sourceLocator} → ${step.locator}`;
     case 'switchTab':
@@ -59,7 +91,21 @@ function stepLabel(step: ConfigStep): string {
 /** Common interface for browser or frame (click, type, etc.). */
 type PageLike = Pick<
   BrowserApi,
-  'click' | 'type' | 'doubleClick' | 'rightClick' | 'hover' | 'dragAndDrop' | 'check' | 'uncheck' | 'select' | 'waitForSelector'
+  | 'click'
+  | 'type'
+  | 'doubleClick'
+  | 'rightClick'
+  | 'hover'
+  | 'dragAndDrop'
+  | 'tap'
+  | 'swipe'
+  | 'pinch'
+  | 'longPress'
+  | 'check'
+  | 'uncheck'
+  | 'select'
+  | 'setInputFiles'
+  | 'waitForSelector'
 >;
 
 /** Escape for use inside a JS expression string. */
@@ -105,6 +151,28 @@ interface RunContext {
   currentFrame: FrameHandle | null;
   setNextDialog: (d: PendingDialog) => void;
   onClose: () => void;
+  /** Where assertScreenshot baselines live, and the --update-snapshots / --ci flags. */
+  snapshots: { dir: string; update?: boolean; ci?: boolean; summary: NonNullable<RunResult['snapshots']> };
+  /** Traffic seen since the last step that was not a waitForRequest/waitForResponse (e.g. during the click before it). */
+  recentTraffic: { requests: NetworkRequest[]; responses: NetworkResponse[] };
+  /** Set by expectDownload=: the download the next step must start. */
+  expectedDownload: { filename: string; download: Promise<Download> } | null;
+  /** waitForNetworkIdle=true: after goto and click, also wait briefly for requests to settle. */
+  waitForNetworkIdle: boolean;
+}
+
+/** Network idle is capped so pages that poll or hold a request open don't slow every step down. */
+const NETWORK_IDLE_CAP_MS = 2000;
+
+/** With waitForNetworkIdle=true: wait until no request has been in flight for 300 ms, or the cap runs out. */
+async function settleNetwork(ctx: RunContext, browser: BrowserApi): Promise<void> {
+  if (!ctx.waitForNetworkIdle) return;
+  await browser.waitForNetworkIdle({ idleTime: 300, timeout: NETWORK_IDLE_CAP_MS }).catch(() => {});
+}
+
+/** A waitForRequest/waitForResponse step: it waits for the call itself, so the step before it need not pause. */
+function waitsForCall(step: ConfigStep | undefined): boolean {
+  return step?.action === 'waitForRequest' || step?.action === 'waitForResponse';
 }
 
 function getTarget(ctx: RunContext): PageLike {
@@ -112,7 +180,25 @@ function getTarget(ctx: RunContext): PageLike {
   return (ctx.currentFrame ?? browser) as PageLike;
 }
 
-async function executeStep(ctx: RunContext, step: ConfigStep): Promise<void> {
+/** After the step that follows expectDownload=: it must have started a download with the expected file name. */
+async function checkExpectedDownload(ctx: RunContext): Promise<void> {
+  const expected = ctx.expectedDownload;
+  if (!expected) return;
+  ctx.expectedDownload = null;
+  const download = await expected.download.catch(() => {
+    throw new Error(`expectDownload failed: no download of "${expected.filename}" started`);
+  });
+  if (download.suggestedFilename !== expected.filename) {
+    throw new Error(`expectDownload failed: expected a download named "${expected.filename}", got "${download.suggestedFilename}"`);
+  }
+  await download.path();
+}
+
+/**
+ * Run one step.
+ * @param next - the step after it; goto and click skip their fixed pauses when it waits for a request or response
+ */
+async function executeStep(ctx: RunContext, step: ConfigStep, next?: ConfigStep): Promise<void> {
   const browser = ctx.getBrowser();
   if (!browser && step.action !== 'close') {
     throw new Error('Browser is closed. Start a new test case to continue.');
@@ -139,13 +225,28 @@ async function executeStep(ctx: RunContext, step: ConfigStep): Promise<void> {
       } catch {
         // Page load timed out; continue anyway
       }
+      if (waitsForCall(next)) return;
       await new Promise((r) => setTimeout(r, 800));
+      await settleNetwork(ctx, b);
       return;
     }
     case 'wait': {
       await new Promise((r) => setTimeout(r, step.ms));
       return;
     }
+    case 'waitForRequest': {
+      // The previous step (click, goto) usually already waited for the network, so look at what it saw first
+      const seen = ctx.recentTraffic.requests.findIndex((r) => matchesURL(r.url, step.url));
+      if (seen >= 0) ctx.recentTraffic.requests.splice(seen, 1);
+      else await b.waitForRequest(step.url, { timeout: step.timeout ?? 15000 });
+      return;
+    }
+    case 'waitForResponse': {
+      const seen = ctx.recentTraffic.responses.findIndex((r) => matchesURL(r.url, step.url));
+      if (seen >= 0) ctx.recentTraffic.responses.splice(seen, 1);
+      else await b.waitForResponse(step.url, { timeout: step.timeout ?? 15000 });
+      return;
+    }
     case 'dialog': {
       ctx.setNextDialog({
         accept: step.behavior === 'accept',
@@ -161,6 +262,28 @@ async function executeStep(ctx: RunContext, step: ConfigStep): Promise<void> {
       });
       return;
     }
+    case 'saveState': {
+      await b.storageState({ path: step.path });
+      return;
+    }
+    case 'assertScreenshot': {
+      // Frames cannot be captured on their own; element= is resolved on the main page like screenshot=
+      const png = await b.getScreenshot({ fullPage: step.fullPage, selector: step.element });
+      const { dir, update, ci, summary } = ctx.snapshots;
+      const outcome = compareWithBaseline(png, path.join(dir, imageFileName(step.name)), step.name, {
+        threshold: step.threshold,
+        maxDiffPixels: step.maxDiffPixels,
+        update,
+        ci,
+      });
+      summary[outcome.status]++;
+      if (!outcome.pass) {
+        const err = new AssertionError(outcome.message);
+        err.images = outcome.images;
+        throw err;
+      }
+      return;
+    }
     case 'switchTab': {
       await b.switchToTab(step.index);
       await new Promise((r) => setTimeout(r, 300));
@@ -194,11 +317,12 @@ async function executeStep(ctx: RunContext, step: ConfigStep): Promise<void> {
       await target.waitForSelector(step.locator, { timeout: 15000 });
       await target.click(step.locator);
       // Wait for load only if we might have navigated; use short timeout so we don't hang when click only opens a dialog
-      if (!ctx.currentFrame) {
+      if (!ctx.currentFrame && !waitsForCall(next)) {
         await Promise.race([
           b.waitForLoad(),
           new Promise<void>((r) => setTimeout(r, 2000)),
         ]).catch(() => {});
+        await settleNetwork(ctx, b);
       }
       return;
     }
@@ -217,6 +341,43 @@ async function executeStep(ctx: RunContext, step: ConfigStep): Promise<void> {
       await target.hover(step.locator);
       return;
     }
+    case 'tap': {
+      await target.waitForSelector(step.locator, { timeout: 15000 });
+      await target.tap(step.locator);
+      return;
+    }
+    case 'swipe': {
+      await target.waitForSelector(step.locator, { timeout: 15000 });
+      await target.swipe(step.locator, step.direction, step.distance);
+      return;
+    }
+    case 'pinch': {
+      await target.waitForSelector(step.locator, { timeout: 15000 });
+      await target.pinch(step.locator, step.scale);
+      return;
+    }
+    case 'longPress': {
+      await target.waitForSelector(step.locator, { timeout: 15000 });
+      await target.longPress(step.locator, { duration: step.ms });
+      return;
+    }
+    case 'press': {
+      // Keys go to the focused element, also inside a frame
+      await b.keyboard.press(step.key);
+      return;
+    }
+    case 'upload': {
+      await target.waitForSelector(step.locator, { timeout: 15000 });
+      await target.setInputFiles(step.locator, step.files);
+      return;
+    }
+    case 'expectDownload': {
+      // Listen now; the next step starts the download and checkExpectedDownload waits for it
+      const download = b.waitForDownload({ timeout: 15000 });
+      download.catch(() => {});
+      ctx.expectedDownload = { filename: step.filename, download };
+      return;
+    }
     case 'dragAndDrop': {
       const src = (step as { sourceLocator: string }).sourceLocator;
       await target.waitForSelector(src, { timeout: 15000 });
@@ -312,10 +473,13 @@ export interface RunConfigResult extends RunResult {
  */
 export async function runConfigFile(
   configPath: string,
-  options?: { headless?: boolean; browser?: BrowserType }
+  options?: { headless?: boolean; browser?: BrowserType; retries?: number; updateSnapshots?: boolean; ci?: boolean; har?: boolean; trace?: TraceMode; screenshotOnFailure?: boolean; reportDir?: string }
 ): Promise<RunConfigResult> {
   const parsed = parseConfigFile(configPath);
-  const { name: configName, testCases, headless: configHeadless } = parsed;
+  if (options?.reportDir) setReportDir(options.reportDir);
+  const { name: configName, testCases, headless: configHeadless, retries: configRetries } = parsed;
+  // The command line can turn screenshots off; the config file decides otherwise
+  const screenshotOnFailure = options?.screenshotOnFailure !== false && parsed.screenshotOnFailure;
 
   const result: RunConfigResult = {
     configName,
@@ -334,84 +498,171 @@ export async function runConfigFile(
   }
 
   const headless = options?.headless !== undefined ? options.headless : configHeadless;
+  const retries = options?.retries !== undefined ? options.retries : configRetries;
+  const traceMode = options?.trace ?? 'off';
+  // Unknown device names fail before any browser starts
+  const device = parsed.device ? getDevice(parsed.device) : undefined;
   const start = Date.now();
   let browser: BrowserApi | null = null;
   let nextDialog: PendingDialog = null;
+  const snapshots: RunContext['snapshots'] = {
+    dir: imageSnapshotDirFor(configPath),
+    update: options?.updateSnapshots,
+    ci: options?.ci,
+    summary: emptySnapshotSummary(),
+  };
+  const recentTraffic: RunContext['recentTraffic'] = { requests: [], responses: [] };
 
   try {
     console.log('  Browser will start when needed.\n');
 
     for (let tcIndex = 0; tcIndex < testCases.length; tcIndex++) {
       const { testCaseName, steps } = testCases[tcIndex];
-      const stepLabels: string[] = [];
-      const caseStart = Date.now();
       console.log('  Test case:', testCaseName);
+      const attempts: TestAttempt[] = [];
+      let harFiles: string[] = [];
+      const traceFiles: string[] = [];
+      let screenshots: string[] = [];
+      let attachments: Attachment[] = [];
 
-      if (!browser) {
-        const browserName = options?.browser || 'chrome';
-        console.log('  Launching ' + browserName + ' (' + (headless ? 'headless' : 'visible window') + ')...');
-        browser = await createBrowser({ headless, browser: browserName });
-        browser.setDialogHandler(() => {
-          const p = nextDialog;
-          nextDialog = null;
-          return p ?? { accept: true, promptText: '' };
-        });
-      }
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        if (attempt > 0) console.log(`  Retry #${attempt}:`, testCaseName);
+        const stepLabels: string[] = [];
+        const attemptStart = Date.now();
+        startHarCapture(options?.har ? testHarPath(`${configName} ${testCaseName}`) : undefined);
+
+        if (!browser) {
+          const browserName = options?.browser || 'chrome';
+          console.log('  Launching ' + browserName + ' (' + (headless ? 'headless' : 'visible window') + ')...');
+          browser = await createBrowser({
+            ...device,
+            headless,
+            browser: browserName,
+            failOnConsoleError: parsed.failOnConsoleError,
+            storageState: parsed.loadState,
+          });
+          browser.setDialogHandler(() => {
+            const p = nextDialog;
+            nextDialog = null;
+            return p ?? { accept: true, promptText: '' };
+          });
+          browser.onRequest((r) => recentTraffic.requests.push(r));
+          browser.onResponse((r) => recentTraffic.responses.push(r));
+        }
+        const tracer = traceMode !== 'off' ? createTracer(`${configName} › ${testCaseName}`, () => browser) : null;
+        tracer?.attach(browser);
+
+        let lastError: Error | undefined;
+        let failedStepIndex: number | undefined;
+        screenshots = [];
+        attachments = [];
+        startPageLogCapture();
+        nextDialog = null;
+        const runCtx: RunContext = {
+          getBrowser: () => browser,
+          currentFrame: null,
+          setNextDialog: (d) => {
+            nextDialog = d;
+          },
+          onClose: () => {
+            browser = null;
+          },
+          snapshots,
+          recentTraffic,
+          expectedDownload: null,
+          waitForNetworkIdle: parsed.waitForNetworkIdle,
+        };
+        for (let i = 0; i < steps.length; i++) {
+          const step = steps[i];
+          const label = stepLabel(step);
+          stepLabels.push(label);
+          console.log('    Step', i + 1 + ':', label);
+          if (step.action !== 'waitForRequest' && step.action !== 'waitForResponse') {
+            recentTraffic.requests.length = 0;
+            recentTraffic.responses.length = 0;
+          }
+          try {
+            const run = async () => {
+              await executeStep(runCtx, step, steps[i + 1]);
+              if (step.action !== 'expectDownload') await checkExpectedDownload(runCtx);
+              // failOnConsoleError: uncaught page errors thrown during the step fail it
+              const pageError = takePageLogFailure();
+              if (pageError) throw pageError;
+            };
+            if (tracer) await tracer.step(label, run);
+            else await run();
+            console.log('      OK');
+          } catch (err) {
+            lastError = err instanceof Error ? err : new Error(String(err));
+            failedStepIndex = i;
+            console.error('      FAIL:', lastError.message);
+            if (screenshotOnFailure && browser) {
+              const saved = await saveFailureScreenshot(browser, failureScreenshotPath(`${configName} ${testCaseName}`));
+              if (saved) screenshots.push(saved);
+            }
+            // Add remaining step labels so the HTML report shows all steps (including not run)
+            for (let j = i + 1; j < steps.length; j++) {
+              stepLabels.push(stepLabel(steps[j]));
+            }
+            break;
+          }
+        }
 
-      let failed = false;
-      let lastError: Error | null = null;
-      let failedStepIndex: number | undefined;
-      const runCtx: RunContext = {
-        getBrowser: () => browser,
-        currentFrame: null,
-        setNextDialog: (d) => {
-          nextDialog = d;
-        },
-        onClose: () => {
-          browser = null;
-        },
-      };
-      for (let i = 0; i < steps.length; i++) {
-        const step = steps[i];
-        const label = stepLabel(step);
-        stepLabels.push(label);
-        console.log('    Step', i + 1 + ':', label);
-        try {
-          await executeStep(runCtx, step);
-          console.log('      OK');
-        } catch (err) {
-          lastError = err instanceof Error ? err : new Error(String(err));
-          failedStepIndex = i;
-          console.error('      FAIL:', lastError.message);
-          failed = true;
-          // Add remaining step labels so the HTML report shows all steps (including not run)
-          for (let j = i + 1; j < steps.length; j++) {
-            stepLabels.push(stepLabel(steps[j]));
+        harFiles = await finishHarCapture().catch((err) => {
+          console.error('  Could not write HAR file:', err instanceof Error ? err.message : err);
+          return [];
+        });
+        const pageLog = finishPageLogCapture();
+        if (pageLog.length > 0) {
+          const name = `${configName} ${testCaseName}`;
+          attachments.push(saveAttachment(name, 'console', Buffer.from(pageLog.join('\n') + '\n'), 'text/plain', new Set()));
+        }
+        if (tracer) {
+          tracer.dispose();
+          if (traceMode === 'on' || lastError) {
+            const suffix = attempt > 0 ? ` retry${attempt}` : '';
+            try {
+              traceFiles.push(tracer.save(tracePathFor(`${configName} ${testCaseName}${suffix}`)));
+            } catch (err) {
+              console.error('  Could not write trace:', err instanceof Error ? err.message : err);
+            }
           }
-          break;
         }
+        attempts.push({ error: lastError, duration: Date.now() - attemptStart, steps: stepLabels, failedStepIndex });
+        if (!lastError) break;
       }
 
-      const duration = Date.now() - caseStart;
-      if (failed && lastError) {
+      const last = attempts[attempts.length - 1];
+      const history = attempts.length > 1 ? attempts : undefined;
+      if (last.error) {
         result.failed++;
         result.errors.push({
           suite: configName,
           test: testCaseName,
-          error: lastError,
-          duration,
-          steps: stepLabels,
-          failedStepIndex,
+          error: last.error,
+          duration: last.duration,
+          steps: last.steps,
+          failedStepIndex: last.failedStepIndex,
           file: configName,
+          attempts: history,
+          har: harFiles.length ? harFiles : undefined,
+          trace: traceFiles.length ? traceFiles : undefined,
+          attachments: attachments.length ? attachments : undefined,
+          screenshots: screenshots.length ? screenshots : undefined,
         });
       } else {
         result.passed++;
+        if (history) result.flaky = (result.flaky ?? 0) + 1;
         result.passedTests!.push({
           suite: configName,
           test: testCaseName,
-          duration,
-          steps: stepLabels,
+          duration: last.duration,
+          steps: last.steps,
           file: configName,
+          attempts: history,
+          har: harFiles.length ? harFiles : undefined,
+          trace: traceFiles.length ? traceFiles : undefined,
+          attachments: attachments.length ? attachments : undefined,
         });
       }
     }
@@ -420,6 +671,9 @@ export async function runConfigFile(
   }
 
   result.duration = Date.now() - start;
+  if (Object.values(snapshots.summary).some((v) => (Array.isArray(v) ? v.length > 0 : v > 0))) {
+    result.snapshots = snapshots.summary;
+  }
   return result;
 }
 
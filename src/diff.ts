@@ -0,0 +1,167 @@
+/**
+ * Value formatting and expected/actual diffs for assertion failures (printed by the CLI).
+ */
+
+const ANSI = {
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  dim: '\x1b[2m',
+  reset: '\x1b[0m',
+};
+
+/** Colors on a terminal unless NO_COLOR is set; FORCE_COLOR wins over both (same precedence as Node). */
+export function useColor(): boolean {
+  if (process.env.FORCE_COLOR !== undefined) return process.env.FORCE_COLOR !== '0';
+  if (process.env.NO_COLOR) return false;
+  return !!process.stdout.isTTY;
+}
+
+function paint(text: string, color: keyof typeof ANSI, enabled: boolean): string {
+  return enabled ? `${ANSI[color]}${text}${ANSI.reset}` : text;
+}
+
+function isPrimitive(value: unknown): boolean {
+  return value === null || (typeof value !== 'object' && typeof value !== 'function');
+}
+
+function formatKey(key: string | symbol): string {
+  if (typeof key === 'symbol') return `[${key.toString()}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatPrimitive(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'symbol') return value.toString();
+  if (Object.is(value, -0)) return '-0';
+  return String(value);
+}
+
+/** Class name prefix for non-plain objects (e.g. "User {"). */
+function prefixOf(value: object): string {
+  const proto = Object.getPrototypeOf(value);
+  if (proto === null) return '[Object: null prototype] ';
+  const name = proto.constructor?.name;
+  return name && name !== 'Object' ? `${name} ` : '';
+}
+
+function format(value: unknown, indent: string, seen: unknown[]): string {
+  if (isPrimitive(value)) return formatPrimitive(value);
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? 'Invalid Date' : `Date(${value.toISOString()})`;
+  if (value instanceof RegExp) return String(value);
+  if (value instanceof Error) return `[${value.name}: ${value.message}]`;
+  if (seen.includes(value)) return '[Circular]';
+
+  const inner = indent + '  ';
+  const next = [...seen, value];
+  const block = (open: string, close: string, lines: string[]) =>
+    lines.length === 0 ? `${open}${close}` : `${open}\n${lines.map((l) => `${inner}${l},`).join('\n')}\n${indent}${close}`;
+
+  if (value instanceof Map) {
+    const lines = Array.from(value.entries()).map(([k, v]) => `${format(k, inner, next)} => ${format(v, inner, next)}`);
+    return block('Map {', '}', lines);
+  }
+  if (value instanceof Set) {
+    return block('Set {', '}', Array.from(value).map((v) => format(v, inner, next)));
+  }
+  if (ArrayBuffer.isView(value)) {
+    const items = Array.from(value as unknown as ArrayLike<number>).map(String);
+    return block(`${value.constructor.name} [`, ']', items);
+  }
+  if (Array.isArray(value)) {
+    const lines: string[] = [];
+    for (let i = 0; i < value.length; i++) lines.push(i in value ? format(value[i], inner, next) : '<empty>');
+    return block(`${prefixOf(value) === 'Array ' ? '' : prefixOf(value)}[`, ']', lines);
+  }
+  const record = value as Record<string | symbol, unknown>;
+  // Keys sorted so key order never shows up as a difference
+  const keys: (string | symbol)[] = Object.keys(record).sort();
+  keys.push(...Object.getOwnPropertySymbols(record));
+  const lines = keys.map((k) => `${formatKey(k)}: ${format(record[k], inner, next)}`);
+  return block(`${prefixOf(value as object)}{`, '}', lines);
+}
+
+/** Pretty-print a value (multi-line for objects, stable key order). */
+export function formatValue(value: unknown): string {
+  return format(value, '', []);
+}
+
+/** One-line form for messages; long values are shortened. */
+export function formatValueInline(value: unknown, maxLength = 80): string {
+  const text = formatValue(value).replace(/\n\s*/g, ' ').replace(/, ([}\]])/g, ' $1');
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+type DiffLine = { type: 'same' | 'expected' | 'actual'; text: string };
+
+/** Line diff via longest common subsequence. */
+function diffLines(expected: string[], actual: string[]): DiffLine[] {
+  const n = expected.length;
+  const m = actual.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = expected[i] === actual[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (expected[i] === actual[j]) {
+      out.push({ type: 'same', text: expected[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ type: 'expected', text: expected[i++] });
+    } else {
+      out.push({ type: 'actual', text: actual[j++] });
+    }
+  }
+  while (i < n) out.push({ type: 'expected', text: expected[i++] });
+  while (j < m) out.push({ type: 'actual', text: actual[j++] });
+  return out;
+}
+
+/** Above this many lines per side the diff falls back to printing both values in full. */
+const MAX_DIFF_LINES = 500;
+
+/** "- Expected / + Actual" line diff of two values. */
+export function diffValues(expected: unknown, actual: unknown, color = useColor()): string {
+  return diffText(formatValue(expected), formatValue(actual), color);
+}
+
+/** "- Expected / + Actual" line diff of two texts (e.g. multi-line strings or snapshots). */
+export function diffText(expected: string, actual: string, color = useColor()): string {
+  const expectedLines = expected.split('\n');
+  const actualLines = actual.split('\n');
+  const header = `${paint('- Expected', 'green', color)}\n${paint('+ Actual', 'red', color)}\n`;
+  if (expectedLines.length > MAX_DIFF_LINES || actualLines.length > MAX_DIFF_LINES) {
+    return `${header}\n${paint(expectedLines.map((l) => `- ${l}`).join('\n'), 'green', color)}\n${paint(actualLines.map((l) => `+ ${l}`).join('\n'), 'red', color)}`;
+  }
+  const body = diffLines(expectedLines, actualLines).map((line) => {
+    if (line.type === 'expected') return paint(`- ${line.text}`, 'green', color);
+    if (line.type === 'actual') return paint(`+ ${line.text}`, 'red', color);
+    return paint(`  ${line.text}`, 'dim', color);
+  });
+  return `${header}\n${body.join('\n')}`;
+}
+
+/**
+ * Expected/actual details for an assertion failure: a line diff when either side is an object or both are
+ * multi-line strings, otherwise "Actual:" / "Expected:" lines. Sides that are undefined are left out.
+ */
+export function formatExpectedActual(expected: unknown, actual: unknown, color = useColor()): string {
+  const structured = (v: unknown) => !isPrimitive(v) && typeof v !== 'function' && !(v instanceof RegExp);
+  if (expected !== undefined && actual !== undefined && (structured(expected) || structured(actual))) {
+    return diffValues(expected, actual, color);
+  }
+  if (typeof expected === 'string' && typeof actual === 'string' && (expected.includes('\n') || actual.includes('\n'))) {
+    return diffText(expected, actual, color);
+  }
+  const lines: string[] = [];
+  if (actual !== undefined) lines.push(`Actual: ${paint(formatValue(actual), 'red', color)}`);
+  if (expected !== undefined) lines.push(`Expected: ${paint(formatValue(expected), 'green', color)}`);
+  return lines.join('\n');
+}
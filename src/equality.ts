@@ -0,0 +1,121 @@
+/**
+ * Structural equality for expect(): toEqual (loose), toStrictEqual (strict) and toMatchObject (subset).
+ * Loose: properties with value undefined are ignored and class (prototype) is not compared.
+ * Strict: undefined properties, array holes and class must match too.
+ */
+
+/** Own enumerable keys (strings and symbols). Loose mode drops keys whose value is undefined. */
+function keysOf(obj: object, strict: boolean): (string | symbol)[] {
+  const record = obj as Record<string | symbol, unknown>;
+  const keys: (string | symbol)[] = Object.keys(obj);
+  for (const sym of Object.getOwnPropertySymbols(obj)) {
+    if (Object.prototype.propertyIsEnumerable.call(obj, sym)) keys.push(sym);
+  }
+  return strict ? keys : keys.filter((k) => record[k] !== undefined);
+}
+
+function eq(a: unknown, b: unknown, strict: boolean, aStack: unknown[], bStack: unknown[]): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+  const tag = Object.prototype.toString.call(a);
+  if (tag !== Object.prototype.toString.call(b)) return false;
+  if (strict && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  switch (tag) {
+    case '[object Date]':
+      return Object.is((a as Date).getTime(), (b as Date).getTime());
+    case '[object RegExp]':
+      return (a as RegExp).source === (b as RegExp).source && (a as RegExp).flags === (b as RegExp).flags;
+    case '[object Number]':
+    case '[object String]':
+    case '[object Boolean]':
+      return Object.is((a as object).valueOf(), (b as object).valueOf());
+  }
+  if (a instanceof Error && b instanceof Error) {
+    return a.name === b.name && a.message === b.message;
+  }
+
+  // Circular references: equal if both sides point back to the same depth
+  for (let i = aStack.length - 1; i >= 0; i--) {
+    if (aStack[i] === a) return bStack[i] === b;
+  }
+  aStack.push(a);
+  bStack.push(b);
+  let result: boolean;
+  if (a instanceof Map && b instanceof Map) {
+    result = a.size === b.size && Array.from(a.entries()).every(([key, value]) => {
+      if (b.has(key)) return eq(value, b.get(key), strict, aStack, bStack);
+      return Array.from(b.entries()).some(
+        ([bKey, bValue]) => eq(key, bKey, strict, aStack, bStack) && eq(value, bValue, strict, aStack, bStack)
+      );
+    });
+  } else if (a instanceof Set && b instanceof Set) {
+    result = a.size === b.size && Array.from(a).every(
+      (value) => b.has(value) || Array.from(b).some((bValue) => eq(value, bValue, strict, aStack, bStack))
+    );
+  } else if (ArrayBuffer.isView(a) && ArrayBuffer.isView(b)) {
+    const x = new Uint8Array(a.buffer, a.byteOffset, a.byteLength);
+    const y = new Uint8Array(b.buffer, b.byteOffset, b.byteLength);
+    result = x.length === y.length && x.every((byte, i) => byte === y[i]);
+  } else if (Array.isArray(a) && Array.isArray(b)) {
+    // Not every(): it skips holes, which strict mode must compare
+    result = a.length === b.length;
+    for (let i = 0; result && i < a.length; i++) {
+      if (strict && (i in a) !== (i in b)) result = false;
+      else result = eq(a[i], b[i], strict, aStack, bStack);
+    }
+  } else {
+    const aKeys = keysOf(a, strict);
+    const bKeys = keysOf(b, strict);
+    const bRecord = b as Record<string | symbol, unknown>;
+    result = aKeys.length === bKeys.length && aKeys.every(
+      (k) => Object.prototype.hasOwnProperty.call(b, k) &&
+        eq((a as Record<string | symbol, unknown>)[k], bRecord[k], strict, aStack, bStack)
+    );
+  }
+  aStack.pop();
+  bStack.pop();
+  return result;
+}
+
+/** Deep structural equality. strict = toStrictEqual semantics. */
+export function equals(a: unknown, b: unknown, strict = false): boolean {
+  return eq(a, b, strict, [], []);
+}
+
+/** True if `actual` contains every property of `subset` (recursively); arrays must match element by element. */
+export function matchesObject(actual: unknown, subset: unknown): boolean {
+  if (Array.isArray(subset)) {
+    return Array.isArray(actual) && actual.length === subset.length &&
+      subset.every((item, i) => matchesObject(actual[i], item));
+  }
+  if (
+    subset !== null && typeof subset === 'object' && !(subset instanceof Date) && !(subset instanceof RegExp) &&
+    !(subset instanceof Map) && !(subset instanceof Set)
+  ) {
+    if (actual === null || typeof actual !== 'object') return false;
+    return keysOf(subset, true).every(
+      (k) => k in actual && matchesObject((actual as Record<string | symbol, unknown>)[k], (subset as Record<string | symbol, unknown>)[k])
+    );
+  }
+  return equals(actual, subset);
+}
+
+/** Split a property path: 'a.b[0].c' → ['a', 'b', '0', 'c']. Arrays are used as-is. */
+export function parsePropertyPath(path: string | (string | number)[]): string[] {
+  if (Array.isArray(path)) return path.map(String);
+  return path.replace(/\[(\w+)\]/g, '.$1').split('.').filter((p) => p !== '');
+}
+
+/** Follow a property path. found is false if any segment is missing. */
+export function getProperty(obj: unknown, path: string[]): { found: boolean; value: unknown } {
+  let current: unknown = obj;
+  for (const key of path) {
+    if (current === null || current === undefined || !(key in Object(current))) {
+      return { found: false, value: undefined };
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return { found: true, value: current };
+}
@@ -0,0 +1,141 @@
+/**
+ * Visual regression: compare a PNG screenshot with a stored baseline pixel by pixel.
+ * On a mismatch the expected, actual and diff images are written to __diff_output__ next to the baseline
+ * (the HTML report embeds them).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { decodePng, encodePng, type RgbaImage } from './png';
+import type { ImageComparison } from './types';
+
+export interface ImageSnapshotOptions {
+  /** Per-pixel color tolerance from 0 (exact) to 1 (anything matches). Default 0.1. */
+  threshold?: number;
+  /** Number of pixels allowed to differ. Default 0. */
+  maxDiffPixels?: number;
+  /** Baseline file name (without .png). Default: test name and a counter. */
+  name?: string;
+}
+
+export type ImageSnapshotStatus = 'matched' | 'unmatched' | 'added' | 'updated' | 'unwritten';
+
+export interface ImageSnapshotOutcome {
+  status: ImageSnapshotStatus;
+  pass: boolean;
+  message: string;
+  /** Set when the images differ. */
+  images?: ImageComparison;
+}
+
+const DEFAULT_THRESHOLD = 0.1;
+
+/** Perceived color difference (YIQ), after blending with a white background; 0 to 35215. */
+function colorDelta(a: Uint8Array, ai: number, b: Uint8Array, bi: number): number {
+  const blend = (c: number, alpha: number) => 255 + ((c - 255) * alpha) / 255;
+  const r1 = blend(a[ai], a[ai + 3]);
+  const g1 = blend(a[ai + 1], a[ai + 3]);
+  const b1 = blend(a[ai + 2], a[ai + 3]);
+  const r2 = blend(b[bi], b[bi + 3]);
+  const g2 = blend(b[bi + 1], b[bi + 3]);
+  const b2 = blend(b[bi + 2], b[bi + 3]);
+  const y = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223;
+  const i = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189;
+  const q = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694;
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+}
+
+/**
+ * Compare two images. The diff image shows matching pixels faded and differing pixels in red;
+ * when sizes differ it covers both and pixels outside either image count as different.
+ */
+export function diffImages(expected: RgbaImage, actual: RgbaImage, threshold = DEFAULT_THRESHOLD): { diffPixels: number; diff: RgbaImage } {
+  const width = Math.max(expected.width, actual.width);
+  const height = Math.max(expected.height, actual.height);
+  const diff: RgbaImage = { width, height, data: new Uint8Array(width * height * 4) };
+  const maxDelta = 35215 * threshold * threshold;
+  let diffPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const inBoth = x < expected.width && y < expected.height && x < actual.width && y < actual.height;
+      const ei = (y * expected.width + x) * 4;
+      if (inBoth && colorDelta(expected.data, ei, actual.data, (y * actual.width + x) * 4) <= maxDelta) {
+        const e = expected.data;
+        const gray = 255 + ((e[ei] * 0.299 + e[ei + 1] * 0.587 + e[ei + 2] * 0.114 - 255) * 0.1 * e[ei + 3]) / 255;
+        diff.data[o] = diff.data[o + 1] = diff.data[o + 2] = gray;
+      } else {
+        diffPixels++;
+        diff.data[o] = 255;
+      }
+      diff.data[o + 3] = 255;
+    }
+  }
+  return { diffPixels, diff };
+}
+
+/** File name for a baseline: letters, digits, dot, dash and underscore only. */
+export function imageFileName(name: string): string {
+  return `${name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'screenshot'}.png`;
+}
+
+/**
+ * Compare a PNG with the baseline at baselinePath (written when missing, unless ci; overwritten when update).
+ * @param label - name used in messages
+ */
+export function compareWithBaseline(
+  png: Buffer,
+  baselinePath: string,
+  label: string,
+  options: ImageSnapshotOptions & { update?: boolean; ci?: boolean } = {}
+): ImageSnapshotOutcome {
+  if (!Buffer.isBuffer(png)) {
+    throw new Error(`toMatchImageSnapshot() expects a PNG Buffer (e.g. await browser.getScreenshot()), got ${typeof png}`);
+  }
+  const actual = decodePng(png);
+  const outputDir = path.join(path.dirname(baselinePath), '__diff_output__');
+  const base = path.basename(baselinePath, '.png');
+  const images: ImageComparison = {
+    expected: path.join(outputDir, `${base}-expected.png`),
+    actual: path.join(outputDir, `${base}-actual.png`),
+    diff: path.join(outputDir, `${base}-diff.png`),
+  };
+  // Output of an earlier failed comparison is stale once the screenshot matches or is rewritten
+  for (const file of [images.expected!, images.actual, images.diff!]) fs.rmSync(file, { force: true });
+  if (fs.existsSync(outputDir) && fs.readdirSync(outputDir).length === 0) fs.rmdirSync(outputDir);
+  const write = (status: 'added' | 'updated'): ImageSnapshotOutcome => {
+    fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+    fs.writeFileSync(baselinePath, png);
+    return { status, pass: true, message: '' };
+  };
+  if (!fs.existsSync(baselinePath)) {
+    if (options.ci && !options.update) {
+      return {
+        status: 'unwritten',
+        pass: false,
+        message: `New screenshot "${label}" was not written: snapshots are not written with --ci. Run locally or with --update-snapshots.`,
+      };
+    }
+    return write('added');
+  }
+  const expected = decodePng(fs.readFileSync(baselinePath));
+  const { diffPixels, diff } = diffImages(expected, actual, options.threshold ?? DEFAULT_THRESHOLD);
+  const sizeMatches = expected.width === actual.width && expected.height === actual.height;
+  const maxDiffPixels = options.maxDiffPixels ?? 0;
+  if (sizeMatches && diffPixels <= maxDiffPixels) return { status: 'matched', pass: true, message: '' };
+  if (options.update) return write('updated');
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.copyFileSync(baselinePath, images.expected!);
+  fs.writeFileSync(images.actual, png);
+  fs.writeFileSync(images.diff!, encodePng(diff));
+  const reason = sizeMatches
+    ? `${diffPixels} pixels differ (${((diffPixels / (actual.width * actual.height)) * 100).toFixed(2)}%, max ${maxDiffPixels})`
+    : `size differs: expected ${expected.width}x${expected.height}, got ${actual.width}x${actual.height}`;
+  return {
+    status: 'unmatched',
+    pass: false,
+    message: `Screenshot "${label}" does not match the baseline: ${reason} (run with --update-snapshots to update it)`,
+    images,
+  };
+}
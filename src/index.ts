@@ -5,14 +5,20 @@
  *   const { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } = require('cstesting');
  */
 
-export { describe, it, beforeAll, afterAll, beforeEach, afterEach, run, resetRunner, step } from './runner';
+export { describe, it, beforeAll, afterAll, beforeEach, afterEach, run, resetRunner, step, attach } from './runner';
 export type { RunOptions } from './runner';
 export { expect, AssertionError } from './assertions';
-export { createBrowser } from './browser';
+export type { ExpectApi, Matchers, AsyncMatchers, MatcherResult, MatcherContext, CustomMatcher } from './assertions';
+export type { WebMatchers, WebAssertionOptions } from './web-assertions';
+export type { ImageSnapshotOptions } from './image-snapshot';
+export { createBrowser, devices } from './browser';
 export { requestApi as request, ResponseAssertions } from './api-request';
 export { runConfigFile, parseConfigFile } from './config-runner';
-export type { RunResult } from './types';
-export type { BrowserApi, CreateBrowserOptions, LocatorApi, DialogHandler, TabInfo, TabHandle, FrameHandle, StepReporter, SelectOption, SelectOptionOrOptions } from './browser';
+export { registerReporter, writeReports } from './reporters';
+export type { RunResult, TestAttempt, SnapshotSummary, ImageComparison, Attachment } from './types';
+export type { BrowserApi, CreateBrowserOptions, LocatorApi, DialogHandler, TabInfo, TabHandle, FrameHandle, StepReporter, SelectOption, SelectOptionOrOptions, NetworkRequest, NetworkResponse, Route, RouteHandler, RouteRequest, FulfillOptions, ContinueOptions, RouteFromHAROptions, RecordHarOptions, ConsoleMessage, BrowserContextOptions, ViewportSize, StorageState, StorageStateCookie, EmulationOptions, DeviceDescriptor, SwipeDirection, LongPressOptions, Keyboard, KeyboardModifier, TypeOptions, Mouse, MouseButton, MouseOptions, MouseClickOptions, ClickOptions, DragAndDropOptions, FilePayload, InputFiles, Download, WaitForDownloadOptions } from './browser';
+export type { TraceMode, TraceFile, TraceAction } from './trace';
 export type { ParsedConfig, ConfigStep, ConfigTestCase } from './config-parser';
 export type { RunConfigResult } from './config-runner';
+export type { Reporter, ReporterOptions } from './reporters';
 export type { ApiResponse, RequestOptions, HttpMethod } from './api-request';
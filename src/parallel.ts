@@ -0,0 +1,263 @@
+/**
+ * Parallel test file execution (--workers N).
+ * Each test file runs in its own child process (own runner state, own browser); the parent
+ * collects the per-file RunResults and the file's console output so output stays grouped per file.
+ */
+
+import * as path from 'path';
+import { fork, type ChildProcess } from 'child_process';
+import type { ImageComparison, RunResult, TestAttempt, TestResultEntry } from './types';
+import { AssertionError } from './assertions';
+import { formatValue } from './diff';
+import { mergeSnapshotSummary } from './snapshot';
+import type { TraceMode } from './trace';
+
+/** Sent from the parent to a worker: which file to run and with which run options. */
+export interface WorkerRequest {
+  /** Absolute path of the test file. */
+  file: string;
+  /** Path relative to cwd (used for report grouping). */
+  rel: string;
+  tags: string[];
+  /** Default timeout per test/hook (see RunOptions.timeout). */
+  timeout?: number;
+  /** Default retries per test (see RunOptions.retries). */
+  retries?: number;
+  updateSnapshots?: boolean;
+  ci?: boolean;
+  har?: boolean;
+  screenshotOnFailure?: boolean;
+  trace?: TraceMode;
+  reportDir?: string;
+}
+
+/** Error as sent over IPC (Error instances do not survive serialization). */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  expected?: unknown;
+  actual?: unknown;
+  images?: ImageComparison;
+}
+
+type ErrorEntry = RunResult['errors'][number];
+
+export interface SerializedAttempt extends Omit<TestAttempt, 'error'> {
+  error?: SerializedError;
+}
+
+type SerializedEntry<T> = Omit<T, 'attempts'> & { attempts?: SerializedAttempt[] };
+
+export interface SerializedRunResult extends Omit<RunResult, 'errors' | 'passedTests' | 'skippedTests'> {
+  errors: Array<SerializedEntry<Omit<ErrorEntry, 'error'>> & { error: SerializedError }>;
+  passedTests: SerializedEntry<TestResultEntry>[];
+  skippedTests: SerializedEntry<TestResultEntry>[];
+}
+
+/** Sent from a worker to the parent when the file has finished (or failed to load). */
+export type WorkerResponse =
+  | { type: 'result'; result: SerializedRunResult }
+  | { type: 'load-error'; message: string };
+
+/** Result of one test file run in a worker. */
+export interface FileRunOutcome {
+  file: string;
+  rel: string;
+  result: RunResult;
+  /** Everything the worker wrote to stdout/stderr while running the file. */
+  output: string;
+}
+
+/** Keep values that survive structured cloning (Map, Set, Date, …); others are sent as their formatted text. */
+function toCloneable(value: unknown): unknown {
+  try {
+    return structuredClone(value);
+  } catch {
+    return formatValue(value);
+  }
+}
+
+export function serializeError(err: Error): SerializedError {
+  const out: SerializedError = { name: err.name, message: err.message, stack: err.stack };
+  if (err instanceof AssertionError) {
+    out.expected = toCloneable(err.expected);
+    out.actual = toCloneable(err.actual);
+    if (err.images) out.images = err.images;
+  }
+  return out;
+}
+
+export function deserializeError(data: SerializedError): Error {
+  const err = data.name === 'AssertionError'
+    ? new AssertionError(data.message, data.expected, data.actual)
+    : new Error(data.message);
+  if (data.name !== 'AssertionError') err.name = data.name;
+  if (data.images) (err as AssertionError).images = data.images;
+  if (data.stack) err.stack = data.stack;
+  return err;
+}
+
+function serializeAttempts(attempts: TestAttempt[] | undefined): SerializedAttempt[] | undefined {
+  return attempts?.map((a) => ({ ...a, error: a.error ? serializeError(a.error) : undefined }));
+}
+
+function deserializeAttempts(attempts: SerializedAttempt[] | undefined): TestAttempt[] | undefined {
+  return attempts?.map((a) => ({ ...a, error: a.error ? deserializeError(a.error) : undefined }));
+}
+
+export function serializeRunResult(result: RunResult): SerializedRunResult {
+  return {
+    ...result,
+    errors: result.errors.map((e) => ({ ...e, error: serializeError(e.error), attempts: serializeAttempts(e.attempts) })),
+    passedTests: result.passedTests.map((t) => ({ ...t, attempts: serializeAttempts(t.attempts) })),
+    skippedTests: result.skippedTests.map((t) => ({ ...t, attempts: serializeAttempts(t.attempts) })),
+  };
+}
+
+export function deserializeRunResult(data: SerializedRunResult): RunResult {
+  return {
+    ...data,
+    errors: data.errors.map((e) => ({ ...e, error: deserializeError(e.error), attempts: deserializeAttempts(e.attempts) })),
+    passedTests: data.passedTests.map((t) => ({ ...t, attempts: deserializeAttempts(t.attempts) })),
+    skippedTests: data.skippedTests.map((t) => ({ ...t, attempts: deserializeAttempts(t.attempts) })),
+  };
+}
+
+export function emptyResult(): RunResult {
+  return { passed: 0, failed: 0, skipped: 0, total: 0, duration: 0, errors: [], passedTests: [], skippedTests: [] };
+}
+
+/** Add one file's result to a running total (durations are summed). */
+export function mergeResult(total: RunResult, result: RunResult): void {
+  total.passed += result.passed;
+  total.failed += result.failed;
+  total.skipped += result.skipped;
+  total.total += result.total;
+  if (result.flaky) total.flaky = (total.flaky ?? 0) + result.flaky;
+  if (result.snapshots) total.snapshots = mergeSnapshotSummary(total.snapshots, result.snapshots);
+  total.duration += result.duration;
+  total.errors.push(...result.errors);
+  total.passedTests.push(...result.passedTests);
+  total.skippedTests.push(...result.skippedTests);
+}
+
+/**
+ * Run one file in a fresh worker process; resolve with its result and buffered output.
+ * @param children - running workers; the child is added while it runs so an abort can stop it.
+ */
+function runInWorker(workerPath: string, request: WorkerRequest, children: Set<ChildProcess>): Promise<FileRunOutcome> {
+  return new Promise((resolve, reject) => {
+    const start = Date.now();
+    // 'advanced' serialization keeps Map/Set/Date in assertion expected/actual values
+    const child = fork(workerPath, [], { silent: true, serialization: 'advanced' });
+    children.add(child);
+    let output = '';
+    let response: WorkerResponse | null = null;
+    child.stdout?.on('data', (chunk: Buffer) => (output += chunk.toString()));
+    child.stderr?.on('data', (chunk: Buffer) => (output += chunk.toString()));
+    child.on('message', (msg: WorkerResponse) => {
+      response = msg;
+    });
+    child.on('error', reject);
+    child.on('exit', (code, signal) => {
+      children.delete(child);
+      const res = response as WorkerResponse | null;
+      if (res && res.type === 'load-error') {
+        reject(new Error(`Failed to load ${request.file}: ${res.message}`));
+        return;
+      }
+      if (res && res.type === 'result') {
+        resolve({ file: request.file, rel: request.rel, result: deserializeRunResult(res.result), output });
+        return;
+      }
+      // Worker died before reporting (crash, process.exit in a test, unhandled rejection): report the file as failed.
+      const result = emptyResult();
+      result.failed = 1;
+      result.total = 1;
+      result.duration = Date.now() - start;
+      result.errors.push({
+        suite: request.rel,
+        test: '(worker)',
+        error: new Error(`Worker exited unexpectedly (${signal ? `signal ${signal}` : `code ${code}`}) before reporting results`),
+        duration: result.duration,
+        file: request.rel,
+      });
+      resolve({ file: request.file, rel: request.rel, result, output });
+    });
+    child.send(request);
+  });
+}
+
+/** How long stopped workers get to close their browsers before they are killed. */
+const STOP_GRACE_MS = 5000;
+
+/** Ask running workers to stop (they close their browsers on SIGTERM); resolve once all have exited. */
+function stopWorkers(children: Set<ChildProcess>): Promise<void> {
+  const exits = Array.from(children).map(
+    (child) =>
+      new Promise<void>((resolve) => {
+        if (child.exitCode !== null || child.signalCode !== null) {
+          resolve();
+          return;
+        }
+        const timer = setTimeout(() => child.kill('SIGKILL'), STOP_GRACE_MS);
+        child.once('exit', () => {
+          clearTimeout(timer);
+          resolve();
+        });
+        child.kill('SIGTERM');
+      })
+  );
+  return Promise.all(exits).then(() => undefined);
+}
+
+/**
+ * Run test files across up to `workers` child processes.
+ * If a file fails to load, the other workers are stopped before the returned promise rejects.
+ * onFileDone is called as each file finishes (in completion order); the returned array keeps input order.
+ */
+export function runFilesInWorkers(
+  requests: WorkerRequest[],
+  workers: number,
+  onFileDone?: (outcome: FileRunOutcome) => void
+): Promise<FileRunOutcome[]> {
+  const workerPath = path.join(__dirname, 'worker.js');
+  const outcomes: FileRunOutcome[] = new Array(requests.length);
+  const children = new Set<ChildProcess>();
+  return new Promise((resolve, reject) => {
+    let next = 0;
+    let active = 0;
+    let aborted = false;
+    function startNext(): void {
+      if (aborted) return;
+      if (next >= requests.length) {
+        if (active === 0) resolve(outcomes);
+        return;
+      }
+      const index = next++;
+      active++;
+      runInWorker(workerPath, requests[index], children).then(
+        (outcome) => {
+          // A worker stopped by an abort: its partial result is not reported
+          if (aborted) return;
+          outcomes[index] = outcome;
+          active--;
+          onFileDone?.(outcome);
+          startNext();
+        },
+        (err) => {
+          if (aborted) return;
+          aborted = true;
+          stopWorkers(children).then(() => reject(err));
+        }
+      );
+    }
+    if (requests.length === 0) {
+      resolve(outcomes);
+      return;
+    }
+    const count = Math.max(1, Math.min(workers, requests.length));
+    for (let i = 0; i < count; i++) startNext();
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * Minimal PNG reader/writer for screenshot comparison (no native or npm dependencies; zlib is built in).
+ * Reads non-interlaced grayscale (1/2/4/8/16-bit), palette (1/2/4/8-bit), RGB and alpha (8/16-bit) images;
+ * writes 8-bit RGBA.
+ */
+
+import * as zlib from 'zlib';
+import { crc32 } from './crc32';
+
+/** Decoded image: 4 bytes (RGBA) per pixel, row by row. */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Channels per pixel for each PNG color type. */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Bit depths the PNG spec allows for each color type. */
+const BIT_DEPTHS: Record<number, number[]> = { 0: [1, 2, 4, 8, 16], 2: [8, 16], 3: [1, 2, 4, 8], 4: [8, 16], 6: [8, 16] };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/** Undo the per-row filters; returns the raw scanlines without filter bytes. */
+function unfilter(data: Buffer, height: number, stride: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[src + x];
+      const left = x >= bpp ? out[row + x - bpp] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[prev + x - bpp] : 0;
+      let value: number;
+      switch (filter) {
+        case 0: value = raw; break;
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: value = raw + paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG: unknown filter type ${filter}`);
+      }
+      out[row + x] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error('Not a PNG image');
+  }
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) throw new Error('Interlaced PNG images are not supported');
+    } else if (type === 'PLTE') palette = chunk;
+    else if (type === 'tRNS') transparency = chunk;
+    else if (type === 'IDAT') idat.push(chunk);
+    else if (type === 'IEND') break;
+  }
+  const channels = CHANNELS[colorType];
+  if (!channels) throw new Error(`Unsupported PNG color type ${colorType}`);
+  if (!BIT_DEPTHS[colorType].includes(bitDepth)) {
+    throw new Error(`Unsupported bit depth ${bitDepth} for PNG color type ${colorType}`);
+  }
+  if (colorType === 3 && !palette) throw new Error('Invalid PNG: palette image without PLTE chunk');
+
+  // Filters work on whole bytes: bpp is at least 1 even when several pixels share a byte (bit depth 1/2/4)
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = unfilter(zlib.inflateSync(Buffer.concat(idat)), height, stride, bpp);
+  const data = new Uint8Array(width * height * 4);
+  const bytesPerSample = bitDepth >> 3;
+  const maxPacked = (1 << bitDepth) - 1;
+  // 16-bit samples keep their high byte; 1/2/4-bit samples are unpacked from the high bits of each byte first
+  const sample = (pixel: number, channel: number) => {
+    const y = Math.floor(pixel / width);
+    const x = pixel - y * width;
+    if (bitDepth >= 8) return raw[y * stride + x * bpp + channel * bytesPerSample];
+    const bit = x * bitDepth;
+    return (raw[y * stride + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxPacked;
+  };
+  // Gray levels below 8 bits are scaled to 0-255 (palette indexes are not)
+  const gray = (pixel: number) => (bitDepth >= 8 ? sample(pixel, 0) : Math.round((sample(pixel, 0) * 255) / maxPacked));
+  for (let p = 0; p < width * height; p++) {
+    const o = p * 4;
+    switch (colorType) {
+      case 0:
+        data[o] = data[o + 1] = data[o + 2] = gray(p);
+        data[o + 3] = 255;
+        break;
+      case 2:
+        data[o] = sample(p, 0);
+        data[o + 1] = sample(p, 1);
+        data[o + 2] = sample(p, 2);
+        data[o + 3] = 255;
+        break;
+      case 3: {
+        const index = sample(p, 0);
+        data[o] = palette![index * 3];
+        data[o + 1] = palette![index * 3 + 1];
+        data[o + 2] = palette![index * 3 + 2];
+        data[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case 4:
+        data[o] = data[o + 1] = data[o + 2] = sample(p, 0);
+        data[o + 3] = sample(p, 1);
+        break;
+      case 6:
+        data[o] = sample(p, 0);
+        data[o + 1] = sample(p, 1);
+        data[o + 2] = sample(p, 2);
+        data[o + 3] = sample(p, 3);
+        break;
+    }
+  }
+  return { width, height, data };
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0; // filter: none
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', ihdr),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
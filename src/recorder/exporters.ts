@@ -4,6 +4,12 @@
 
 import type { RecordedStep } from './recorded-step';
 
+/** Options written into the exported script along with the steps. */
+export interface ExportOptions {
+  /** Device the steps were recorded with (a name from the devices table). */
+  device?: string;
+}
+
 /** Escape string for Java double-quoted literal. */
 function javaStr(s: string): string {
   return (
@@ -18,8 +24,10 @@ function javaStr(s: string): string {
   );
 }
 
-export function toConf(steps: RecordedStep[]): string {
-  const lines: string[] = ['# Recorded script – edit and run with: cstesting <file.conf>', 'headless=false', ''];
+export function toConf(steps: RecordedStep[], options: ExportOptions = {}): string {
+  const lines: string[] = ['# Recorded script – edit and run with: cstesting <file.conf>', 'headless=false'];
+  if (options.device) lines.push('device=' + options.device);
+  lines.push('');
   for (const s of steps) {
     if (s.action === 'goto' && s.url) {
       lines.push('goto:' + s.url);
@@ -43,6 +51,20 @@ export function toConf(steps: RecordedStep[]): string {
       lines.push('hover=' + s.selector);
     } else if (s.action === 'dragAndDrop' && s.sourceSelector && s.selector) {
       lines.push('dragAndDrop=' + s.sourceSelector + '=' + s.selector);
+    } else if (s.action === 'press' && s.key) {
+      lines.push('press=' + s.key);
+    } else if (s.action === 'upload' && s.selector && s.files) {
+      lines.push('upload=' + s.selector + '=' + s.files.join(','));
+    } else if (s.action === 'expectDownload' && s.filename) {
+      lines.push('expectDownload=' + s.filename);
+    } else if (s.action === 'tap' && s.selector) {
+      lines.push('tap=' + s.selector);
+    } else if (s.action === 'swipe' && s.selector && s.direction) {
+      lines.push('swipe=' + s.selector + ' ' + s.direction + (s.distance ? ' ' + s.distance : ''));
+    } else if (s.action === 'pinch' && s.selector && s.scale) {
+      lines.push('pinch=' + s.selector + ' ' + s.scale);
+    } else if (s.action === 'longPress' && s.selector) {
+      lines.push('longPress=' + s.selector + (s.ms ? ' ' + s.ms : ''));
     } else if (s.action === 'wait' && s.ms) {
       lines.push('wait:' + s.ms);
     } else if (s.action === 'assertText' && s.selector && s.expected !== undefined) {
@@ -64,7 +86,10 @@ export function toConf(steps: RecordedStep[]): string {
   return lines.join('\n');
 }
 
-export function toJs(steps: RecordedStep[]): string {
+export function toJs(steps: RecordedStep[], options: ExportOptions = {}): string {
+  const browserOptions = options.device
+    ? "{ ...et.devices['" + options.device.replace(/'/g, "\\'") + "'], headless: false }"
+    : '{ headless: false }';
   const lines: string[] = [
     "/** Recorded test – run with: npx cstesting thisfile.test.js */",
     "const et = require('cstesting');",
@@ -72,10 +97,13 @@ export function toJs(steps: RecordedStep[]): string {
     "",
     "describe('Recorded', () => {",
     "  let browser;",
-    "  beforeEach(async () => { browser = await et.createBrowser({ headless: false }); });",
+    "  beforeEach(async () => { browser = await et.createBrowser(" + browserOptions + "); });",
     "  afterEach(async () => { if (browser) await browser.close(); });",
     "  it('recorded steps', async () => {",
   ];
+  // expectDownload starts waiting before the step that downloads; the file name is checked after it
+  let downloads = 0;
+  let downloadCheck = '';
   for (const s of steps) {
     if (s.action === 'goto' && s.url) {
       lines.push("    await browser.goto('" + s.url.replace(/'/g, "\\'") + "');");
@@ -99,6 +127,24 @@ export function toJs(steps: RecordedStep[]): string {
       lines.push("    await browser.hover('" + s.selector.replace(/'/g, "\\'") + "');");
     } else if (s.action === 'dragAndDrop' && s.sourceSelector && s.selector) {
       lines.push("    await browser.dragAndDrop('" + s.sourceSelector.replace(/'/g, "\\'") + "', '" + s.selector.replace(/'/g, "\\'") + "');");
+    } else if (s.action === 'press' && s.key) {
+      lines.push("    await browser.keyboard.press('" + s.key.replace(/\\/g, '\\\\').replace(/'/g, "\\'") + "');");
+    } else if (s.action === 'upload' && s.selector && s.files) {
+      const files = s.files.map((f) => "'" + f.replace(/\\/g, '\\\\').replace(/'/g, "\\'") + "'").join(', ');
+      lines.push("    await browser.setInputFiles('" + s.selector.replace(/'/g, "\\'") + "', [" + files + "]);");
+    } else if (s.action === 'expectDownload' && s.filename) {
+      downloads++;
+      lines.push('    const download' + downloads + ' = browser.waitForDownload();');
+      downloadCheck =
+        '    expect((await download' + downloads + ").suggestedFilename).toEqual('" + s.filename.replace(/\\/g, '\\\\').replace(/'/g, "\\'") + "');";
+    } else if (s.action === 'tap' && s.selector) {
+      lines.push("    await browser.tap('" + s.selector.replace(/'/g, "\\'") + "');");
+    } else if (s.action === 'swipe' && s.selector && s.direction) {
+      lines.push("    await browser.swipe('" + s.selector.replace(/'/g, "\\'") + "', '" + s.direction + "'" + (s.distance ? ', ' + s.distance : '') + ");");
+    } else if (s.action === 'pinch' && s.selector && s.scale) {
+      lines.push("    await browser.pinch('" + s.selector.replace(/'/g, "\\'") + "', " + s.scale + ");");
+    } else if (s.action === 'longPress' && s.selector) {
+      lines.push("    await browser.longPress('" + s.selector.replace(/'/g, "\\'") + "'" + (s.ms ? ', { duration: ' + s.ms + ' }' : '') + ");");
     } else if (s.action === 'wait' && s.ms) {
       lines.push("    await browser.sleep(" + s.ms + ");");
     } else if (s.action === 'assertText' && s.selector && s.expected !== undefined) {
@@ -119,14 +165,19 @@ export function toJs(steps: RecordedStep[]): string {
     } else if (s.action === 'switchTab' && s.index !== undefined) {
       lines.push("    await browser.switchToTab(" + s.index + ");");
     }
+    if (downloadCheck && s.action !== 'expectDownload') {
+      lines.push(downloadCheck);
+      downloadCheck = '';
+    }
   }
+  if (downloadCheck) lines.push(downloadCheck);
   lines.push("  });");
   lines.push("});");
   return lines.join('\n');
 }
 
-export function toTs(steps: RecordedStep[]): string {
-  const js = toJs(steps);
+export function toTs(steps: RecordedStep[], options: ExportOptions = {}): string {
+  const js = toJs(steps, options);
   return js
     .replace("const et = require('cstesting');", "import * as et from 'cstesting';")
     .replace(/describe\('Recorded'/g, "describe('Recorded'");
@@ -137,7 +188,7 @@ export function toTs(steps: RecordedStep[]): string {
  * Generates a test class extending CSTestingTestBase with @CSTest method.
  * Run with CSTestingRunner or mvn exec:java -Pannotation-tests.
  */
-export function toJava(steps: RecordedStep[]): string {
+export function toJava(steps: RecordedStep[], options: ExportOptions = {}): string {
   const lines: string[] = [
     'package com.cstesting.recorded;',
     '',
@@ -174,6 +225,8 @@ export function toJava(steps: RecordedStep[]): string {
     '    @CSTest(description = "Recorded steps")',
     '    public void recordedSteps() {',
   ];
+  // The Java API has no device emulation, touch gestures, key presses, uploads or downloads: they are kept as comments
+  if (options.device) lines.push('        // Recorded with device: ' + options.device);
   for (const s of steps) {
     if (s.action === 'goto' && s.url) {
       lines.push('        browser.gotoUrl(' + javaStr(s.url) + ');');
@@ -198,6 +251,15 @@ export function toJava(steps: RecordedStep[]): string {
       lines.push('        browser.hover(' + javaStr(s.selector) + ');');
     } else if (s.action === 'dragAndDrop' && s.sourceSelector && s.selector) {
       lines.push('        browser.dragAndDrop(' + javaStr(s.sourceSelector) + ", " + javaStr(s.selector) + ');');
+    } else if (s.action === 'press' && s.key) {
+      lines.push('        // press ' + s.key + ' (key presses are not in the Java API; use the JS/TS export)');
+    } else if (s.action === 'upload' && s.selector && s.files) {
+      lines.push('        // upload ' + s.files.join(', ') + ' to ' + s.selector + ' (file uploads are not in the Java API; use the JS/TS export)');
+    } else if (s.action === 'expectDownload' && s.filename) {
+      lines.push('        // expect download ' + s.filename + ' (downloads are not in the Java API; use the JS/TS export)');
+    } else if ((s.action === 'tap' || s.action === 'swipe' || s.action === 'pinch' || s.action === 'longPress') && s.selector) {
+      const detail = s.action === 'swipe' ? ' ' + s.direction : s.action === 'pinch' ? ' ' + s.scale : '';
+      lines.push('        // ' + s.action + ' ' + s.selector + detail + ' (touch gestures are not in the Java API; use the JS/TS export)');
     } else if (s.action === 'wait' && s.ms) {
       lines.push('        browser.waitForTime(' + s.ms + 'L);');
     } else if (s.action === 'assertText' && s.selector && s.expected !== undefined) {
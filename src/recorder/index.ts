@@ -1,7 +1,7 @@
 /**
  * Record browser actions and export to .conf, .js, .ts, or .java.
  * Playwright-style codegen: two windows (browser + inspector with live script).
- * Usage: cstesting record [url] [--browser chrome|edge|opera|firefox] [--output file] [--format conf|js|ts|java]
+ * Usage: cstesting record [url] [--browser chrome|edge|opera|firefox] [--device name] [--output file] [--format conf|js|ts|java]
  */
 
 import * as fs from 'fs';
@@ -10,9 +10,11 @@ import * as http from 'http';
 import * as readline from 'readline';
 import CDP from 'chrome-remote-interface';
 import { launchChrome, launchBrowser, type BrowserType } from '../browser/launch';
-import { fetchBrowserWebSocketUrl } from '../browser';
+import { fetchBrowserWebSocketUrl, getDevice, type DeviceDescriptor } from '../browser';
+import type { CDPClient } from '../browser/cdp-page';
+import { applyEmulation } from '../browser/emulation';
 import type { RecordedStep } from './recorded-step';
-import { toConf, toJs, toTs, toJava } from './exporters';
+import { toConf, toJs, toTs, toJava, type ExportOptions } from './exporters';
 import { createInspectorServer } from './inspector-server';
 
 function askDialogInTerminal(
@@ -82,9 +84,48 @@ document.addEventListener('click',function(e){
   if(!selector)return;
   var tag=el.tagName.toUpperCase();
   if(tag==='SELECT')return;
-  if(tag==='INPUT'&&(el.type==='checkbox'||el.type==='radio'))return;
+  if(tag==='INPUT'&&(el.type==='checkbox'||el.type==='radio'||el.type==='file'))return;
+  if(Date.now()-lastTouchEnd<500)return;
+  // Enter in a form (implicit submit) and Enter/Space on a button click without a pointer: the key is recorded instead
+  if(e.detail===0&&Date.now()-lastKeyTime<500)return;
   send({action:e.detail===2?'doubleClick':'click',selector:selector});
 },true);
+var touch=null,lastTouchEnd=0;
+function fingerGap(t){var dx=t[0].clientX-t[1].clientX,dy=t[0].clientY-t[1].clientY;return Math.sqrt(dx*dx+dy*dy);}
+if(navigator.maxTouchPoints>0){
+  document.addEventListener('touchstart',function(e){
+    var t=e.touches[0];
+    if(!touch)touch={el:e.target,x:t.clientX,y:t.clientY,lastX:t.clientX,lastY:t.clientY,time:Date.now(),fingers:1,gap:0,endGap:0};
+    if(e.touches.length>1){touch.fingers=e.touches.length;touch.gap=touch.endGap=fingerGap(e.touches);}
+  },true);
+  document.addEventListener('touchmove',function(e){
+    if(!touch)return;
+    if(e.touches.length>1&&touch.fingers>1)touch.endGap=fingerGap(e.touches);
+    else if(e.touches.length===1){touch.lastX=e.touches[0].clientX;touch.lastY=e.touches[0].clientY;}
+  },true);
+  document.addEventListener('touchend',function(e){
+    if(!touch||e.touches.length>0)return;
+    var s=touch;touch=null;lastTouchEnd=Date.now();
+    if(s.menu)return;
+    var el=s.el,selector=getSelector(el)||fallbackSelector(el);if(!selector||!el.tagName)return;
+    if(s.fingers>1){
+      var scale=s.gap>0?Math.round(s.endGap/s.gap*100)/100:1;
+      if(scale!==1)send({action:'pinch',selector:selector,scale:scale});
+      return;
+    }
+    var dx=s.lastX-s.x,dy=s.lastY-s.y;
+    if(Math.abs(dx)>30||Math.abs(dy)>30){
+      var horizontal=Math.abs(dx)>Math.abs(dy);
+      send({action:'swipe',selector:selector,direction:horizontal?(dx<0?'left':'right'):(dy<0?'up':'down'),distance:Math.round(Math.abs(horizontal?dx:dy))});
+      return;
+    }
+    var tag=el.tagName.toUpperCase();
+    if(tag==='SELECT'||(tag==='INPUT'&&(el.type==='checkbox'||el.type==='radio')))return;
+    var held=Date.now()-s.time;
+    if(held>=500)send({action:'longPress',selector:selector,ms:Math.round(held/100)*100});
+    else send({action:'tap',selector:selector});
+  },true);
+}
 var typeDebounceTimer,typeDebounceEl,lastTypeSelector,lastTypeValue;
 function flushType(){
   if(!typeDebounceEl)return;
@@ -97,7 +138,7 @@ document.addEventListener('input',function(e){
   var el=e.target;if(!el||!el.tagName)return;
   var tag=el.tagName.toUpperCase(),selector=getSelector(el);if(!selector)return;
   if(tag==='SELECT')return;
-  if(tag==='INPUT'&&(el.type==='checkbox'||el.type==='radio'))return;
+  if(tag==='INPUT'&&(el.type==='checkbox'||el.type==='radio'||el.type==='file'))return;
   if(tag==='INPUT'||tag==='TEXTAREA'){
     if(typeDebounceTimer)clearTimeout(typeDebounceTimer);
     typeDebounceEl=el;
@@ -107,16 +148,38 @@ document.addEventListener('input',function(e){
 document.addEventListener('blur',function(e){
   var el=e.target;if(!el||!el.tagName)return;
   var tag=el.tagName.toUpperCase();if(tag!=='INPUT'&&tag!=='TEXTAREA')return;
-  if(el.type==='checkbox'||el.type==='radio')return;
+  if(el.type==='checkbox'||el.type==='radio'||el.type==='file')return;
   if(typeDebounceTimer){clearTimeout(typeDebounceTimer);typeDebounceTimer=0;}
   if(typeDebounceEl===el){flushType();}
   typeDebounceEl=null;
 },true);
+var lastKeyTime=0;
+var SPECIAL_KEYS=['Enter','Tab','Escape','ArrowUp','ArrowDown','ArrowLeft','ArrowRight','PageUp','PageDown','F1','F2','F3','F4','F5','F6','F7','F8','F9','F10','F11','F12'];
+var NAVIGATION_KEYS=['Home','End','Backspace','Delete'];
+document.addEventListener('keydown',function(e){
+  var key=e.key;
+  if(!key||key==='Control'||key==='Shift'||key==='Alt'||key==='Meta'||e.isComposing)return;
+  var el=e.target,tag=el&&el.tagName?el.tagName.toUpperCase():'';
+  var editable=tag==='INPUT'||tag==='TEXTAREA'||tag==='SELECT'||(el&&el.isContentEditable);
+  var shortcut=e.ctrlKey||e.metaKey||e.altKey;
+  // Text, Home/End and Backspace/Delete in fields are covered by the typed value
+  if(!shortcut&&SPECIAL_KEYS.indexOf(key)<0&&(editable||NAVIGATION_KEYS.indexOf(key)<0))return;
+  var parts=[];
+  if(e.ctrlKey)parts.push('Control');
+  if(e.altKey)parts.push('Alt');
+  if(e.metaKey)parts.push('Meta');
+  if(e.shiftKey&&(shortcut||key.length>1))parts.push('Shift');
+  parts.push(key===' '?'Space':key);
+  flushType();
+  lastKeyTime=Date.now();
+  send({action:'press',key:parts.join('+')});
+},true);
 document.addEventListener('change',function(e){
   var el=e.target;if(!el||!el.tagName)return;
   var tag=el.tagName.toUpperCase(),selector=getSelector(el);if(!selector)return;
   if(tag==='SELECT'){var opt=el.options[el.selectedIndex];send({action:'select',selector:selector,value:opt?opt.value:'',label:opt?opt.text:''});}
   else if(tag==='INPUT'&&(el.type==='checkbox'||el.type==='radio'))send({action:el.checked?'check':'uncheck',selector:selector});
+  else if(tag==='INPUT'&&el.type==='file'){var names=[];for(var i=0;i<el.files.length;i++)names.push(el.files[i].name);send({action:'upload',selector:selector,files:names});}
 },true);
 var assertMenuEl,assertTargetEl,dragSourceSelector='';
 function hideAssertMenu(){if(assertMenuEl){assertMenuEl.remove();assertMenuEl=null;}assertTargetEl=null;}
@@ -134,7 +197,9 @@ document.addEventListener('contextmenu',function(e){
   var el=e.target;if(!el||!el.tagName)return;
   var selector=getSelector(el)||fallbackSelector(el);if(!selector)return;
   e.preventDefault();
-  send({action:'rightClick',selector:selector});
+  // A long press opens the menu too: it is not recorded as a gesture or a right click
+  if(touch)touch.menu=true;
+  else send({action:'rightClick',selector:selector});
   assertTargetEl=el;
   if(assertMenuEl)hideAssertMenu();
   var menu=document.createElement('div');
@@ -184,7 +249,44 @@ export interface RecordOptions {
 }
 
 const recordedSteps: RecordedStep[] = [];
+let recordedDevice: string | undefined;
 let recordingPaused = false;
+/** Last step the page recorded (click, press, ...) and when: the action a download that begins now came from. */
+let lastPageStep: { step: RecordedStep; time: number } | null = null;
+/** A download that began before the page recorded the action that started it (see recordDownload). */
+let pendingDownload: { step: RecordedStep; timer: ReturnType<typeof setTimeout> } | null = null;
+
+/** How long a download and the action that started it may be apart to be recorded together. */
+const DOWNLOAD_ACTION_WINDOW_MS = 1000;
+
+/** Put step before the step that started the download (expectDownload is set up before it, like dialog). */
+function insertBefore(action: RecordedStep | undefined, step: RecordedStep): void {
+  const index = action ? recordedSteps.lastIndexOf(action) : -1;
+  if (index >= 0) recordedSteps.splice(index, 0, step);
+  else recordedSteps.push(step);
+}
+
+/**
+ * Record an expectDownload for the action that started the download. Browser.downloadWillBegin comes from the
+ * browser process and the page's binding call from the renderer, so either may arrive first: a page step recorded
+ * just before is the action; otherwise the download waits for the next page step (or, if none comes, takes the last).
+ */
+function recordDownload(step: RecordedStep): void {
+  if (lastPageStep && Date.now() - lastPageStep.time <= DOWNLOAD_ACTION_WINDOW_MS) {
+    insertBefore(lastPageStep.step, step);
+    return;
+  }
+  if (pendingDownload) flushPendingDownload();
+  pendingDownload = { step, timer: setTimeout(flushPendingDownload, DOWNLOAD_ACTION_WINDOW_MS) };
+}
+
+/** No page step followed the download: record it before the last page step, as the best guess. */
+function flushPendingDownload(): void {
+  if (!pendingDownload) return;
+  clearTimeout(pendingDownload.timer);
+  insertBefore(lastPageStep?.step, pendingDownload.step);
+  pendingDownload = null;
+}
 let launched: { kill: () => void | Promise<void> } | null = null;
 let launchedInspector: { kill: () => void | Promise<void> } | null = null;
 let inspectorServer: http.Server | null = null;
@@ -223,6 +325,29 @@ function normalizeStep(raw: Record<string, unknown>): RecordedStep | null {
   if (action === 'dragAndDrop' && raw.sourceSelector && raw.selector) {
     return { action: 'dragAndDrop', sourceSelector: String(raw.sourceSelector), selector: String(raw.selector) };
   }
+  if (action === 'tap' && raw.selector) {
+    return { action: 'tap', selector: String(raw.selector) };
+  }
+  if (action === 'swipe' && raw.selector && ['up', 'down', 'left', 'right'].includes(String(raw.direction))) {
+    return {
+      action: 'swipe',
+      selector: String(raw.selector),
+      direction: String(raw.direction) as RecordedStep['direction'],
+      distance: Number(raw.distance) || 100,
+    };
+  }
+  if (action === 'pinch' && raw.selector && Number(raw.scale) > 0) {
+    return { action: 'pinch', selector: String(raw.selector), scale: Number(raw.scale) };
+  }
+  if (action === 'longPress' && raw.selector) {
+    return { action: 'longPress', selector: String(raw.selector), ms: Number(raw.ms) || 800 };
+  }
+  if (action === 'press' && raw.key) {
+    return { action: 'press', key: String(raw.key) };
+  }
+  if (action === 'upload' && raw.selector && Array.isArray(raw.files) && raw.files.length > 0) {
+    return { action: 'upload', selector: String(raw.selector), files: raw.files.map(String) };
+  }
   if (action === 'assertText' && raw.selector && raw.expected !== undefined) {
     return { action: 'assertText', selector: String(raw.selector), expected: String(raw.expected) };
   }
@@ -242,11 +367,22 @@ export interface StartRecordingOptions {
   onBrowserClose?: () => void;
   /** Browser to use for recording: 'chrome' | 'edge' | 'opera' | 'firefox'. Default: 'chrome'. */
   browser?: BrowserType;
+  /**
+   * Emulate a device from the devices table (e.g. 'iPhone 13'). With a touch device the mouse sends touch events,
+   * and taps, swipes and long presses (pinches too, on a touch screen) are recorded as touch steps.
+   */
+  device?: string;
 }
 
 export async function startRecording(initialUrl?: string, options: StartRecordingOptions = {}): Promise<void> {
   const { onBrowserClose, browser: browserType = 'chrome' } = options;
+  // Unknown device names fail before any window opens
+  const device: DeviceDescriptor | undefined = options.device ? getDevice(options.device) : undefined;
   recordedSteps.length = 0;
+  recordedDevice = options.device;
+  lastPageStep = null;
+  if (pendingDownload) clearTimeout(pendingDownload.timer);
+  pendingDownload = null;
 
   let doStartRecording: () => Promise<void> = async () => {};
   recordingPaused = false;
@@ -262,7 +398,8 @@ export async function startRecording(initialUrl?: string, options: StartRecordin
         recordingPaused = false;
         console.log('  [Recording resumed]');
       },
-    }
+    },
+    { device: options.device }
   );
   inspectorServer = server;
   const inspectorUrl = 'http://127.0.0.1:' + port + '/';
@@ -318,6 +455,11 @@ export async function startRecording(initialUrl?: string, options: StartRecordin
       handleJavaScriptDialog: (params: { accept: boolean; promptText?: string }) => Promise<void>;
     };
     Runtime: { enable: () => Promise<void>; addBinding: (params: { name: string }) => Promise<void>; on: (event: string, handler: (params: { name: string; payload: string }) => void) => void };
+    Emulation: { setEmitTouchEventsForMouse: (params: { enabled: boolean; configuration?: 'mobile' | 'desktop' }) => Promise<void> };
+    Browser: {
+      setDownloadBehavior: (params: { behavior: 'default'; eventsEnabled: boolean }) => Promise<void>;
+      on: (event: string, handler: (params: { suggestedFilename: string }) => void) => void;
+    };
     Target?: {
       enable: () => Promise<void>;
       getTargets: () => Promise<{ targetInfos: Array<{ type: string; targetId: string }> }>;
@@ -353,6 +495,10 @@ export async function startRecording(initialUrl?: string, options: StartRecordin
 
   await client.Page.enable();
   await client.Runtime.enable();
+  if (device) {
+    await applyEmulation(client as unknown as CDPClient, device);
+    if (device.hasTouch) await client.Emulation.setEmitTouchEventsForMouse({ enabled: true, configuration: 'mobile' });
+  }
 
   client.Page.on('javascriptDialogOpening', async (params: { type: string; message: string }) => {
     const answer = await askDialogInTerminal(params.type, params.message || '');
@@ -378,6 +524,18 @@ export async function startRecording(initialUrl?: string, options: StartRecordin
     }
   });
 
+  try {
+    // Downloads still go where the user's browser puts them; the events tell which click started one
+    await client.Browser.setDownloadBehavior({ behavior: 'default', eventsEnabled: true });
+    client.Browser.on('downloadWillBegin', (params: { suggestedFilename: string }) => {
+      if (recordingPaused) return;
+      recordDownload({ action: 'expectDownload', filename: params.suggestedFilename });
+      console.log('  Recorded: expectDownload', params.suggestedFilename);
+    });
+  } catch {
+    // Browser download events are not available (e.g. Firefox)
+  }
+
   if (client.Target && typeof client.Target.enable === 'function' && typeof client.Target.on === 'function') {
     try {
       await client.Target.enable();
@@ -405,9 +563,16 @@ export async function startRecording(initialUrl?: string, options: StartRecordin
       const raw = JSON.parse(params.payload) as Record<string, unknown>;
       const step = normalizeStep(raw);
       if (step) {
+        if (pendingDownload) {
+          // The download began just before the page reported this step: it is the action that started it
+          clearTimeout(pendingDownload.timer);
+          recordedSteps.push(pendingDownload.step);
+          pendingDownload = null;
+        }
         recordedSteps.push(step);
+        lastPageStep = { step, time: Date.now() };
         const extra = (step.action === 'assertText' || step.action === 'assertAttribute') && step.expected !== undefined ? ' → "' + step.expected + '"' : '';
-        console.log('  Recorded:', step.action, step.selector || step.url || '', extra);
+        console.log('  Recorded:', step.action, step.selector || step.url || step.key || '', extra);
       }
     } catch {
       // ignore parse errors
@@ -459,6 +624,7 @@ export function stopRecording(): void {
 }
 
 export function getRecordedSteps(): RecordedStep[] {
+  flushPendingDownload();
   return [...recordedSteps];
 }
 
@@ -467,17 +633,18 @@ export function exportRecorded(options: RecordOptions = {}): string {
   const steps = getRecordedSteps();
   let content: string;
   let ext: string;
+  const exportOptions: ExportOptions = { device: recordedDevice };
   if (format === 'conf') {
-    content = toConf(steps);
+    content = toConf(steps, exportOptions);
     ext = '.conf';
   } else if (format === 'js') {
-    content = toJs(steps);
+    content = toJs(steps, exportOptions);
     ext = '.test.js';
   } else if (format === 'ts') {
-    content = toTs(steps);
+    content = toTs(steps, exportOptions);
     ext = '.test.ts';
   } else {
-    content = toJava(steps);
+    content = toJava(steps, exportOptions);
     ext = '.java';
   }
   const outPath = options.output || path.join(process.cwd(), 'recorded' + ext);
@@ -487,5 +654,5 @@ export function exportRecorded(options: RecordOptions = {}): string {
   return outPath;
 }
 
-export { toConf, toJs, toTs, toJava } from './exporters';
+export { toConf, toJs, toTs, toJava, type ExportOptions } from './exporters';
 export type { RecordedStep, RecordedAction } from './recorded-step';
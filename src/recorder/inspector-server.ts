@@ -5,7 +5,7 @@
 
 import * as http from 'http';
 import type { RecordedStep } from './recorded-step';
-import { toConf, toJs, toTs, toJava } from './exporters';
+import { toConf, toJs, toTs, toJava, type ExportOptions } from './exporters';
 
 const INSPECTOR_HTML = `<!DOCTYPE html>
 <html lang="en">
@@ -129,7 +129,8 @@ const INSPECTOR_HTML = `<!DOCTYPE html>
 export function createInspectorServer(
   getSteps: () => RecordedStep[],
   onStartRecording?: () => void | Promise<void>,
-  callbacks?: { onPause?: () => void; onResume?: () => void }
+  callbacks?: { onPause?: () => void; onResume?: () => void },
+  exportOptions: ExportOptions = {}
 ): Promise<{ server: http.Server; port: number }> {
   return new Promise((resolve) => {
     const server = http.createServer((req, res) => {
@@ -174,10 +175,10 @@ export function createInspectorServer(
       const format = new URL(url, 'http://localhost').searchParams.get('format') || 'conf';
       const steps = getSteps();
       let body: string;
-      if (format === 'js') body = toJs(steps);
-      else if (format === 'ts') body = toTs(steps);
-      else if (format === 'java') body = toJava(steps);
-      else body = toConf(steps);
+      if (format === 'js') body = toJs(steps, exportOptions);
+      else if (format === 'ts') body = toTs(steps, exportOptions);
+      else if (format === 'java') body = toJava(steps, exportOptions);
+      else body = toConf(steps, exportOptions);
       res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
       res.end(body);
       return;
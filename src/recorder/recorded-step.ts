@@ -3,6 +3,8 @@
  * Used by the recorder and exporters.
  */
 
+import type { SwipeDirection } from '../browser/touch';
+
 export type RecordedAction =
   | 'goto'
   | 'click'
@@ -14,6 +16,13 @@ export type RecordedAction =
   | 'uncheck'
   | 'hover'
   | 'dragAndDrop'
+  | 'tap'
+  | 'swipe'
+  | 'pinch'
+  | 'longPress'
+  | 'press'
+  | 'upload'
+  | 'expectDownload'
   | 'wait'
   | 'assertText'
   | 'assertAttribute'
@@ -28,7 +37,7 @@ export interface RecordedStep {
   value?: string;
   /** For goto: URL. For assertText/assertAttribute: expected value. */
   url?: string;
-  /** For wait: milliseconds. */
+  /** For wait: milliseconds. For longPress: how long the finger was held. */
   ms?: number;
   /** For assertText/assertAttribute: expected value (alias for value when action is assert). */
   expected?: string;
@@ -42,4 +51,16 @@ export interface RecordedStep {
   index?: number;
   /** For dragAndDrop: selector of the element to drag (source). */
   sourceSelector?: string;
+  /** For swipe: direction the finger moved. */
+  direction?: SwipeDirection;
+  /** For swipe: distance the finger moved, in CSS pixels. */
+  distance?: number;
+  /** For pinch: end distance between the fingers divided by the start distance. */
+  scale?: number;
+  /** For press: key or combination (e.g. 'Enter', 'Control+A', 'Shift+Tab'). */
+  key?: string;
+  /** For upload: names of the chosen files (the page does not see their folder). */
+  files?: string[];
+  /** For expectDownload: file name the download was saved as. */
+  filename?: string;
 }
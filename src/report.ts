@@ -1,11 +1,13 @@
 /**
  * HTML report generation. Writes to report/ folder (created if missing).
- * Report features: group by file, search by file/test/tag, summary bar, click test for details (steps, error).
+ * Report features: group by file, search by file/test/tag, summary bar, click test for details (steps, error, retries, attachments, HAR files).
  */
 
 import * as path from 'path';
 import * as fs from 'fs';
-import type { RunResult } from './types';
+import { pathToFileURL } from 'url';
+import type { Attachment, ImageComparison, RunResult, TestAttempt, TestStep } from './types';
+import { isTextContentType } from './attachments';
 
 function escapeHtml(s: string): string {
   return s
@@ -35,7 +37,8 @@ export interface ReportOptions {
   filename?: string;
 }
 
-type Status = 'pass' | 'fail' | 'skip';
+/** flaky = passed after one or more failed attempts (retries). */
+type Status = 'pass' | 'fail' | 'skip' | 'flaky';
 
 interface TestRow {
   suite: string;
@@ -48,6 +51,148 @@ interface TestRow {
   failedStepIndex?: number;
   file?: string;
   tags?: string[];
+  attempts?: TestAttempt[];
+  /** HAR files recorded for the test (absolute paths). */
+  har?: string[];
+  /** Trace zips kept for the test (absolute paths). */
+  trace?: string[];
+  /** Screenshots taken when the test failed (absolute paths). */
+  screenshots?: string[];
+  attachments?: Attachment[];
+  stepTree?: TestStep[];
+}
+
+const STATUS_LABELS: Record<Status, string> = { pass: 'Passed', fail: 'Failed', skip: 'Skipped', flaky: 'Flaky' };
+
+/** Build HTML for the retry history (one line per attempt with its error). */
+function buildAttemptsHtml(attempts: TestAttempt[]): string {
+  return `
+    <div class="report-section">
+      <div class="report-section-title">Retries (${attempts.length} attempts)</div>
+      <div class="report-steps-list">
+        ${attempts.map((a, i) => `
+        <div class="report-attempt-row">
+          <div class="report-step-row">
+            <span class="report-step-icon report-step-${a.error ? 'failed' : 'passed'}">${a.error ? '✗' : '✓'}</span>
+            <span class="report-step-title">Attempt ${i + 1}${i > 0 ? ` (retry #${i})` : ''}</span>
+            <span class="report-test-duration">${formatDuration(a.duration)}</span>
+          </div>
+          ${a.error ? `<pre class="report-error-message report-attempt-error">${escapeHtml(a.error.message)}</pre>` : ''}
+        </div>`).join('')}
+      </div>
+    </div>`;
+}
+
+/** Build HTML for a failed screenshot comparison: expected, actual and diff embedded as data URIs. */
+function buildImagesHtml(images: ImageComparison): string {
+  const figures = ([['Expected', images.expected], ['Actual', images.actual], ['Diff', images.diff]] as const)
+    .filter(([, file]) => file && fs.existsSync(file))
+    .map(([label, file]) => `
+          <figure class="report-image">
+            <figcaption>${label}</figcaption>
+            <img src="data:image/png;base64,${fs.readFileSync(file!).toString('base64')}" alt="${label} screenshot" />
+          </figure>`);
+  return figures.length > 0 ? `<div class="report-images">${figures.join('')}</div>` : '';
+}
+
+/** Link to a file written during the run: relative to the report folder (absolute file URL when it is unknown). */
+function fileHref(file: string, reportDir: string | undefined): string {
+  return reportDir ? path.relative(reportDir, file).split(path.sep).map(encodeURIComponent).join('/') : pathToFileURL(file).href;
+}
+
+/** Build HTML for the recorded HAR files. */
+function buildHarHtml(files: string[], reportDir: string | undefined): string {
+  return `
+    <div class="report-section">
+      <div class="report-section-title">Network (HAR)</div>
+      <div class="report-har-list">
+        ${files.map((f) => `<a class="report-har-link" href="${escapeHtml(fileHref(f, reportDir))}" download>${escapeHtml(path.basename(f))}</a>`).join('')}
+      </div>
+    </div>`;
+}
+
+/** Build HTML for the failure screenshots, shown inline under the error. */
+function buildScreenshotsHtml(files: string[], reportDir: string | undefined): string {
+  const figures = files
+    .filter((f) => fs.existsSync(f))
+    .map((f) => `
+          <figure class="report-image">
+            <figcaption>Screenshot at failure</figcaption>
+            <a href="${escapeHtml(fileHref(f, reportDir))}" target="_blank" rel="noopener"><img src="${escapeHtml(fileHref(f, reportDir))}" alt="Screenshot at failure" /></a>
+          </figure>`);
+  return figures.length > 0 ? `<div class="report-images">${figures.join('')}</div>` : '';
+}
+
+/** Text attachments larger than this are only linked. */
+const MAX_TEXT_PREVIEW = 64 * 1024;
+
+/** Build HTML for attach() files: images and small text files inline, everything with a download link. */
+function buildAttachmentsHtml(attachments: Attachment[], reportDir: string | undefined): string {
+  const items = attachments.map((a) => {
+    const href = escapeHtml(fileHref(a.path, reportDir));
+    const link = `<a class="report-har-link" href="${href}" download>${escapeHtml(path.basename(a.path))}</a>`;
+    const header = `<div class="report-attachment-header"><span class="report-attachment-name">${escapeHtml(a.name)}</span><span class="report-attachment-type">${escapeHtml(a.contentType)}</span>${link}</div>`;
+    let preview = '';
+    if (!fs.existsSync(a.path)) {
+      preview = '<p class="report-no-steps">File missing.</p>';
+    } else if (a.contentType.startsWith('image/')) {
+      preview = `<a href="${href}" target="_blank" rel="noopener"><img class="report-attachment-image" src="${href}" alt="${escapeHtml(a.name)}" /></a>`;
+    } else if (isTextContentType(a.contentType) && fs.statSync(a.path).size <= MAX_TEXT_PREVIEW) {
+      preview = `<pre class="report-attachment-text">${escapeHtml(fs.readFileSync(a.path, 'utf8'))}</pre>`;
+    }
+    return `
+        <div class="report-attachment">
+          ${header}
+          ${preview}
+        </div>`;
+  });
+  return `
+    <div class="report-section">
+      <div class="report-section-title">Attachments</div>
+      ${items.join('')}
+    </div>`;
+}
+
+/** Build HTML for the kept traces: download link plus the show-trace command to open each one. */
+function buildTraceHtml(files: string[], reportDir: string | undefined): string {
+  return `
+    <div class="report-section">
+      <div class="report-section-title">Trace</div>
+      ${files
+        .map((f) => {
+          const rel = path.relative(process.cwd(), f) || f;
+          return `
+      <div class="report-trace-row">
+        <a class="report-har-link" href="${escapeHtml(fileHref(f, reportDir))}" download>${escapeHtml(path.basename(f))}</a>
+        <code class="report-trace-command">npx cstesting show-trace ${escapeHtml(rel)}</code>
+      </div>`;
+        })
+        .join('')}
+    </div>`;
+}
+
+/** Build HTML for a step tree: step blocks are collapsible (failed ones start open), browser actions are plain rows. */
+function buildStepTreeHtml(steps: TestStep[]): string {
+  return steps
+    .map((s) => {
+      const failed = s.status === 'failed';
+      const row = `
+          <span class="report-step-icon report-step-${s.status}">${failed ? '✗' : '✓'}</span>
+          <span class="report-step-title${s.category === 'action' ? ' report-step-action' : ''}">${escapeHtml(s.title)}</span>
+          <span class="report-step-duration">${formatDuration(s.duration)}</span>`;
+      const error = s.error ? `<pre class="report-step-error">${escapeHtml(s.error)}</pre>` : '';
+      if (!s.steps || s.steps.length === 0) {
+        return `
+        <div class="report-step-row">${row}</div>${error}`;
+      }
+      return `
+        <details class="report-step-node"${failed ? ' open' : ''}>
+          <summary class="report-step-row">${row}</summary>
+          ${error}
+          <div class="report-step-children">${buildStepTreeHtml(s.steps)}</div>
+        </details>`;
+    })
+    .join('');
 }
 
 /** Build searchable text for a test (file + suite + test + tags). */
@@ -62,15 +207,22 @@ function testSearchText(row: TestRow): string {
 }
 
 /** Build HTML for one test row (list item + expandable details). */
-function buildTestRowHtml(row: TestRow, index: number): string {
+function buildTestRowHtml(row: TestRow, index: number, reportDir?: string): string {
   const durationStr = formatDuration(row.duration);
-  const statusLabel = row.status === 'pass' ? 'Passed' : row.status === 'fail' ? 'Failed' : 'Skipped';
+  const statusLabel = STATUS_LABELS[row.status];
   const searchText = escapeHtml(testSearchText(row));
   const description = `${escapeHtml(row.suite)} ${row.suite && row.test ? '›' : ''} ${escapeHtml(row.test)}`.trim();
 
   const hasSteps = row.steps && row.steps.length > 0;
   const failedIdx = row.failedStepIndex;
-  const stepsHtml = hasSteps
+  const stepsHtml = row.stepTree && row.stepTree.length > 0
+    ? `
+    <div class="report-section">
+      <div class="report-section-title">Steps</div>
+      <div class="report-steps-list report-step-tree">${buildStepTreeHtml(row.stepTree)}
+      </div>
+    </div>`
+    : hasSteps
     ? `
     <div class="report-section">
       <div class="report-section-title">Steps</div>
@@ -94,6 +246,8 @@ function buildTestRowHtml(row: TestRow, index: number): string {
       <p class="report-no-steps">No steps recorded. Use <code>step('name')</code> in your test to record steps.</p>
     </div>`;
 
+  // Set by toMatchImageSnapshot / assertScreenshot failures
+  const images = (row.error as { images?: ImageComparison } | undefined)?.images;
   const errorBlock =
     row.error !== undefined
       ? `<div class="report-section report-error-section">
@@ -101,11 +255,18 @@ function buildTestRowHtml(row: TestRow, index: number): string {
         <div class="report-error-content">
           <pre class="report-error-message">${escapeHtml(row.error.message)}</pre>
           ${row.error.stack ? `<pre class="report-error-stack">${escapeHtml(row.error.stack)}</pre>` : ''}
+          ${images ? buildImagesHtml(images) : ''}
+          ${row.screenshots && row.screenshots.length > 0 ? buildScreenshotsHtml(row.screenshots, reportDir) : ''}
           <button type="button" class="report-copy-btn" data-copy="error">Copy</button>
         </div>
       </div>`
       : '';
 
+  const attemptsHtml = row.attempts && row.attempts.length > 1 ? buildAttemptsHtml(row.attempts) : '';
+  const harHtml = row.har && row.har.length > 0 ? buildHarHtml(row.har, reportDir) : '';
+  const traceHtml = row.trace && row.trace.length > 0 ? buildTraceHtml(row.trace, reportDir) : '';
+  const attachmentsHtml = row.attachments && row.attachments.length > 0 ? buildAttachmentsHtml(row.attachments, reportDir) : '';
+
   const tagsHtml =
     row.tags && row.tags.length > 0
       ? `<div class="report-tags-row">${row.tags.map((t) => `<span class="report-tag">${escapeHtml(t)}</span>`).join('')}</div>`
@@ -130,18 +291,23 @@ function buildTestRowHtml(row: TestRow, index: number): string {
         <div class="report-test-details">
           ${stepsHtml}
           ${errorBlock}
+          ${attemptsHtml}
+          ${attachmentsHtml}
+          ${harHtml}
+          ${traceHtml}
         </div>
       </div>
     </div>`;
 }
 
 /** Build HTML for a file group (collapsible section with test list). */
-function buildFileGroupHtml(fileKey: string, fileLabel: string, tests: TestRow[], startIndex: number): string {
+function buildFileGroupHtml(fileKey: string, fileLabel: string, tests: TestRow[], startIndex: number, reportDir?: string): string {
   const count = tests.length;
   const passed = tests.filter((t) => t.status === 'pass').length;
   const failed = tests.filter((t) => t.status === 'fail').length;
   const skipped = tests.filter((t) => t.status === 'skip').length;
-  const testsHtml = tests.map((t, i) => buildTestRowHtml(t, startIndex + i)).join('');
+  const flaky = tests.filter((t) => t.status === 'flaky').length;
+  const testsHtml = tests.map((t, i) => buildTestRowHtml(t, startIndex + i, reportDir)).join('');
   const fileId = 'file-' + escapeHtml(fileKey).replace(/[^a-z0-9-]/gi, '_');
 
   return `
@@ -153,6 +319,7 @@ function buildFileGroupHtml(fileKey: string, fileLabel: string, tests: TestRow[]
       <span class="report-file-badges">
         ${passed > 0 ? `<span class="report-file-badge pass">✓ ${passed}</span>` : ''}
         ${failed > 0 ? `<span class="report-file-badge fail">× ${failed}</span>` : ''}
+        ${flaky > 0 ? `<span class="report-file-badge flaky">↻ ${flaky}</span>` : ''}
         ${skipped > 0 ? `<span class="report-file-badge skip">⊘ ${skipped}</span>` : ''}
       </span>
     </div>
@@ -162,9 +329,13 @@ function buildFileGroupHtml(fileKey: string, fileLabel: string, tests: TestRow[]
   </div>`;
 }
 
-export function generateHtmlReport(result: RunResult): string {
+/**
+ * @param reportDir - folder the report is written to; links to HAR files are made relative to it
+ */
+export function generateHtmlReport(result: RunResult, reportDir?: string): string {
   const title = 'CSTesting Report';
-  const passed = result.passed;
+  const flaky = result.flaky ?? 0;
+  const passed = result.passed - flaky;
   const failed = result.failed;
   const skipped = result.skipped;
   const total = result.total;
@@ -176,11 +347,16 @@ export function generateHtmlReport(result: RunResult): string {
     ...passedTests.map((t) => ({
       suite: t.suite,
       test: t.test,
-      status: 'pass' as Status,
+      status: (t.attempts?.some((a) => a.error) ? 'flaky' : 'pass') as Status,
       duration: t.duration,
       steps: t.steps,
       file: t.file,
       tags: t.tags,
+      attempts: t.attempts,
+      har: t.har,
+      trace: t.trace,
+      attachments: t.attachments,
+      stepTree: t.stepTree,
     })),
     ...errors.map((e) => ({
       suite: e.suite,
@@ -192,6 +368,12 @@ export function generateHtmlReport(result: RunResult): string {
       failedStepIndex: e.failedStepIndex,
       file: e.file,
       tags: e.tags,
+      attempts: e.attempts,
+      har: e.har,
+      trace: e.trace,
+      screenshots: e.screenshots,
+      attachments: e.attachments,
+      stepTree: e.stepTree,
     })),
     ...skippedTests.map((t) => ({
       suite: t.suite,
@@ -216,7 +398,7 @@ export function generateHtmlReport(result: RunResult): string {
   const fileGroupsHtml = Array.from(byFile.entries())
     .sort(([a], [b]) => a.localeCompare(b))
     .map(([fileKey, tests]) => {
-      const html = buildFileGroupHtml(fileKey, fileKey, tests, index);
+      const html = buildFileGroupHtml(fileKey, fileKey, tests, index, reportDir);
       index += tests.length;
       return html;
     })
@@ -253,6 +435,7 @@ export function generateHtmlReport(result: RunResult): string {
     .report-summary-item.passed { color: #22c55e; }
     .report-summary-item.failed { color: #ef4444; }
     .report-summary-item.skipped { color: #eab308; }
+    .report-summary-item.flaky { color: #f97316; }
     .report-meta { font-size: 12px; color: #64748b; margin-top: 4px; }
     .report-content { padding: 16px 24px 32px; }
     .report-file-group { margin-bottom: 8px; border-radius: 8px; background: #1e293b; overflow: hidden; border: 1px solid #334155; }
@@ -268,6 +451,7 @@ export function generateHtmlReport(result: RunResult): string {
     .report-file-badge.pass { background: rgba(34, 197, 94, 0.2); color: #22c55e; }
     .report-file-badge.fail { background: rgba(239, 68, 68, 0.2); color: #ef4444; }
     .report-file-badge.skip { background: rgba(234, 179, 8, 0.2); color: #eab308; }
+    .report-file-badge.flaky { background: rgba(249, 115, 22, 0.2); color: #f97316; }
     .report-file-tests { padding: 0 8px 8px; }
     .report-test-row { display: flex; align-items: flex-start; gap: 10px; margin-top: 8px; border-radius: 6px; background: #0f172a; border: 1px solid #334155; overflow: hidden; }
     .report-test-row.hidden { display: none !important; }
@@ -284,10 +468,12 @@ export function generateHtmlReport(result: RunResult): string {
     .report-status-badge.status-pass { background: rgba(34, 197, 94, 0.2); color: #22c55e; }
     .report-status-badge.status-fail { background: rgba(239, 68, 68, 0.2); color: #ef4444; }
     .report-status-badge.status-skip { background: rgba(234, 179, 8, 0.2); color: #eab308; }
+    .report-status-badge.status-flaky { background: rgba(249, 115, 22, 0.2); color: #f97316; }
     .report-dot { width: 10px; height: 10px; border-radius: 50%; flex-shrink: 0; margin: 14px 0 0 10px; }
     .report-dot.pass { background: #22c55e; }
     .report-dot.fail { background: #ef4444; }
     .report-dot.skip { background: #eab308; }
+    .report-dot.flaky { background: #f97316; }
     .report-tags-row { display: flex; flex-wrap: wrap; gap: 6px; padding: 0 14px 8px; }
     .report-tag { font-size: 11px; padding: 2px 8px; border-radius: 4px; background: #334155; color: #94a3b8; }
     .report-source { font-size: 11px; color: #64748b; padding: 0 14px 8px; font-family: ui-monospace, monospace; }
@@ -304,12 +490,41 @@ export function generateHtmlReport(result: RunResult): string {
     .report-step-passed { background: rgba(34, 197, 94, 0.2); color: #22c55e; }
     .report-step-failed { background: rgba(239, 68, 68, 0.2); color: #ef4444; }
     .report-step-skipped { background: rgba(100, 116, 139, 0.2); color: #94a3b8; }
+    .report-step-tree summary { cursor: pointer; list-style: none; }
+    .report-step-tree summary::-webkit-details-marker { display: none; }
+    .report-step-tree summary::before { content: '▶'; font-size: 9px; color: #64748b; transition: transform 0.15s; }
+    .report-step-tree details[open] > summary::before { transform: rotate(90deg); }
+    .report-step-tree .report-step-title { flex: 1; }
+    .report-step-tree div.report-step-row { padding-left: 31px; }
+    .report-step-action { font-family: ui-monospace, monospace; font-size: 12px; color: #94a3b8; }
+    .report-step-duration { font-size: 12px; color: #64748b; white-space: nowrap; }
+    .report-step-children { padding-left: 24px; border-bottom: 1px solid #1e293b; }
+    .report-step-error { margin: 0; padding: 6px 12px 10px 42px; font-size: 12px; white-space: pre-wrap; word-break: break-word; color: #fca5a5; font-family: ui-monospace, monospace; border-bottom: 1px solid #1e293b; }
     .report-step-skipped-label { font-size: 11px; color: #64748b; font-weight: normal; }
     .report-error-section .report-error-content { position: relative; border: 1px solid #7f1d1d; border-radius: 6px; background: rgba(127, 29, 29, 0.15); padding: 12px; }
     .report-error-message, .report-error-stack { margin: 0; font-size: 13px; white-space: pre-wrap; word-break: break-word; color: #fca5a5; font-family: ui-monospace, monospace; }
     .report-error-stack { margin-top: 8px; font-size: 12px; color: #94a3b8; }
+    .report-images { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 12px; }
+    .report-image { margin: 0; flex: 1 1 200px; min-width: 0; }
+    .report-image figcaption { font-size: 12px; color: #94a3b8; margin-bottom: 4px; }
+    .report-image img { max-width: 100%; border: 1px solid #334155; border-radius: 4px; background: #fff; }
+    .report-har-list { display: flex; flex-wrap: wrap; gap: 8px; }
+    .report-har-link { font-size: 13px; font-family: ui-monospace, monospace; color: #60a5fa; text-decoration: none; padding: 6px 10px; border: 1px solid #334155; border-radius: 6px; background: #0f172a; }
+    .report-har-link:hover { background: #1e293b; }
+    .report-attachment { margin-bottom: 12px; }
+    .report-attachment-header { display: flex; flex-wrap: wrap; align-items: center; gap: 10px; margin-bottom: 6px; }
+    .report-attachment-name { font-size: 13px; font-weight: 600; color: #e2e8f0; }
+    .report-attachment-type { font-size: 11px; color: #64748b; font-family: ui-monospace, monospace; }
+    .report-attachment-image { max-width: 100%; max-height: 360px; border: 1px solid #334155; border-radius: 6px; }
+    .report-attachment-text { margin: 0; max-height: 300px; overflow: auto; font-size: 12px; white-space: pre-wrap; word-break: break-word; color: #cbd5e1; background: #0f172a; border: 1px solid #334155; border-radius: 6px; padding: 8px 10px; font-family: ui-monospace, monospace; }
+    .report-trace-row { display: flex; flex-wrap: wrap; align-items: center; gap: 10px; margin-bottom: 8px; }
+    .report-trace-command { font-size: 12px; color: #cbd5e1; background: #0f172a; padding: 6px 10px; border-radius: 6px; user-select: all; }
     .report-copy-btn { margin-top: 8px; padding: 6px 12px; font-size: 12px; border-radius: 4px; border: 1px solid #475569; background: #1e293b; color: #e2e8f0; cursor: pointer; }
     .report-copy-btn:hover { background: #334155; }
+    .report-attempt-row { border-bottom: 1px solid #1e293b; }
+    .report-attempt-row:last-child { border-bottom: none; }
+    .report-attempt-row .report-step-row { border-bottom: none; }
+    .report-attempt-error { padding: 0 12px 10px 42px; font-size: 12px; }
     .report-no-steps { color: #64748b; font-size: 13px; margin: 0; padding: 12px; }
     .report-no-steps code { background: #1e293b; padding: 2px 6px; border-radius: 4px; font-size: 12px; }
     .report-empty-msg { color: #64748b; padding: 24px; text-align: center; }
@@ -326,7 +541,7 @@ export function generateHtmlReport(result: RunResult): string {
         <span class="report-summary-item all">All ${total}</span>
         <span class="report-summary-item passed">✓ Passed ${passed}</span>
         <span class="report-summary-item failed">× Failed ${failed}</span>
-        <span class="report-summary-item">Flaky 0</span>
+        <span class="report-summary-item flaky">↻ Flaky ${flaky}</span>
         <span class="report-summary-item skipped">Skipped ${skipped}</span>
       </div>
       <div class="report-meta">${escapeHtml(dateStr)} · Total time: ${totalTimeStr}</div>
@@ -421,7 +636,7 @@ export function writeReport(result: RunResult, options: ReportOptions = {}): str
     fs.mkdirSync(reportDir, { recursive: true });
   }
 
-  const html = generateHtmlReport(result);
+  const html = generateHtmlReport(result, reportDir);
   fs.writeFileSync(reportPath, html, 'utf8');
   return reportPath;
 }
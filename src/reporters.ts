@@ -0,0 +1,203 @@
+/**
+ * Reporters: write a RunResult to report/ in one or more formats.
+ * Built-in: html (report.html), junit (junit.xml), json (results.json). Add more with registerReporter().
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import type { Attachment, RunResult, TestAttempt } from './types';
+import { writeReport } from './report';
+import { serializeRunResult, type SerializedAttempt, type SerializedError } from './parallel';
+import { formatValue } from './diff';
+
+export interface ReporterOptions {
+  cwd?: string;
+  reportDir?: string;
+}
+
+export interface Reporter {
+  /** Name used with --reporter (e.g. 'junit'). */
+  name: string;
+  /** Write the report and return the path of the written file. */
+  write(result: RunResult, options: ReporterOptions): string;
+}
+
+const reporters = new Map<string, Reporter>();
+
+export function registerReporter(reporter: Reporter): void {
+  reporters.set(reporter.name, reporter);
+}
+
+export function getReporterNames(): string[] {
+  return Array.from(reporters.keys());
+}
+
+function resolveReportPath(options: ReporterOptions, filename: string): string {
+  const reportDir = path.resolve(options.cwd ?? process.cwd(), options.reportDir ?? 'report');
+  if (!fs.existsSync(reportDir)) {
+    fs.mkdirSync(reportDir, { recursive: true });
+  }
+  return path.join(reportDir, filename);
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function seconds(ms: number | undefined): string {
+  return ((ms ?? 0) / 1000).toFixed(3);
+}
+
+interface JUnitCase {
+  suite: string;
+  test: string;
+  duration?: number;
+  steps?: string[];
+  tags?: string[];
+  attempts?: TestAttempt[];
+  attachments?: Attachment[];
+  error?: Error;
+  skipped?: boolean;
+}
+
+function buildJUnitCase(c: JUnitCase): string {
+  const lines: string[] = [];
+  const attrs = `name="${escapeXml(c.test)}" classname="${escapeXml(c.suite)}" time="${seconds(c.duration)}"`;
+  if (c.skipped) lines.push('      <skipped/>');
+  if (c.error) {
+    lines.push(
+      `      <failure message="${escapeXml(c.error.message)}" type="${escapeXml(c.error.name)}">${escapeXml(c.error.stack || c.error.message)}</failure>`
+    );
+  }
+  // Surefire-style retry history: earlier failed attempts of a passed (flaky) or failed test
+  const failedAttempts = (c.attempts ?? []).slice(0, -1).filter((a) => a.error);
+  const retryTag = c.error ? 'rerunFailure' : 'flakyFailure';
+  for (const a of failedAttempts) {
+    lines.push(
+      `      <${retryTag} message="${escapeXml(a.error!.message)}" type="${escapeXml(a.error!.name)}">${escapeXml(a.error!.stack || a.error!.message)}</${retryTag}>`
+    );
+  }
+  if (c.tags && c.tags.length > 0) {
+    lines.push('      <properties>');
+    for (const t of c.tags) lines.push(`        <property name="tag" value="${escapeXml(t)}"/>`);
+    lines.push('      </properties>');
+  }
+  // Attachments use the [[ATTACHMENT|path]] lines read by the Jenkins JUnit attachments plugin
+  const out = [
+    ...(c.steps ?? []).map((s, i) => `${i + 1}. ${s}`),
+    ...(c.attachments ?? []).map((a) => `[[ATTACHMENT|${a.path}]]`),
+  ];
+  if (out.length > 0) {
+    lines.push(`      <system-out>${escapeXml(out.join('\n'))}</system-out>`);
+  }
+  return lines.length > 0
+    ? `    <testcase ${attrs}>\n${lines.join('\n')}\n    </testcase>`
+    : `    <testcase ${attrs}/>`;
+}
+
+/** JUnit XML: one <testsuite> per file, one <testcase> per test; steps and attachment paths go to <system-out>. */
+export function generateJUnitReport(result: RunResult): string {
+  const byFile = new Map<string, JUnitCase[]>();
+  const add = (file: string | undefined, c: JUnitCase) => {
+    const key = file ?? '(no file)';
+    if (!byFile.has(key)) byFile.set(key, []);
+    byFile.get(key)!.push(c);
+  };
+  for (const t of result.passedTests) add(t.file, t);
+  for (const e of result.errors) add(e.file, e);
+  for (const t of result.skippedTests) add(t.file, { ...t, skipped: true });
+
+  const suites = Array.from(byFile.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([file, cases]) => {
+      const failures = cases.filter((c) => c.error).length;
+      const skipped = cases.filter((c) => c.skipped).length;
+      const time = cases.reduce((sum, c) => sum + (c.duration ?? 0), 0);
+      return [
+        `  <testsuite name="${escapeXml(file)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(time)}">`,
+        ...cases.map(buildJUnitCase),
+        '  </testsuite>',
+      ].join('\n');
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="CSTesting" tests="${result.total}" failures="${result.failed}" errors="0" skipped="${result.skipped}" time="${seconds(result.duration)}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/** A value JSON cannot hold (a BigInt, a circular object) as its formatted text, as in the failure message. */
+function toJsonValue(value: unknown): unknown {
+  try {
+    JSON.stringify(value);
+    return value;
+  } catch {
+    return formatValue(value);
+  }
+}
+
+function toJsonError(error: SerializedError): SerializedError {
+  return { ...error, expected: toJsonValue(error.expected), actual: toJsonValue(error.actual) };
+}
+
+function toJsonAttempts(attempts: SerializedAttempt[] | undefined): SerializedAttempt[] | undefined {
+  return attempts?.map((a) => ({ ...a, error: a.error ? toJsonError(a.error) : undefined }));
+}
+
+/** JSON: the full RunResult (errors as { name, message, stack, expected, actual }). */
+export function generateJsonReport(result: RunResult): string {
+  const data = serializeRunResult(result);
+  return JSON.stringify({
+    ...data,
+    errors: data.errors.map((e) => ({ ...e, error: toJsonError(e.error), attempts: toJsonAttempts(e.attempts) })),
+    passedTests: data.passedTests.map((t) => ({ ...t, attempts: toJsonAttempts(t.attempts) })),
+    skippedTests: data.skippedTests.map((t) => ({ ...t, attempts: toJsonAttempts(t.attempts) })),
+  }, null, 2) + '\n';
+}
+
+registerReporter({
+  name: 'html',
+  write: (result, options) => writeReport(result, { ...options, filename: 'report.html' }),
+});
+
+registerReporter({
+  name: 'junit',
+  write: (result, options) => {
+    const reportPath = resolveReportPath(options, 'junit.xml');
+    fs.writeFileSync(reportPath, generateJUnitReport(result), 'utf8');
+    return reportPath;
+  },
+});
+
+registerReporter({
+  name: 'json',
+  write: (result, options) => {
+    const reportPath = resolveReportPath(options, 'results.json');
+    fs.writeFileSync(reportPath, generateJsonReport(result), 'utf8');
+    return reportPath;
+  },
+});
+
+/** Check reporter names (e.g. from --reporter). Throws with the list of known reporters for unknown names. */
+export function validateReporters(names: string[]): void {
+  const unknown = names.filter((n) => !reporters.has(n));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown reporter: ${unknown.join(', ')} (available: ${getReporterNames().join(', ')})`);
+  }
+}
+
+/** Write the result with each named reporter. Returns the written file paths in the same order. */
+export function writeReports(result: RunResult, names: string[], options: ReporterOptions = {}): string[] {
+  validateReporters(names);
+  return names.map((name) => reporters.get(name)!.write(result, options));
+}
@@ -3,8 +3,16 @@
  * Runs suites and tests, collects results.
  */
 
-import type { TestCase, TestSuite, RunResult, TestFn, HookFn, TestTagOptions } from './types';
+import type { TestCase, TestSuite, RunResult, TestFn, HookFn, TestTagOptions, TestAttempt, Attachment, TestStep } from './types';
 import { AssertionError } from './assertions';
+import { startSnapshotFile, setSnapshotTest, endSnapshotTest, finishSnapshotFile } from './snapshot';
+import { startHarCapture, finishHarCapture, testHarPath } from './browser/har-recorder';
+import { captureFailureScreenshots } from './browser/failure-screenshot';
+import { finishPageLogCapture, startPageLogCapture, takePageLogFailure } from './browser/page-log';
+import { saveAttachment } from './attachments';
+import { setReportDir } from './artifacts';
+import { finishStepCapture, recordStep, runStep, startStepCapture } from './steps';
+import { finishTestTrace, startTestTrace, tracePathFor, type TraceMode } from './trace';
 
 let rootSuite: TestSuite = makeSuite('root');
 let currentSuite: TestSuite = rootSuite;
@@ -13,18 +21,63 @@ let hasOnly = false;
 /** Tags filter for this run (e.g. ['smoke','regression']). Empty = run all. Set by run({ tags }). */
 let runTagFilter: string[] = [];
 
+/** Default timeout in ms for each test and hook when none is set on the test or suite. */
+export const DEFAULT_TIMEOUT = 30000;
+
+/** Timeout for this run. Set by run({ timeout }). */
+let runTimeout = DEFAULT_TIMEOUT;
+
+/** Retries for this run when not set on the test or suite. Set by run({ retries }). */
+let runRetries = 0;
+
+/** Record a HAR file for every test in this run. Set by run({ har }). */
+let runHar = false;
+
+/** Screenshot the open browsers when a test fails. Set by run({ screenshotOnFailure }). */
+let runScreenshotOnFailure = true;
+
+/** Trace the browser actions of every test. Set by run({ trace }). */
+let runTrace: TraceMode = 'off';
+
+/** Full names of the tests to run (others are skipped); null = all. Set by run({ testNames }). */
+let runTestNames: Set<string> | null = null;
+
 /** Steps recorded during the current test (for report). Cleared before each test. */
 let currentSteps: string[] = [];
 
-export function step(name: string): void {
+/**
+ * Record a step of the current test. With a function, runs it as a step block: its duration, status and error
+ * are recorded, and steps and browser actions inside it are nested under it in the report.
+ * Example: await step('Login', async () => { await browser.type('#user', 'ada'); await browser.click('#submit'); });
+ */
+export function step(name: string): void;
+export function step<T>(name: string, fn: () => T | Promise<T>): Promise<T>;
+export function step<T>(name: string, fn?: () => T | Promise<T>): void | Promise<T> {
   currentSteps.push(name);
+  if (fn) return runStep(name, fn);
+  recordStep(name);
 }
 
 export function getCurrentSteps(): string[] {
   return currentSteps.slice();
 }
 
-function makeSuite(name: string, tags?: string[]): TestSuite {
+/** Attachments of the current test (for report) and the file names they use. Cleared before each attempt. */
+let currentAttachments: Attachment[] = [];
+let attachmentFiles = new Set<string>();
+/** Full name of the running test, used to name its attachment files. */
+let currentTestName = '';
+
+/**
+ * Attach a file to the current test: shown in the HTML report and listed in the JSON and JUnit outputs.
+ * @param body - content (e.g. Buffer.from(JSON.stringify(payload))) or the path of a file to copy
+ * @param contentType - e.g. 'application/json'; defaults to the type of the file's extension
+ */
+export function attach(name: string, body: Buffer | string, contentType?: string): void {
+  currentAttachments.push(saveAttachment(currentTestName, name, body, contentType, attachmentFiles));
+}
+
+function makeSuite(name: string, opts?: TestTagOptions): TestSuite {
   return {
     name,
     suites: [],
@@ -35,7 +88,10 @@ function makeSuite(name: string, tags?: string[]): TestSuite {
     afterEach: [],
     only: false,
     skip: false,
-    tags,
+    tags: opts?.tags,
+    timeout: opts?.timeout,
+    retries: opts?.retries,
+    har: opts?.har,
   };
 }
 
@@ -44,6 +100,12 @@ function resetRunner(): void {
   currentSuite = rootSuite;
   hasOnly = false;
   runTagFilter = [];
+  runTimeout = DEFAULT_TIMEOUT;
+  runRetries = 0;
+  runHar = false;
+  runScreenshotOnFailure = true;
+  runTrace = 'off';
+  runTestNames = null;
 }
 
 export function describe(name: string, fn: () => void): void;
@@ -52,7 +114,7 @@ export function describe(name: string, optionsOrFn: TestTagOptions | (() => void
   const opts = fn !== undefined ? (optionsOrFn as TestTagOptions) : undefined;
   const runFn = typeof fn === 'function' ? fn : (optionsOrFn as () => void);
   const parent = currentSuite;
-  const suite = makeSuite(name, opts?.tags);
+  const suite = makeSuite(name, opts);
   parent.suites.push(suite);
   currentSuite = suite;
   runFn();
@@ -85,7 +147,7 @@ export function it(name: string, options: TestTagOptions, fn: TestFn): void;
 export function it(name: string, optionsOrFn: TestTagOptions | TestFn, fn?: TestFn): void {
   const opts = fn !== undefined ? (optionsOrFn as TestTagOptions) : undefined;
   const runFn = typeof (fn ?? optionsOrFn) === 'function' ? (fn ?? optionsOrFn) as TestFn : (optionsOrFn as TestFn);
-  currentSuite.tests.push({ name, fn: runFn, only: false, skip: false, tags: opts?.tags });
+  currentSuite.tests.push({ name, fn: runFn, only: false, skip: false, tags: opts?.tags, timeout: opts?.timeout, retries: opts?.retries, har: opts?.har });
 }
 
 it.only = function itOnly(name: string, fn: TestFn): void {
@@ -113,12 +175,100 @@ export function afterEach(fn: HookFn): void {
   currentSuite.afterEach.push(fn);
 }
 
-async function runHooks(hooks: HookFn[]): Promise<void> {
+/** Run fn; reject with `message` if it does not settle within ms (0 = wait forever). */
+async function withTimeout(fn: () => void | Promise<void>, ms: number, message: string): Promise<void> {
+  if (!ms || ms <= 0) {
+    await Promise.resolve(fn());
+    return;
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  try {
+    await Promise.race([Promise.resolve().then(fn), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+type HookName = 'beforeAll' | 'afterAll' | 'beforeEach' | 'afterEach';
+
+async function runHooks(hooks: HookFn[], name: HookName, timeout: number): Promise<void> {
   for (const hook of hooks) {
-    await Promise.resolve(hook());
+    await withTimeout(hook, timeout, `"${name}" hook timed out after ${timeout}ms`);
   }
 }
 
+/** Timeout for a test or hook: test's own, else nearest suite's, else the run timeout. */
+function getEffectiveTimeout(suitePath: TestSuite[], test?: TestCase): number {
+  if (test?.timeout !== undefined) return test.timeout;
+  for (let i = suitePath.length - 1; i >= 0; i--) {
+    if (suitePath[i].timeout !== undefined) return suitePath[i].timeout!;
+  }
+  return runTimeout;
+}
+
+/** Retries for a test: test's own, else nearest suite's, else the run retries. */
+function getEffectiveRetries(suitePath: TestSuite[], test: TestCase): number {
+  if (test.retries !== undefined) return test.retries;
+  for (let i = suitePath.length - 1; i >= 0; i--) {
+    if (suitePath[i].retries !== undefined) return suitePath[i].retries!;
+  }
+  return runRetries;
+}
+
+/** HAR recording for a test: test's own setting, else nearest suite's, else the run setting. */
+function getEffectiveHar(suitePath: TestSuite[], test: TestCase): boolean {
+  if (test.har !== undefined) return test.har;
+  for (let i = suitePath.length - 1; i >= 0; i--) {
+    if (suitePath[i].har !== undefined) return suitePath[i].har!;
+  }
+  return runHar;
+}
+
+/**
+ * Run beforeEach, the test and afterEach once. Returns the first error, if any.
+ * @param screenshotName - when set, a failing test screenshots the open browsers before afterEach can close them
+ */
+async function runTestAttempt(
+  suite: TestSuite,
+  test: TestCase,
+  timeout: number,
+  screenshotName?: string
+): Promise<{ failed: boolean; error?: unknown; screenshots?: string[] }> {
+  let error: unknown;
+  let failed = false;
+  let screenshots: string[] | undefined;
+  try {
+    await runHooks(suite.beforeEach, 'beforeEach', timeout);
+    await withTimeout(test.fn, timeout, `Test timed out after ${timeout}ms`);
+    // Browsers created with failOnConsoleError fail the test for uncaught exceptions in the page
+    const pageError = takePageLogFailure();
+    if (pageError) throw pageError;
+  } catch (err) {
+    error = err;
+    failed = true;
+    if (screenshotName) screenshots = await captureFailureScreenshots(screenshotName);
+  }
+  try {
+    await runHooks(suite.afterEach, 'afterEach', timeout);
+    // Page errors thrown while afterEach still used the page (e.g. a logout click) fail the test too
+    const pageError = takePageLogFailure();
+    if (pageError) throw pageError;
+  } catch (err) {
+    if (!failed) {
+      error = err;
+      failed = true;
+    }
+  }
+  return { failed, error, screenshots };
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
 function shouldRunSuite(suite: TestSuite): boolean {
   if (suite.skip) return false;
   if (hasOnly && !suite.only && !suiteHasOnly(suite)) return false;
@@ -158,15 +308,46 @@ async function runSuite(
 
   const fullPath = path ? `${path} > ${suite.name}` : suite.name;
   const nextSuitePath = [...suitePath, suite];
+  const suiteTimeout = getEffectiveTimeout(nextSuitePath);
 
-  await runHooks(suite.beforeAll);
+  // A failing beforeAll/afterAll is reported as its own failed entry; the run continues with the next suite.
+  const recordHookFailure = (name: HookName, err: unknown, hookStart: number) => {
+    result.failed++;
+    result.total++;
+    result.errors.push({
+      suite: fullPath,
+      test: `"${name}" hook`,
+      error: toError(err),
+      duration: Date.now() - hookStart,
+      file: currentRunFile,
+    });
+  };
+
+  const runAfterAll = async () => {
+    const afterAllStart = Date.now();
+    try {
+      await runHooks(suite.afterAll, 'afterAll', suiteTimeout);
+    } catch (err) {
+      recordHookFailure('afterAll', err, afterAllStart);
+    }
+  };
+
+  const beforeAllStart = Date.now();
+  try {
+    await runHooks(suite.beforeAll, 'beforeAll', suiteTimeout);
+  } catch (err) {
+    // Tests in this suite are not run; afterAll still runs so resources can be cleaned up.
+    recordHookFailure('beforeAll', err, beforeAllStart);
+    await runAfterAll();
+    return;
+  }
 
   for (const test of suite.tests) {
     const effectiveTags = getEffectiveTags(nextSuitePath, test);
     const tagMatch = testMatchesTagFilter(effectiveTags);
-    const runTest = !test.skip && (!hasOnly || test.only) && tagMatch;
+    const nameMatch = !runTestNames || runTestNames.has(`${fullPath} > ${test.name}`);
+    const runTest = !test.skip && (!hasOnly || test.only) && tagMatch && nameMatch;
     currentSteps = [];
-    const testStart = Date.now();
 
     if (!runTest) {
       result.skipped++;
@@ -183,32 +364,96 @@ async function runSuite(
     }
 
     result.total++;
-    currentSteps.push('Test case started');
-    try {
-      await runHooks(suite.beforeEach);
-      await Promise.resolve(test.fn());
-      await runHooks(suite.afterEach);
+    const timeout = getEffectiveTimeout(nextSuitePath, test);
+    const retries = getEffectiveRetries(nextSuitePath, test);
+    const harPath = getEffectiveHar(nextSuitePath, test)
+      ? testHarPath(`${currentRunFile ?? ''} ${fullPath} ${test.name}`)
+      : undefined;
+    const attempts: TestAttempt[] = [];
+    let outcome: { failed: boolean; error?: unknown; screenshots?: string[] } = { failed: false };
+    let harFiles: string[] = [];
+    const traceFiles: string[] = [];
+    let stepTree: TestStep[] = [];
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      currentSteps = [attempt === 0 ? 'Test case started' : `Retry #${attempt}`];
+      currentTestName = `${currentRunFile ?? ''} ${fullPath} ${test.name}`;
+      currentAttachments = [];
+      attachmentFiles = new Set();
+      startStepCapture();
+      startPageLogCapture();
+      setSnapshotTest(`${fullPath} > ${test.name}`);
+      const attemptStart = Date.now();
+      // Each attempt overwrites the HAR file: the report shows the traffic of the last one
+      startHarCapture(harPath);
+      startTestTrace(runTrace !== 'off' ? `${fullPath} › ${test.name}` : undefined);
+      outcome = await runTestAttempt(
+        suite,
+        test,
+        timeout,
+        runScreenshotOnFailure ? currentTestName : undefined
+      );
+      stepTree = finishStepCapture();
+      const pageLog = finishPageLogCapture();
+      if (pageLog.length > 0) {
+        currentAttachments.push(saveAttachment(currentTestName, 'console', Buffer.from(pageLog.join('\n') + '\n'), 'text/plain', attachmentFiles));
+      }
+      harFiles = await finishHarCapture().catch((err) => {
+        console.error(`Could not write HAR file ${harPath}: ${toError(err).message}`);
+        return [];
+      });
+      // Every attempt that ran a browser action keeps its trace with "on"; only failed ones with "retain-on-failure"
+      const tracer = finishTestTrace();
+      if (tracer && (runTrace === 'on' || outcome.failed)) {
+        const tracePath = tracePathFor(`${currentTestName}${attempt > 0 ? ` retry${attempt}` : ''}`);
+        try {
+          traceFiles.push(tracer.save(tracePath));
+        } catch (err) {
+          console.error(`Could not write trace ${tracePath}: ${toError(err).message}`);
+        }
+      }
+      attempts.push({
+        error: outcome.failed ? toError(outcome.error) : undefined,
+        duration: Date.now() - attemptStart,
+        steps: currentSteps.slice(),
+      });
+      if (!outcome.failed) break;
+    }
+    endSnapshotTest(!outcome.failed);
+    // Duration and steps of the entry are those of the last attempt; attempts keeps the full history.
+    const last = attempts[attempts.length - 1];
+    const history = attempts.length > 1 ? attempts : undefined;
+    if (!outcome.failed) {
       result.passed++;
+      if (history) result.flaky = (result.flaky ?? 0) + 1;
       result.passedTests.push({
         suite: fullPath,
         test: test.name,
-        duration: Date.now() - testStart,
-        steps: currentSteps.length ? currentSteps.slice() : undefined,
+        duration: last.duration,
+        steps: last.steps,
         file: currentRunFile,
         tags: effectiveTags.length ? effectiveTags : undefined,
+        attempts: history,
+        har: harFiles.length ? harFiles : undefined,
+        trace: traceFiles.length ? traceFiles : undefined,
+        attachments: currentAttachments.length ? currentAttachments : undefined,
+        stepTree: stepTree.length ? stepTree : undefined,
       });
-    } catch (err) {
-      const duration = Date.now() - testStart;
-      await runHooks(suite.afterEach).catch(() => {});
+    } else {
       result.failed++;
       result.errors.push({
         suite: fullPath,
         test: test.name,
-        error: err instanceof Error ? err : new Error(String(err)),
-        duration,
-        steps: currentSteps.length ? currentSteps.slice() : undefined,
+        error: last.error!,
+        duration: last.duration,
+        steps: last.steps,
         file: currentRunFile,
         tags: effectiveTags.length ? effectiveTags : undefined,
+        attempts: history,
+        har: harFiles.length ? harFiles : undefined,
+        trace: traceFiles.length ? traceFiles : undefined,
+        screenshots: outcome.screenshots?.length ? outcome.screenshots : undefined,
+        attachments: currentAttachments.length ? currentAttachments : undefined,
+        stepTree: stepTree.length ? stepTree : undefined,
       });
     }
   }
@@ -217,7 +462,7 @@ async function runSuite(
     await runSuite(child, fullPath, nextSuitePath, result, startTime);
   }
 
-  await runHooks(suite.afterAll);
+  await runAfterAll();
 }
 
 export interface RunOptions {
@@ -225,6 +470,32 @@ export interface RunOptions {
   tags?: string[];
   /** Source file path for report grouping (e.g. relative path from CLI). */
   file?: string;
+  /** Default timeout in ms for each test and hook (default 30000). 0 = no timeout. */
+  timeout?: number;
+  /** Default number of retries for a failing test (default 0). */
+  retries?: number;
+  /** Overwrite snapshots that do not match and delete obsolete ones. */
+  updateSnapshots?: boolean;
+  /** CI mode: new snapshots are not written and fail the test. */
+  ci?: boolean;
+  /** Record a HAR file of the browser traffic of every test (report/har/). */
+  har?: boolean;
+  /** Screenshot the open browsers when a test fails (report/attachments/). Default true. */
+  screenshotOnFailure?: boolean;
+  /** Record a trace of the browser actions of every test (report/traces/): 'on', or 'retain-on-failure' for failed attempts only. Default 'off'. */
+  trace?: TraceMode;
+  /** Run only these tests, by full name ("root > suite > test", see getTestNames()); the others are skipped. */
+  testNames?: string[];
+  /** Directory for HAR files, traces, failure screenshots and attachments (default report/; pass the same to writeReports). */
+  reportDir?: string;
+}
+
+/** Full names ("suite > test", as used for snapshot keys) of every test declared under suite. */
+function collectTestNames(suite: TestSuite, path: string, out: string[] = []): string[] {
+  const fullPath = path ? `${path} > ${suite.name}` : suite.name;
+  for (const test of suite.tests) out.push(`${fullPath} > ${test.name}`);
+  for (const child of suite.suites) collectTestNames(child, fullPath, out);
+  return out;
 }
 
 let currentRunFile: string | undefined;
@@ -232,6 +503,13 @@ let currentRunFile: string | undefined;
 export async function run(options?: RunOptions): Promise<RunResult> {
   runTagFilter = options?.tags ?? [];
   currentRunFile = options?.file;
+  runTimeout = options?.timeout ?? DEFAULT_TIMEOUT;
+  runRetries = options?.retries ?? 0;
+  runHar = options?.har ?? false;
+  runScreenshotOnFailure = options?.screenshotOnFailure ?? true;
+  runTrace = options?.trace ?? 'off';
+  runTestNames = options?.testNames ? new Set(options.testNames) : null;
+  if (options?.reportDir) setReportDir(options.reportDir);
   const result: RunResult = {
     passed: 0,
     failed: 0,
@@ -243,11 +521,26 @@ export async function run(options?: RunOptions): Promise<RunResult> {
     skippedTests: [],
   };
   const start = Date.now();
+  startSnapshotFile(options?.file, { update: options?.updateSnapshots, ci: options?.ci });
   await runSuite(rootSuite, '', [], result, start);
+  try {
+    const snapshots = finishSnapshotFile(collectTestNames(rootSuite, ''));
+    if (snapshots) result.snapshots = snapshots;
+  } catch (err) {
+    // Writing snapshot files failed: report it like a failed hook so the run still completes
+    result.failed++;
+    result.total++;
+    result.errors.push({ suite: currentRunFile ?? rootSuite.name, test: '(snapshots)', error: toError(err), file: currentRunFile });
+  }
   result.duration = Date.now() - start;
   return result;
 }
 
+/** Full names of the tests declared in the loaded file ("root > suite > test", as in RunResult suite and test). */
+export function getTestNames(): string[] {
+  return collectTestNames(rootSuite, '');
+}
+
 export function getRootSuite(): TestSuite {
   return rootSuite;
 }
@@ -0,0 +1,366 @@
+/**
+ * Snapshot testing: toMatchSnapshot() stores values in __snapshots__/<test file>.snap next to the test file,
+ * toMatchInlineSnapshot() writes them into the test source, toMatchImageSnapshot() keeps PNG baselines in
+ * __snapshots__/<test file>-images/ (see image-snapshot.ts). The runner opens the snapshot state for each test
+ * file (startSnapshotFile), names the running test (setSnapshotTest) and writes changes at the end (finishSnapshotFile).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import type { MatcherResult } from './assertions';
+import type { ImageComparison, SnapshotSummary } from './types';
+import { formatValue } from './diff';
+import { compareWithBaseline, imageFileName, type ImageSnapshotOptions } from './image-snapshot';
+
+export interface SnapshotOptions {
+  /** Overwrite snapshots that do not match and delete obsolete ones (--update-snapshots). */
+  update?: boolean;
+  /** Do not write new snapshots; a missing snapshot fails the test (--ci). */
+  ci?: boolean;
+}
+
+interface InlineEdit {
+  file: string;
+  line: number;
+  column: number;
+  value: string;
+}
+
+interface SnapshotFileState {
+  /** Undefined when run() was called without a file (only inline snapshots work then). */
+  snapPath?: string;
+  options: SnapshotOptions;
+  /** Snapshots as stored on disk, then as they will be written. */
+  entries: Map<string, string>;
+  /** Why the .snap file could not be read: its tests' toMatchSnapshot() fail with this and the file is left alone. */
+  readError?: string;
+  checked: Set<string>;
+  dirty: boolean;
+  /** Full name of the running test ("suite > test"). */
+  currentTest?: string;
+  /** Tests that ran and passed (their unchecked snapshots are obsolete). */
+  passedTests: Set<string>;
+  counters: Map<string, number>;
+  inlineEdits: Map<string, InlineEdit>;
+  summary: SnapshotSummary;
+}
+
+let state: SnapshotFileState | null = null;
+
+export function emptySnapshotSummary(): SnapshotSummary {
+  return { matched: 0, unmatched: 0, added: 0, updated: 0, unwritten: 0, obsolete: [], removed: 0 };
+}
+
+/** Strings are stored as-is (readable HTML and text); everything else in the same format as assertion diffs. */
+export function serializeSnapshot(value: unknown): string {
+  return typeof value === 'string' ? value : formatValue(value);
+}
+
+function escapeTemplate(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+}
+
+export function snapshotPathFor(testFile: string): string {
+  return path.join(path.dirname(testFile), '__snapshots__', `${path.basename(testFile)}.snap`);
+}
+
+function readSnapshotFile(snapPath: string): Map<string, string> {
+  const entries = new Map<string, string>();
+  if (!fs.existsSync(snapPath)) return entries;
+  const exportsObj: Record<string, string> = {};
+  try {
+    vm.runInNewContext(fs.readFileSync(snapPath, 'utf8'), { exports: exportsObj }, { filename: snapPath });
+  } catch (err) {
+    throw new Error(`Could not read snapshot file ${snapPath}: ${err instanceof Error ? err.message : err}. Fix or delete the file.`);
+  }
+  for (const [key, value] of Object.entries(exportsObj)) {
+    // Values are written with a newline after the opening and before the closing backtick
+    entries.set(key, String(value).replace(/^\n/, '').replace(/\n$/, ''));
+  }
+  return entries;
+}
+
+function writeSnapshotFile(snapPath: string, entries: Map<string, string>): void {
+  if (entries.size === 0) {
+    if (fs.existsSync(snapPath)) fs.unlinkSync(snapPath);
+    return;
+  }
+  const keys = Array.from(entries.keys()).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const body = keys.map((k) => `exports[\`${escapeTemplate(k)}\`] = \`\n${escapeTemplate(entries.get(k)!)}\n\`;\n`);
+  fs.mkdirSync(path.dirname(snapPath), { recursive: true });
+  fs.writeFileSync(snapPath, `// CSTesting snapshot file. Update with: cstesting --update-snapshots\n\n${body.join('\n')}`, 'utf8');
+}
+
+/** Called by the runner before the tests of a file run. testFile may be relative to the working directory. */
+export function startSnapshotFile(testFile: string | undefined, options: SnapshotOptions = {}): void {
+  const snapPath = testFile ? snapshotPathFor(path.resolve(testFile)) : undefined;
+  let entries = new Map<string, string>();
+  let readError: string | undefined;
+  try {
+    if (snapPath) entries = readSnapshotFile(snapPath);
+  } catch (err) {
+    readError = err instanceof Error ? err.message : String(err);
+  }
+  state = {
+    snapPath,
+    options,
+    entries,
+    readError,
+    checked: new Set(),
+    dirty: false,
+    passedTests: new Set(),
+    counters: new Map(),
+    inlineEdits: new Map(),
+    summary: emptySnapshotSummary(),
+  };
+}
+
+/** Called by the runner at the start of each test attempt (numbering restarts on retry). */
+export function setSnapshotTest(fullName: string): void {
+  if (!state) return;
+  state.currentTest = fullName;
+  state.counters.clear();
+}
+
+/** Called by the runner after the last attempt. A failed test may not have reached all its snapshots, so none of them count as obsolete. */
+export function endSnapshotTest(passed: boolean): void {
+  if (!state) return;
+  if (passed && state.currentTest) state.passedTests.add(state.currentTest);
+  state.currentTest = undefined;
+}
+
+function requireState(matcher: string): SnapshotFileState & { currentTest: string } {
+  if (!state || !state.currentTest) {
+    throw new Error(`${matcher}() can only be used inside a test`);
+  }
+  return state as SnapshotFileState & { currentTest: string };
+}
+
+/** toMatchSnapshot(hint?): compare with (or write) the stored snapshot for the current test. */
+export function matchSnapshot(value: unknown, hint?: string): MatcherResult {
+  const s = requireState('toMatchSnapshot');
+  if (!s.snapPath) {
+    throw new Error('toMatchSnapshot() needs the test file path: run tests with the CLI or pass run({ file })');
+  }
+  if (s.readError) return { pass: false, message: s.readError };
+  const base = hint ? `${s.currentTest}: ${hint}` : s.currentTest;
+  const count = (s.counters.get(base) ?? 0) + 1;
+  s.counters.set(base, count);
+  const key = `${base} ${count}`;
+  const received = serializeSnapshot(value);
+  s.checked.add(key);
+
+  const stored = s.entries.get(key);
+  if (stored === undefined) {
+    if (s.options.ci && !s.options.update) {
+      s.summary.unwritten++;
+      return {
+        pass: false,
+        message: `New snapshot "${key}" was not written: snapshots are not written with --ci. Run locally or with --update-snapshots.`,
+      };
+    }
+    s.entries.set(key, received);
+    s.dirty = true;
+    s.summary.added++;
+    return { pass: true, message: '' };
+  }
+  if (stored === received) {
+    s.summary.matched++;
+    return { pass: true, message: '' };
+  }
+  if (s.options.update) {
+    s.entries.set(key, received);
+    s.dirty = true;
+    s.summary.updated++;
+    return { pass: true, message: '' };
+  }
+  s.summary.unmatched++;
+  return {
+    pass: false,
+    message: `Snapshot "${key}" does not match the stored snapshot (run with --update-snapshots to update it)`,
+    expected: stored,
+    actual: received,
+  };
+}
+
+/** Directory for a test file's screenshot baselines: __snapshots__/<test file>-images. */
+export function imageSnapshotDirFor(testFile: string): string {
+  return path.join(path.dirname(testFile), '__snapshots__', `${path.basename(testFile)}-images`);
+}
+
+/** toMatchImageSnapshot(options?): compare a PNG with (or write) the baseline image for the current test. */
+export function matchImageSnapshot(png: Buffer, options: ImageSnapshotOptions = {}): MatcherResult & { images?: ImageComparison } {
+  const s = requireState('toMatchImageSnapshot');
+  if (!s.snapPath) {
+    throw new Error('toMatchImageSnapshot() needs the test file path: run tests with the CLI or pass run({ file })');
+  }
+  let name = options.name;
+  if (!name) {
+    const base = `${s.currentTest}: image`;
+    const count = (s.counters.get(base) ?? 0) + 1;
+    s.counters.set(base, count);
+    name = `${s.currentTest} ${count}`;
+  }
+  const baselinePath = path.join(path.dirname(s.snapPath), `${path.basename(s.snapPath, '.snap')}-images`, imageFileName(name));
+  const outcome = compareWithBaseline(png, baselinePath, name, { ...options, ...s.options });
+  s.summary[outcome.status]++;
+  return { pass: outcome.pass, message: outcome.message, images: outcome.images };
+}
+
+/** Inline snapshot text without the indentation added when it was written into the source. */
+function dedent(snapshot: string): string {
+  if (!snapshot.startsWith('\n')) return snapshot;
+  const lines = snapshot.slice(1).replace(/\n[ \t]*$/, '').split('\n');
+  const indents = lines.filter((l) => l.trim() !== '').map((l) => l.match(/^[ \t]*/)![0].length);
+  const min = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((l) => l.slice(min)).join('\n');
+}
+
+/** File, line and column of the first stack frame outside the framework (the test's call site). */
+function callSite(): { file: string; line: number; column: number } | undefined {
+  const stack = new Error().stack ?? '';
+  for (const frame of stack.split('\n').slice(1)) {
+    const m = frame.match(/\(?([^\s()]+):(\d+):(\d+)\)?$/);
+    if (!m) continue;
+    const file = m[1].startsWith('file://') ? m[1].slice(7) : m[1];
+    if (file.startsWith('node:') || file.startsWith(__dirname + path.sep) || !path.isAbsolute(file)) continue;
+    return { file, line: Number(m[2]), column: Number(m[3]) };
+  }
+  return undefined;
+}
+
+/** toMatchInlineSnapshot(snapshot?): compare with the snapshot in the source, or write it there. */
+export function matchInlineSnapshot(value: unknown, snapshot?: string): MatcherResult {
+  const s = requireState('toMatchInlineSnapshot');
+  const received = serializeSnapshot(value);
+  const name = `"${s.currentTest}"`;
+  if (snapshot !== undefined && dedent(snapshot) === received) {
+    s.summary.matched++;
+    return { pass: true, message: '' };
+  }
+  if (snapshot === undefined && s.options.ci && !s.options.update) {
+    s.summary.unwritten++;
+    return {
+      pass: false,
+      message: `New inline snapshot in ${name} was not written: snapshots are not written with --ci. Run locally or with --update-snapshots.`,
+    };
+  }
+  if (snapshot !== undefined && !s.options.update) {
+    s.summary.unmatched++;
+    return {
+      pass: false,
+      message: `Inline snapshot in ${name} does not match (run with --update-snapshots to update it)`,
+      expected: dedent(snapshot),
+      actual: received,
+    };
+  }
+  const site = callSite();
+  if (!site) throw new Error('toMatchInlineSnapshot(): could not find the calling line in the test file');
+  s.inlineEdits.set(`${site.file}:${site.line}:${site.column}`, { ...site, value: received });
+  if (snapshot === undefined) s.summary.added++;
+  else s.summary.updated++;
+  return { pass: true, message: '' };
+}
+
+/** Index of the quote that closes the string starting at `start`. */
+function skipString(source: string, start: number): number {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') i++;
+    else if (source[i] === quote) return i;
+  }
+  return source.length;
+}
+
+/** Index of the ")" matching the "(" at `open`, skipping strings. -1 if not found. */
+function findClosingParen(source: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    const c = source[i];
+    if (c === '"' || c === "'" || c === '`') i = skipString(source, i);
+    else if (c === '(') depth++;
+    else if (c === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function inlineLiteral(value: string, indent: string): string {
+  if (!value.includes('\n')) return `\`${escapeTemplate(value)}\``;
+  const body = escapeTemplate(value).split('\n').map((l) => (l ? `${indent}  ${l}` : l)).join('\n');
+  return `\`\n${body}\n${indent}\``;
+}
+
+/** Write collected inline snapshots into their source files (later positions first so offsets stay valid). */
+function applyInlineEdits(edits: InlineEdit[]): void {
+  const byFile = new Map<string, InlineEdit[]>();
+  for (const e of edits) byFile.set(e.file, [...(byFile.get(e.file) ?? []), e]);
+  for (const [file, fileEdits] of byFile) {
+    let source = fs.readFileSync(file, 'utf8');
+    const lineStarts = [0];
+    for (let i = 0; i < source.length; i++) if (source[i] === '\n') lineStarts.push(i + 1);
+    const located = fileEdits.map((e) => {
+      const lineStart = lineStarts[e.line - 1] ?? 0;
+      const position = lineStart + e.column - 1;
+      const lineEnd = source.indexOf('\n', lineStart);
+      const line = source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+      // The reported column is at or before the matcher name; fall back to the first call on the line
+      let at = source.indexOf('toMatchInlineSnapshot(', position);
+      if (at === -1 || (lineEnd !== -1 && at > lineEnd)) at = source.indexOf('toMatchInlineSnapshot(', lineStart);
+      return { ...e, at, indent: line.match(/^[ \t]*/)![0] };
+    });
+    located.sort((a, b) => b.at - a.at);
+    for (const e of located) {
+      if (e.at === -1) throw new Error(`toMatchInlineSnapshot(): call not found at ${file}:${e.line}`);
+      const open = e.at + 'toMatchInlineSnapshot'.length;
+      const close = findClosingParen(source, open);
+      if (close === -1) throw new Error(`toMatchInlineSnapshot(): could not parse the call at ${file}:${e.line}`);
+      source = `${source.slice(0, open + 1)}${inlineLiteral(e.value, e.indent)}${source.slice(close)}`;
+    }
+    fs.writeFileSync(file, source, 'utf8');
+  }
+}
+
+/**
+ * Called by the runner after the tests of a file. Writes the snapshot file and inline snapshots.
+ * testNames: full names of all tests declared in the file. Unchecked snapshots are obsolete when their test
+ * passed or no longer exists; those of skipped, filtered or failed tests are kept.
+ * Returns undefined when the file used no snapshots.
+ */
+export function finishSnapshotFile(testNames: string[], cwd: string = process.cwd()): SnapshotSummary | undefined {
+  const s = state;
+  state = null;
+  if (!s) return undefined;
+  const byLength = [...testNames].sort((a, b) => b.length - a.length);
+  // An unreadable .snap file has no entries and is never written: it is kept for the user to fix
+  for (const key of s.entries.keys()) {
+    if (s.checked.has(key)) continue;
+    const owner = byLength.find((n) => key.startsWith(`${n} `) || key.startsWith(`${n}: `));
+    if (owner && !s.passedTests.has(owner)) continue;
+    if (s.options.update) {
+      s.entries.delete(key);
+      s.dirty = true;
+      s.summary.removed++;
+    } else {
+      s.summary.obsolete.push({ file: path.relative(cwd, s.snapPath!), key });
+    }
+  }
+  if (s.dirty && s.snapPath && !s.readError) writeSnapshotFile(s.snapPath, s.entries);
+  if (s.inlineEdits.size > 0) applyInlineEdits(Array.from(s.inlineEdits.values()));
+  const used = s.checked.size > 0 || s.entries.size > 0 || s.inlineEdits.size > 0 ||
+    Object.values(s.summary).some((v) => (Array.isArray(v) ? v.length > 0 : v > 0));
+  return used ? s.summary : undefined;
+}
+
+/** Add one file's snapshot counts to a running total. */
+export function mergeSnapshotSummary(total: SnapshotSummary | undefined, summary: SnapshotSummary): SnapshotSummary {
+  const out = total ?? emptySnapshotSummary();
+  out.matched += summary.matched;
+  out.unmatched += summary.unmatched;
+  out.added += summary.added;
+  out.updated += summary.updated;
+  out.unwritten += summary.unwritten;
+  out.removed += summary.removed;
+  out.obsolete.push(...summary.obsolete);
+  return out;
+}
@@ -0,0 +1,102 @@
+/**
+ * Step tree of the running test: step('name', fn) blocks with timing, status and error, and the browser
+ * actions (goto, click, ...) as their children, each timed from its start to its end. Used by runner.ts and the HTML report.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { TestStep } from './types';
+import type { BrowserApi } from './browser';
+import { traceBrowserAction } from './trace';
+
+/** Top-level steps of the running test; null outside a test (steps are not recorded then). */
+let rootSteps: TestStep[] | null = null;
+/** Step block the current async code runs in; new steps become its children. */
+const parentStep = new AsyncLocalStorage<TestStep>();
+/** Steps started but not finished (duration is set when they end). */
+const running = new Set<TestStep>();
+/** True while the user's onStep callback runs, so step(message) inside it does not add the action twice. */
+let reportingBrowserStep = false;
+
+function currentLevel(): TestStep[] | null {
+  if (!rootSteps) return null;
+  const parent = parentStep.getStore();
+  if (!parent) return rootSteps;
+  return (parent.steps ??= []);
+}
+
+/** Start recording the steps of a test attempt. */
+export function startStepCapture(): void {
+  rootSteps = [];
+  running.clear();
+}
+
+/** Stop recording. Returns the step tree; steps still running (e.g. the test timed out) are marked failed. */
+export function finishStepCapture(): TestStep[] {
+  const steps = rootSteps ?? [];
+  rootSteps = null;
+  for (const step of running) {
+    step.duration = Date.now() - step.startTime;
+    step.status = 'failed';
+    step.error = 'Did not finish before the test ended';
+  }
+  running.clear();
+  return steps;
+}
+
+/** step(name) without a block: a finished step at the current level. Returns false when the call came from onStep. */
+export function recordStep(title: string): boolean {
+  if (reportingBrowserStep) return false;
+  const level = currentLevel();
+  if (level) level.push({ title, category: 'step', startTime: Date.now(), duration: 0, status: 'passed' });
+  return true;
+}
+
+/** Run fn as a timed step at the current level: steps and actions inside it are nested under it. Rethrows fn's error after recording it. */
+async function runTimedStep<T>(title: string, category: TestStep['category'], fn: () => T | Promise<T>): Promise<T> {
+  const level = currentLevel();
+  if (!level) return fn();
+  const step: TestStep = { title, category, startTime: Date.now(), duration: 0, status: 'passed' };
+  level.push(step);
+  running.add(step);
+  try {
+    return await parentStep.run(step, fn);
+  } catch (err) {
+    step.status = 'failed';
+    step.error = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    if (running.delete(step)) step.duration = Date.now() - step.startTime;
+  }
+}
+
+/** Run fn as a step: its steps and browser actions are nested under it. */
+export function runStep<T>(title: string, fn: () => T | Promise<T>): Promise<T> {
+  return runTimedStep(title, 'step', fn);
+}
+
+function notifyStep(message: string, onStep?: (message: string) => void): void {
+  if (!onStep) return;
+  reportingBrowserStep = true;
+  try {
+    onStep(message);
+  } finally {
+    reportingBrowserStep = false;
+  }
+}
+
+/**
+ * Run a browser action (goto, click, ...) as a child of the current step, after calling the user's onStep.
+ * The step lasts as long as the action; an action that throws is marked failed. With --trace the action is
+ * also recorded in the test's trace (screenshots around it are not part of the step's time).
+ */
+export function runBrowserStep<T>(message: string, action: () => T | Promise<T>, onStep: ((message: string) => void) | undefined, browser: BrowserApi): Promise<T> {
+  notifyStep(message, onStep);
+  return traceBrowserAction(browser, message, () => runTimedStep(message, 'action', action));
+}
+
+/** Record an instant browser action (e.g. switching to a frame) as a finished child of the current step, then call onStep. */
+export function reportBrowserStep(message: string, onStep?: (message: string) => void): void {
+  const level = currentLevel();
+  if (level) level.push({ title: message, category: 'action', startTime: Date.now(), duration: 0, status: 'passed' });
+  notifyStep(message, onStep);
+}
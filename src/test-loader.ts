@@ -0,0 +1,22 @@
+/**
+ * Load a test file into the runner (require it so its describe/it calls register).
+ * Shared by the CLI and worker processes.
+ */
+
+import * as path from 'path';
+
+export function loadTestFile(filePath: string): void {
+  const resolved = path.resolve(filePath);
+  if (filePath.endsWith('.ts')) {
+    // Throw rather than exit, so workers and watch mode can report the reason
+    try {
+      require('ts-node/register');
+    } catch (err) {
+      const reason = err instanceof Error ? err.message.split('\n')[0] : String(err);
+      throw new Error(
+        `TypeScript test file found but ts-node could not be loaded (${reason}). Install it: npm install -D ts-node\n  Or compile .ts to .js and run the .js files.`
+      );
+    }
+  }
+  require(resolved);
+}
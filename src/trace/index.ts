@@ -0,0 +1,263 @@
+/**
+ * Trace recording (--trace on|retain-on-failure): for every config step, or every BrowserApi action of a test,
+ * a screenshot before and after, a DOM snapshot, and the console messages and network calls during it, saved as a zip.
+ * Open a trace with `cstesting show-trace <zip>` (viewer-server.ts).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BrowserApi, ConsoleMessage, NetworkRequest, NetworkResponse } from '../browser';
+import { readZip, writeZip, type ZipEntry } from '../zip';
+import { artifactFileName, artifactPath } from '../artifacts';
+
+export type TraceMode = 'off' | 'on' | 'retain-on-failure';
+
+export interface TraceConsoleEntry {
+  time: number;
+  type: string;
+  text: string;
+  location?: string;
+}
+
+export interface TraceNetworkEntry {
+  time: number;
+  method: string;
+  url: string;
+  resourceType: string;
+  /** Missing when no response arrived during the step. */
+  status?: number;
+  /** Time the response headers arrived. */
+  responseTime?: number;
+}
+
+export interface TraceAction {
+  index: number;
+  label: string;
+  startTime: number;
+  endTime: number;
+  error?: string;
+  /** Page URL after the step. */
+  url?: string;
+  /** Names of files in the zip. */
+  before?: string;
+  after?: string;
+  snapshot?: string;
+  console: TraceConsoleEntry[];
+  network: TraceNetworkEntry[];
+}
+
+/** trace.json inside the zip. */
+export interface TraceFile {
+  version: 1;
+  title: string;
+  startTime: number;
+  endTime: number;
+  actions: TraceAction[];
+}
+
+export const TRACE_MODES: TraceMode[] = ['off', 'on', 'retain-on-failure'];
+
+/** Page HTML without scripts; form values are written into attributes and a <base> keeps relative URLs working. */
+const DOM_SNAPSHOT_EXPRESSION = `(function () {
+  var root = document.documentElement;
+  if (!root) return '';
+  var clone = root.cloneNode(true);
+  var live = root.querySelectorAll('input, textarea, select');
+  var copies = clone.querySelectorAll('input, textarea, select');
+  for (var i = 0; i < live.length && i < copies.length; i++) {
+    var el = live[i], copy = copies[i];
+    if (el.tagName === 'TEXTAREA') copy.textContent = el.value;
+    else if (el.tagName === 'SELECT') {
+      for (var j = 0; j < el.options.length; j++) {
+        if (el.options[j].selected) copy.options[j].setAttribute('selected', '');
+        else copy.options[j].removeAttribute('selected');
+      }
+    } else if (el.type === 'checkbox' || el.type === 'radio') {
+      if (el.checked) copy.setAttribute('checked', ''); else copy.removeAttribute('checked');
+    } else if (el.type !== 'password' && el.type !== 'file') copy.setAttribute('value', el.value);
+  }
+  clone.querySelectorAll('script, noscript').forEach(function (s) { s.remove(); });
+  var head = clone.querySelector('head');
+  if (head && !head.querySelector('base')) {
+    var base = document.createElement('base');
+    base.setAttribute('href', document.baseURI);
+    head.insertBefore(base, head.firstChild);
+  }
+  return '<!DOCTYPE html>' + clone.outerHTML;
+})()`;
+
+export interface Tracer {
+  /** Record the browser's console and network (call again after the browser is replaced). */
+  attach(browser: BrowserApi): void;
+  /** Run one step, capturing the page before and after it. Rethrows the step's error. */
+  step(label: string, fn: () => Promise<void>): Promise<void>;
+  /** Write the zip; returns its path. */
+  save(file: string): string;
+  /** Stop listening to the browser. */
+  dispose(): void;
+}
+
+/**
+ * @param getBrowser - current browser, or null once a step closed it (nothing is captured then)
+ */
+export function createTracer(title: string, getBrowser: () => BrowserApi | null): Tracer {
+  const startTime = Date.now();
+  const actions: TraceAction[] = [];
+  const resources: ZipEntry[] = [];
+  let consoleBuffer: TraceConsoleEntry[] = [];
+  let networkBuffer: TraceNetworkEntry[] = [];
+  const pendingRequests = new Map<NetworkRequest, TraceNetworkEntry>();
+  let unsubscribe: Array<() => void> = [];
+
+  async function screenshot(name: string): Promise<string | undefined> {
+    const browser = getBrowser();
+    if (!browser) return undefined;
+    try {
+      resources.push({ name, data: await browser.getScreenshot() });
+      return name;
+    } catch {
+      // Nothing to capture (e.g. the page is navigating or the browser just closed)
+      return undefined;
+    }
+  }
+
+  const tracer: Tracer = {
+    attach(browser) {
+      tracer.dispose();
+      unsubscribe = [
+        browser.on('console', (message: ConsoleMessage) => {
+          const loc = message.location;
+          consoleBuffer.push({
+            time: Date.now(),
+            type: message.type,
+            text: message.text,
+            location: loc?.url ? `${loc.url}:${loc.lineNumber + 1}:${loc.columnNumber + 1}` : undefined,
+          });
+        }),
+        browser.onRequest((request) => {
+          const entry: TraceNetworkEntry = { time: Date.now(), method: request.method, url: request.url, resourceType: request.resourceType };
+          networkBuffer.push(entry);
+          pendingRequests.set(request, entry);
+        }),
+        browser.onResponse((response: NetworkResponse) => {
+          // The CDP backend passes the same request object; otherwise match the oldest request without a response
+          const entry =
+            pendingRequests.get(response.request) ??
+            networkBuffer.find((e) => e.status === undefined && e.url === response.url && e.method === response.method);
+          pendingRequests.delete(response.request);
+          if (!entry) return;
+          entry.status = response.status;
+          entry.responseTime = Date.now();
+        }),
+      ];
+    },
+
+    async step(label, fn) {
+      const index = actions.length;
+      const action: TraceAction = { index, label, startTime: Date.now(), endTime: 0, console: [], network: [] };
+      actions.push(action);
+      consoleBuffer = [];
+      networkBuffer = [];
+      pendingRequests.clear();
+      action.before = await screenshot(`resources/${index}-before.png`);
+      action.startTime = Date.now();
+      let error: unknown;
+      try {
+        await fn();
+      } catch (err) {
+        error = err;
+        action.error = err instanceof Error ? err.message : String(err);
+      }
+      action.endTime = Date.now();
+      action.after = await screenshot(`resources/${index}-after.png`);
+      const browser = getBrowser();
+      if (browser) {
+        try {
+          const html = await browser.evaluate<string>(DOM_SNAPSHOT_EXPRESSION);
+          if (html) {
+            action.snapshot = `resources/${index}-dom.html`;
+            resources.push({ name: action.snapshot, data: Buffer.from(html, 'utf8') });
+          }
+          action.url = await browser.url();
+        } catch {
+          // No document to snapshot
+        }
+      }
+      action.console = consoleBuffer;
+      action.network = networkBuffer;
+      if (error !== undefined) throw error;
+    },
+
+    save(file) {
+      const trace: TraceFile = { version: 1, title, startTime, endTime: Date.now(), actions };
+      fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+      fs.writeFileSync(file, writeZip([{ name: 'trace.json', data: Buffer.from(JSON.stringify(trace, null, 2)) }, ...resources]));
+      return path.resolve(file);
+    },
+
+    dispose() {
+      unsubscribe.forEach((off) => off());
+      unsubscribe = [];
+    },
+  };
+  return tracer;
+}
+
+/** Trace of the running test (runner.ts); null when the test is not traced. */
+let testTrace: { title: string; tracer: Tracer | null; browser: BrowserApi | null; inAction: boolean } | null = null;
+
+/** Start tracing the browser actions of a test attempt (title undefined: not traced). */
+export function startTestTrace(title: string | undefined): void {
+  testTrace?.tracer?.dispose();
+  testTrace = title ? { title, tracer: null, browser: null, inAction: false } : null;
+}
+
+/** Stop tracing. Returns the tracer (save() writes the zip), or null when the test ran no browser action. */
+export function finishTestTrace(): Tracer | null {
+  const tracer = testTrace?.tracer ?? null;
+  testTrace = null;
+  tracer?.dispose();
+  return tracer;
+}
+
+/**
+ * Run a browser action (called for every BrowserApi action, see steps.ts) as a step of the running test's trace.
+ * The trace follows the browser of the latest action; actions an action runs itself are part of it.
+ */
+export async function traceBrowserAction<T>(browser: BrowserApi, label: string, action: () => Promise<T>): Promise<T> {
+  const trace = testTrace;
+  if (!trace || trace.inAction) return action();
+  if (!trace.tracer) trace.tracer = createTracer(trace.title, () => trace.browser);
+  if (trace.browser !== browser) {
+    trace.browser = browser;
+    trace.tracer.attach(browser);
+  }
+  let result: T | undefined;
+  trace.inAction = true;
+  try {
+    await trace.tracer.step(label, async () => {
+      result = await action();
+    });
+  } finally {
+    trace.inAction = false;
+  }
+  return result as T;
+}
+
+/** Read a trace zip: trace.json plus the screenshots and DOM snapshots it refers to. */
+export function readTrace(file: string): { trace: TraceFile; resources: Map<string, Buffer> } {
+  let entries: Map<string, Buffer>;
+  try {
+    entries = readZip(fs.readFileSync(file));
+  } catch (err) {
+    throw new Error(`Could not read trace ${file}: ${err instanceof Error ? err.message : err}`);
+  }
+  const json = entries.get('trace.json');
+  if (!json) throw new Error(`Invalid trace ${file}: missing trace.json`);
+  return { trace: JSON.parse(json.toString('utf8')) as TraceFile, resources: entries };
+}
+
+/** Trace file of a test: <report dir>/traces/<name>-<hash>.zip (see artifacts.ts). */
+export function tracePathFor(name: string): string {
+  return artifactPath('traces', artifactFileName(name, '.zip'));
+}
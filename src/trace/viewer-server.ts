@@ -0,0 +1,230 @@
+/**
+ * HTTP server for the trace viewer (cstesting show-trace <zip>).
+ * Serves the viewer page, /trace.json and the screenshots and DOM snapshots under /resources/.
+ */
+
+import * as http from 'http';
+import * as path from 'path';
+import { readTrace } from './index';
+
+const VIEWER_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>CSTesting — Trace</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; margin: 0; background: #1e1e1e; color: #d4d4d4; font-size: 13px; height: 100vh; display: flex; flex-direction: column; }
+    .header { display: flex; align-items: center; justify-content: space-between; padding: 10px 14px; background: #252526; border-bottom: 1px solid #3c3c3c; }
+    .header h1 { margin: 0; font-size: 14px; font-weight: 600; }
+    .header .hint { font-size: 11px; color: #858585; }
+    .timeline { display: flex; height: 28px; margin: 8px 14px; background: #252526; border: 1px solid #3c3c3c; border-radius: 4px; overflow: hidden; }
+    .timeline div { height: 100%; border-right: 1px solid #1e1e1e; background: #264f78; cursor: pointer; min-width: 3px; }
+    .timeline div.failed { background: #a1260d; }
+    .timeline div.selected { outline: 2px solid #4fc1ff; outline-offset: -2px; }
+    .main { flex: 1; display: flex; min-height: 0; }
+    .actions { width: 320px; overflow: auto; border-right: 1px solid #3c3c3c; }
+    .action { padding: 8px 12px; border-bottom: 1px solid #2d2d2d; cursor: pointer; display: flex; gap: 8px; }
+    .action:hover { background: #2a2d2e; }
+    .action.selected { background: #094771; }
+    .action .icon { color: #4ec9b0; width: 14px; flex-shrink: 0; }
+    .action.failed .icon { color: #f48771; }
+    .action .label { flex: 1; font-family: ui-monospace, monospace; word-break: break-all; }
+    .action .duration { color: #858585; font-size: 11px; white-space: nowrap; }
+    .details { flex: 1; display: flex; flex-direction: column; min-width: 0; }
+    .tabs { display: flex; gap: 4px; padding: 8px 12px; border-bottom: 1px solid #3c3c3c; }
+    .tabs button { padding: 5px 12px; border: 1px solid #3c3c3c; background: #2d2d2d; color: #d4d4d4; cursor: pointer; border-radius: 4px; font-size: 12px; }
+    .tabs button.active { background: #0e639c; border-color: #0e639c; color: #fff; }
+    .url { padding: 6px 12px; font-family: ui-monospace, monospace; font-size: 12px; color: #858585; word-break: break-all; }
+    .view { flex: 1; min-height: 0; overflow: auto; padding: 12px; background: #181818; }
+    .view img { max-width: 100%; border: 1px solid #3c3c3c; background: #fff; }
+    .view iframe { width: 100%; height: 100%; border: 1px solid #3c3c3c; background: #fff; }
+    .empty { color: #858585; padding: 12px; }
+    .error { margin: 8px 12px 0; padding: 8px 10px; border: 1px solid #5a1d1d; background: rgba(161, 38, 13, 0.2); color: #f48771; font-family: ui-monospace, monospace; white-space: pre-wrap; }
+    .panels { height: 35%; display: flex; border-top: 1px solid #3c3c3c; }
+    .panel { flex: 1; overflow: auto; min-width: 0; }
+    .panel + .panel { border-left: 1px solid #3c3c3c; }
+    .panel h2 { margin: 0; padding: 6px 12px; font-size: 11px; text-transform: uppercase; letter-spacing: 0.06em; color: #858585; background: #252526; position: sticky; top: 0; }
+    .row { padding: 4px 12px; border-bottom: 1px solid #2d2d2d; font-family: ui-monospace, monospace; font-size: 12px; word-break: break-all; }
+    .row.error, .row.warning { margin: 0; border-width: 0 0 1px; background: none; }
+    .row.error { color: #f48771; }
+    .row.warning { color: #cca700; }
+    .row .meta { color: #858585; margin-right: 8px; }
+    .row.failed-request { color: #f48771; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1 id="title">Trace</h1>
+    <span class="hint">↑ / ↓ to step through actions</span>
+  </div>
+  <div class="timeline" id="timeline"></div>
+  <div class="main">
+    <div class="actions" id="actions"></div>
+    <div class="details">
+      <div class="tabs">
+        <button type="button" data-view="before">Before</button>
+        <button type="button" data-view="after" class="active">After</button>
+        <button type="button" data-view="dom">DOM snapshot</button>
+      </div>
+      <div class="url" id="url"></div>
+      <div id="error"></div>
+      <div class="view" id="view"></div>
+      <div class="panels">
+        <div class="panel"><h2>Console</h2><div id="console"></div></div>
+        <div class="panel"><h2>Network</h2><div id="network"></div></div>
+      </div>
+    </div>
+  </div>
+  <script>
+    var trace = null;
+    var selected = 0;
+    var viewName = 'after';
+    function el(tag, cls, text) {
+      var e = document.createElement(tag);
+      if (cls) e.className = cls;
+      if (text !== undefined) e.textContent = text;
+      return e;
+    }
+    function duration(ms) { return ms < 1000 ? ms + 'ms' : (ms / 1000).toFixed(1) + 's'; }
+    function renderView() {
+      var action = trace.actions[selected];
+      var view = document.getElementById('view');
+      view.innerHTML = '';
+      var file = viewName === 'dom' ? action.snapshot : action[viewName];
+      if (!file) { view.appendChild(el('div', 'empty', 'Nothing captured for this step.')); return; }
+      if (viewName === 'dom') {
+        var frame = el('iframe');
+        frame.setAttribute('sandbox', '');
+        frame.src = '/' + file;
+        view.appendChild(frame);
+      } else {
+        var img = el('img');
+        img.src = '/' + file;
+        view.appendChild(img);
+      }
+    }
+    function select(index) {
+      if (!trace || index < 0 || index >= trace.actions.length) return;
+      selected = index;
+      document.querySelectorAll('.action, .timeline div').forEach(function (e) {
+        e.classList.toggle('selected', Number(e.getAttribute('data-index')) === index);
+      });
+      var row = document.querySelector('.action[data-index="' + index + '"]');
+      if (row) row.scrollIntoView({ block: 'nearest' });
+      var action = trace.actions[index];
+      document.getElementById('url').textContent = action.url || '';
+      var error = document.getElementById('error');
+      error.innerHTML = '';
+      if (action.error) error.appendChild(el('div', 'error', action.error));
+      var consoleEl = document.getElementById('console');
+      consoleEl.innerHTML = '';
+      if (action.console.length === 0) consoleEl.appendChild(el('div', 'empty', 'No console messages'));
+      action.console.forEach(function (m) {
+        var r = el('div', 'row ' + m.type);
+        r.appendChild(el('span', 'meta', m.type));
+        r.appendChild(document.createTextNode(m.text));
+        if (m.location) r.title = m.location;
+        consoleEl.appendChild(r);
+      });
+      var networkEl = document.getElementById('network');
+      networkEl.innerHTML = '';
+      if (action.network.length === 0) networkEl.appendChild(el('div', 'empty', 'No requests'));
+      action.network.forEach(function (n) {
+        var r = el('div', 'row' + (n.status === undefined || n.status >= 400 ? ' failed-request' : ''));
+        r.appendChild(el('span', 'meta', (n.status === undefined ? '—' : n.status) + ' ' + n.method));
+        r.appendChild(document.createTextNode(n.url));
+        if (n.responseTime) r.title = n.resourceType + ', ' + duration(n.responseTime - n.time);
+        networkEl.appendChild(r);
+      });
+      renderView();
+    }
+    document.querySelectorAll('[data-view]').forEach(function (btn) {
+      btn.addEventListener('click', function () {
+        viewName = btn.getAttribute('data-view');
+        document.querySelectorAll('[data-view]').forEach(function (b) { b.classList.toggle('active', b === btn); });
+        if (trace) renderView();
+      });
+    });
+    document.addEventListener('keydown', function (e) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowRight') { select(selected + 1); e.preventDefault(); }
+      if (e.key === 'ArrowUp' || e.key === 'ArrowLeft') { select(selected - 1); e.preventDefault(); }
+    });
+    fetch('/trace.json').then(function (r) { return r.json(); }).then(function (t) {
+      trace = t;
+      document.title = 'CSTesting — Trace: ' + t.title;
+      document.getElementById('title').textContent = t.title;
+      var actionsEl = document.getElementById('actions');
+      var timeline = document.getElementById('timeline');
+      var total = Math.max(1, t.actions.reduce(function (sum, a) { return sum + (a.endTime - a.startTime); }, 0));
+      t.actions.forEach(function (a, i) {
+        var row = el('div', 'action' + (a.error ? ' failed' : ''));
+        row.setAttribute('data-index', i);
+        row.appendChild(el('span', 'icon', a.error ? '✗' : '✓'));
+        row.appendChild(el('span', 'label', a.label));
+        row.appendChild(el('span', 'duration', duration(a.endTime - a.startTime)));
+        row.addEventListener('click', function () { select(i); });
+        actionsEl.appendChild(row);
+        var bar = el('div', a.error ? 'failed' : '');
+        bar.setAttribute('data-index', i);
+        bar.style.flex = String(Math.max(a.endTime - a.startTime, 1) / total);
+        bar.title = a.label + ' (' + duration(a.endTime - a.startTime) + ')';
+        bar.addEventListener('click', function () { select(i); });
+        timeline.appendChild(bar);
+      });
+      if (t.actions.length === 0) actionsEl.appendChild(el('div', 'empty', 'No actions recorded'));
+      // Start at the failed step, if any
+      var failed = t.actions.findIndex(function (a) { return a.error; });
+      select(failed >= 0 ? failed : 0);
+    });
+  </script>
+</body>
+</html>`;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.html': 'text/html; charset=utf-8',
+  '.json': 'application/json',
+};
+
+export function createTraceViewerServer(traceFile: string, port = 0): Promise<{ server: http.Server; port: number }> {
+  // Fails before the server starts when the file is not a trace
+  const { resources } = readTrace(traceFile);
+  return new Promise((resolve, reject) => {
+    const server = http.createServer((req, res) => {
+      let url: string;
+      try {
+        url = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+      } catch {
+        // Malformed escape such as /%E0
+        res.writeHead(400);
+        res.end();
+        return;
+      }
+      if (url === '/' || url === '/index.html') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(VIEWER_HTML);
+        return;
+      }
+      const data = resources.get(url.slice(1));
+      if (data && (url === '/trace.json' || url.startsWith('/resources/'))) {
+        res.writeHead(200, {
+          'Content-Type': CONTENT_TYPES[path.extname(url)] ?? 'application/octet-stream',
+          // DOM snapshots are shown without their scripts
+          'Content-Security-Policy': "script-src 'none'",
+        });
+        res.end(data);
+        return;
+      }
+      res.writeHead(404);
+      res.end();
+    });
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const addr = server.address();
+      resolve({ server, port: typeof addr === 'object' && addr ? addr.port : port });
+    });
+  });
+}
@@ -5,9 +5,15 @@
 export type TestFn = () => void | Promise<void>;
 export type HookFn = () => void | Promise<void>;
 
-/** Options for describe() or it() when using tags. */
+/** Options for describe() or it(): tags, timeout and/or retries. */
 export interface TestTagOptions {
-  tags: string[];
+  tags?: string[];
+  /** Timeout in ms for the test (or every test and hook in the suite). 0 = no timeout. */
+  timeout?: number;
+  /** Re-run a failing test (with its beforeEach/afterEach) up to this many times. */
+  retries?: number;
+  /** Record the browser traffic of the test (or every test in the suite) to a HAR file linked in the report. */
+  har?: boolean;
 }
 
 export interface TestCase {
@@ -17,6 +23,12 @@ export interface TestCase {
   skip: boolean;
   /** Tags for this test (e.g. ['smoke', 'regression']). Inherited from suite if not set. */
   tags?: string[];
+  /** Timeout in ms (overrides suite and run timeout). */
+  timeout?: number;
+  /** Retries on failure (overrides suite and run retries). */
+  retries?: number;
+  /** Record a HAR file (overrides suite and run setting). */
+  har?: boolean;
 }
 
 export interface TestSuite {
@@ -31,6 +43,45 @@ export interface TestSuite {
   skip: boolean;
   /** Tags applied to all tests in this suite (and nested suites) unless overridden. */
   tags?: string[];
+  /** Timeout in ms for tests and hooks in this suite (and nested suites) unless overridden. */
+  timeout?: number;
+  /** Retries for tests in this suite (and nested suites) unless overridden. */
+  retries?: number;
+  /** Record HAR files for tests in this suite (and nested suites) unless overridden. */
+  har?: boolean;
+}
+
+/** One run of a test when retries are enabled. */
+export interface TestAttempt {
+  /** Set when this attempt failed. */
+  error?: Error;
+  duration: number;
+  steps?: string[];
+  /** 0-based index of the step that failed (for config runs). */
+  failedStepIndex?: number;
+}
+
+/** A step of a JS test: a step('name', fn) block, a step('name') marker or a browser action (createBrowser). */
+export interface TestStep {
+  title: string;
+  category: 'step' | 'action';
+  /** Epoch ms. */
+  startTime: number;
+  /** ms, from the start to the end of the block or browser action (0 for step(name) markers and instant actions). */
+  duration: number;
+  status: 'passed' | 'failed';
+  /** Error message when the step failed. */
+  error?: string;
+  /** Nested steps and browser actions. */
+  steps?: TestStep[];
+}
+
+/** A file attached to a test with attach(), saved under report/attachments/. */
+export interface Attachment {
+  name: string;
+  contentType: string;
+  /** Absolute path of the saved file. */
+  path: string;
 }
 
 export interface TestResultEntry {
@@ -42,6 +93,42 @@ export interface TestResultEntry {
   file?: string;
   /** Tags for this test (for report and search). */
   tags?: string[];
+  /** Every attempt in order, when the test was retried. A passed entry with failed attempts is flaky. */
+  attempts?: TestAttempt[];
+  /** HAR files recorded during the (last attempt of the) test. */
+  har?: string[];
+  /** Trace zips kept for the test (config runs with --trace); open with cstesting show-trace. */
+  trace?: string[];
+  /** Files attached with attach() during the (last attempt of the) test. */
+  attachments?: Attachment[];
+  /** Step tree of the (last attempt of the) test, with timing and status (JS tests). */
+  stepTree?: TestStep[];
+}
+
+/** Files written when a screenshot does not match its baseline (toMatchImageSnapshot, assertScreenshot). */
+export interface ImageComparison {
+  /** Copy of the baseline. */
+  expected?: string;
+  actual: string;
+  /** Differing pixels in red over a faded copy of the baseline. */
+  diff?: string;
+}
+
+/** Snapshot counts for a run (toMatchSnapshot / toMatchInlineSnapshot / toMatchImageSnapshot). */
+export interface SnapshotSummary {
+  matched: number;
+  /** Snapshots that did not match (the tests failed). */
+  unmatched: number;
+  /** New snapshots written. */
+  added: number;
+  /** Snapshots overwritten with --update-snapshots. */
+  updated: number;
+  /** New snapshots not written because of --ci (the tests failed). */
+  unwritten: number;
+  /** Stored snapshots that no test checked anymore. */
+  obsolete: Array<{ file: string; key: string }>;
+  /** Obsolete snapshots deleted with --update-snapshots. */
+  removed: number;
 }
 
 export interface RunResult {
@@ -49,6 +136,8 @@ export interface RunResult {
   failed: number;
   skipped: number;
   total: number;
+  /** Tests that passed only after one or more retries (counted in passed too). */
+  flaky?: number;
   duration: number;
   errors: Array<{
     suite: string;
@@ -60,7 +149,16 @@ export interface RunResult {
     failedStepIndex?: number;
     file?: string;
     tags?: string[];
+    attempts?: TestAttempt[];
+    har?: string[];
+    trace?: string[];
+    /** Screenshots of the active page when the test failed (report/attachments/). */
+    screenshots?: string[];
+    attachments?: Attachment[];
+    stepTree?: TestStep[];
   }>;
   passedTests: Array<TestResultEntry>;
   skippedTests: Array<TestResultEntry>;
+  /** Set when the run used snapshots or has a snapshot file. */
+  snapshots?: SnapshotSummary;
 }
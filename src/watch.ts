@@ -0,0 +1,218 @@
+/**
+ * Watch mode (--watch): re-run test files when they or the modules they require change.
+ * Files run in this process: project modules are cleared from the require cache and the runner is reset before each file.
+ * Limits: files run one at a time (--workers is ignored). "Run failed" re-runs only the failed tests of each file,
+ * or the whole file when a hook failed or the file did not load.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { run, resetRunner, getTestNames, type RunOptions } from './runner';
+import { loadTestFile } from './test-loader';
+import { emptyResult, mergeResult } from './parallel';
+import type { RunResult } from './types';
+
+export interface WatchOptions {
+  cwd: string;
+  /** Discover test files (called at start and whenever a file is added or removed). */
+  findFiles: () => string[];
+  /** Initial tag filter; can be changed from the key menu. */
+  tags: string[];
+  runOptions?: Pick<RunOptions, 'timeout' | 'retries' | 'updateSnapshots' | 'ci' | 'har' | 'screenshotOnFailure' | 'trace' | 'reportDir'>;
+  /** Called after each file has run. */
+  onFileResult: (rel: string, result: RunResult) => void;
+  /** Called after each batch of files with the merged result. */
+  onRunEnd: (result: RunResult) => void;
+}
+
+const DEBOUNCE_MS = 150;
+
+/** Modules that are reloaded on every run: everything except node_modules and the framework itself. */
+function isProjectModule(file: string): boolean {
+  return !file.split(path.sep).includes('node_modules') && !file.startsWith(__dirname + path.sep);
+}
+
+function clearProjectModules(): void {
+  for (const key of Object.keys(require.cache)) {
+    if (isProjectModule(key)) delete require.cache[key];
+  }
+}
+
+export function startWatch(options: WatchOptions): void {
+  const { cwd } = options;
+  let tags = options.tags;
+  let testFiles = options.findFiles();
+  /** Test file → project modules it loaded (including itself). */
+  const dependencies = new Map<string, Set<string>>();
+  /** Files with failures → full names of the failed tests, or undefined when the whole file must re-run. */
+  const failedFiles = new Map<string, string[] | undefined>();
+  const watchers = new Map<string, fs.FSWatcher>();
+  let running = false;
+  let queued: Set<string> | null = null;
+  let pendingChanges = new Set<string>();
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /** Failed tests of a result by full name; undefined when something other than a test failed (a hook, loading). */
+  function failedTestNames(result: RunResult): string[] | undefined {
+    const declared = new Set(getTestNames());
+    const names = result.errors.map((e) => `${e.suite} > ${e.test}`);
+    return names.every((name) => declared.has(name)) ? names : undefined;
+  }
+
+  async function runFile(file: string, testNames?: string[]): Promise<RunResult> {
+    const rel = path.relative(cwd, file);
+    clearProjectModules();
+    resetRunner();
+    const before = new Set(Object.keys(require.cache));
+    try {
+      loadTestFile(file);
+    } catch (err) {
+      const result = emptyResult();
+      result.failed = 1;
+      result.total = 1;
+      result.errors.push({ suite: rel, test: '(load)', error: err instanceof Error ? err : new Error(String(err)), file: rel });
+      return result;
+    } finally {
+      const deps = new Set(Object.keys(require.cache).filter((k) => !before.has(k) && isProjectModule(k)));
+      deps.add(file);
+      dependencies.set(file, deps);
+    }
+    return run({ ...options.runOptions, tags: tags.length > 0 ? tags : undefined, file: rel, testNames });
+  }
+
+  /** @param failedOnly - run only the tests that failed last time in each file (f key) */
+  async function runFiles(files: string[], failedOnly = false): Promise<void> {
+    if (running) {
+      queued = queued ?? new Set();
+      for (const f of files) queued.add(f);
+      return;
+    }
+    running = true;
+    try {
+      console.log(`\n${'═'.repeat(50)}\n Running ${failedOnly ? 'failed tests of ' : ''}${files.length} file${files.length !== 1 ? 's' : ''}${tags.length > 0 ? ` (tags: ${tags.join(', ')})` : ''}`);
+      const total = emptyResult();
+      const start = Date.now();
+      for (const file of files) {
+        const result = await runFile(file, failedOnly ? failedFiles.get(file) : undefined);
+        if (result.failed > 0) failedFiles.set(file, failedTestNames(result));
+        else failedFiles.delete(file);
+        mergeResult(total, result);
+        options.onFileResult(path.relative(cwd, file), result);
+      }
+      total.duration = Date.now() - start;
+      options.onRunEnd(total);
+    } finally {
+      // Even after an error: keep watching, or every later change would be ignored
+      updateWatchers();
+      running = false;
+      printMenu();
+    }
+    if (queued) {
+      const next = Array.from(queued);
+      queued = null;
+      await runFiles(next);
+    }
+  }
+
+  /** Start a run without awaiting it; errors are logged and watching continues. */
+  function startRun(files: string[], failedOnly = false): void {
+    runFiles(files, failedOnly).catch((err) => {
+      console.error(' Watch run failed:', err instanceof Error ? err.stack ?? err.message : err);
+    });
+  }
+
+  /** Watch every directory that contains a test file or one of its dependencies. */
+  function updateWatchers(): void {
+    const dirs = new Set<string>([cwd]);
+    for (const file of testFiles) dirs.add(path.dirname(file));
+    for (const deps of dependencies.values()) for (const d of deps) dirs.add(path.dirname(d));
+    for (const dir of dirs) {
+      if (watchers.has(dir) || !fs.existsSync(dir)) continue;
+      try {
+        const watcher = fs.watch(dir, (_event, filename) => {
+          if (filename) onChange(path.join(dir, filename.toString()));
+        });
+        watchers.set(dir, watcher);
+      } catch {
+        // Directory not watchable (permissions, removed); changes there are not picked up
+      }
+    }
+  }
+
+  function onChange(file: string): void {
+    pendingChanges.add(file);
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      const changed = pendingChanges;
+      pendingChanges = new Set();
+      const previous = new Set(testFiles);
+      testFiles = options.findFiles();
+      const affected = testFiles.filter((f) => {
+        if (changed.has(f) && !previous.has(f)) return true; // new test file
+        const deps = dependencies.get(f);
+        return deps ? Array.from(changed).some((c) => deps.has(c)) : changed.has(f);
+      });
+      if (affected.length > 0) startRun(affected);
+    }, DEBOUNCE_MS);
+  }
+
+  function printMenu(): void {
+    console.log(`\n Watching ${testFiles.length} test file${testFiles.length !== 1 ? 's' : ''} for changes...`);
+    if (process.stdin.isTTY) {
+      console.log(' Press a to run all, f to re-run failed tests, t to filter by tag, Enter to re-run, q to quit.');
+    }
+  }
+
+  let lastRun = { files: testFiles, failedOnly: false };
+  function runAndRemember(files: string[], failedOnly = false): void {
+    lastRun = { files, failedOnly };
+    startRun(files, failedOnly);
+  }
+
+  function promptTags(): void {
+    process.stdin.setRawMode(false);
+    process.stdin.removeListener('keypress', onKeypress);
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    rl.question(` Tag filter (comma-separated, empty for all)${tags.length > 0 ? ` [${tags.join(',')}]` : ''}: `, (answer) => {
+      rl.close();
+      tags = answer.split(',').map((s) => s.trim()).filter(Boolean);
+      process.stdin.setRawMode(true);
+      process.stdin.resume();
+      process.stdin.on('keypress', onKeypress);
+      runAndRemember(testFiles);
+    });
+  }
+
+  function onKeypress(str: string | undefined, key: readline.Key | undefined): void {
+    if (key?.ctrl && key.name === 'c') process.exit(failedFiles.size > 0 ? 1 : 0);
+    if (running) return;
+    switch (key?.name ?? str) {
+      case 'q':
+        process.exit(failedFiles.size > 0 ? 1 : 0);
+        break;
+      case 'a':
+        runAndRemember(testFiles);
+        break;
+      case 'f':
+        if (failedFiles.size === 0) console.log(' No failed tests.');
+        else runAndRemember(testFiles.filter((f) => failedFiles.has(f)), true);
+        break;
+      case 't':
+        promptTags();
+        break;
+      case 'return':
+        runAndRemember(lastRun.files.filter((f) => testFiles.includes(f)), lastRun.failedOnly);
+        break;
+    }
+  }
+
+  if (process.stdin.isTTY) {
+    readline.emitKeypressEvents(process.stdin);
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.on('keypress', onKeypress);
+  }
+
+  startRun(testFiles);
+}
@@ -0,0 +1,312 @@
+/**
+ * Web-first assertions: await expect(locator).toHaveText('Done'), await expect(browser).toHaveURL(/done/), etc.
+ * Each matcher re-reads the page until it passes (with .not: until it no longer passes) or the timeout runs out,
+ * so tests don't race against re-renders. Works with any LocatorApi (page, tab, frame, Firefox BiDi).
+ */
+
+import type { LocatorApi } from './browser';
+import type { MatcherResult } from './assertions';
+import { formatValueInline } from './diff';
+
+export interface WebAssertionOptions {
+  /** Milliseconds to keep retrying (default: expect.configure({ timeout }) or 5000). */
+  timeout?: number;
+}
+
+/** Matchers for locators and pages. Each returns a promise; await it. */
+export interface WebMatchers {
+  /** Text content equals the string (whitespace-normalized) or matches the RegExp. */
+  toHaveText(expected: string | RegExp, options?: WebAssertionOptions): Promise<void>;
+  toBeVisible(options?: WebAssertionOptions): Promise<void>;
+  /** Element is not visible, or nothing matches the locator. */
+  toBeHidden(options?: WebAssertionOptions): Promise<void>;
+  toHaveAttribute(name: string, value: string | RegExp, options?: WebAssertionOptions): Promise<void>;
+  /** Current value of an input, textarea or select. */
+  toHaveValue(value: string | RegExp, options?: WebAssertionOptions): Promise<void>;
+  /** Checkbox or radio is checked (or option is selected). */
+  toBeChecked(options?: WebAssertionOptions): Promise<void>;
+  toBeEnabled(options?: WebAssertionOptions): Promise<void>;
+  /** Number of elements matching the locator. */
+  toHaveCount(count: number, options?: WebAssertionOptions): Promise<void>;
+  /** Page URL equals the string or matches the RegExp. For the browser or a tab. */
+  toHaveURL(url: string | RegExp, options?: WebAssertionOptions): Promise<void>;
+}
+
+export const DEFAULT_EXPECT_TIMEOUT = 5000;
+const POLL_MS = 100;
+
+let expectTimeout = DEFAULT_EXPECT_TIMEOUT;
+
+/** Default timeout for web-first assertions (set via expect.configure). */
+export function setExpectTimeout(ms: number): void {
+  expectTimeout = ms;
+}
+
+/** Anything with a page URL: the browser (url()) or a tab (getUrl()). */
+type PageLike = { url(): Promise<string> } | { getUrl(): Promise<string> };
+
+export function isLocator(value: unknown): value is LocatorApi {
+  const v = value as Partial<LocatorApi> | null;
+  return !!v && typeof v === 'object' && typeof v.count === 'function' && typeof v.textContent === 'function' &&
+    typeof v.isVisible === 'function';
+}
+
+export function isPageLike(value: unknown): value is PageLike {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return typeof v.getUrl === 'function' || typeof v.url === 'function';
+}
+
+function readUrl(page: PageLike): Promise<string> {
+  return 'getUrl' in page ? page.getUrl() : page.url();
+}
+
+/** Marks a read where no element matched the locator. */
+const MISSING = Symbol('missing');
+type Read<T> = T | typeof MISSING;
+
+/** Read from the element only if one exists, so backends that auto-wait for the element don't block the poll loop. */
+async function ifPresent<T>(locator: LocatorApi, read: () => Promise<T>): Promise<Read<T>> {
+  return (await locator.count()) === 0 ? MISSING : read();
+}
+
+/** Resolve with the value, or reject once ms have passed. */
+function withDeadline<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('timed out reading the page')), Math.max(ms, 0));
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+interface PollOutcome<T> {
+  /** Matcher result of the last successful read (pass !== negate means the assertion held). */
+  pass: boolean;
+  value?: Read<T>;
+  /** Error from the last read, if it threw (e.g. the locator matched several elements). */
+  error?: Error;
+}
+
+/** Read and check until the check gives the wanted answer or the timeout is spent. */
+async function poll<T>(
+  read: () => Promise<Read<T>>,
+  check: (value: Read<T>) => boolean,
+  negate: boolean,
+  timeout: number
+): Promise<PollOutcome<T>> {
+  const deadline = Date.now() + timeout;
+  let outcome: PollOutcome<T> = { pass: negate };
+  for (;;) {
+    try {
+      const value = await withDeadline(read(), deadline - Date.now());
+      outcome = { pass: check(value), value };
+      if (outcome.pass !== negate) return outcome;
+    } catch (err) {
+      outcome = { pass: negate, error: err instanceof Error ? err : new Error(String(err)) };
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) return outcome;
+    await new Promise((r) => setTimeout(r, Math.min(POLL_MS, remaining)));
+  }
+}
+
+const fmt = (value: unknown) => formatValueInline(value);
+
+function matchesText(actual: string, expected: string | RegExp, normalize = false): boolean {
+  if (typeof expected !== 'string') return new RegExp(expected.source, expected.flags.replace('g', '')).test(actual);
+  const norm = (s: string) => (normalize ? s.replace(/\s+/g, ' ').trim() : s);
+  return norm(actual) === norm(expected);
+}
+
+/**
+ * Poll and turn the outcome into a MatcherResult.
+ * @param call - e.g. 'toHaveText("Done")', used in the failure message.
+ * @param describe - what was found when the check did not hold (e.g. 'element is hidden').
+ */
+async function assertEventually<T>(opts: {
+  call: string;
+  subject: 'locator' | 'page';
+  negate: boolean;
+  options: WebAssertionOptions | undefined;
+  read: () => Promise<Read<T>>;
+  check: (value: Read<T>) => boolean;
+  expected?: unknown;
+  describe?: (value: Read<T>) => string | undefined;
+}): Promise<MatcherResult> {
+  const timeout = opts.options?.timeout ?? expectTimeout;
+  const result = await poll(opts.read, opts.check, opts.negate, timeout);
+  const header = `expect(${opts.subject})${opts.negate ? '.not' : ''}.${opts.call} failed after ${timeout}ms`;
+  let reason: string | undefined;
+  if (result.error) reason = result.error.message;
+  else if (result.value === MISSING) reason = 'no element matched the locator';
+  else if (opts.describe && 'value' in result) reason = opts.describe(result.value as Read<T>);
+  const hasValue = 'value' in result && result.value !== MISSING && typeof result.value !== 'boolean';
+  return {
+    pass: result.pass,
+    message: reason ? `${header}: ${reason}` : header,
+    expected: opts.expected,
+    actual: hasValue ? result.value : undefined,
+  };
+}
+
+interface WebMatcher {
+  subject: 'locator' | 'page';
+  run(received: unknown, negate: boolean, ...args: unknown[]): Promise<MatcherResult>;
+}
+
+/** Matcher on a locator: received is checked to be a locator, arguments are narrowed by run. */
+function locatorMatcher(
+  run: (locator: LocatorApi, negate: boolean, args: unknown[]) => Promise<MatcherResult>
+): WebMatcher {
+  return {
+    subject: 'locator',
+    run: async (received, negate, ...args) => {
+      if (!isLocator(received)) throw new TypeError(`Expected a locator, got ${fmt(received)}`);
+      return run(received, negate, args);
+    },
+  };
+}
+
+/** Matcher on the browser or a tab. */
+function pageMatcher(
+  run: (page: PageLike, negate: boolean, args: unknown[]) => Promise<MatcherResult>
+): WebMatcher {
+  return {
+    subject: 'page',
+    run: async (received, negate, ...args) => {
+      if (!isPageLike(received)) throw new TypeError(`Expected the browser or a tab, got ${fmt(received)}`);
+      return run(received, negate, args);
+    },
+  };
+}
+
+function textArg(value: unknown, matcher: string): string | RegExp {
+  if (typeof value === 'string' || value instanceof RegExp) return value;
+  throw new TypeError(`.${matcher}() expects a string or RegExp, got ${fmt(value)}`);
+}
+
+function stringArg(value: unknown, matcher: string): string {
+  if (typeof value === 'string') return value;
+  throw new TypeError(`.${matcher}() expects a string, got ${fmt(value)}`);
+}
+
+function numberArg(value: unknown, matcher: string): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  throw new TypeError(`.${matcher}() expects a number, got ${fmt(value)}`);
+}
+
+function optionsArg(value: unknown, matcher: string): WebAssertionOptions | undefined {
+  if (value === undefined) return undefined;
+  const timeout = value !== null && typeof value === 'object' ? (value as { timeout?: unknown }).timeout : null;
+  if (timeout === undefined || (typeof timeout === 'number' && timeout >= 0)) return { timeout };
+  throw new TypeError(`.${matcher}() expects options { timeout?: number }, got ${fmt(value)}`);
+}
+
+/** Web matcher implementations; subject says what expect() must be called with. */
+export const webMatchers: Record<keyof WebMatchers, WebMatcher> = {
+  toHaveText: locatorMatcher((locator, negate, args) => {
+    const expected = textArg(args[0], 'toHaveText');
+    return assertEventually({
+      call: `toHaveText(${fmt(expected)})`,
+      subject: 'locator',
+      negate,
+      options: optionsArg(args[1], 'toHaveText'),
+      read: () => ifPresent(locator, () => locator.textContent()),
+      check: (text) => text !== MISSING && matchesText(text, expected, true),
+      expected,
+    });
+  }),
+  toBeVisible: locatorMatcher((locator, negate, args) =>
+    assertEventually({
+      call: 'toBeVisible()',
+      subject: 'locator',
+      negate,
+      options: optionsArg(args[0], 'toBeVisible'),
+      read: () => ifPresent(locator, () => locator.isVisible()),
+      check: (visible) => visible === true,
+      describe: (visible) => (visible ? 'element is visible' : 'element is hidden'),
+    })
+  ),
+  toBeHidden: locatorMatcher((locator, negate, args) =>
+    assertEventually({
+      call: 'toBeHidden()',
+      subject: 'locator',
+      negate,
+      options: optionsArg(args[0], 'toBeHidden'),
+      read: () => ifPresent(locator, () => locator.isVisible()),
+      check: (visible) => visible !== true,
+      describe: (visible) => (visible ? 'element is visible' : 'element is hidden'),
+    })
+  ),
+  toHaveAttribute: locatorMatcher((locator, negate, args) => {
+    const name = stringArg(args[0], 'toHaveAttribute');
+    const value = textArg(args[1], 'toHaveAttribute');
+    return assertEventually({
+      call: `toHaveAttribute(${fmt(name)}, ${fmt(value)})`,
+      subject: 'locator',
+      negate,
+      options: optionsArg(args[2], 'toHaveAttribute'),
+      read: () => ifPresent(locator, () => locator.getAttribute(name)),
+      check: (actual) => actual !== MISSING && matchesText(actual, value),
+      expected: value,
+    });
+  }),
+  toHaveValue: locatorMatcher((locator, negate, args) => {
+    const value = textArg(args[0], 'toHaveValue');
+    return assertEventually({
+      call: `toHaveValue(${fmt(value)})`,
+      subject: 'locator',
+      negate,
+      options: optionsArg(args[1], 'toHaveValue'),
+      read: () => ifPresent(locator, () => locator.getAttribute('value')),
+      check: (actual) => actual !== MISSING && matchesText(actual, value),
+      expected: value,
+    });
+  }),
+  toBeChecked: locatorMatcher((locator, negate, args) =>
+    assertEventually({
+      call: 'toBeChecked()',
+      subject: 'locator',
+      negate,
+      options: optionsArg(args[0], 'toBeChecked'),
+      read: () => ifPresent(locator, () => locator.isSelected()),
+      check: (checked) => checked === true,
+      describe: (checked) => (checked ? 'element is checked' : 'element is not checked'),
+    })
+  ),
+  toBeEnabled: locatorMatcher((locator, negate, args) =>
+    assertEventually({
+      call: 'toBeEnabled()',
+      subject: 'locator',
+      negate,
+      options: optionsArg(args[0], 'toBeEnabled'),
+      read: () => ifPresent(locator, () => locator.isDisabled()),
+      check: (disabled) => disabled === false,
+      describe: (disabled) => (disabled ? 'element is disabled' : 'element is enabled'),
+    })
+  ),
+  toHaveCount: locatorMatcher((locator, negate, args) => {
+    const count = numberArg(args[0], 'toHaveCount');
+    return assertEventually({
+      call: `toHaveCount(${count})`,
+      subject: 'locator',
+      negate,
+      options: optionsArg(args[1], 'toHaveCount'),
+      read: () => locator.count(),
+      check: (actual) => actual === count,
+      expected: count,
+    });
+  }),
+  toHaveURL: pageMatcher((page, negate, args) => {
+    const url = textArg(args[0], 'toHaveURL');
+    return assertEventually({
+      call: `toHaveURL(${fmt(url)})`,
+      subject: 'page',
+      negate,
+      options: optionsArg(args[1], 'toHaveURL'),
+      read: () => readUrl(page),
+      check: (actual) => actual !== MISSING && matchesText(actual, url),
+      expected: url,
+    });
+  }),
+};
@@ -0,0 +1,39 @@
+/**
+ * Worker process entry for --workers: runs one test file in isolation and sends its RunResult to the parent.
+ */
+
+import { run } from './runner';
+import { loadTestFile } from './test-loader';
+import { serializeRunResult, type WorkerRequest, type WorkerResponse } from './parallel';
+import { closeOpenBrowsers } from './browser/failure-screenshot';
+
+function send(response: WorkerResponse): void {
+  process.send!(response, () => process.exit(0));
+}
+
+// The parent stops the remaining workers when another file fails to load: don't leave browsers behind
+process.once('SIGTERM', () => {
+  closeOpenBrowsers().finally(() => process.exit(1));
+});
+
+process.once('message', async (request: WorkerRequest) => {
+  try {
+    loadTestFile(request.file);
+  } catch (err) {
+    send({ type: 'load-error', message: err instanceof Error ? err.stack || err.message : String(err) });
+    return;
+  }
+  const result = await run({
+    tags: request.tags.length > 0 ? request.tags : undefined,
+    file: request.rel,
+    timeout: request.timeout,
+    retries: request.retries,
+    updateSnapshots: request.updateSnapshots,
+    ci: request.ci,
+    har: request.har,
+    screenshotOnFailure: request.screenshotOnFailure,
+    trace: request.trace,
+    reportDir: request.reportDir,
+  });
+  send({ type: 'result', result: serializeRunResult(result) });
+});